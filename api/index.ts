@@ -0,0 +1,28 @@
+// Função do Vercel: todas as rotas /api/* passam pelo mesmo app Express do servidor (server/routes.ts),
+// com login, limites de tentativas, sessões e permissões idênticos. O banco vem das mesmas variáveis
+// de ambiente do servidor (ver server/storage-config.ts), por exemplo STORAGE_DRIVER=turso e TURSO_DB_URL.
+import type { IncomingMessage, ServerResponse } from "http";
+import type { Request, Response, NextFunction } from "express";
+import { createApp } from "../server/app";
+import { registerRoutes } from "../server/routes";
+import { storage } from "../server/storage";
+
+// O Vercel sobrescreve X-Forwarded-For com o IP do cliente, usado nos limites de tentativas de login
+const app = createApp(true);
+
+// Inicializado uma vez por instância da função; um esquema desconhecido faz todas as requisições falharem
+const ready = (async () => {
+  await storage.initialize();
+  await registerRoutes(app);
+
+  app.use((err: any, req: Request, res: Response, _next: NextFunction) => {
+    console.error("Erro na API:", { path: req.path, method: req.method, error: err });
+    res.status(err.status || err.statusCode || 500).json({ message: err.message || "Internal Server Error" });
+  });
+})();
+
+// Handler para requisições ao Vercel
+export default async function handler(req: IncomingMessage, res: ServerResponse) {
+  await ready;
+  app(req, res);
+}
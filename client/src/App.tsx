@@ -9,6 +9,7 @@ import LoginPage from "@/pages/login";
 import AdminDashboard from "@/pages/admin-dashboard";
 import EmbasaDashboard from "@/pages/embasa-dashboard";
 import SacDashboard from "@/pages/sac-dashboard";
+import SupervisorDashboard from "@/pages/supervisor-dashboard";
 
 function Router() {
   return (
@@ -17,6 +18,7 @@ function Router() {
       <Route path="/admin" component={AdminDashboard} />
       <Route path="/embasa" component={EmbasaDashboard} />
       <Route path="/sac" component={SacDashboard} />
+      <Route path="/supervisor" component={SupervisorDashboard} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,142 @@
+import { z } from "zod";
+import type { Control } from "react-hook-form";
+import { format, formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+// UI Components
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+
+// Validade e limites de uso de um código de acesso (campos vazios = sem restrição)
+export const accessCodeLimitsSchema = z.object({
+  validFrom: z.string().optional(),
+  expiresAt: z.string().optional(),
+  maxLogins: z.string().regex(/^\d*$/, "Informe um número inteiro").optional(),
+  maxBookings: z.string().regex(/^\d*$/, "Informe um número inteiro").optional(),
+});
+
+export type AccessCodeLimitsValues = z.infer<typeof accessCodeLimitsSchema>;
+
+export type AccessCodeLimits = {
+  validFrom: string | null;
+  expiresAt: string | null;
+  maxLogins: number | null;
+  maxBookings: number | null;
+  loginCount: number;
+  bookingCount: number;
+};
+
+// SQLite grava os horários em UTC sem fuso
+const parseTimestamp = (value: string) => new Date(`${value.replace(" ", "T")}Z`);
+
+// Valores do formulário (datetime-local no fuso do navegador) para o corpo da requisição
+export const limitsToPayload = (values: AccessCodeLimitsValues) => ({
+  validFrom: values.validFrom ? new Date(values.validFrom).toISOString() : null,
+  expiresAt: values.expiresAt ? new Date(values.expiresAt).toISOString() : null,
+  maxLogins: values.maxLogins ? Number(values.maxLogins) : null,
+  maxBookings: values.maxBookings ? Number(values.maxBookings) : null,
+});
+
+export const limitsToFormValues = (code: AccessCodeLimits): AccessCodeLimitsValues => ({
+  validFrom: code.validFrom ? format(parseTimestamp(code.validFrom), "yyyy-MM-dd'T'HH:mm") : "",
+  expiresAt: code.expiresAt ? format(parseTimestamp(code.expiresAt), "yyyy-MM-dd'T'HH:mm") : "",
+  maxLogins: code.maxLogins ? String(code.maxLogins) : "",
+  maxBookings: code.maxBookings ? String(code.maxBookings) : "",
+});
+
+// Resumo para a tabela: tempo até expirar e usos consumidos
+export function describeAccessCodeValidity(code: AccessCodeLimits, now = new Date()): string[] {
+  const lines: string[] = [];
+
+  if (code.validFrom && parseTimestamp(code.validFrom) > now) {
+    lines.push(`Válido a partir de ${format(parseTimestamp(code.validFrom), "dd/MM/yyyy HH:mm")}`);
+  }
+
+  if (code.expiresAt) {
+    const expiresAt = parseTimestamp(code.expiresAt);
+    lines.push(
+      expiresAt <= now
+        ? `Expirou em ${format(expiresAt, "dd/MM/yyyy HH:mm")}`
+        : `Expira ${formatDistanceToNow(expiresAt, { addSuffix: true, locale: ptBR })}`
+    );
+  }
+
+  if (code.maxLogins) {
+    lines.push(`${code.loginCount}/${code.maxLogins} logins`);
+  }
+
+  if (code.maxBookings) {
+    lines.push(`${code.bookingCount}/${code.maxBookings} agendamentos`);
+  }
+
+  return lines.length > 0 ? lines : ["Sem limite"];
+}
+
+// Campos de validade e limites, compartilhados pelos formulários de criação e edição de códigos
+export default function AccessCodeLimitsFields({ control }: { control: Control<any> }) {
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <FormField
+        control={control}
+        name="validFrom"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Válido a partir de</FormLabel>
+            <FormControl>
+              <Input type="datetime-local" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={control}
+        name="expiresAt"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Expira em</FormLabel>
+            <FormControl>
+              <Input type="datetime-local" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={control}
+        name="maxLogins"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Limite de logins</FormLabel>
+            <FormControl>
+              <Input type="number" min={1} placeholder="Sem limite" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={control}
+        name="maxBookings"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Limite de agendamentos</FormLabel>
+            <FormControl>
+              <Input type="number" min={1} placeholder="Sem limite" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { LogOut } from "lucide-react";
+import { format } from "date-fns";
+
+// UI Components
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+
+type Session = {
+  id: number;
+  accessCodeId: number;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+};
+
+type SessionsDialogProps = {
+  accessCode: { id: number; code: string } | null;
+  onClose: () => void;
+};
+
+// SQLite grava CURRENT_TIMESTAMP em UTC sem fuso
+const formatTimestamp = (value: string) => format(new Date(`${value.replace(" ", "T")}Z`), "dd/MM/yyyy HH:mm");
+
+// Active sessions of an access code, with per-session and "sign out everywhere" revocation
+export default function AccessCodeSessionsDialog({ accessCode, onClose }: SessionsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const {
+    data: sessions = [],
+    isLoading,
+  } = useQuery<Session[]>({
+    queryKey: [`/api/access-codes/${accessCode?.id}/sessions`],
+    enabled: !!accessCode,
+  });
+
+  const invalidateSessions = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/access-codes/${accessCode?.id}/sessions`] });
+  };
+
+  // Mutation for revoking a single session
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/sessions/${id}`, undefined);
+    },
+    onSuccess: () => {
+      invalidateSessions();
+      toast({
+        title: "Sessão encerrada",
+        description: "O dispositivo precisará entrar novamente",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao encerrar sessão",
+        description: "Não foi possível encerrar a sessão",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutation for revoking every session of the access code
+  const revokeAllMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/access-codes/${accessCode?.id}/sessions`, undefined);
+      return (await res.json()) as { revoked: number };
+    },
+    onSuccess: ({ revoked }) => {
+      invalidateSessions();
+      toast({
+        title: "Sessões encerradas",
+        description: `${revoked} sessão(ões) encerrada(s)`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao encerrar sessões",
+        description: "Não foi possível encerrar as sessões",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!accessCode} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Sessões Ativas</DialogTitle>
+          <DialogDescription>
+            Dispositivos conectados com o código {accessCode?.code}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-8 text-center">
+            <p>Carregando sessões...</p>
+          </div>
+        ) : sessions.length === 0 ? (
+          <div className="py-8 text-center text-neutral-600">
+            <p>Nenhuma sessão ativa</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Início</TableHead>
+                  <TableHead>Último acesso</TableHead>
+                  <TableHead>IP</TableHead>
+                  <TableHead>Navegador</TableHead>
+                  <TableHead>Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.map((session) => (
+                  <TableRow key={session.id}>
+                    <TableCell>{formatTimestamp(session.createdAt)}</TableCell>
+                    <TableCell>{formatTimestamp(session.lastSeenAt)}</TableCell>
+                    <TableCell>{session.ip || "-"}</TableCell>
+                    <TableCell className="max-w-[12rem] truncate" title={session.userAgent ?? undefined}>
+                      {session.userAgent || "-"}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => revokeSessionMutation.mutate(session.id)}
+                        disabled={revokeSessionMutation.isPending}
+                        className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                      >
+                        <LogOut className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Fechar
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => revokeAllMutation.mutate()}
+            disabled={revokeAllMutation.isPending || sessions.length === 0}
+          >
+            {revokeAllMutation.isPending ? "Encerrando..." : "Encerrar Todas"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { downloadCsv } from "@/lib/utils";
+import { AUDIT_ACTION_NAMES, AUDIT_ENTITY_NAMES, ROLE_NAMES } from "@/lib/constants";
+import { format } from "date-fns";
+import { Download } from "lucide-react";
+
+// UI Components
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+
+type AuditEvent = {
+  id: number;
+  actorCode: string | null;
+  actorAccountId: number | null;
+  actorRole: keyof typeof ROLE_NAMES | null;
+  action: string;
+  entityType: keyof typeof AUDIT_ENTITY_NAMES;
+  entityId: number | null;
+  changes: Record<string, { before: unknown; after: unknown }>;
+  ip: string | null;
+  createdAt: string;
+};
+
+type AuditFilters = {
+  actor: string;
+  entityType: keyof typeof AUDIT_ENTITY_NAMES | "all";
+  from: string;
+  to: string;
+};
+
+// Quantidade exibida na tela; a exportação busca até o limite do servidor
+const PAGE_LIMIT = 200;
+const EXPORT_LIMIT = 5000;
+
+const auditEventsUrl = (filters: AuditFilters, limit: number) => {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (filters.actor.trim()) params.set("actor", filters.actor.trim());
+  if (filters.entityType !== "all") params.set("entityType", filters.entityType);
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  return `/api/audit-events?${params}`;
+};
+
+const fetchAuditEvents = async (filters: AuditFilters, limit: number): Promise<AuditEvent[]> => {
+  const res = await fetch(auditEventsUrl(filters, limit));
+  if (!res.ok) throw new Error("Failed to fetch audit events");
+  return res.json();
+};
+
+// SQLite grava CURRENT_TIMESTAMP em UTC sem fuso
+const formatTimestamp = (value: string) => format(new Date(`${value.replace(" ", "T")}Z`), 'dd/MM/yyyy HH:mm:ss');
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? "-" : typeof value === "object" ? JSON.stringify(value) : String(value);
+
+const describeChanges = (event: AuditEvent) =>
+  Object.entries(event.changes).map(([field, change]) => `${field}: ${formatValue(change.before)} → ${formatValue(change.after)}`);
+
+const exportCsv = (events: AuditEvent[]) =>
+  downloadCsv("auditoria", [
+    ["data_hora", "autor", "perfil", "conta", "acao", "entidade", "id", "alteracoes", "ip"],
+    ...events.map((event) => [
+      formatTimestamp(event.createdAt),
+      event.actorCode ?? "sistema",
+      event.actorRole ?? "",
+      event.actorAccountId ? String(event.actorAccountId) : "",
+      event.action,
+      event.entityType,
+      event.entityId ? String(event.entityId) : "",
+      JSON.stringify(event.changes),
+      event.ip ?? "",
+    ]),
+  ]);
+
+// Admin audit trail: who changed what, when and from where, filtered by actor, entity and period
+export default function AuditLogCard() {
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<AuditFilters>({ actor: "", entityType: "all", from: "", to: "" });
+  const [isExporting, setIsExporting] = useState(false);
+
+  const {
+    data: events = [],
+    isLoading,
+  } = useQuery<AuditEvent[]>({
+    queryKey: ["/api/audit-events", filters],
+    queryFn: () => fetchAuditEvents(filters, PAGE_LIMIT),
+  });
+
+  const updateFilter = <K extends keyof AuditFilters>(key: K, value: AuditFilters[K]) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      exportCsv(await fetchAuditEvents(filters, EXPORT_LIMIT));
+    } catch (error) {
+      toast({
+        title: "Erro ao exportar",
+        description: "Não foi possível exportar a trilha de auditoria",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="text-xl text-blue-800 flex items-center">
+            <span className="material-icons mr-2">history</span>
+            Auditoria
+          </CardTitle>
+          <CardDescription>
+            Registro permanente das alterações feitas no sistema; exibe os {PAGE_LIMIT} eventos mais recentes do filtro
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+          <Download className="mr-2 h-4 w-4" />
+          {isExporting ? "Exportando..." : "Exportar CSV"}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+          <div className="space-y-1">
+            <Label htmlFor="audit-actor">Autor</Label>
+            <Input
+              id="audit-actor"
+              placeholder="Código de acesso"
+              value={filters.actor}
+              onChange={(e) => updateFilter("actor", e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Entidade</Label>
+            <Select
+              value={filters.entityType}
+              onValueChange={(value) => updateFilter("entityType", value as AuditFilters["entityType"])}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas</SelectItem>
+                {Object.entries(AUDIT_ENTITY_NAMES).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-from">De</Label>
+            <Input id="audit-from" type="date" value={filters.from} onChange={(e) => updateFilter("from", e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to">Até</Label>
+            <Input id="audit-to" type="date" value={filters.to} onChange={(e) => updateFilter("to", e.target.value)} />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="py-8 text-center">
+            <p>Carregando eventos...</p>
+          </div>
+        ) : events.length === 0 ? (
+          <div className="py-8 text-center text-neutral-600">
+            <p>Nenhum evento encontrado para o filtro</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data/Hora</TableHead>
+                  <TableHead>Autor</TableHead>
+                  <TableHead>Ação</TableHead>
+                  <TableHead>Entidade</TableHead>
+                  <TableHead>Alterações</TableHead>
+                  <TableHead>IP</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="font-medium whitespace-nowrap">{formatTimestamp(event.createdAt)}</TableCell>
+                    <TableCell>
+                      {event.actorCode ?? "Sistema"}
+                      {event.actorRole && (
+                        <span className="block text-xs text-neutral-500">
+                          {ROLE_NAMES[event.actorRole] ?? event.actorRole}
+                          {event.actorAccountId ? ` · conta #${event.actorAccountId}` : ""}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>{AUDIT_ACTION_NAMES[event.action] ?? event.action}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {AUDIT_ENTITY_NAMES[event.entityType] ?? event.entityType}
+                      {event.entityId ? ` #${event.entityId}` : ""}
+                    </TableCell>
+                    <TableCell className="text-xs text-neutral-600 max-w-md">
+                      {describeChanges(event).map((line) => (
+                        <p key={line} className="truncate" title={line}>{line}</p>
+                      ))}
+                    </TableCell>
+                    <TableCell>{event.ip || "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+import { z } from "zod";
+import type { AvailabilityAudience } from "@shared/schema";
+import type { Location } from "@/components/locations-card";
+
+// UI Components
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+
+// Público da disponibilidade no formulário; null publica para todos os postos SAC
+export const audienceFormSchema = z
+  .object({
+    locationIds: z.array(z.number()),
+    municipalities: z.array(z.string()),
+  })
+  .nullable()
+  .refine(audience => !audience || audience.locationIds.length > 0 || audience.municipalities.length > 0, {
+    message: "Selecione ao menos um posto SAC ou município",
+  });
+
+// Postos SAC do mesmo município da unidade EMBASA, o público padrão de uma nova disponibilidade
+export const regionAudience = (locations: Location[], locationId?: number | null): AvailabilityAudience | null => {
+  const municipality = locations.find(location => location.id === locationId)?.municipality;
+  return municipality ? { locationIds: [], municipalities: [municipality] } : null;
+};
+
+// Resumo do público para os detalhes da disponibilidade
+export function describeAudience(audience: AvailabilityAudience | null, locations: Location[]): string {
+  if (!audience) {
+    return "Todos os postos SAC";
+  }
+
+  const names = audience.locationIds.map(id => locations.find(location => location.id === id)?.name ?? `Posto #${id}`);
+  return [...audience.municipalities, ...names].join(", ");
+}
+
+type AvailabilityAudienceFieldProps = {
+  value: AvailabilityAudience | null;
+  onChange: (value: AvailabilityAudience | null) => void;
+  locations: Location[];
+  idPrefix: string;
+};
+
+// Escolha dos postos SAC que podem agendar a disponibilidade: todos, ou municípios e postos selecionados
+export default function AvailabilityAudienceField({ value, onChange, locations, idPrefix }: AvailabilityAudienceFieldProps) {
+  const sacLocations = locations.filter(location => location.type === "sac" && location.active);
+  const municipalities = Array.from(
+    new Set(sacLocations.map(location => location.municipality?.trim()).filter((m): m is string => !!m))
+  ).sort();
+
+  const toggle = <K extends keyof AvailabilityAudience>(key: K, item: AvailabilityAudience[K][number], checked: boolean) => {
+    const current = (value?.[key] ?? []) as AvailabilityAudience[K][number][];
+    const next = current.filter(existing => existing !== item);
+    onChange({
+      locationIds: value?.locationIds ?? [],
+      municipalities: value?.municipalities ?? [],
+      [key]: checked ? [...next, item] : next,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <RadioGroup
+        value={value ? "selected" : "all"}
+        onValueChange={(mode) => onChange(mode === "all" ? null : { locationIds: [], municipalities: [] })}
+        className="flex gap-4"
+      >
+        <div className="flex items-center space-x-1">
+          <RadioGroupItem value="all" id={`${idPrefix}-audience-all`} />
+          <Label htmlFor={`${idPrefix}-audience-all`} className="font-normal">Todos os postos SAC</Label>
+        </div>
+        <div className="flex items-center space-x-1">
+          <RadioGroupItem value="selected" id={`${idPrefix}-audience-selected`} />
+          <Label htmlFor={`${idPrefix}-audience-selected`} className="font-normal">Regiões ou postos específicos</Label>
+        </div>
+      </RadioGroup>
+
+      {value && (
+        <div className="grid grid-cols-2 gap-3 rounded-md border p-3">
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-neutral-600">Municípios</p>
+            {municipalities.length === 0 && <p className="text-xs text-neutral-500">Nenhum município cadastrado</p>}
+            {municipalities.map(municipality => (
+              <div key={municipality} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${idPrefix}-municipality-${municipality}`}
+                  checked={value.municipalities.includes(municipality)}
+                  onCheckedChange={(checked) => toggle("municipalities", municipality, checked === true)}
+                />
+                <Label htmlFor={`${idPrefix}-municipality-${municipality}`} className="font-normal">{municipality}</Label>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-neutral-600">Postos SAC</p>
+            {sacLocations.length === 0 && <p className="text-xs text-neutral-500">Nenhum posto SAC cadastrado</p>}
+            {sacLocations.map(location => (
+              <div key={location.id} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${idPrefix}-location-${location.id}`}
+                  checked={value.locationIds.includes(location.id)}
+                  onCheckedChange={(checked) => toggle("locationIds", location.id, checked === true)}
+                />
+                <Label htmlFor={`${idPrefix}-location-${location.id}`} className="font-normal">{location.name}</Label>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
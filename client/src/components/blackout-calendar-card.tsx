@@ -0,0 +1,363 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { apiRequest } from "@/lib/queryClient";
+import { BLACKOUT_TYPE_NAMES } from "@/lib/constants";
+import type { BlackoutDate } from "@/hooks/use-blackout-dates";
+import { Trash2, Plus, Download } from "lucide-react";
+import { format, parseISO } from "date-fns";
+
+// UI Components
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+// Form schema for adding holidays and closures
+const blackoutFormSchema = z.object({
+  date: z.string().min(1, "Data é obrigatória"),
+  name: z.string().trim().min(1, "Descrição é obrigatória"),
+  type: z.enum(["national", "state", "municipal", "closure"]),
+  location: z.string().optional(),
+});
+
+type BlackoutFormValues = z.infer<typeof blackoutFormSchema>;
+
+// Admin management of the holiday and blackout calendar
+export default function BlackoutCalendarCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+
+  const {
+    data: blackouts = [],
+    isLoading,
+  } = useQuery<BlackoutDate[]>({
+    queryKey: ["/api/blackout-dates", year],
+    queryFn: async () => {
+      const res = await fetch(`/api/blackout-dates?year=${year}`);
+      if (!res.ok) throw new Error("Failed to fetch blackout dates");
+      return res.json();
+    },
+  });
+
+  const form = useForm<BlackoutFormValues>({
+    resolver: zodResolver(blackoutFormSchema),
+    defaultValues: {
+      date: "",
+      name: "",
+      type: "closure",
+      location: "",
+    },
+  });
+
+  // Mutation for creating holidays and closures
+  const createBlackoutMutation = useMutation({
+    mutationFn: async (data: BlackoutFormValues) => {
+      await apiRequest("POST", "/api/blackout-dates", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/blackout-dates"] });
+      setIsAddDialogOpen(false);
+      form.reset();
+      toast({
+        title: "Bloqueio criado",
+        description: "A data foi bloqueada no calendário",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao criar bloqueio",
+        description: "Não foi possível bloquear a data",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutation for loading the bundled holidays of the selected year
+  const importHolidaysMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/blackout-dates/holidays", { year });
+      return (await res.json()) as { imported: number };
+    },
+    onSuccess: ({ imported }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/blackout-dates"] });
+      toast({
+        title: "Feriados carregados",
+        description: imported > 0
+          ? `${imported} feriado(s) de ${year} adicionados ao calendário`
+          : `Os feriados de ${year} já estavam no calendário`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao carregar feriados",
+        description: "Não foi possível carregar os feriados",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutation for deleting holidays and closures
+  const deleteBlackoutMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/blackout-dates/${id}`, undefined);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/blackout-dates"] });
+      toast({
+        title: "Bloqueio removido",
+        description: "A data voltou a aceitar disponibilidades e agendamentos",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao remover bloqueio",
+        description: "Não foi possível remover o bloqueio",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="text-xl text-blue-800 flex items-center">
+            <span className="material-icons mr-2">event_busy</span>
+            Feriados e Fechamentos
+          </CardTitle>
+          <CardDescription>
+            Datas em que não é possível publicar horários nem agendar atendimentos
+          </CardDescription>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Input
+            type="number"
+            className="w-24"
+            value={year}
+            onChange={(e) => setYear(Number(e.target.value) || new Date().getFullYear())}
+          />
+          <Button
+            variant="outline"
+            onClick={() => importHolidaysMutation.mutate()}
+            disabled={importHolidaysMutation.isPending}
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Carregar Feriados
+          </Button>
+          <Button
+            onClick={() => {
+              form.reset();
+              setIsAddDialogOpen(true);
+            }}
+            className="bg-blue-800 hover:bg-blue-900"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Novo Bloqueio
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="py-8 text-center">
+            <p>Carregando calendário...</p>
+          </div>
+        ) : blackouts.length === 0 ? (
+          <div className="py-8 text-center text-neutral-600">
+            <p>Nenhuma data bloqueada em {year}</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Descrição</TableHead>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead>Unidade ou município</TableHead>
+                  <TableHead>Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {blackouts.map((blackout) => (
+                  <TableRow key={blackout.id}>
+                    <TableCell className="font-medium">
+                      {format(parseISO(blackout.date), 'dd/MM/yyyy')}
+                    </TableCell>
+                    <TableCell>{blackout.name}</TableCell>
+                    <TableCell>
+                      <span
+                        className={`px-2 py-1 rounded-full text-xs font-medium
+                          ${blackout.type === 'closure' ? 'bg-yellow-100 text-yellow-700' : 'bg-neutral-200 text-neutral-700'}`
+                        }
+                      >
+                        {BLACKOUT_TYPE_NAMES[blackout.type]}
+                      </span>
+                    </TableCell>
+                    <TableCell>{blackout.location || "Todas"}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteBlackoutMutation.mutate(blackout.id)}
+                        disabled={deleteBlackoutMutation.isPending}
+                        className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Dialog for adding a holiday or closure */}
+      <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Bloquear Data</DialogTitle>
+            <DialogDescription>
+              Cadastre um feriado ou o fechamento de uma unidade
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit((data) => createBlackoutMutation.mutate(data))}
+              className="space-y-4"
+            >
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Data</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Descrição</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Ex: Manutenção da unidade" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione o tipo" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(BLACKOUT_TYPE_NAMES).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="location"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Unidade ou município</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Deixe em branco para todas as unidades" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsAddDialogOpen(false)}
+                >
+                  Cancelar
+                </Button>
+                <Button
+                  type="submit"
+                  className="bg-blue-800 hover:bg-blue-900"
+                  disabled={createBlackoutMutation.isPending}
+                >
+                  {createBlackoutMutation.isPending ? "Salvando..." : "Bloquear Data"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
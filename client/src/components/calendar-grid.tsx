@@ -7,6 +7,15 @@ import {
   getDay,
   isSameMonth
 } from "date-fns";
+import type { BlackoutDate } from "@/hooks/use-blackout-dates";
+
+type TimeSlot = {
+  id: number;
+  availabilityId: number;
+  startTime: string;
+  capacity: number;
+  remainingSlots: number;
+};
 
 type Availability = {
   id: number;
@@ -17,12 +26,18 @@ type Availability = {
   remainingSlots: number;
   createdBy: string;
   createdAt: string;
+  slotDuration: number;
+  breaks: { start: string; end: string }[];
+  seriesId: number | null;
+  locationId: number | null;
+  slots: TimeSlot[];
 };
 
 interface CalendarGridProps {
   year: number;
   month: number;
   availabilitiesByDate: Record<string, Availability[]>;
+  blackoutsByDate?: Record<string, BlackoutDate[]>;
   isLoading: boolean;
   onAvailabilityClick: (availability: Availability) => void;
   role: "embasa" | "sac";
@@ -32,6 +47,7 @@ export default function CalendarGrid({
   year,
   month,
   availabilitiesByDate,
+  blackoutsByDate = {},
   isLoading,
   onAvailabilityClick,
   role
@@ -51,13 +67,21 @@ export default function CalendarGrid({
   const trailingEmptyCells = Array.from({ length: trailingEmptyCellsCount }, (_, i) => i);
   
   // Helper to get classes for day cell based on availability
-  const getDayClass = (date: Date, hasAvailability: boolean) => {
+  const getDayClass = (date: Date, hasAvailability: boolean, isBlocked: boolean) => {
     let baseClass = "border rounded-md p-2 h-24 overflow-y-auto";
     
     if (!isSameMonth(date, new Date(year, month - 1))) {
       return `${baseClass} opacity-50`;
     }
     
+    // Feriados e fechamentos aparecem em cinza; o SAC não pode agendar neles
+    if (isBlocked) {
+      baseClass += " bg-neutral-100 text-neutral-400";
+      if (role === "sac" || !hasAvailability) {
+        return baseClass;
+      }
+    }
+    
     if (hasAvailability) {
       baseClass += " calendar-day available cursor-pointer";
       if (role === "embasa") {
@@ -127,13 +151,16 @@ export default function CalendarGrid({
         const dateStr = format(day, 'yyyy-MM-dd');
         const availabilities = availabilitiesByDate[dateStr] || [];
         const hasAvailability = availabilities.length > 0;
+        const blackouts = blackoutsByDate[dateStr] || [];
+        const isBlocked = blackouts.length > 0;
+        const isClickable = hasAvailability && !(isBlocked && role === "sac");
         
         return (
           <div
             key={dateStr}
-            className={getDayClass(day, hasAvailability)}
+            className={getDayClass(day, hasAvailability, isBlocked)}
             onClick={() => {
-              if (hasAvailability && availabilities[0]) {
+              if (isClickable && availabilities[0]) {
                 onAvailabilityClick(availabilities[0]);
               }
             }}
@@ -142,19 +169,43 @@ export default function CalendarGrid({
               {format(day, 'd')}
             </div>
             
+            {blackouts.map((blackout) => (
+              <div
+                key={blackout.id}
+                className="text-[10px] leading-tight text-neutral-500 mb-1"
+                title={blackout.location ? `${blackout.name} (${blackout.location})` : blackout.name}
+              >
+                {blackout.name}
+              </div>
+            ))}
+            
             {availabilities.map((avail) => (
               <div 
                 key={avail.id}
-                className={getTimeSlotClass()}
+                className={`${getTimeSlotClass()} ${isBlocked ? "opacity-60" : ""}`}
                 onClick={(e) => {
                   e.stopPropagation();
-                  onAvailabilityClick(avail);
+                  if (isClickable) {
+                    onAvailabilityClick(avail);
+                  }
                 }}
               >
                 {avail.startTime} - {avail.endTime}
                 {role === "sac" && avail.remainingSlots <= 0 && (
                   <span className="ml-1 text-red-500">(Esgotado)</span>
                 )}
+                {/* Ocupação de cada horário: agendados/capacidade */}
+                <div className="flex flex-wrap gap-x-1 mt-0.5 text-[10px] leading-tight">
+                  {avail.slots.map((slot) => (
+                    <span
+                      key={slot.id}
+                      className={slot.remainingSlots <= 0 ? "text-red-500" : "opacity-80"}
+                      title={`${slot.remainingSlots} vaga(s) livre(s) às ${slot.startTime}`}
+                    >
+                      {slot.startTime} {slot.capacity - slot.remainingSlots}/{slot.capacity}
+                    </span>
+                  ))}
+                </div>
               </div>
             ))}
           </div>
@@ -0,0 +1,98 @@
+import { useQuery } from "@tanstack/react-query";
+import { LOGIN_FAILURE_REASON_NAMES } from "@/lib/constants";
+import { format } from "date-fns";
+
+// UI Components
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+type FailedLoginAttempt = {
+  id: number;
+  ip: string | null;
+  accessCode: string | null;
+  reason: keyof typeof LOGIN_FAILURE_REASON_NAMES | null;
+  userAgent: string | null;
+  createdAt: string;
+};
+
+// Admin log of failed login attempts (invalid codes, inactive codes and lockouts)
+export default function FailedLoginAttemptsCard() {
+  const {
+    data: attempts = [],
+    isLoading,
+  } = useQuery<FailedLoginAttempt[]>({
+    queryKey: ["/api/login-attempts"],
+  });
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="text-xl text-blue-800 flex items-center">
+          <span className="material-icons mr-2">gpp_maybe</span>
+          Tentativas de Acesso Malsucedidas
+        </CardTitle>
+        <CardDescription>
+          Últimas 100 falhas de login; após falhas seguidas o IP ou o código fica bloqueado por alguns minutos
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="py-8 text-center">
+            <p>Carregando tentativas...</p>
+          </div>
+        ) : attempts.length === 0 ? (
+          <div className="py-8 text-center text-neutral-600">
+            <p>Nenhuma tentativa malsucedida registrada</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data/Hora</TableHead>
+                  <TableHead>IP</TableHead>
+                  <TableHead>Motivo</TableHead>
+                  <TableHead>Código</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {attempts.map((attempt) => (
+                  <TableRow key={attempt.id}>
+                    <TableCell className="font-medium">
+                      {/* SQLite grava CURRENT_TIMESTAMP em UTC sem fuso */}
+                      {format(new Date(`${attempt.createdAt.replace(" ", "T")}Z`), 'dd/MM/yyyy HH:mm')}
+                    </TableCell>
+                    <TableCell>{attempt.ip || "-"}</TableCell>
+                    <TableCell>
+                      <span
+                        className={`px-2 py-1 rounded-full text-xs font-medium
+                          ${attempt.reason === 'locked' ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-700'}`
+                        }
+                      >
+                        {attempt.reason ? LOGIN_FAILURE_REASON_NAMES[attempt.reason] : "-"}
+                      </span>
+                    </TableCell>
+                    <TableCell>{attempt.accessCode || "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
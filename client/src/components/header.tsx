@@ -4,7 +4,7 @@ import { ThemeToggle } from "./theme-toggle";
 interface HeaderProps {
   title: string;
   icon: string;
-  role: "admin" | "embasa" | "sac";
+  role: "admin" | "embasa" | "sac" | "supervisor";
   username?: string;
   location?: string;
   onLogout: () => void;
@@ -26,6 +26,8 @@ export default function Header({
         return "bg-blue-600";
       case "sac":
         return "bg-green-700";
+      case "supervisor":
+        return "bg-teal-700";
       default:
         return "bg-gray-800";
     }
@@ -39,6 +41,8 @@ export default function Header({
         return "text-blue-600";
       case "sac":
         return "text-green-700";
+      case "supervisor":
+        return "text-teal-700";
       default:
         return "text-gray-800";
     }
@@ -52,6 +56,8 @@ export default function Header({
         return "hover:bg-blue-100";
       case "sac":
         return "hover:bg-green-100";
+      case "supervisor":
+        return "hover:bg-teal-100";
       default:
         return "hover:bg-gray-100";
     }
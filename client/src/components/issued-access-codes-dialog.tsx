@@ -0,0 +1,134 @@
+import { ROLE_NAMES } from "@/lib/constants";
+import { downloadCsv } from "@/lib/utils";
+import { Printer, Download } from "lucide-react";
+
+// UI Components
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+
+export type IssuedAccessCode = {
+  id: number;
+  code: string;
+  secret: string;
+  role: keyof typeof ROLE_NAMES;
+  location: string;
+};
+
+type IssuedCodesDialogProps = {
+  codes: IssuedAccessCode[];
+  onClose: () => void;
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// Folha de entrega: um código por linha, para recortar e entregar a cada pessoa
+const printHandout = (codes: IssuedAccessCode[]) => {
+  const rows = codes.map((code) => `
+    <tr>
+      <td>${escapeHtml(code.code)}</td>
+      <td>${escapeHtml(ROLE_NAMES[code.role] ?? code.role)}</td>
+      <td>${escapeHtml(code.location)}</td>
+      <td class="secret">${escapeHtml(code.secret)}</td>
+    </tr>`).join("");
+
+  const handout = window.open("", "_blank");
+  if (!handout) {
+    return;
+  }
+
+  handout.document.write(`
+    <html>
+      <head>
+        <title>Códigos de acesso</title>
+        <style>
+          body { font-family: sans-serif; padding: 24px; }
+          table { border-collapse: collapse; width: 100%; }
+          td, th { border: 1px dashed #999; padding: 12px; text-align: left; }
+          .secret { font-family: monospace; font-size: 18px; letter-spacing: 2px; }
+        </style>
+      </head>
+      <body>
+        <h2>Sistema de Agendamento - Códigos de acesso</h2>
+        <p>Guarde seu código em local seguro. Ele é pessoal e não pode ser recuperado.</p>
+        <table>
+          <thead><tr><th>Identificador</th><th>Perfil</th><th>Unidade</th><th>Código</th></tr></thead>
+          <tbody>${rows}</tbody>
+        </table>
+      </body>
+    </html>`);
+  handout.document.close();
+  handout.print();
+};
+
+const exportCsv = (codes: IssuedAccessCode[]) =>
+  downloadCsv("codigos-de-acesso", [
+    ["identificador", "perfil", "unidade", "codigo"],
+    ...codes.map((code) => [code.code, ROLE_NAMES[code.role] ?? code.role, code.location, code.secret]),
+  ]);
+
+// Newly issued access codes in plain text; shown only once, since the server keeps only their hashes
+export default function IssuedAccessCodesDialog({ codes, onClose }: IssuedCodesDialogProps) {
+  return (
+    <Dialog open={codes.length > 0} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Códigos Gerados</DialogTitle>
+          <DialogDescription>
+            Imprima ou baixe os códigos agora: depois de fechar esta janela eles não poderão ser exibidos novamente
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Identificador</TableHead>
+                <TableHead>Unidade</TableHead>
+                <TableHead>Código</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {codes.map((code) => (
+                <TableRow key={code.id}>
+                  <TableCell>{code.code}</TableCell>
+                  <TableCell>{code.location || "-"}</TableCell>
+                  <TableCell className="font-mono tracking-wider">{code.secret}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => exportCsv(codes)}>
+            <Download className="mr-2 h-4 w-4" />
+            Baixar CSV
+          </Button>
+          <Button type="button" variant="outline" onClick={() => printHandout(codes)}>
+            <Printer className="mr-2 h-4 w-4" />
+            Imprimir
+          </Button>
+          <Button type="button" onClick={onClose}>
+            Concluir
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
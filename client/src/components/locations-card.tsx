@@ -0,0 +1,336 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { apiRequest } from "@/lib/queryClient";
+import { ROLE_NAMES } from "@/lib/constants";
+import { Pencil, Plus, Power, PowerOff } from "lucide-react";
+
+// UI Components
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+export type Location = {
+  id: number;
+  name: string;
+  type: "sac" | "embasa";
+  address: string | null;
+  municipality: string | null;
+  active: boolean;
+  accessCodeCount: number;
+};
+
+// Form schema for creating and editing locations
+const locationFormSchema = z.object({
+  name: z.string().trim().min(1, "Nome é obrigatório"),
+  type: z.enum(["sac", "embasa"], {
+    required_error: "Selecione o tipo da unidade",
+  }),
+  address: z.string().trim(),
+  municipality: z.string().trim(),
+});
+
+type LocationFormValues = z.infer<typeof locationFormSchema>;
+
+// Admin registry of SAC and EMBASA units; units are deactivated instead of removed, since codes keep pointing to them
+export default function LocationsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // null = fechado, "new" = nova unidade
+  const [editingLocation, setEditingLocation] = useState<Location | "new" | null>(null);
+
+  const {
+    data: locations = [],
+    isLoading,
+  } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const form = useForm<LocationFormValues>({
+    resolver: zodResolver(locationFormSchema),
+    defaultValues: {
+      name: "",
+      type: "sac",
+      address: "",
+      municipality: "",
+    },
+  });
+
+  // Renomear a unidade também muda o nome exibido nos códigos de acesso
+  const invalidateLocations = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/access-codes"] });
+  };
+
+  // Mutation for creating or updating locations
+  const saveLocationMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: number; data: Partial<LocationFormValues> & { active?: boolean } }) => {
+      if (id) {
+        await apiRequest("PATCH", `/api/locations/${id}`, data);
+      } else {
+        await apiRequest("POST", "/api/locations", data);
+      }
+    },
+    onSuccess: () => {
+      invalidateLocations();
+      setEditingLocation(null);
+      toast({
+        title: "Unidade salva",
+        description: "O cadastro de unidades foi atualizado",
+      });
+    },
+    onError: (error) => {
+      const isDuplicate = error instanceof Error && error.message.includes("already exists");
+      toast({
+        title: "Erro ao salvar unidade",
+        description: isDuplicate ? "Já existe uma unidade com este nome" : "Não foi possível salvar a unidade",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (location: Location | "new") => {
+    setEditingLocation(location);
+    form.reset(location === "new"
+      ? { name: "", type: "sac", address: "", municipality: "" }
+      : {
+          name: location.name,
+          type: location.type,
+          address: location.address ?? "",
+          municipality: location.municipality ?? "",
+        });
+  };
+
+  const onSubmit = (data: LocationFormValues) => {
+    saveLocationMutation.mutate({
+      id: editingLocation && editingLocation !== "new" ? editingLocation.id : undefined,
+      data,
+    });
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="text-xl text-blue-800 flex items-center">
+            <span className="material-icons mr-2">location_city</span>
+            Unidades
+          </CardTitle>
+          <CardDescription>
+            Postos SAC e unidades EMBASA; o município define quais unidades EMBASA atendem cada SAC
+          </CardDescription>
+        </div>
+        <Button onClick={() => openDialog("new")} className="bg-blue-800 hover:bg-blue-900">
+          <Plus className="mr-2 h-4 w-4" />
+          Nova Unidade
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="py-8 text-center">
+            <p>Carregando unidades...</p>
+          </div>
+        ) : locations.length === 0 ? (
+          <div className="py-8 text-center text-neutral-600">
+            <p>Nenhuma unidade cadastrada</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead>Município</TableHead>
+                  <TableHead>Códigos</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {locations.map((location) => (
+                  <TableRow key={location.id}>
+                    <TableCell className="font-medium">
+                      {location.name}
+                      {location.address && (
+                        <span className="block text-xs text-neutral-500">{location.address}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{ROLE_NAMES[location.type]}</TableCell>
+                    <TableCell>{location.municipality || "-"}</TableCell>
+                    <TableCell>{location.accessCodeCount}</TableCell>
+                    <TableCell>
+                      <span
+                        className={`px-2 py-1 rounded-full text-xs font-medium
+                          ${location.active ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`
+                        }
+                      >
+                        {location.active ? 'Ativa' : 'Inativa'}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openDialog(location)}
+                          className="text-blue-800 hover:text-blue-900 hover:bg-blue-50"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => saveLocationMutation.mutate({ id: location.id, data: { active: !location.active } })}
+                          disabled={saveLocationMutation.isPending}
+                          className="text-blue-800 hover:text-blue-900 hover:bg-blue-50"
+                          title={location.active ? "Desativar" : "Ativar"}
+                        >
+                          {location.active ? <PowerOff className="h-4 w-4" /> : <Power className="h-4 w-4" />}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Dialog for creating and editing locations */}
+      <Dialog open={!!editingLocation} onOpenChange={(open) => !open && setEditingLocation(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingLocation === "new" ? "Nova Unidade" : "Editar Unidade"}</DialogTitle>
+            <DialogDescription>
+              Renomear a unidade atualiza o nome exibido nos códigos de acesso vinculados
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nome</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Ex: SAC Cabula, EMBASA Federação" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tipo</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione o tipo" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="sac">SAC</SelectItem>
+                        <SelectItem value="embasa">EMBASA</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="address"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Endereço</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Opcional" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="municipality"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Município</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Ex: Salvador" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEditingLocation(null)}>
+                  Cancelar
+                </Button>
+                <Button
+                  type="submit"
+                  className="bg-blue-800 hover:bg-blue-900"
+                  disabled={saveLocationMutation.isPending}
+                >
+                  {saveLocationMutation.isPending ? "Salvando..." : "Salvar"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,392 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { apiRequest } from "@/lib/queryClient";
+import { PERMISSION_NAMES, ROLE_NAMES } from "@/lib/constants";
+import { PERMISSIONS, type Permission } from "@shared/schema";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+
+// UI Components
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+export type Role = {
+  id: number;
+  name: string;
+  baseRole: keyof typeof ROLE_NAMES;
+  permissions: Permission[];
+  builtin: boolean;
+  accessCodeCount: number;
+};
+
+// Form schema for creating and editing roles
+const roleFormSchema = z.object({
+  name: z.string().trim().min(1, "Nome é obrigatório"),
+  baseRole: z.enum(["admin", "embasa", "sac", "supervisor"], {
+    required_error: "Selecione o painel do perfil",
+  }),
+  permissions: z.array(z.enum(PERMISSIONS)),
+});
+
+type RoleFormValues = z.infer<typeof roleFormSchema>;
+
+// Admin editor of access profiles: which permissions each profile grants on top of its base dashboard
+export default function RolesCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // null = fechado, "new" = novo perfil
+  const [editingRole, setEditingRole] = useState<Role | "new" | null>(null);
+  const [roleToDelete, setRoleToDelete] = useState<Role | null>(null);
+
+  const {
+    data: roles = [],
+    isLoading,
+  } = useQuery<Role[]>({
+    queryKey: ["/api/roles"],
+  });
+
+  const form = useForm<RoleFormValues>({
+    resolver: zodResolver(roleFormSchema),
+    defaultValues: {
+      name: "",
+      baseRole: "sac",
+      permissions: [],
+    },
+  });
+
+  // Remover um perfil devolve os códigos ao perfil padrão, o que muda a lista de códigos
+  const invalidateRoles = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/access-codes"] });
+  };
+
+  // Mutation for creating or updating roles
+  const saveRoleMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: number; data: Partial<RoleFormValues> }) => {
+      if (id) {
+        await apiRequest("PATCH", `/api/roles/${id}`, data);
+      } else {
+        await apiRequest("POST", "/api/roles", data);
+      }
+    },
+    onSuccess: () => {
+      invalidateRoles();
+      setEditingRole(null);
+      toast({
+        title: "Perfil salvo",
+        description: "As permissões valem a partir da próxima ação de cada usuário",
+      });
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : "";
+      toast({
+        title: "Erro ao salvar perfil",
+        description: message.includes("already exists")
+          ? "Já existe um perfil com este nome"
+          : message.includes("roles:manage")
+            ? "O perfil padrão do administrador precisa continuar gerenciando perfis"
+            : "Não foi possível salvar o perfil",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutation for deleting roles
+  const deleteRoleMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/roles/${id}`);
+    },
+    onSuccess: () => {
+      invalidateRoles();
+      setRoleToDelete(null);
+      toast({
+        title: "Perfil removido",
+        description: "Os códigos que usavam o perfil voltaram ao perfil padrão",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro ao remover perfil",
+        description: "Não foi possível remover o perfil",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (role: Role | "new") => {
+    setEditingRole(role);
+    form.reset(role === "new"
+      ? { name: "", baseRole: "sac", permissions: [] }
+      : { name: role.name, baseRole: role.baseRole, permissions: role.permissions });
+  };
+
+  // O papel base não muda depois de criado
+  const onSubmit = ({ baseRole, ...data }: RoleFormValues) => {
+    if (editingRole && editingRole !== "new") {
+      saveRoleMutation.mutate({ id: editingRole.id, data });
+    } else {
+      saveRoleMutation.mutate({ data: { ...data, baseRole } });
+    }
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="text-xl text-blue-800 flex items-center">
+            <span className="material-icons mr-2">badge</span>
+            Perfis de Acesso
+          </CardTitle>
+          <CardDescription>
+            Permissões de cada perfil; códigos sem perfil próprio usam o perfil padrão do seu tipo
+          </CardDescription>
+        </div>
+        <Button onClick={() => openDialog("new")} className="bg-blue-800 hover:bg-blue-900">
+          <Plus className="mr-2 h-4 w-4" />
+          Novo Perfil
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="py-8 text-center">
+            <p>Carregando perfis...</p>
+          </div>
+        ) : roles.length === 0 ? (
+          <div className="py-8 text-center text-neutral-600">
+            <p>Nenhum perfil cadastrado</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Painel</TableHead>
+                  <TableHead>Permissões</TableHead>
+                  <TableHead>Códigos</TableHead>
+                  <TableHead>Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {roles.map((role) => (
+                  <TableRow key={role.id}>
+                    <TableCell className="font-medium">
+                      {role.name}
+                      {role.builtin && (
+                        <span className="block text-xs text-neutral-500">Perfil padrão</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{ROLE_NAMES[role.baseRole]}</TableCell>
+                    <TableCell
+                      className="text-xs text-neutral-600 max-w-md"
+                      title={role.permissions.map(permission => PERMISSION_NAMES[permission]).join("\n")}
+                    >
+                      {role.permissions.length === 0
+                        ? "Nenhuma"
+                        : `${role.permissions.length} permissão(ões)`}
+                    </TableCell>
+                    <TableCell>{role.accessCodeCount}</TableCell>
+                    <TableCell>
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openDialog(role)}
+                          className="text-blue-800 hover:text-blue-900 hover:bg-blue-50"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        {!role.builtin && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setRoleToDelete(role)}
+                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Dialog for creating and editing roles */}
+      <Dialog open={!!editingRole} onOpenChange={(open) => !open && setEditingRole(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRole === "new" ? "Novo Perfil" : "Editar Perfil"}</DialogTitle>
+            <DialogDescription>
+              O painel define a tela que o usuário vê; as permissões definem o que ele pode fazer nela
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nome</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Ex: Supervisor SAC" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="baseRole"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Painel</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={editingRole !== "new"}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione o painel" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="admin">Administrador</SelectItem>
+                        <SelectItem value="embasa">EMBASA</SelectItem>
+                        <SelectItem value="sac">SAC</SelectItem>
+                        <SelectItem value="supervisor">Supervisor SAC</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="permissions"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Permissões</FormLabel>
+                    <div className="space-y-2 rounded-md border p-3">
+                      {PERMISSIONS.map((permission) => (
+                        <div key={permission} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`permission-${permission}`}
+                            checked={field.value.includes(permission)}
+                            onCheckedChange={(checked) => field.onChange(
+                              checked === true
+                                ? [...field.value, permission]
+                                : field.value.filter((existing) => existing !== permission)
+                            )}
+                          />
+                          <label htmlFor={`permission-${permission}`} className="text-sm">
+                            {PERMISSION_NAMES[permission]}
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEditingRole(null)}>
+                  Cancelar
+                </Button>
+                <Button
+                  type="submit"
+                  className="bg-blue-800 hover:bg-blue-900"
+                  disabled={saveRoleMutation.isPending}
+                >
+                  {saveRoleMutation.isPending ? "Salvando..." : "Salvar"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={!!roleToDelete} onOpenChange={(open) => !open && setRoleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remover perfil?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {roleToDelete?.accessCodeCount
+                ? `${roleToDelete.accessCodeCount} código(s) usam este perfil e voltarão ao perfil padrão do seu tipo.`
+                : "Nenhum código usa este perfil."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => roleToDelete && deleteRoleMutation.mutate(roleToDelete.id)}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Remover
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
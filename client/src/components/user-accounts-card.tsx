@@ -0,0 +1,504 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { apiRequest } from "@/lib/queryClient";
+import { ROLE_NAMES } from "@/lib/constants";
+import { Pencil, Trash2, Plus, UserCheck, UserX } from "lucide-react";
+
+// UI Components
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+type UserAccount = {
+  id: number;
+  accessCodeId: number;
+  name: string;
+  registrationNumber: string;
+  active: boolean;
+  createdAt: string;
+  accessCode: string;
+  role: keyof typeof ROLE_NAMES;
+  location: string;
+};
+
+type AccessCode = {
+  id: number;
+  code: string;
+  role: keyof typeof ROLE_NAMES;
+  location: string;
+  active: boolean;
+};
+
+// Form schema for creating personal accounts
+const accountFormSchema = z.object({
+  accessCodeId: z.string().min(1, "Selecione o código de acesso"),
+  name: z.string().trim().min(1, "Nome é obrigatório"),
+  registrationNumber: z.string().trim().min(1, "Matrícula é obrigatória"),
+  password: z.string().min(4, "Senha ou PIN deve ter pelo menos 4 caracteres"),
+});
+
+// Form schema for editing personal accounts (senha em branco mantém a atual)
+const editAccountFormSchema = z.object({
+  name: z.string().trim().min(1, "Nome é obrigatório"),
+  password: z.string().refine(value => value === "" || value.length >= 4, {
+    message: "Senha ou PIN deve ter pelo menos 4 caracteres",
+  }),
+});
+
+type AccountFormValues = z.infer<typeof accountFormSchema>;
+type EditAccountFormValues = z.infer<typeof editAccountFormSchema>;
+
+// Admin management of personal accounts tied to access codes (role and location come from the code)
+export default function UserAccountsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<UserAccount | null>(null);
+  const [deletingAccount, setDeletingAccount] = useState<UserAccount | null>(null);
+
+  const {
+    data: accounts = [],
+    isLoading,
+  } = useQuery<UserAccount[]>({
+    queryKey: ["/api/user-accounts"],
+  });
+
+  const { data: accessCodes = [] } = useQuery<AccessCode[]>({
+    queryKey: ["/api/access-codes"],
+  });
+
+  const form = useForm<AccountFormValues>({
+    resolver: zodResolver(accountFormSchema),
+    defaultValues: {
+      accessCodeId: "",
+      name: "",
+      registrationNumber: "",
+      password: "",
+    },
+  });
+
+  const editForm = useForm<EditAccountFormValues>({
+    resolver: zodResolver(editAccountFormSchema),
+    defaultValues: {
+      name: "",
+      password: "",
+    },
+  });
+
+  const invalidateAccounts = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/user-accounts"] });
+  };
+
+  // Mutation for creating personal accounts
+  const createAccountMutation = useMutation({
+    mutationFn: async (data: AccountFormValues) => {
+      await apiRequest("POST", "/api/user-accounts", { ...data, accessCodeId: Number(data.accessCodeId) });
+    },
+    onSuccess: () => {
+      invalidateAccounts();
+      setIsAddDialogOpen(false);
+      form.reset();
+      toast({
+        title: "Conta criada",
+        description: "A pessoa já pode entrar com a matrícula e a senha",
+      });
+    },
+    onError: (error) => {
+      // 400: matrícula já cadastrada ou código inexistente
+      const isDuplicate = error instanceof Error && error.message.includes("Registration number");
+      toast({
+        title: "Erro ao criar conta",
+        description: isDuplicate ? "Já existe uma conta com esta matrícula" : "Não foi possível criar a conta",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutation for updating personal accounts (nome, senha ou status)
+  const updateAccountMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: { name?: string; password?: string; active?: boolean } }) => {
+      await apiRequest("PATCH", `/api/user-accounts/${id}`, data);
+    },
+    onSuccess: () => {
+      invalidateAccounts();
+      setEditingAccount(null);
+      toast({
+        title: "Conta atualizada",
+        description: "A conta pessoal foi atualizada com sucesso",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao atualizar conta",
+        description: "Não foi possível atualizar a conta pessoal",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutation for deleting personal accounts
+  const deleteAccountMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/user-accounts/${id}`, undefined);
+    },
+    onSuccess: () => {
+      invalidateAccounts();
+      setDeletingAccount(null);
+      toast({
+        title: "Conta removida",
+        description: "A conta pessoal foi removida com sucesso",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao remover conta",
+        description: "Não foi possível remover a conta pessoal",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmitEdit = (data: EditAccountFormValues) => {
+    if (editingAccount) {
+      updateAccountMutation.mutate({
+        id: editingAccount.id,
+        data: data.password ? data : { name: data.name },
+      });
+    }
+  };
+
+  const openEditDialog = (account: UserAccount) => {
+    setEditingAccount(account);
+    editForm.reset({ name: account.name, password: "" });
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="text-xl text-blue-800 flex items-center">
+            <span className="material-icons mr-2">badge</span>
+            Contas Pessoais
+          </CardTitle>
+          <CardDescription>
+            Atendentes e técnicos entram com matrícula e senha; perfil e unidade vêm do código de acesso vinculado
+          </CardDescription>
+        </div>
+        <Button
+          onClick={() => {
+            form.reset();
+            setIsAddDialogOpen(true);
+          }}
+          className="bg-blue-800 hover:bg-blue-900"
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Nova Conta
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="py-8 text-center">
+            <p>Carregando contas...</p>
+          </div>
+        ) : accounts.length === 0 ? (
+          <div className="py-8 text-center text-neutral-600">
+            <p>Nenhuma conta pessoal cadastrada</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Matrícula</TableHead>
+                  <TableHead>Código</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {accounts.map((account) => (
+                  <TableRow key={account.id}>
+                    <TableCell className="font-medium">{account.name}</TableCell>
+                    <TableCell>{account.registrationNumber}</TableCell>
+                    <TableCell>
+                      {account.accessCode}
+                      <span className="block text-xs text-neutral-500">
+                        {ROLE_NAMES[account.role] ?? account.role}{account.location ? ` · ${account.location}` : ""}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <span
+                        className={`px-2 py-1 rounded-full text-xs font-medium
+                          ${account.active ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`
+                        }
+                      >
+                        {account.active ? 'Ativa' : 'Inativa'}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openEditDialog(account)}
+                          className="text-blue-800 hover:text-blue-900 hover:bg-blue-50"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => updateAccountMutation.mutate({ id: account.id, data: { active: !account.active } })}
+                          disabled={updateAccountMutation.isPending}
+                          className="text-blue-800 hover:text-blue-900 hover:bg-blue-50"
+                          title={account.active ? "Desativar" : "Ativar"}
+                        >
+                          {account.active ? <UserX className="h-4 w-4" /> : <UserCheck className="h-4 w-4" />}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDeletingAccount(account)}
+                          className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Dialog for creating personal accounts */}
+      <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Nova Conta Pessoal</DialogTitle>
+            <DialogDescription>
+              A conta usa o perfil e a unidade do código de acesso selecionado
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(data => createAccountMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="accessCodeId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Código de Acesso</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione o código" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {accessCodes.filter(code => code.active).map(code => (
+                          <SelectItem key={code.id} value={String(code.id)}>
+                            {code.code} · {ROLE_NAMES[code.role] ?? code.role}{code.location ? ` · ${code.location}` : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nome</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Nome completo" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="registrationNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Matrícula</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Matrícula" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Senha ou PIN</FormLabel>
+                    <FormControl>
+                      <Input type="password" placeholder="Mínimo de 4 caracteres" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsAddDialogOpen(false)}>
+                  Cancelar
+                </Button>
+                <Button
+                  type="submit"
+                  className="bg-blue-800 hover:bg-blue-900"
+                  disabled={createAccountMutation.isPending}
+                >
+                  {createAccountMutation.isPending ? "Salvando..." : "Salvar"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Dialog for editing personal accounts */}
+      <Dialog open={!!editingAccount} onOpenChange={(open) => !open && setEditingAccount(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Editar Conta Pessoal</DialogTitle>
+            <DialogDescription>
+              Matrícula {editingAccount?.registrationNumber}. Trocar a senha encerra as sessões abertas da conta
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...editForm}>
+            <form onSubmit={editForm.handleSubmit(onSubmitEdit)} className="space-y-4">
+              <FormField
+                control={editForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nome</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={editForm.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nova Senha ou PIN</FormLabel>
+                    <FormControl>
+                      <Input type="password" placeholder="Deixe em branco para manter a atual" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEditingAccount(null)}>
+                  Cancelar
+                </Button>
+                <Button
+                  type="submit"
+                  className="bg-blue-800 hover:bg-blue-900"
+                  disabled={updateAccountMutation.isPending}
+                >
+                  {updateAccountMutation.isPending ? "Salvando..." : "Salvar"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Confirmation for deleting personal accounts */}
+      <AlertDialog open={!!deletingAccount} onOpenChange={(open) => !open && setDeletingAccount(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remover conta pessoal</AlertDialogTitle>
+            <AlertDialogDescription>
+              A conta de {deletingAccount?.name} será removida. Os registros feitos por ela continuam no histórico.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingAccount && deleteAccountMutation.mutate(deletingAccount.id)}
+              className="bg-red-500 hover:bg-red-600"
+            >
+              Remover
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -1,11 +1,19 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
+import type { Permission } from "@shared/schema";
 
 type User = {
   id: number;
   code: string;
   role: string;
+  // Perfil de acesso do código (null = perfil padrão do papel) e as permissões que ele concede
+  roleId: number | null;
+  permissions: Permission[];
+  // Unidade do cadastro vinculada ao código de acesso
+  locationId: number | null;
+  // Conta pessoal usada no login; null quando o login foi feito só com o código de acesso
+  account: { id: number; name: string; registrationNumber: string } | null;
 };
 
 type AuthContextType = {
@@ -13,13 +21,16 @@ type AuthContextType = {
   login: (user: User) => void;
   logout: () => void;
   isLoading: boolean;
+  // Usado pelos painéis para esconder as ações que o usuário não pode executar
+  can: (permission: Permission) => boolean;
 };
 
 const AuthContext = createContext<AuthContextType>({
   user: null,
   login: () => {},
   logout: () => {},
-  isLoading: false
+  isLoading: false,
+  can: () => false
 });
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
@@ -74,8 +85,10 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  const can = (permission: Permission) => !!user?.permissions.includes(permission);
+
   return (
-    <AuthContext.Provider value={{ user, login, logout, isLoading }}>
+    <AuthContext.Provider value={{ user, login, logout, isLoading, can }}>
       {children}
     </AuthContext.Provider>
   );
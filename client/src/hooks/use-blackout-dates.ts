@@ -0,0 +1,34 @@
+import { useQuery } from "@tanstack/react-query";
+
+export type BlackoutDate = {
+  id: number;
+  date: string;
+  name: string;
+  type: "national" | "state" | "municipal" | "closure";
+  location: string | null;
+  createdBy: string | null;
+  createdAt: string;
+};
+
+// Feriados e fechamentos do mês que valem para o usuário logado, agrupados por data (AAAA-MM-DD)
+export function useBlackoutDates(year: number, month: number, enabled: boolean) {
+  const query = useQuery<BlackoutDate[]>({
+    queryKey: ["/api/blackout-dates", year, month],
+    queryFn: async () => {
+      const res = await fetch(`/api/blackout-dates?year=${year}&month=${month}`);
+      if (!res.ok) throw new Error("Failed to fetch blackout dates");
+      return res.json();
+    },
+    enabled,
+  });
+
+  const blackoutsByDate: Record<string, BlackoutDate[]> = {};
+  (query.data ?? []).forEach(blackout => {
+    if (!blackoutsByDate[blackout.date]) {
+      blackoutsByDate[blackout.date] = [];
+    }
+    blackoutsByDate[blackout.date].push(blackout);
+  });
+
+  return { ...query, blackoutsByDate };
+}
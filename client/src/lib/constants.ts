@@ -1,8 +1,11 @@
+import type { Permission } from "@shared/schema";
+
 // Role types
 export const ROLES = {
   ADMIN: 'admin',
   EMBASA: 'embasa',
-  SAC: 'sac'
+  SAC: 'sac',
+  SUPERVISOR: 'supervisor'
 } as const;
 
 // Role colors
@@ -30,6 +33,14 @@ export const ROLE_COLORS = {
     bg: 'bg-green-700',
     text: 'text-green-700',
     lightBg: 'bg-green-100'
+  },
+  [ROLES.SUPERVISOR]: {
+    primary: '#00796B',
+    secondary: '#00695C',
+    light: '#B2DFDB',
+    bg: 'bg-teal-700',
+    text: 'text-teal-700',
+    lightBg: 'bg-teal-100'
   }
 } as const;
 
@@ -37,24 +48,125 @@ export const ROLE_COLORS = {
 export const ROLE_NAMES = {
   [ROLES.ADMIN]: 'Administrador',
   [ROLES.EMBASA]: 'EMBASA',
-  [ROLES.SAC]: 'SAC'
+  [ROLES.SAC]: 'SAC',
+  [ROLES.SUPERVISOR]: 'Supervisor SAC'
 } as const;
 
 // Status colors
 export const STATUS_COLORS = {
-  confirmed: 'bg-green-100 text-green-700',
-  pending: 'bg-yellow-100 text-yellow-700',
-  cancelled: 'bg-red-100 text-red-700'
+  scheduled: 'bg-green-100 text-green-700',
+  checked_in: 'bg-blue-100 text-blue-700',
+  completed: 'bg-blue-800 text-white',
+  no_show: 'bg-yellow-100 text-yellow-700',
+  cancelled: 'bg-red-100 text-red-700',
+  rescheduled: 'bg-neutral-200 text-neutral-700',
+  cancelled_by_embasa: 'bg-red-600 text-white'
 } as const;
 
 // Booking status options
 export const BOOKING_STATUS = {
-  CONFIRMED: 'confirmed',
-  PENDING: 'pending',
-  CANCELLED: 'cancelled'
+  SCHEDULED: 'scheduled',
+  CHECKED_IN: 'checked_in',
+  COMPLETED: 'completed',
+  NO_SHOW: 'no_show',
+  CANCELLED: 'cancelled',
+  RESCHEDULED: 'rescheduled',
+  CANCELLED_BY_EMBASA: 'cancelled_by_embasa'
+} as const;
+
+// Booking status display names
+export const BOOKING_STATUS_NAMES = {
+  [BOOKING_STATUS.SCHEDULED]: 'Agendado',
+  [BOOKING_STATUS.CHECKED_IN]: 'Em atendimento',
+  [BOOKING_STATUS.COMPLETED]: 'Concluído',
+  [BOOKING_STATUS.NO_SHOW]: 'Não compareceu',
+  [BOOKING_STATUS.CANCELLED]: 'Cancelado',
+  [BOOKING_STATUS.RESCHEDULED]: 'Remarcado',
+  [BOOKING_STATUS.CANCELLED_BY_EMBASA]: 'Cancelado pela EMBASA'
 } as const;
 
 // Days of week
 export const DAYS_OF_WEEK = [
   'Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'
 ] as const;
+
+// Availability series edit/delete scopes
+export const SERIES_SCOPE_NAMES = {
+  occurrence: 'Somente esta ocorrência',
+  following: 'Esta e as seguintes',
+  series: 'Toda a série'
+} as const;
+
+// Blackout calendar entry types
+export const BLACKOUT_TYPE_NAMES = {
+  national: 'Feriado nacional',
+  state: 'Feriado estadual',
+  municipal: 'Feriado municipal',
+  closure: 'Fechamento'
+} as const;
+
+// Failed login attempt reasons
+export const LOGIN_FAILURE_REASON_NAMES = {
+  invalid_code: 'Código inválido',
+  inactive: 'Código inativo',
+  not_yet_valid: 'Código ainda não válido',
+  expired: 'Código expirado',
+  usage_limit: 'Limite de uso atingido',
+  locked: 'Bloqueado por excesso de tentativas'
+} as const;
+
+// Audit trail entity types
+export const AUDIT_ENTITY_NAMES = {
+  access_code: 'Código de acesso',
+  user_account: 'Conta pessoal',
+  session: 'Sessão',
+  location: 'Unidade',
+  role: 'Perfil de acesso',
+  availability: 'Disponibilidade',
+  blackout_date: 'Bloqueio do calendário',
+  booking: 'Agendamento'
+} as const;
+
+// Audit trail actions
+export const AUDIT_ACTION_NAMES: Record<string, string> = {
+  create: 'Criação',
+  issue: 'Emissão',
+  update: 'Alteração',
+  update_secret: 'Troca de código',
+  update_password: 'Troca de senha',
+  delete: 'Remoção',
+  expire: 'Desativação automática',
+  login: 'Login',
+  logout: 'Logout',
+  revoke: 'Encerramento de sessão',
+  revoke_sessions: 'Encerramento de sessões',
+  import_holidays: 'Importação de feriados',
+  cancel: 'Cancelamento',
+  reschedule: 'Remarcação',
+  outcome: 'Registro de visita',
+  reassign: 'Remanejamento'
+};
+
+// Permission descriptions for the role editor
+export const PERMISSION_NAMES: Record<Permission, string> = {
+  'reports:view': 'Ver estatísticas e relatórios',
+  'audit:view': 'Ver auditoria e tentativas de login',
+  'access_codes:manage': 'Gerenciar códigos de acesso e sessões',
+  'user_accounts:manage': 'Gerenciar contas pessoais',
+  'locations:manage': 'Gerenciar unidades',
+  'roles:manage': 'Gerenciar perfis de acesso',
+  'blackouts:manage': 'Gerenciar feriados e fechamentos',
+  'availability:create': 'Criar disponibilidades',
+  'availability:update': 'Editar disponibilidades',
+  'availability:delete': 'Remover disponibilidades',
+  'booking:create': 'Agendar visitas',
+  'booking:reschedule': 'Remarcar os próprios agendamentos',
+  'booking:cancel:own': 'Cancelar os próprios agendamentos',
+  'booking:cancel:any': 'Cancelar agendamentos de qualquer código',
+  'booking:view:region': 'Ver agendamentos dos códigos SAC da região',
+  'booking:reassign': 'Remanejar agendamentos entre atendentes da região',
+  'booking:reschedule:region': 'Remarcar agendamentos dos códigos SAC da região',
+  'booking:cancel:region': 'Cancelar agendamentos dos códigos SAC da região',
+  'booking:view:received': 'Ver agendamentos recebidos nas próprias disponibilidades',
+  'booking:outcome': 'Registrar o resultado das visitas'
+};
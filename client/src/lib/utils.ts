@@ -31,6 +31,8 @@ export function getRoleColor(role: string): { primary: string, bg: string } {
       return { primary: 'text-blue-600', bg: 'bg-blue-100' };
     case 'sac':
       return { primary: 'text-green-700', bg: 'bg-green-100' };
+    case 'supervisor':
+      return { primary: 'text-teal-700', bg: 'bg-teal-100' };
     default:
       return { primary: 'text-neutral-700', bg: 'bg-neutral-100' };
   }
@@ -44,6 +46,8 @@ export function getRoleName(role: string): string {
       return 'EMBASA';
     case 'sac':
       return 'SAC';
+    case 'supervisor':
+      return 'Supervisor SAC';
     default:
       return role;
   }
@@ -53,3 +57,19 @@ export function generateRandomCode(prefix: string): string {
   const randomNum = Math.floor(100000 + Math.random() * 900000);
   return `${prefix}${randomNum}`;
 }
+
+export function escapeCsv(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+// Baixa uma planilha CSV (primeira linha = cabeçalho) com a data de hoje no nome do arquivo
+export function downloadCsv(name: string, rows: string[][]) {
+  const lines = rows.map((row) => row.map(escapeCsv).join(","));
+
+  const url = URL.createObjectURL(new Blob([lines.join("\n")], { type: "text/csv;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${name}-${new Date().toISOString().slice(0, 10)}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -7,9 +7,26 @@ import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { apiRequest } from "@/lib/queryClient";
-import { Pencil, Trash2, Plus, RefreshCw } from "lucide-react";
+import { getRoleColor } from "@/lib/utils";
+import { Pencil, Trash2, Plus, MonitorSmartphone } from "lucide-react";
 import { format } from "date-fns";
 import Header from "@/components/header";
+import BlackoutCalendarCard from "@/components/blackout-calendar-card";
+import FailedLoginAttemptsCard from "@/components/failed-login-attempts-card";
+import AccessCodeSessionsDialog from "@/components/access-code-sessions-dialog";
+import UserAccountsCard from "@/components/user-accounts-card";
+import LocationsCard, { type Location } from "@/components/locations-card";
+import RolesCard, { type Role } from "@/components/roles-card";
+import AuditLogCard from "@/components/audit-log-card";
+import IssuedAccessCodesDialog, { type IssuedAccessCode } from "@/components/issued-access-codes-dialog";
+import { ACCESS_CODE_ALPHABET, DEFAULT_ACCESS_CODE_LENGTH, MAX_ISSUED_ACCESS_CODES } from "@shared/schema";
+import AccessCodeLimitsFields, {
+  accessCodeLimitsSchema,
+  describeAccessCodeValidity,
+  limitsToFormValues,
+  limitsToPayload,
+  type AccessCodeLimits,
+} from "@/components/access-code-limits-fields";
 
 // UI Components
 import {
@@ -51,6 +68,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import {
@@ -65,35 +83,111 @@ import {
 } from "@/components/ui/alert-dialog";
 
 // Types
-type AccessCode = {
+type AccessCode = AccessCodeLimits & {
   id: number;
   code: string;
   role: string;
+  location: string | null;
+  locationId: number | null;
+  roleId: number | null;
   createdAt: string;
   active: boolean;
 };
 
+// Códigos ativos de cada perfil de acesso, inclusive os perfis personalizados
 type AdminStats = {
-  adminCount: number;
-  embasaCount: number;
-  sacCount: number;
+  roles: { id: number; name: string; baseRole: string; activeCodes: number }[];
   activeSchedules: number;
 };
 
-// Form schema for generating new access codes
+const ROLE_ICONS: Record<string, string> = {
+  admin: "admin_panel_settings",
+  embasa: "event_available",
+  sac: "support_agent",
+  supervisor: "supervisor_account",
+};
+
+// Form schema for issuing server-generated access codes for a location
+const issueFormSchema = z.object({
+  role: z.enum(["admin", "embasa", "sac", "supervisor"], {
+    required_error: "Selecione um tipo de usuário",
+  }),
+  locationId: z.string().min(1, "Selecione a unidade"),
+  roleId: z.string(),
+  count: z.coerce.number().int().min(1, "Mínimo de 1 código").max(MAX_ISSUED_ACCESS_CODES, `Máximo de ${MAX_ISSUED_ACCESS_CODES} códigos`),
+  length: z.coerce.number().int().min(8, "Mínimo de 8 caracteres").max(32, "Máximo de 32 caracteres"),
+  alphabet: z.string().trim().min(16, "Use pelo menos 16 caracteres"),
+  rolePrefix: z.boolean(),
+}).merge(accessCodeLimitsSchema);
+
+type IssueFormValues = z.infer<typeof issueFormSchema>;
+
+// Form schema for editing access codes
 const codeFormSchema = z.object({
   code: z.string().min(6, "Código deve ter pelo menos 6 caracteres"),
-  role: z.enum(["admin", "embasa", "sac"], {
+  role: z.enum(["admin", "embasa", "sac", "supervisor"], {
     required_error: "Selecione um tipo de usuário",
   }),
-  location: z.string().optional(),
+  locationId: z.string().optional(),
+  roleId: z.string(),
   active: z.boolean().default(true),
-});
+  resetUsage: z.boolean().optional(),
+}).merge(accessCodeLimitsSchema);
 
 type CodeFormValues = z.infer<typeof codeFormSchema>;
 
+// Unidades ativas do cadastro, identificadas pelo id como texto (valor do Select)
+function LocationSelect({ locations, value, onChange }: {
+  locations: Location[];
+  value?: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <Select onValueChange={onChange} value={value}>
+      <FormControl>
+        <SelectTrigger>
+          <SelectValue placeholder="Selecione a unidade" />
+        </SelectTrigger>
+      </FormControl>
+      <SelectContent>
+        {locations.filter(location => location.active || String(location.id) === value).map(location => (
+          <SelectItem key={location.id} value={String(location.id)}>
+            {location.name}{location.municipality ? ` · ${location.municipality}` : ""}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Perfis de acesso do tipo de usuário escolhido; "default" deixa o código no perfil padrão do tipo
+function RoleSelect({ roles, baseRole, value, onChange }: {
+  roles: Role[];
+  baseRole: string;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <Select onValueChange={onChange} value={value}>
+      <FormControl>
+        <SelectTrigger>
+          <SelectValue placeholder="Selecione o perfil" />
+        </SelectTrigger>
+      </FormControl>
+      <SelectContent>
+        <SelectItem value="default">Perfil padrão</SelectItem>
+        {roles.filter(role => role.baseRole === baseRole && !role.builtin).map(role => (
+          <SelectItem key={role.id} value={String(role.id)}>{role.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+const roleIdToPayload = (roleId: string) => (roleId === "default" ? null : Number(roleId));
+
 export default function AdminDashboard() {
-  const { user, logout } = useAuth();
+  const { user, logout, can } = useAuth();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -102,6 +196,8 @@ export default function AdminDashboard() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [selectedCode, setSelectedCode] = useState<AccessCode | null>(null);
+  const [sessionsCode, setSessionsCode] = useState<AccessCode | null>(null);
+  const [issuedCodes, setIssuedCodes] = useState<IssuedAccessCode[]>([]);
 
   // Redirect if not admin
   useEffect(() => {
@@ -124,26 +220,45 @@ export default function AdminDashboard() {
     isError: isErrorCodes,
   } = useQuery<AccessCode[]>({
     queryKey: ["/api/access-codes"],
+    enabled: can("access_codes:manage"),
+  });
+
+  // Query for access profiles offered when issuing and editing codes
+  const { data: roles = [] } = useQuery<Role[]>({
+    queryKey: ["/api/roles"],
+    enabled: can("access_codes:manage"),
+  });
+
+  // Query for the location registry (códigos são emitidos para uma unidade ativa)
+  const { data: locations = [] } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
     enabled: !!user && user.role === "admin",
   });
 
   // Query for admin stats
   const {
-    data: stats = { adminCount: 0, embasaCount: 0, sacCount: 0, activeSchedules: 0 },
+    data: stats = { roles: [], activeSchedules: 0 },
     isLoading: isLoadingStats,
   } = useQuery<AdminStats>({
     queryKey: ["/api/admin/stats"],
-    enabled: !!user && user.role === "admin",
+    enabled: can("reports:view"),
   });
 
-  // Form for creating new access codes
-  const form = useForm<CodeFormValues>({
-    resolver: zodResolver(codeFormSchema),
+  // Form for issuing new access codes
+  const form = useForm<IssueFormValues>({
+    resolver: zodResolver(issueFormSchema),
     defaultValues: {
-      code: "",
       role: "sac",
-      location: "",
-      active: true,
+      locationId: "",
+      roleId: "default",
+      count: 1,
+      length: DEFAULT_ACCESS_CODE_LENGTH,
+      alphabet: ACCESS_CODE_ALPHABET,
+      rolePrefix: true,
+      validFrom: "",
+      expiresAt: "",
+      maxLogins: "",
+      maxBookings: "",
     },
   });
 
@@ -153,29 +268,39 @@ export default function AdminDashboard() {
     defaultValues: {
       code: "",
       role: "sac",
+      roleId: "default",
       active: true,
     },
   });
 
-  // Mutation for creating access codes
-  const createCodeMutation = useMutation({
-    mutationFn: async (data: CodeFormValues) => {
-      await apiRequest("POST", "/api/access-codes", data);
+  // Mutation for issuing server-generated access codes
+  const issueCodesMutation = useMutation({
+    mutationFn: async (data: IssueFormValues) => {
+      const res = await apiRequest("POST", "/api/access-codes/issue", {
+        ...data,
+        ...limitsToPayload(data),
+        locationId: Number(data.locationId),
+        roleId: roleIdToPayload(data.roleId),
+      });
+      return (await res.json()) as IssuedAccessCode[];
     },
-    onSuccess: () => {
+    onSuccess: (issued) => {
       queryClient.invalidateQueries({ queryKey: ["/api/access-codes"] });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
       setIsAddDialogOpen(false);
       form.reset();
+      setIssuedCodes(issued);
       toast({
-        title: "Código criado",
-        description: "O código de acesso foi criado com sucesso",
+        title: "Códigos gerados",
+        description: `${issued.length} código(s) de acesso gerado(s)`,
       });
     },
     onError: (error) => {
       toast({
-        title: "Erro ao criar código",
-        description: "Não foi possível criar o código de acesso",
+        title: "Erro ao gerar códigos",
+        description: "Não foi possível gerar os códigos de acesso",
         variant: "destructive",
       });
     },
@@ -183,12 +308,22 @@ export default function AdminDashboard() {
 
   // Mutation for updating access codes
   const updateCodeMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: number; data: CodeFormValues }) => {
-      await apiRequest("PATCH", `/api/access-codes/${id}`, data);
+    mutationFn: async ({ id, data }: { id: number; data: Omit<CodeFormValues, "code"> }) => {
+      await apiRequest("PATCH", `/api/access-codes/${id}`, {
+        ...data,
+        ...limitsToPayload(data),
+        // Só envia a unidade quando trocada, para não barrar a edição de códigos de uma unidade desativada
+        locationId: data.locationId && Number(data.locationId) !== selectedCode?.locationId
+          ? Number(data.locationId)
+          : undefined,
+        roleId: roleIdToPayload(data.roleId),
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/access-codes"] });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
       setIsEditDialogOpen(false);
       setSelectedCode(null);
       toast({
@@ -229,13 +364,15 @@ export default function AdminDashboard() {
     },
   });
 
-  const onSubmitNewCode = (data: CodeFormValues) => {
-    createCodeMutation.mutate(data);
+  const onSubmitNewCodes = (data: IssueFormValues) => {
+    issueCodesMutation.mutate(data);
   };
 
   const onSubmitEditCode = (data: CodeFormValues) => {
     if (selectedCode) {
-      updateCodeMutation.mutate({ id: selectedCode.id, data });
+      // O campo exibe o identificador público; o código em si não é alterado por aqui
+      const { code, ...updates } = data;
+      updateCodeMutation.mutate({ id: selectedCode.id, data: updates });
     }
   };
 
@@ -249,8 +386,12 @@ export default function AdminDashboard() {
     setSelectedCode(code);
     editForm.reset({
       code: code.code,
-      role: code.role as "admin" | "embasa" | "sac",
+      role: code.role as CodeFormValues["role"],
+      locationId: code.locationId ? String(code.locationId) : "",
+      roleId: code.roleId ? String(code.roleId) : "default",
       active: code.active,
+      resetUsage: false,
+      ...limitsToFormValues(code),
     });
     setIsEditDialogOpen(true);
   };
@@ -260,13 +401,6 @@ export default function AdminDashboard() {
     setIsDeleteDialogOpen(true);
   };
 
-  const generateRandomCode = () => {
-    const role = form.getValues("role");
-    const prefix = role === "admin" ? "ADM" : role === "embasa" ? "EMB" : "SAC";
-    const randomNum = Math.floor(100000 + Math.random() * 900000);
-    form.setValue("code", `${prefix}${randomNum}`);
-  };
-
   if (isErrorCodes) {
     return (
       <div className="p-8 text-center">
@@ -285,6 +419,7 @@ export default function AdminDashboard() {
         title="Painel Administrador"
         icon="admin_panel_settings"
         role="admin"
+        username={user?.account?.name ?? user?.code}
         onLogout={logout}
       />
 
@@ -298,174 +433,222 @@ export default function AdminDashboard() {
           />
         </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-          {/* Access Codes Management */}
-          <div className="col-span-1 lg:col-span-2">
-            <Card>
-              <CardHeader className="flex flex-row items-center justify-between">
-                <div>
-                  <CardTitle className="text-xl text-blue-800 flex items-center">
-                    <span className="material-icons mr-2">vpn_key</span>
-                    Gerenciamento de Códigos
-                  </CardTitle>
-                  <CardDescription>
-                    Gerencie os códigos de acesso ao sistema
-                  </CardDescription>
-                </div>
-                <Button 
-                  onClick={() => {
-                    form.reset();
-                    setIsAddDialogOpen(true);
-                  }}
-                  className="bg-blue-800 hover:bg-blue-900"
-                >
-                  <Plus className="mr-2 h-4 w-4" />
-                  Novo Código
-                </Button>
-              </CardHeader>
-              <CardContent>
-                {isLoadingCodes ? (
-                  <div className="py-8 text-center">
-                    <p>Carregando códigos de acesso...</p>
-                  </div>
-                ) : (
-                  <div className="overflow-x-auto">
-                    <Table>
-                      <TableHeader>
-                        <TableRow>
-                          <TableHead>Código</TableHead>
-                          <TableHead>Tipo</TableHead>
-                          <TableHead>Data de Criação</TableHead>
-                          <TableHead>Status</TableHead>
-                          <TableHead>Ações</TableHead>
-                        </TableRow>
-                      </TableHeader>
-                      <TableBody>
-                        {accessCodes.map((code) => (
-                          <TableRow key={code.id}>
-                            <TableCell className="font-medium">{code.code}</TableCell>
-                            <TableCell>
-                              <span 
-                                className={`px-2 py-1 rounded-full text-xs font-medium 
-                                  ${code.role === 'admin' ? 'bg-blue-100 text-blue-800' : 
-                                    code.role === 'embasa' ? 'bg-blue-100 text-blue-600' : 
-                                    'bg-green-100 text-green-700'}`
-                                }
-                              >
-                                {code.role === 'admin' ? 'Administrador' : 
-                                 code.role === 'embasa' ? 'EMBASA' : 'SAC'}
-                              </span>
-                            </TableCell>
-                            <TableCell>{format(new Date(code.createdAt), 'dd/MM/yyyy')}</TableCell>
-                            <TableCell>
-                              <span 
-                                className={`px-2 py-1 rounded-full text-xs font-medium 
-                                  ${code.active ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`
-                                }
-                              >
-                                {code.active ? 'Ativo' : 'Inativo'}
-                              </span>
-                            </TableCell>
-                            <TableCell>
-                              <div className="flex space-x-2">
-                                <Button 
-                                  variant="ghost" 
-                                  size="sm"
-                                  onClick={() => openEditDialog(code)}
-                                  className="text-blue-800 hover:text-blue-900 hover:bg-blue-50"
-                                >
-                                  <Pencil className="h-4 w-4" />
-                                </Button>
-                                <Button 
-                                  variant="ghost" 
-                                  size="sm"
-                                  onClick={() => openDeleteDialog(code)}
-                                  className="text-red-500 hover:text-red-700 hover:bg-red-50"
-                                >
-                                  <Trash2 className="h-4 w-4" />
-                                </Button>
-                              </div>
-                            </TableCell>
-                          </TableRow>
-                        ))}
-                      </TableBody>
-                    </Table>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          </div>
-
-          {/* Summary Card */}
-          <div className="col-span-1">
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-xl text-blue-800 flex items-center">
-                  <span className="material-icons mr-2">analytics</span>
-                  Resumo
-                </CardTitle>
-                <CardDescription>
-                  Estatísticas do sistema
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-6">
-                {isLoadingStats ? (
-                  <div className="text-center py-4">
-                    <p>Carregando estatísticas...</p>
-                  </div>
-                ) : (
-                  <>
-                    <div className="bg-blue-50 p-4 rounded-lg flex items-center">
-                      <span className="material-icons text-blue-800 mr-3 text-2xl">admin_panel_settings</span>
-                      <div>
-                        <p className="text-sm text-neutral-600">Total de Administradores</p>
-                        <p className="text-2xl font-bold text-blue-800">{stats.adminCount}</p>
-                      </div>
-                    </div>
-                    
-                    <div className="bg-blue-50 p-4 rounded-lg flex items-center">
-                      <span className="material-icons text-blue-600 mr-3 text-2xl">event_available</span>
-                      <div>
-                        <p className="text-sm text-neutral-600">Usuários EMBASA</p>
-                        <p className="text-2xl font-bold text-blue-600">{stats.embasaCount}</p>
-                      </div>
-                    </div>
-                    
-                    <div className="bg-green-50 p-4 rounded-lg flex items-center">
-                      <span className="material-icons text-green-700 mr-3 text-2xl">support_agent</span>
+        <Tabs defaultValue="overview">
+          <TabsList className="mb-6">
+            <TabsTrigger value="overview">Visão geral</TabsTrigger>
+            {can("audit:view") && <TabsTrigger value="audit">Auditoria</TabsTrigger>}
+          </TabsList>
+
+          <TabsContent value="overview">
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+              {/* Access Codes Management */}
+              <div className="col-span-1 lg:col-span-2">
+                {can("access_codes:manage") && (
+                  <Card>
+                    <CardHeader className="flex flex-row items-center justify-between">
                       <div>
-                        <p className="text-sm text-neutral-600">Usuários SAC</p>
-                        <p className="text-2xl font-bold text-green-700">{stats.sacCount}</p>
+                        <CardTitle className="text-xl text-blue-800 flex items-center">
+                          <span className="material-icons mr-2">vpn_key</span>
+                          Gerenciamento de Códigos
+                        </CardTitle>
+                        <CardDescription>
+                          Gerencie os códigos de acesso ao sistema
+                        </CardDescription>
                       </div>
-                    </div>
-                    
-                    <div className="bg-neutral-100 p-4 rounded-lg flex items-center">
-                      <span className="material-icons text-neutral-800 mr-3 text-2xl">calendar_today</span>
-                      <div>
-                        <p className="text-sm text-neutral-600">Agendamentos Ativos</p>
-                        <p className="text-2xl font-bold text-neutral-800">{stats.activeSchedules}</p>
-                      </div>
-                    </div>
-                  </>
+                      <Button 
+                        onClick={() => {
+                          form.reset();
+                          setIsAddDialogOpen(true);
+                        }}
+                        className="bg-blue-800 hover:bg-blue-900"
+                      >
+                        <Plus className="mr-2 h-4 w-4" />
+                        Novo Código
+                      </Button>
+                    </CardHeader>
+                    <CardContent>
+                      {isLoadingCodes ? (
+                        <div className="py-8 text-center">
+                          <p>Carregando códigos de acesso...</p>
+                        </div>
+                      ) : (
+                        <div className="overflow-x-auto">
+                          <Table>
+                            <TableHeader>
+                              <TableRow>
+                                <TableHead>Identificador</TableHead>
+                                <TableHead>Tipo</TableHead>
+                                <TableHead>Unidade</TableHead>
+                                <TableHead>Data de Criação</TableHead>
+                                <TableHead>Validade</TableHead>
+                                <TableHead>Status</TableHead>
+                                <TableHead>Ações</TableHead>
+                              </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                              {accessCodes.map((code) => (
+                                <TableRow key={code.id}>
+                                  <TableCell className="font-medium">{code.code}</TableCell>
+                                  <TableCell>
+                                    <span 
+                                      className={`px-2 py-1 rounded-full text-xs font-medium 
+                                        ${code.role === 'admin' ? 'bg-blue-100 text-blue-800' : 
+                                          code.role === 'embasa' ? 'bg-blue-100 text-blue-600' : 
+                                          code.role === 'supervisor' ? 'bg-teal-100 text-teal-700' :
+                                          'bg-green-100 text-green-700'}`
+                                      }
+                                    >
+                                      {code.role === 'admin' ? 'Administrador' : 
+                                       code.role === 'embasa' ? 'EMBASA' :
+                                       code.role === 'supervisor' ? 'Supervisor SAC' : 'SAC'}
+                                    </span>
+                                    {code.roleId && (
+                                      <span className="block mt-1 text-xs text-neutral-500">
+                                        {roles.find(role => role.id === code.roleId)?.name}
+                                      </span>
+                                    )}
+                                  </TableCell>
+                                  <TableCell>{code.location || "-"}</TableCell>
+                                  <TableCell>{format(new Date(code.createdAt), 'dd/MM/yyyy')}</TableCell>
+                                  <TableCell className="text-xs text-neutral-600">
+                                    {describeAccessCodeValidity(code).map((line) => (
+                                      <p key={line}>{line}</p>
+                                    ))}
+                                  </TableCell>
+                                  <TableCell>
+                                    <span 
+                                      className={`px-2 py-1 rounded-full text-xs font-medium 
+                                        ${code.active ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`
+                                      }
+                                    >
+                                      {code.active ? 'Ativo' : 'Inativo'}
+                                    </span>
+                                  </TableCell>
+                                  <TableCell>
+                                    <div className="flex space-x-2">
+                                      <Button 
+                                        variant="ghost" 
+                                        size="sm"
+                                        onClick={() => openEditDialog(code)}
+                                        className="text-blue-800 hover:text-blue-900 hover:bg-blue-50"
+                                      >
+                                        <Pencil className="h-4 w-4" />
+                                      </Button>
+                                      <Button 
+                                        variant="ghost" 
+                                        size="sm"
+                                        onClick={() => setSessionsCode(code)}
+                                        className="text-blue-800 hover:text-blue-900 hover:bg-blue-50"
+                                        title="Sessões ativas"
+                                      >
+                                        <MonitorSmartphone className="h-4 w-4" />
+                                      </Button>
+                                      <Button 
+                                        variant="ghost" 
+                                        size="sm"
+                                        onClick={() => openDeleteDialog(code)}
+                                        className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                                      >
+                                        <Trash2 className="h-4 w-4" />
+                                      </Button>
+                                    </div>
+                                  </TableCell>
+                                </TableRow>
+                              ))}
+                            </TableBody>
+                          </Table>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
                 )}
-              </CardContent>
-            </Card>
-          </div>
-        </div>
+
+                {/* SAC and EMBASA units */}
+                {can("locations:manage") && <LocationsCard />}
+
+                {/* Access profiles and their permissions */}
+                {can("roles:manage") && <RolesCard />}
+
+                {/* Personal accounts tied to access codes */}
+                {can("user_accounts:manage") && <UserAccountsCard />}
+
+                {/* Holiday and blackout calendar */}
+                {can("blackouts:manage") && <BlackoutCalendarCard />}
+
+                {/* Failed login attempts */}
+                {can("audit:view") && <FailedLoginAttemptsCard />}
+              </div>
+
+              {/* Summary Card */}
+              <div className="col-span-1">
+                {can("reports:view") && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-xl text-blue-800 flex items-center">
+                        <span className="material-icons mr-2">analytics</span>
+                        Resumo
+                      </CardTitle>
+                      <CardDescription>
+                        Estatísticas do sistema
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-6">
+                      {isLoadingStats ? (
+                        <div className="text-center py-4">
+                          <p>Carregando estatísticas...</p>
+                        </div>
+                      ) : (
+                        <>
+                          {stats.roles.map((role) => {
+                            const color = getRoleColor(role.baseRole);
+                            return (
+                              <div key={role.id} className={`${color.bg} p-4 rounded-lg flex items-center`}>
+                                <span className={`material-icons ${color.primary} mr-3 text-2xl`}>{ROLE_ICONS[role.baseRole] ?? "badge"}</span>
+                                <div>
+                                  <p className="text-sm text-neutral-600">Códigos ativos · {role.name}</p>
+                                  <p className={`text-2xl font-bold ${color.primary}`}>{role.activeCodes}</p>
+                                </div>
+                              </div>
+                            );
+                          })}
+                          
+                          <div className="bg-neutral-100 p-4 rounded-lg flex items-center">
+                            <span className="material-icons text-neutral-800 mr-3 text-2xl">calendar_today</span>
+                            <div>
+                              <p className="text-sm text-neutral-600">Agendamentos Ativos</p>
+                              <p className="text-2xl font-bold text-neutral-800">{stats.activeSchedules}</p>
+                            </div>
+                          </div>
+                        </>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          {/* Audit trail of every change */}
+          {can("audit:view") && (
+            <TabsContent value="audit">
+              <AuditLogCard />
+            </TabsContent>
+          )}
+        </Tabs>
       </main>
 
       {/* Dialog for creating new access code */}
       <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Gerar Novo Código</DialogTitle>
+            <DialogTitle>Gerar Códigos de Acesso</DialogTitle>
             <DialogDescription>
-              Crie um novo código de acesso para o sistema
+              Os códigos são gerados pelo sistema e exibidos uma única vez, para impressão ou download
             </DialogDescription>
           </DialogHeader>
 
           <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmitNewCode)} className="space-y-4">
+            <form onSubmit={form.handleSubmit(onSubmitNewCodes)} className="space-y-4">
               <FormField
                 control={form.control}
                 name="role"
@@ -473,7 +656,11 @@ export default function AdminDashboard() {
                   <FormItem>
                     <FormLabel>Tipo de Usuário</FormLabel>
                     <Select
-                      onValueChange={field.onChange}
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        // Perfis próprios pertencem a um tipo; ao trocar o tipo, o código volta ao perfil padrão
+                        form.setValue("roleId", "default");
+                      }}
                       defaultValue={field.value}
                     >
                       <FormControl>
@@ -485,6 +672,7 @@ export default function AdminDashboard() {
                         <SelectItem value="admin">Administrador</SelectItem>
                         <SelectItem value="embasa">EMBASA</SelectItem>
                         <SelectItem value="sac">SAC</SelectItem>
+                        <SelectItem value="supervisor">Supervisor SAC</SelectItem>
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -494,30 +682,97 @@ export default function AdminDashboard() {
 
               <FormField
                 control={form.control}
-                name="code"
+                name="locationId"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Código de Acesso</FormLabel>
-                    <div className="flex space-x-2">
+                    <FormLabel>Unidade</FormLabel>
+                    <LocationSelect locations={locations} value={field.value} onChange={field.onChange} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="roleId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Perfil de Acesso</FormLabel>
+                    <RoleSelect roles={roles} baseRole={form.watch("role")} value={field.value} onChange={field.onChange} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="count"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Quantidade</FormLabel>
                       <FormControl>
-                        <Input
-                          placeholder="Código será gerado automaticamente"
-                          {...field}
-                        />
+                        <Input type="number" min={1} max={MAX_ISSUED_ACCESS_CODES} {...field} />
                       </FormControl>
-                      <Button
-                        type="button"
-                        variant="outline"
-                        onClick={generateRandomCode}
-                      >
-                        <RefreshCw className="h-4 w-4" />
-                      </Button>
-                    </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="length"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tamanho</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={8} max={32} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="alphabet"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Caracteres permitidos</FormLabel>
+                    <FormControl>
+                      <Input className="font-mono" {...field} />
+                    </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="rolePrefix"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                    <FormControl>
+                      <input
+                        type="checkbox"
+                        checked={field.value}
+                        onChange={field.onChange}
+                        className="h-4 w-4 mt-1"
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Prefixo do perfil</FormLabel>
+                      <p className="text-sm text-neutral-600">
+                        Inicia o código com ADM-, EMB- ou SAC-
+                      </p>
+                    </div>
+                  </FormItem>
+                )}
+              />
+
+              <AccessCodeLimitsFields control={form.control} />
+
               <DialogFooter>
                 <Button 
                   type="button" 
@@ -529,9 +784,9 @@ export default function AdminDashboard() {
                 <Button 
                   type="submit" 
                   className="bg-blue-800 hover:bg-blue-900"
-                  disabled={createCodeMutation.isPending}
+                  disabled={issueCodesMutation.isPending}
                 >
-                  {createCodeMutation.isPending ? "Salvando..." : "Salvar"}
+                  {issueCodesMutation.isPending ? "Gerando..." : "Gerar"}
                 </Button>
               </DialogFooter>
             </form>
@@ -539,6 +794,12 @@ export default function AdminDashboard() {
         </DialogContent>
       </Dialog>
 
+      {/* Handout with the codes just issued (shown only once) */}
+      <IssuedAccessCodesDialog codes={issuedCodes} onClose={() => setIssuedCodes([])} />
+
+      {/* Dialog with the active sessions of an access code */}
+      <AccessCodeSessionsDialog accessCode={sessionsCode} onClose={() => setSessionsCode(null)} />
+
       {/* Dialog for editing access code */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent>
@@ -556,10 +817,10 @@ export default function AdminDashboard() {
                 name="code"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Código de Acesso</FormLabel>
+                    <FormLabel>Identificador</FormLabel>
                     <FormControl>
                       <Input
-                        placeholder="Código de acesso"
+                        placeholder="Identificador"
                         {...field}
                         disabled
                       />
@@ -576,7 +837,11 @@ export default function AdminDashboard() {
                   <FormItem>
                     <FormLabel>Tipo de Usuário</FormLabel>
                     <Select
-                      onValueChange={field.onChange}
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        // Perfis próprios pertencem a um tipo; ao trocar o tipo, o código volta ao perfil padrão
+                        editForm.setValue("roleId", "default");
+                      }}
                       defaultValue={field.value}
                     >
                       <FormControl>
@@ -588,6 +853,7 @@ export default function AdminDashboard() {
                         <SelectItem value="admin">Administrador</SelectItem>
                         <SelectItem value="embasa">EMBASA</SelectItem>
                         <SelectItem value="sac">SAC</SelectItem>
+                        <SelectItem value="supervisor">Supervisor SAC</SelectItem>
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -595,6 +861,30 @@ export default function AdminDashboard() {
                 )}
               />
 
+              <FormField
+                control={editForm.control}
+                name="locationId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Unidade</FormLabel>
+                    <LocationSelect locations={locations} value={field.value} onChange={field.onChange} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={editForm.control}
+                name="roleId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Perfil de Acesso</FormLabel>
+                    <RoleSelect roles={roles} baseRole={editForm.watch("role")} value={field.value} onChange={field.onChange} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={editForm.control}
                 name="active"
@@ -618,6 +908,31 @@ export default function AdminDashboard() {
                 )}
               />
 
+              <AccessCodeLimitsFields control={editForm.control} />
+
+              <FormField
+                control={editForm.control}
+                name="resetUsage"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                    <FormControl>
+                      <input
+                        type="checkbox"
+                        checked={field.value}
+                        onChange={field.onChange}
+                        className="h-4 w-4 mt-1"
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Zerar contadores de uso</FormLabel>
+                      <p className="text-sm text-neutral-600">
+                        Recomeça a contagem de logins e agendamentos, para reativar um código que atingiu o limite
+                      </p>
+                    </div>
+                  </FormItem>
+                )}
+              />
+
               <DialogFooter>
                 <Button 
                   type="button" 
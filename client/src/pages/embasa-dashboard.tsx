@@ -1,15 +1,37 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { format, addMonths, subMonths, startOfMonth, getDay, getDaysInMonth } from "date-fns";
+import { format, addMonths, subMonths, startOfMonth, getDay, getDaysInMonth, parseISO } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { useBlackoutDates } from "@/hooks/use-blackout-dates";
 import { useLocation } from "wouter";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { apiRequest } from "@/lib/queryClient";
+import {
+  createTimeSlots,
+  expandRecurrence,
+  MAX_SERIES_OCCURRENCES,
+  DEFAULT_SLOT_DURATION,
+  SLOT_DURATIONS,
+  SERIES_SCOPES,
+  type AvailabilityAudience,
+  type RecurrenceRule,
+  type SeriesScope,
+  type TimeRange,
+} from "@shared/schema";
+import {
+  BOOKING_STATUS,
+  BOOKING_STATUS_NAMES,
+  DAYS_OF_WEEK,
+  SERIES_SCOPE_NAMES,
+  STATUS_COLORS,
+} from "@/lib/constants";
 import Header from "@/components/header";
+import AvailabilityAudienceField, { audienceFormSchema, regionAudience } from "@/components/availability-audience-field";
+import type { Location } from "@/components/locations-card";
 import CalendarGrid from "@/components/calendar-grid";
 
 // UI Components
@@ -29,10 +51,20 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   AlertDialog,
-  AlertDialogAction,
   AlertDialogCancel,
   AlertDialogContent,
   AlertDialogDescription,
@@ -40,8 +72,32 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 
 // Types
+type TimeSlot = {
+  id: number;
+  availabilityId: number;
+  startTime: string;
+  capacity: number;
+  remainingSlots: number;
+};
+
 type Availability = {
   id: number;
   date: string;
@@ -51,6 +107,52 @@ type Availability = {
   remainingSlots: number;
   createdBy: string;
   createdAt: string;
+  slotDuration: number;
+  breaks: TimeRange[];
+  seriesId: number | null;
+  locationId: number | null;
+  audience: AvailabilityAudience | null;
+  slots: TimeSlot[];
+};
+
+// Confirmed booking that blocks an edit (returned by the server with a 409)
+type ConflictingBooking = {
+  id: number;
+  availabilityId: number;
+  date: string;
+  clientName: string;
+  serviceNumber: string;
+  timeSlot: string;
+};
+
+type EditConflict = {
+  reason: "capacity" | "outside_window";
+  bookings: ConflictingBooking[];
+};
+
+// Booking made against one of the user's availabilities, as listed for EMBASA staff
+type EmbasaBooking = {
+  id: number;
+  availabilityId: number;
+  date: string | null;
+  clientName: string;
+  clientPhone: string;
+  serviceNumber: string;
+  timeSlot: string;
+  comments: string;
+  status: string;
+  statusReason: string | null;
+  completedAt: string | null;
+  technicianNotes: string | null;
+  sacLocation: string | null;
+  createdByName: string | null;
+};
+
+// Outcome recorded by EMBASA staff for a visit
+type VisitOutcome = {
+  status: "checked_in" | "completed" | "no_show";
+  technicianNotes?: string;
+  completedAt?: string;
 };
 
 type EmbasaStats = {
@@ -65,19 +167,106 @@ const availabilityFormSchema = z.object({
   startTime: z.string().min(1, "Horário inicial é obrigatório"),
   endTime: z.string().min(1, "Horário final é obrigatório"),
   capacity: z.coerce.number().min(1, "Capacidade deve ser pelo menos 1"),
+  slotDuration: z.coerce.number(),
+  breakStart: z.string().optional(),
+  breakEnd: z.string().optional(),
+  repeat: z.boolean(),
+  daysOfWeek: z.array(z.number()),
+  interval: z.coerce.number().int().min(1, "Intervalo mínimo de 1 semana").max(52),
+  recurrenceEnd: z.enum(["until", "count"]),
+  until: z.string().optional(),
+  count: z.coerce.number().int().min(1, "Informe ao menos 1 ocorrência"),
+  exceptions: z.array(z.string()),
+  audience: audienceFormSchema,
+}).refine(data => data.endTime > data.startTime, {
+  message: "Horário final deve ser depois do inicial",
+  path: ["endTime"],
+}).refine(data => !!data.breakStart === !!data.breakEnd, {
+  message: "Informe o início e o fim do intervalo",
+  path: ["breakEnd"],
+}).refine(data => !data.repeat || data.daysOfWeek.length > 0, {
+  message: "Selecione ao menos um dia da semana",
+  path: ["daysOfWeek"],
+}).refine(data => !data.repeat || data.recurrenceEnd !== "until" || (!!data.until && data.until >= data.date), {
+  message: "Informe uma data final igual ou posterior à data inicial",
+  path: ["until"],
 });
 
 type AvailabilityFormValues = z.infer<typeof availabilityFormSchema>;
 
+// Payload sent to the server: the optional break fields become a list of breaks
+// and the repeat fields become a recurrence rule
+type AvailabilityPayload = Pick<AvailabilityFormValues, "date" | "startTime" | "endTime" | "capacity" | "slotDuration" | "audience"> & {
+  breaks: TimeRange[];
+  recurrence?: RecurrenceRule;
+};
+
+// Form schema for editing an availability (or part of its series)
+const editAvailabilityFormSchema = z.object({
+  startTime: z.string().min(1, "Horário inicial é obrigatório"),
+  endTime: z.string().min(1, "Horário final é obrigatório"),
+  capacity: z.coerce.number().min(1, "Capacidade deve ser pelo menos 1"),
+  slotDuration: z.coerce.number(),
+  breakStart: z.string().optional(),
+  breakEnd: z.string().optional(),
+  audience: audienceFormSchema,
+}).refine(data => data.endTime > data.startTime, {
+  message: "Horário final deve ser depois do inicial",
+  path: ["endTime"],
+}).refine(data => !!data.breakStart === !!data.breakEnd, {
+  message: "Informe o início e o fim do intervalo",
+  path: ["breakEnd"],
+});
+
+type EditAvailabilityFormValues = z.infer<typeof editAvailabilityFormSchema>;
+
+const defaultFormValues = (audience: AvailabilityAudience | null = null): AvailabilityFormValues => ({
+  date: format(new Date(), 'yyyy-MM-dd'),
+  startTime: "08:00",
+  endTime: "17:00",
+  capacity: 1,
+  slotDuration: DEFAULT_SLOT_DURATION,
+  breakStart: "",
+  breakEnd: "",
+  repeat: false,
+  daysOfWeek: [1, 2, 3, 4, 5],
+  interval: 1,
+  recurrenceEnd: "until",
+  until: "",
+  count: 10,
+  exceptions: [],
+  audience,
+});
+
+const toBreaks = (data: Pick<AvailabilityFormValues, "breakStart" | "breakEnd">): TimeRange[] =>
+  data.breakStart && data.breakEnd ? [{ start: data.breakStart, end: data.breakEnd }] : [];
+
+const toRecurrenceRule = (data: AvailabilityFormValues): RecurrenceRule => ({
+  daysOfWeek: data.daysOfWeek,
+  interval: data.interval,
+  exceptions: data.exceptions,
+  ...(data.recurrenceEnd === "until" ? { until: data.until } : { count: data.count }),
+});
+
 export default function EmbasaDashboard() {
-  const { user, logout } = useAuth();
+  const { user, logout, can } = useAuth();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
   const [currentDate, setCurrentDate] = useState(new Date());
+  const [isDetailsDialogOpen, setIsDetailsDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [selectedAvailability, setSelectedAvailability] = useState<Availability | null>(null);
+  const [seriesScope, setSeriesScope] = useState<SeriesScope>("occurrence");
+  const [exceptionDate, setExceptionDate] = useState("");
+  const [editConflict, setEditConflict] = useState<EditConflict | null>(null);
+  const [deleteConflicts, setDeleteConflicts] = useState<ConflictingBooking[] | null>(null);
+  const [cancelReason, setCancelReason] = useState("");
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const [bookingToComplete, setBookingToComplete] = useState<EmbasaBooking | null>(null);
+  const [technicianNotes, setTechnicianNotes] = useState("");
+  const [completedAt, setCompletedAt] = useState("");
   
   // Calculate statistics based on availabilities
   const calculateStats = (availabilities: Availability[]): EmbasaStats => {
@@ -85,8 +274,10 @@ export default function EmbasaDashboard() {
     let remainingSlots = 0;
     
     availabilities.forEach(avail => {
-      totalSlots += avail.capacity;
-      remainingSlots += avail.remainingSlots;
+      avail.slots.forEach(slot => {
+        totalSlots += slot.capacity;
+        remainingSlots += slot.remainingSlots;
+      });
     });
     
     const confirmedBookings = totalSlots - remainingSlots;
@@ -118,11 +309,51 @@ export default function EmbasaDashboard() {
   // Form for creating new availabilities
   const form = useForm<AvailabilityFormValues>({
     resolver: zodResolver(availabilityFormSchema),
+    defaultValues: defaultFormValues(),
+  });
+
+  // Query for the location registry: SAC units and municipalities an availability can be published to
+  const { data: locations = [] } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+    enabled: !!user && user.role === "embasa",
+  });
+
+  // Por padrão, novas disponibilidades vão para os postos SAC do município da unidade
+  const defaultAudience = regionAudience(locations, user?.locationId);
+  const defaultAudienceKey = JSON.stringify(defaultAudience);
+  useEffect(() => {
+    if (!form.getFieldState("audience").isDirty) {
+      form.setValue("audience", defaultAudience);
+    }
+  }, [defaultAudienceKey]);
+
+  // Preview of the time slots the server will generate for the current form values
+  const [watchStart, watchEnd, watchDuration, watchBreakStart, watchBreakEnd] = form.watch([
+    "startTime", "endTime", "slotDuration", "breakStart", "breakEnd",
+  ]);
+  const previewSlots = watchStart && watchEnd && watchEnd > watchStart
+    ? createTimeSlots(watchStart, watchEnd, Number(watchDuration), toBreaks({ breakStart: watchBreakStart, breakEnd: watchBreakEnd }))
+    : [];
+
+  // Preview of the dates a recurring series will create
+  const watchRepeat = form.watch("repeat");
+  const watchExceptions = form.watch("exceptions");
+  const formValues = form.getValues();
+  const previewDates = watchRepeat && formValues.date && formValues.daysOfWeek.length > 0
+    ? expandRecurrence(formValues.date, toRecurrenceRule(formValues))
+    : [];
+
+  // Form for editing the selected availability
+  const editForm = useForm<EditAvailabilityFormValues>({
+    resolver: zodResolver(editAvailabilityFormSchema),
     defaultValues: {
-      date: format(new Date(), 'yyyy-MM-dd'),
       startTime: "08:00",
       endTime: "17:00",
-      capacity: 5,
+      capacity: 1,
+      slotDuration: DEFAULT_SLOT_DURATION,
+      breakStart: "",
+      breakEnd: "",
+      audience: null,
     },
   });
 
@@ -144,12 +375,29 @@ export default function EmbasaDashboard() {
     enabled: !!user && user.role === "embasa",
   });
 
+  // Holidays and closures: no availability can be published on these days
+  const { blackoutsByDate } = useBlackoutDates(year, month, !!user && user.role === "embasa");
+
+  // Query for the bookings of the day selected in the calendar
+  const {
+    data: dayBookings = [],
+    isLoading: isLoadingDayBookings,
+  } = useQuery<EmbasaBooking[]>({
+    queryKey: ["/api/embasa/bookings", selectedDay],
+    queryFn: async () => {
+      const res = await fetch(`/api/embasa/bookings?date=${selectedDay}`);
+      if (!res.ok) throw new Error("Failed to fetch bookings");
+      return res.json();
+    },
+    enabled: can("booking:view:received") && !!selectedDay,
+  });
+
   // Stats derived from availabilities
   const stats = calculateStats(availabilities);
 
   // Mutation for creating availabilities
   const createAvailabilityMutation = useMutation({
-    mutationFn: async (data: AvailabilityFormValues) => {
+    mutationFn: async (data: AvailabilityPayload) => {
       // Certifique-se de que a data está no formato correto
       console.log("Data sendo enviada:", data);
       
@@ -160,21 +408,49 @@ export default function EmbasaDashboard() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/availabilities"] });
-      form.reset({
-        date: format(new Date(), 'yyyy-MM-dd'),
-        startTime: "08:00",
-        endTime: "17:00",
-        capacity: 5,
-      });
+      form.reset(defaultFormValues(defaultAudience));
       toast({
         title: "Disponibilidade criada",
         description: "A disponibilidade foi adicionada com sucesso",
       });
     },
     onError: (error) => {
+      // 409: a data escolhida é feriado ou fechamento da unidade
+      const isBlocked = error.message.startsWith("409");
+      toast({
+        title: isBlocked ? "Data bloqueada" : "Erro ao criar disponibilidade",
+        description: isBlocked
+          ? "A data escolhida é feriado ou a unidade estará fechada"
+          : "Não foi possível adicionar a disponibilidade",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutation for editing availabilities
+  const updateAvailabilityMutation = useMutation({
+    mutationFn: async ({ id, ...data }: { id: number; scope: SeriesScope } & Omit<AvailabilityPayload, "date">) => {
+      await apiRequest("PATCH", `/api/availabilities/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/availabilities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/embasa/bookings"] });
+      setIsDetailsDialogOpen(false);
+      setSelectedAvailability(null);
+      toast({
+        title: "Disponibilidade atualizada",
+        description: "As alterações foram salvas com sucesso",
+      });
+    },
+    onError: (error) => {
+      // 409: a alteração deixaria agendamentos confirmados sem vaga ou fora da nova janela
+      if (error.message.startsWith("409")) {
+        setEditConflict(JSON.parse(error.message.slice(error.message.indexOf(":") + 1)));
+        return;
+      }
       toast({
-        title: "Erro ao criar disponibilidade",
-        description: "Não foi possível adicionar a disponibilidade",
+        title: "Erro ao atualizar disponibilidade",
+        description: "Não foi possível salvar as alterações",
         variant: "destructive",
       });
     },
@@ -182,12 +458,15 @@ export default function EmbasaDashboard() {
 
   // Mutation for deleting availabilities
   const deleteAvailabilityMutation = useMutation({
-    mutationFn: async (id: number) => {
-      await apiRequest("DELETE", `/api/availabilities/${id}`, undefined);
+    mutationFn: async ({ id, scope, cancelReason }: { id: number; scope: SeriesScope; cancelReason?: string }) => {
+      await apiRequest("DELETE", `/api/availabilities/${id}?scope=${scope}`, cancelReason ? { cancelReason } : undefined);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/availabilities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/embasa/bookings"] });
       setIsDeleteDialogOpen(false);
+      setDeleteConflicts(null);
+      setIsDetailsDialogOpen(false);
       setSelectedAvailability(null);
       toast({
         title: "Disponibilidade removida",
@@ -195,6 +474,23 @@ export default function EmbasaDashboard() {
       });
     },
     onError: (error) => {
+      // 409: há agendamentos confirmados; a remoção exige cancelá-los informando o motivo.
+      // Visitas com check-in não podem ser canceladas, e a disponibilidade fica como está
+      if (error.message.startsWith("409")) {
+        const conflict = JSON.parse(error.message.slice(error.message.indexOf(":") + 1));
+        if (conflict.reason === "checked_in") {
+          setIsDeleteDialogOpen(false);
+          setDeleteConflicts(null);
+          toast({
+            title: "Disponibilidade não removida",
+            description: `${conflict.bookings?.length ?? 0} visita(s) já tiveram check-in; registre o resultado antes de remover`,
+            variant: "destructive",
+          });
+          return;
+        }
+        setDeleteConflicts(conflict.bookings ?? []);
+        return;
+      }
       toast({
         title: "Erro ao remover disponibilidade",
         description: "Não foi possível remover a disponibilidade",
@@ -203,45 +499,124 @@ export default function EmbasaDashboard() {
     },
   });
 
+  // Mutation for recording check-in, completion or no-show of a visit
+  const recordOutcomeMutation = useMutation({
+    mutationFn: async ({ id, outcome }: { id: number; outcome: VisitOutcome }) => {
+      await apiRequest("POST", `/api/bookings/${id}/outcome`, outcome);
+    },
+    onSuccess: (_, { outcome }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/embasa/bookings"] });
+      setBookingToComplete(null);
+      toast({
+        title: "Atendimento atualizado",
+        description: `Agendamento marcado como "${BOOKING_STATUS_NAMES[outcome.status]}"`,
+      });
+    },
+    onError: (error) => {
+      // 409: o agendamento mudou de status (ex.: cancelado pelo SAC) e a transição não é mais permitida
+      const description = error.message.startsWith("409")
+        ? "O status do agendamento mudou; atualize a lista e tente novamente"
+        : "Não foi possível registrar o atendimento";
+      queryClient.invalidateQueries({ queryKey: ["/api/embasa/bookings"] });
+      toast({
+        title: "Erro ao registrar atendimento",
+        description,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openCompleteDialog = (booking: EmbasaBooking) => {
+    setBookingToComplete(booking);
+    setTechnicianNotes(booking.technicianNotes ?? "");
+    setCompletedAt(format(new Date(), "yyyy-MM-dd'T'HH:mm"));
+  };
+
+  const onSubmitComplete = () => {
+    if (!bookingToComplete) return;
+    recordOutcomeMutation.mutate({
+      id: bookingToComplete.id,
+      outcome: {
+        status: "completed",
+        technicianNotes: technicianNotes.trim() || undefined,
+        completedAt: completedAt ? new Date(completedAt).toISOString() : undefined,
+      },
+    });
+  };
+
   const onSubmit = (data: AvailabilityFormValues) => {
-    // Garantindo que a data está no formato correto
-    console.log("Dados do formulário:", data);
-    
-    // Certifique-se de que a data seja uma string no formato "YYYY-MM-DD"
-    const dateValue = data.date;
-    
-    // Calculando horário final automaticamente (+ 2 horas)
-    const startHourMinutes = data.startTime.split(':');
-    const startHour = parseInt(startHourMinutes[0], 10);
-    const startMinute = parseInt(startHourMinutes[1], 10);
-    
-    // Adicionar 2 horas ao horário inicial
-    let endHour = startHour + 2;
-    // Formatando para garantir duas casas (ex: "09:00" em vez de "9:00")
-    const endTime = `${endHour.toString().padStart(2, '0')}:${startMinute.toString().padStart(2, '0')}`;
-    
-    // Definindo capacidade fixa como 1
-    const capacityValue = 1;
-    
     createAvailabilityMutation.mutate({
-      ...data,
-      date: dateValue,
-      endTime: endTime,
-      capacity: capacityValue
+      date: data.date,
+      startTime: data.startTime,
+      endTime: data.endTime,
+      capacity: data.capacity,
+      slotDuration: data.slotDuration,
+      breaks: toBreaks(data),
+      recurrence: data.repeat ? toRecurrenceRule(data) : undefined,
+      audience: data.audience,
     });
   };
 
+  const toggleDayOfWeek = (day: number, checked: boolean) => {
+    const days = form.getValues("daysOfWeek").filter(d => d !== day);
+    form.setValue("daysOfWeek", checked ? [...days, day].sort() : days, { shouldValidate: true });
+  };
+
+  const addExceptionDate = () => {
+    const exceptions = form.getValues("exceptions");
+    if (exceptionDate && !exceptions.includes(exceptionDate)) {
+      form.setValue("exceptions", [...exceptions, exceptionDate].sort());
+    }
+    setExceptionDate("");
+  };
+
+  const removeExceptionDate = (date: string) => {
+    form.setValue("exceptions", form.getValues("exceptions").filter(d => d !== date));
+  };
+
+  const onEditSubmit = ({ breakStart, breakEnd, ...data }: EditAvailabilityFormValues) => {
+    if (selectedAvailability) {
+      updateAvailabilityMutation.mutate({
+        id: selectedAvailability.id,
+        scope: seriesScope,
+        ...data,
+        breaks: toBreaks({ breakStart, breakEnd }),
+      });
+    }
+  };
+
   const handleDeleteAvailability = () => {
     if (selectedAvailability) {
-      deleteAvailabilityMutation.mutate(selectedAvailability.id);
+      deleteAvailabilityMutation.mutate({
+        id: selectedAvailability.id,
+        scope: seriesScope,
+        cancelReason: deleteConflicts ? cancelReason.trim() : undefined,
+      });
     }
   };
 
-  const openDeleteDialog = (availability: Availability) => {
-    setSelectedAvailability(availability);
+  const openDeleteDialog = () => {
+    setDeleteConflicts(null);
+    setCancelReason("");
     setIsDeleteDialogOpen(true);
   };
 
+  const openDetailsDialog = (availability: Availability) => {
+    setSelectedAvailability(availability);
+    setSeriesScope("occurrence");
+    setEditConflict(null);
+    editForm.reset({
+      startTime: availability.startTime,
+      endTime: availability.endTime,
+      capacity: availability.capacity,
+      slotDuration: availability.slotDuration,
+      breakStart: availability.breaks[0]?.start ?? "",
+      breakEnd: availability.breaks[0]?.end ?? "",
+      audience: availability.audience,
+    });
+    setIsDetailsDialogOpen(true);
+  };
+
   const handlePreviousMonth = () => {
     setCurrentDate(subMonths(currentDate, 1));
   };
@@ -259,7 +634,7 @@ export default function EmbasaDashboard() {
   const availabilitiesByDate: Record<string, Availability[]> = {};
   
   availabilities.forEach(avail => {
-    const dateStr = format(new Date(avail.date), 'yyyy-MM-dd');
+    const dateStr = format(parseISO(avail.date), 'yyyy-MM-dd');
     if (!availabilitiesByDate[dateStr]) {
       availabilitiesByDate[dateStr] = [];
     }
@@ -284,6 +659,7 @@ export default function EmbasaDashboard() {
         title="Painel EMBASA"
         icon="event_available"
         role="embasa"
+        username={user?.account?.name ?? user?.code}
         onLogout={logout}
       />
 
@@ -311,67 +687,330 @@ export default function EmbasaDashboard() {
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
               {/* Calendar Controls */}
               <div className="lg:col-span-1">
-                <Card className="bg-blue-50 border-0 mb-6">
-                  <CardHeader className="pb-2">
-                    <CardTitle className="text-base text-blue-600 flex items-center">
-                      <span className="material-icons mr-1 text-xl">date_range</span>
-                      Adicionar Disponibilidade
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <Form {...form}>
-                      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                        <FormField
-                          control={form.control}
-                          name="date"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Data</FormLabel>
-                              <FormControl>
-                                <Input type="date" {...field} />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-
-                        <FormField
-                          control={form.control}
-                          name="startTime"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Horário Inicial</FormLabel>
-                              <FormControl>
-                                <Input type="time" {...field} />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
+                {can("availability:create") && (
+                  <Card className="bg-blue-50 border-0 mb-6">
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-base text-blue-600 flex items-center">
+                        <span className="material-icons mr-1 text-xl">date_range</span>
+                        Adicionar Disponibilidade
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <Form {...form}>
+                        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                          <FormField
+                            control={form.control}
+                            name="date"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Data</FormLabel>
+                                <FormControl>
+                                  <Input type="date" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <div className="grid grid-cols-2 gap-3">
+                            <FormField
+                              control={form.control}
+                              name="startTime"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Horário Inicial</FormLabel>
+                                  <FormControl>
+                                    <Input type="time" {...field} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+
+                            <FormField
+                              control={form.control}
+                              name="endTime"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Horário Final</FormLabel>
+                                  <FormControl>
+                                    <Input type="time" {...field} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          </div>
+
+                          <div className="grid grid-cols-2 gap-3">
+                            <FormField
+                              control={form.control}
+                              name="slotDuration"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Duração de Cada Horário</FormLabel>
+                                  <Select
+                                    onValueChange={(value) => field.onChange(Number(value))}
+                                    value={String(field.value)}
+                                  >
+                                    <FormControl>
+                                      <SelectTrigger>
+                                        <SelectValue placeholder="Duração" />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                      {SLOT_DURATIONS.map((duration) => (
+                                        <SelectItem key={duration} value={String(duration)}>
+                                          {duration} min
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+
+                            <FormField
+                              control={form.control}
+                              name="capacity"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Vagas por Horário</FormLabel>
+                                  <FormControl>
+                                    <Input type="number" min={1} {...field} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          </div>
+
+                          <div className="grid grid-cols-2 gap-3">
+                            <FormField
+                              control={form.control}
+                              name="breakStart"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Intervalo (início)</FormLabel>
+                                  <FormControl>
+                                    <Input type="time" {...field} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+
+                            <FormField
+                              control={form.control}
+                              name="breakEnd"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Intervalo (fim)</FormLabel>
+                                  <FormControl>
+                                    <Input type="time" {...field} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          </div>
+
+                          <FormField
+                            control={form.control}
+                            name="audience"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Publicar para</FormLabel>
+                                <AvailabilityAudienceField
+                                  value={field.value}
+                                  onChange={field.onChange}
+                                  locations={locations}
+                                  idPrefix="new"
+                                />
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <div className="text-sm text-neutral-600">
+                            <p className="font-medium text-blue-600 mb-1">
+                              {previewSlots.length} {previewSlots.length === 1 ? "horário gerado" : "horários gerados"}
+                            </p>
+                            <p className="text-xs">
+                              {previewSlots.length > 0
+                                ? previewSlots.join(", ")
+                                : "A janela informada não comporta nenhum horário"}
+                            </p>
+                          </div>
+
+                          <FormField
+                            control={form.control}
+                            name="repeat"
+                            render={({ field }) => (
+                              <FormItem className="flex items-center space-x-2 space-y-0">
+                                <FormControl>
+                                  <Checkbox
+                                    checked={field.value}
+                                    onCheckedChange={(checked) => field.onChange(checked === true)}
+                                  />
+                                </FormControl>
+                                <FormLabel className="font-normal">Repetir semanalmente</FormLabel>
+                              </FormItem>
+                            )}
+                          />
+
+                          {watchRepeat && (
+                            <div className="space-y-4 rounded-md border border-blue-100 bg-white p-3">
+                              <FormField
+                                control={form.control}
+                                name="daysOfWeek"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Dias da Semana</FormLabel>
+                                    <div className="flex flex-wrap gap-3">
+                                      {DAYS_OF_WEEK.map((label, day) => (
+                                        <div key={label} className="flex items-center space-x-1">
+                                          <Checkbox
+                                            id={`day-${day}`}
+                                            checked={field.value.includes(day)}
+                                            onCheckedChange={(checked) => toggleDayOfWeek(day, checked === true)}
+                                          />
+                                          <Label htmlFor={`day-${day}`} className="font-normal">{label}</Label>
+                                        </div>
+                                      ))}
+                                    </div>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+
+                              <FormField
+                                control={form.control}
+                                name="interval"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Repetir a cada (semanas)</FormLabel>
+                                    <FormControl>
+                                      <Input type="number" min={1} max={52} {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+
+                              <FormField
+                                control={form.control}
+                                name="recurrenceEnd"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Termina</FormLabel>
+                                    <FormControl>
+                                      <RadioGroup
+                                        onValueChange={field.onChange}
+                                        value={field.value}
+                                        className="flex gap-4"
+                                      >
+                                        <div className="flex items-center space-x-1">
+                                          <RadioGroupItem value="until" id="recurrence-until" />
+                                          <Label htmlFor="recurrence-until" className="font-normal">Em uma data</Label>
+                                        </div>
+                                        <div className="flex items-center space-x-1">
+                                          <RadioGroupItem value="count" id="recurrence-count" />
+                                          <Label htmlFor="recurrence-count" className="font-normal">Após N ocorrências</Label>
+                                        </div>
+                                      </RadioGroup>
+                                    </FormControl>
+                                  </FormItem>
+                                )}
+                              />
+
+                              {form.watch("recurrenceEnd") === "until" ? (
+                                <FormField
+                                  control={form.control}
+                                  name="until"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>Data Final</FormLabel>
+                                      <FormControl>
+                                        <Input type="date" {...field} />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                              ) : (
+                                <FormField
+                                  control={form.control}
+                                  name="count"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>Número de Ocorrências</FormLabel>
+                                      <FormControl>
+                                        <Input type="number" min={1} {...field} />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                              )}
+
+                              <div className="space-y-2">
+                                <Label>Exceções (feriados, folgas)</Label>
+                                <div className="flex gap-2">
+                                  <Input
+                                    type="date"
+                                    value={exceptionDate}
+                                    onChange={(e) => setExceptionDate(e.target.value)}
+                                  />
+                                  <Button type="button" variant="outline" onClick={addExceptionDate}>
+                                    Adicionar
+                                  </Button>
+                                </div>
+                                <div className="flex flex-wrap gap-1">
+                                  {watchExceptions.map((date) => (
+                                    <button
+                                      key={date}
+                                      type="button"
+                                      onClick={() => removeExceptionDate(date)}
+                                      className="text-xs px-2 py-1 rounded-full bg-neutral-100 text-neutral-700 flex items-center"
+                                    >
+                                      {format(parseISO(date), 'dd/MM/yyyy')}
+                                      <span className="material-icons text-xs ml-1">close</span>
+                                    </button>
+                                  ))}
+                                </div>
+                              </div>
+
+                              <p className="text-sm font-medium text-blue-600">
+                                {previewDates.length} {previewDates.length === 1 ? "ocorrência" : "ocorrências"}
+                                {previewDates.length > 0 && (
+                                  <span className="font-normal text-neutral-600">
+                                    {" "}de {format(parseISO(previewDates[0]), 'dd/MM/yyyy')} a{" "}
+                                    {format(parseISO(previewDates[previewDates.length - 1]), 'dd/MM/yyyy')}
+                                  </span>
+                                )}
+                              </p>
+                              {previewDates.length > MAX_SERIES_OCCURRENCES && (
+                                <p className="text-sm text-red-600">
+                                  Uma série pode ter no máximo {MAX_SERIES_OCCURRENCES} ocorrências; escolha uma data final mais próxima.
+                                </p>
+                              )}
+                            </div>
                           )}
-                        />
-
-                        {/* Campo endTime oculto com valor automático */}
-                        <input 
-                          type="hidden" 
-                          {...form.register("endTime")}
-                        />
-                        
-                        {/* Campo capacity oculto com valor padrão */}
-                        <input 
-                          type="hidden" 
-                          {...form.register("capacity")}
-                        />
-
-                        <Button 
-                          type="submit" 
-                          className="w-full bg-blue-600 hover:bg-blue-700"
-                          disabled={createAvailabilityMutation.isPending}
-                        >
-                          {createAvailabilityMutation.isPending ? "Adicionando..." : "Adicionar Horários"}
-                        </Button>
-                      </form>
-                    </Form>
-                  </CardContent>
-                </Card>
+
+                          <Button 
+                            type="submit" 
+                            className="w-full bg-blue-600 hover:bg-blue-700"
+                            disabled={createAvailabilityMutation.isPending}
+                          >
+                            {createAvailabilityMutation.isPending ? "Adicionando..." : "Adicionar Horários"}
+                          </Button>
+                        </form>
+                      </Form>
+                    </CardContent>
+                  </Card>
+                )}
 
                 <Card className="bg-neutral-50 border border-neutral-200">
                   <CardHeader className="pb-2">
@@ -430,8 +1069,9 @@ export default function EmbasaDashboard() {
                   year={year}
                   month={month}
                   availabilitiesByDate={availabilitiesByDate}
+                  blackoutsByDate={blackoutsByDate}
                   isLoading={isLoadingAvailabilities}
-                  onAvailabilityClick={openDeleteDialog}
+                  onAvailabilityClick={(availability) => setSelectedDay(availability.date.slice(0, 10))}
                   role="embasa"
                 />
 
@@ -440,14 +1080,356 @@ export default function EmbasaDashboard() {
                     <span className="w-3 h-3 inline-block bg-blue-100 rounded-full mr-2"></span>
                     Horários disponíveis para atendimento
                   </p>
-                  <p>Clique em um horário para ver os detalhes ou removê-lo</p>
+                  <p className="flex items-center mb-1">
+                    <span className="w-3 h-3 inline-block bg-neutral-200 rounded-full mr-2"></span>
+                    Feriados e fechamentos (séries recorrentes pulam esses dias)
+                  </p>
+                  <p>Clique em um dia para ver os agendamentos, editar ou remover os horários</p>
                 </div>
+
+                {/* Day detail: availabilities of the selected day and who booked them */}
+                {selectedDay && (
+                  <Card className="mt-6 border border-blue-100">
+                    <CardHeader className="pb-2 flex flex-row items-center justify-between">
+                      <CardTitle className="text-base text-blue-600 flex items-center">
+                        <span className="material-icons mr-1 text-xl">event_note</span>
+                        Agendamentos de {format(parseISO(selectedDay), "dd/MM/yyyy")}
+                      </CardTitle>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setSelectedDay(null)}
+                        className="text-neutral-500"
+                      >
+                        <span className="material-icons text-base">close</span>
+                      </Button>
+                    </CardHeader>
+                    <CardContent className="space-y-6">
+                      {!availabilitiesByDate[selectedDay] && (
+                        <p className="text-sm text-neutral-600">Nenhum horário publicado neste dia</p>
+                      )}
+                      {(availabilitiesByDate[selectedDay] ?? []).map((availability) => {
+                        const bookingsOfAvailability = dayBookings.filter(b => b.availabilityId === availability.id);
+                        return (
+                          <div key={availability.id}>
+                            <div className="flex justify-between items-center mb-2">
+                              <p className="font-medium text-blue-600">
+                                {availability.startTime} - {availability.endTime}
+                                <span className="ml-2 text-sm font-normal text-neutral-600">
+                                  {availability.remainingSlots} vaga(s) livre(s)
+                                </span>
+                              </p>
+                              {(can("availability:update") || can("availability:delete")) && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => openDetailsDialog(availability)}
+                                >
+                                  <span className="material-icons mr-1 text-base">edit</span>
+                                  Editar
+                                </Button>
+                              )}
+                            </div>
+
+                            {!can("booking:view:received") ? null : isLoadingDayBookings ? (
+                              <p className="text-sm text-neutral-600">Carregando agendamentos...</p>
+                            ) : bookingsOfAvailability.length === 0 ? (
+                              <p className="text-sm text-neutral-600">Nenhum agendamento neste horário</p>
+                            ) : (
+                              <div className="overflow-x-auto">
+                                <Table>
+                                  <TableHeader>
+                                    <TableRow>
+                                      <TableHead>Horário</TableHead>
+                                      <TableHead>Cliente</TableHead>
+                                      <TableHead>SS</TableHead>
+                                      <TableHead>Telefone</TableHead>
+                                      <TableHead>Unidade SAC</TableHead>
+                                      <TableHead>Status</TableHead>
+                                      <TableHead>Atendimento</TableHead>
+                                    </TableRow>
+                                  </TableHeader>
+                                  <TableBody>
+                                    {bookingsOfAvailability.map((booking) => (
+                                      <TableRow key={booking.id}>
+                                        <TableCell>{booking.timeSlot}</TableCell>
+                                        <TableCell>
+                                          <p className="font-medium">{booking.clientName}</p>
+                                          {booking.comments && (
+                                            <p className="text-xs text-neutral-500">{booking.comments}</p>
+                                          )}
+                                        </TableCell>
+                                        <TableCell>{booking.serviceNumber}</TableCell>
+                                        <TableCell>{booking.clientPhone || "-"}</TableCell>
+                                        <TableCell>
+                                          {booking.sacLocation || "-"}
+                                          {booking.createdByName && (
+                                            <p className="text-xs text-neutral-500">Agendado por {booking.createdByName}</p>
+                                          )}
+                                        </TableCell>
+                                        <TableCell>
+                                          <span className={`px-2 py-1 text-xs rounded-full ${STATUS_COLORS[booking.status as keyof typeof STATUS_COLORS] ?? 'bg-neutral-100 text-neutral-700'}`}>
+                                            {BOOKING_STATUS_NAMES[booking.status as keyof typeof BOOKING_STATUS_NAMES] ?? booking.status}
+                                          </span>
+                                          {booking.technicianNotes && (
+                                            <p className="text-xs text-neutral-500 mt-1">{booking.technicianNotes}</p>
+                                          )}
+                                        </TableCell>
+                                        <TableCell>
+                                          <div className="flex space-x-1">
+                                            {can("booking:outcome") && booking.status === BOOKING_STATUS.SCHEDULED && (
+                                              <Button
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={() => recordOutcomeMutation.mutate({ id: booking.id, outcome: { status: "checked_in" } })}
+                                                disabled={recordOutcomeMutation.isPending}
+                                              >
+                                                Check-in
+                                              </Button>
+                                            )}
+                                            {can("booking:outcome") && booking.status === BOOKING_STATUS.CHECKED_IN && (
+                                              <Button
+                                                size="sm"
+                                                onClick={() => openCompleteDialog(booking)}
+                                                disabled={recordOutcomeMutation.isPending}
+                                                className="bg-blue-600 hover:bg-blue-700"
+                                              >
+                                                Concluir
+                                              </Button>
+                                            )}
+                                            {can("booking:outcome") && (booking.status === BOOKING_STATUS.SCHEDULED || booking.status === BOOKING_STATUS.CHECKED_IN) && (
+                                              <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={() => recordOutcomeMutation.mutate({ id: booking.id, outcome: { status: "no_show" } })}
+                                                disabled={recordOutcomeMutation.isPending}
+                                                className="text-yellow-700 hover:text-yellow-800 hover:bg-yellow-50"
+                                              >
+                                                Não compareceu
+                                              </Button>
+                                            )}
+                                          </div>
+                                        </TableCell>
+                                      </TableRow>
+                                    ))}
+                                  </TableBody>
+                                </Table>
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </CardContent>
+                  </Card>
+                )}
               </div>
             </div>
           </CardContent>
         </Card>
       </main>
 
+      {/* Dialog with details and editing of the selected availability */}
+      <Dialog open={isDetailsDialogOpen} onOpenChange={setIsDetailsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Detalhes da Disponibilidade</DialogTitle>
+            <DialogDescription>
+              {selectedAvailability && (
+                <>
+                  {format(parseISO(selectedAvailability.date), 'dd/MM/yyyy')}, das{" "}
+                  {selectedAvailability.startTime} às {selectedAvailability.endTime}
+                  {selectedAvailability.seriesId && " · faz parte de uma série recorrente"}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedAvailability?.seriesId && (
+            <div className="space-y-2">
+              <Label>Aplicar alterações a</Label>
+              <RadioGroup
+                value={seriesScope}
+                onValueChange={(value) => setSeriesScope(value as SeriesScope)}
+              >
+                {SERIES_SCOPES.map((scope) => (
+                  <div key={scope} className="flex items-center space-x-2">
+                    <RadioGroupItem value={scope} id={`scope-${scope}`} />
+                    <Label htmlFor={`scope-${scope}`} className="font-normal">{SERIES_SCOPE_NAMES[scope]}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+          )}
+
+          <Form {...editForm}>
+            <form onSubmit={editForm.handleSubmit(onEditSubmit)} className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <FormField
+                  control={editForm.control}
+                  name="startTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Horário Inicial</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={editForm.control}
+                  name="endTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Horário Final</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <FormField
+                  control={editForm.control}
+                  name="slotDuration"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Duração de Cada Horário</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(Number(value))}
+                        value={String(field.value)}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Duração" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {SLOT_DURATIONS.map((duration) => (
+                            <SelectItem key={duration} value={String(duration)}>
+                              {duration} min
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={editForm.control}
+                  name="capacity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Vagas por Horário</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <FormField
+                  control={editForm.control}
+                  name="breakStart"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Intervalo (início)</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={editForm.control}
+                  name="breakEnd"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Intervalo (fim)</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={editForm.control}
+                name="audience"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Publicar para</FormLabel>
+                    <AvailabilityAudienceField
+                      value={field.value}
+                      onChange={field.onChange}
+                      locations={locations}
+                      idPrefix="edit"
+                    />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {editConflict && (
+                <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">
+                  <p className="font-medium mb-1">
+                    {editConflict.reason === "capacity"
+                      ? "A capacidade não pode ficar abaixo dos agendamentos confirmados:"
+                      : "Estes agendamentos confirmados ficariam fora da nova janela:"}
+                  </p>
+                  <ul className="space-y-1 max-h-40 overflow-y-auto">
+                    {editConflict.bookings.map((booking) => (
+                      <li key={booking.id}>
+                        {format(parseISO(booking.date), 'dd/MM/yyyy')} às {booking.timeSlot} · {booking.clientName} · SS {booking.serviceNumber}
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="mt-2 text-xs">
+                    Peça ao SAC para remarcar ou cancelar esses agendamentos antes de salvar a alteração.
+                  </p>
+                </div>
+              )}
+
+              <DialogFooter className="gap-2">
+                {can("availability:delete") && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="text-red-500 border-red-200 hover:bg-red-50"
+                    onClick={openDeleteDialog}
+                  >
+                    Remover
+                  </Button>
+                )}
+                {can("availability:update") && (
+                  <Button
+                    type="submit"
+                    className="bg-blue-600 hover:bg-blue-700"
+                    disabled={updateAvailabilityMutation.isPending}
+                  >
+                    {updateAvailabilityMutation.isPending ? "Salvando..." : "Salvar Alterações"}
+                  </Button>
+                )}
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
       {/* Alert dialog for deleting availability */}
       <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <AlertDialogContent>
@@ -457,25 +1439,106 @@ export default function EmbasaDashboard() {
               {selectedAvailability && (
                 <>
                   Você está prestes a remover a disponibilidade do dia{" "}
-                  {format(new Date(selectedAvailability.date), 'dd/MM/yyyy')}, das{" "}
-                  {selectedAvailability.startTime} às {selectedAvailability.endTime}.
+                  {format(parseISO(selectedAvailability.date), 'dd/MM/yyyy')}, das{" "}
+                  {selectedAvailability.startTime} às {selectedAvailability.endTime}
+                  {selectedAvailability.seriesId && ` (${SERIES_SCOPE_NAMES[seriesScope].toLowerCase()} da série)`}.
                   <br /><br />
                   Esta ação não pode ser desfeita.
                 </>
               )}
             </AlertDialogDescription>
           </AlertDialogHeader>
+
+          {deleteConflicts && (
+            <div className="space-y-3 text-sm">
+              <div className="rounded-md border border-red-200 bg-red-50 p-3 text-red-700">
+                <p className="font-medium mb-1">
+                  {deleteConflicts.length} agendamento(s) confirmado(s) serão cancelados pela EMBASA:
+                </p>
+                <ul className="space-y-1 max-h-40 overflow-y-auto">
+                  {deleteConflicts.map((booking) => (
+                    <li key={booking.id}>
+                      {booking.date ? format(parseISO(booking.date), 'dd/MM/yyyy') : ""} às {booking.timeSlot} · {booking.clientName} · SS {booking.serviceNumber}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="cancel-reason">Motivo do cancelamento (será exibido ao SAC)</Label>
+                <Textarea
+                  id="cancel-reason"
+                  value={cancelReason}
+                  onChange={(e) => setCancelReason(e.target.value)}
+                  placeholder="Ex: Equipe técnica indisponível neste dia"
+                />
+              </div>
+            </div>
+          )}
+
           <AlertDialogFooter>
-            <AlertDialogCancel>Cancelar</AlertDialogCancel>
-            <AlertDialogAction 
+            <AlertDialogCancel>Voltar</AlertDialogCancel>
+            <Button 
               onClick={handleDeleteAvailability}
+              disabled={deleteAvailabilityMutation.isPending || (!!deleteConflicts && !cancelReason.trim())}
               className="bg-red-500 hover:bg-red-600"
             >
-              {deleteAvailabilityMutation.isPending ? "Removendo..." : "Remover"}
-            </AlertDialogAction>
+              {deleteAvailabilityMutation.isPending
+                ? "Removendo..."
+                : deleteConflicts ? "Cancelar Agendamentos e Remover" : "Remover"}
+            </Button>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* Dialog for completing a visit */}
+      <Dialog open={!!bookingToComplete} onOpenChange={(open) => !open && setBookingToComplete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Concluir Atendimento</DialogTitle>
+            <DialogDescription>
+              {bookingToComplete && (
+                <>
+                  {bookingToComplete.clientName} (SS {bookingToComplete.serviceNumber}) às {bookingToComplete.timeSlot}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="completed-at">Concluído em</Label>
+              <Input
+                id="completed-at"
+                type="datetime-local"
+                value={completedAt}
+                onChange={(e) => setCompletedAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="technician-notes">Observações do técnico</Label>
+              <Textarea
+                id="technician-notes"
+                placeholder="Ex: Hidrômetro substituído"
+                value={technicianNotes}
+                onChange={(e) => setTechnicianNotes(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setBookingToComplete(null)}>
+              Voltar
+            </Button>
+            <Button
+              onClick={onSubmitComplete}
+              disabled={recordOutcomeMutation.isPending}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              {recordOutcomeMutation.isPending ? "Salvando..." : "Concluir"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
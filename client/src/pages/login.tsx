@@ -24,12 +24,21 @@ const loginSchema = z.object({
   accessCode: z.string().min(1, "Código de acesso é obrigatório"),
 });
 
+// Conta pessoal: matrícula + senha/PIN, com perfil e unidade do código de acesso vinculado
+const accountLoginSchema = z.object({
+  registrationNumber: z.string().min(1, "Matrícula é obrigatória"),
+  password: z.string().min(1, "Senha ou PIN é obrigatório"),
+});
+
 type LoginFormValues = z.infer<typeof loginSchema>;
+type AccountLoginFormValues = z.infer<typeof accountLoginSchema>;
+type LoginMode = "code" | "account";
 
 export default function LoginPage() {
   const { login } = useAuth();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
+  const [mode, setMode] = useState<LoginMode>("code");
   const [, setLocation] = useLocation();
 
   const form = useForm<LoginFormValues>({
@@ -39,19 +48,33 @@ export default function LoginPage() {
     },
   });
 
-  const onSubmit = async (data: LoginFormValues) => {
+  const accountForm = useForm<AccountLoginFormValues>({
+    resolver: zodResolver(accountLoginSchema),
+    defaultValues: {
+      registrationNumber: "",
+      password: "",
+    },
+  });
+
+  const onSubmit = (data: LoginFormValues) =>
+    submitLogin("/api/auth/login", { accessCode: data.accessCode });
+
+  const onAccountSubmit = (data: AccountLoginFormValues) =>
+    submitLogin("/api/auth/login/account", data);
+
+  const submitLogin = async (url: string, body: Record<string, string>) => {
     setIsLoading(true);
     try {
-      const response = await apiRequest("POST", "/api/auth/login", {
-        accessCode: data.accessCode,
-      });
+      const response = await apiRequest("POST", url, body);
       
       const userData = await response.json();
       login(userData.user);
 
       toast({
         title: "Login realizado com sucesso",
-        description: `Bem-vindo ao Sistema de Agendamento!`,
+        description: userData.user.account
+          ? `Bem-vindo(a), ${userData.user.account.name}!`
+          : `Bem-vindo ao Sistema de Agendamento!`,
       });
 
       // Redirect based on user role
@@ -61,11 +84,25 @@ export default function LoginPage() {
         setLocation("/embasa");
       } else if (userData.user.role === "sac") {
         setLocation("/sac");
+      } else if (userData.user.role === "supervisor") {
+        setLocation("/supervisor");
       }
     } catch (error) {
+      // 429: muitas tentativas malsucedidas deste computador ou com este código
+      const message = error instanceof Error ? error.message : "";
       toast({
         title: "Erro ao fazer login",
-        description: "Código inválido. Por favor, tente novamente.",
+        description: message.startsWith("429")
+          ? "Muitas tentativas malsucedidas. Aguarde alguns minutos e tente novamente."
+          : message.includes("Access code expired")
+          ? "Este código de acesso expirou. Procure o administrador para renová-lo."
+          : message.includes("not valid yet")
+          ? "Este código de acesso ainda não está válido. Tente novamente a partir da data de início."
+          : message.includes("usage limit")
+          ? "Este código de acesso atingiu o limite de uso. Procure o administrador."
+          : mode === "account"
+            ? "Matrícula ou senha inválida. Por favor, tente novamente."
+            : "Código inválido. Por favor, tente novamente.",
         variant: "destructive",
       });
     } finally {
@@ -81,7 +118,9 @@ export default function LoginPage() {
             <h1 className="text-3xl font-bold text-neutral-900 mb-2">
               Sistema de Agendamento
             </h1>
-            <p className="text-neutral-600">Acesse com seu código de usuário</p>
+            <p className="text-neutral-600">
+              {mode === "code" ? "Acesse com seu código de usuário" : "Acesse com sua matrícula e senha"}
+            </p>
           </div>
 
           {/* User login image */}
@@ -93,42 +132,119 @@ export default function LoginPage() {
             />
           </div>
 
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-              <FormField
-                control={form.control}
-                name="accessCode"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Código de Acesso</FormLabel>
-                    <FormControl>
-                      <Input
-                        placeholder="Digite seu código de acesso"
-                        {...field}
-                        disabled={isLoading}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <Button 
-                type="submit" 
-                className="w-full bg-blue-500 hover:bg-blue-600" 
-                disabled={isLoading}
-              >
-                {isLoading ? (
-                  <span>Carregando...</span>
-                ) : (
-                  <>
-                    <span>Acessar</span>
-                    <LogIn className="ml-2 h-4 w-4" />
-                  </>
-                )}
-              </Button>
-            </form>
-          </Form>
+          <div className="mb-6 grid grid-cols-2 gap-2">
+            <Button
+              type="button"
+              variant={mode === "code" ? "default" : "outline"}
+              onClick={() => setMode("code")}
+              disabled={isLoading}
+            >
+              Código de acesso
+            </Button>
+            <Button
+              type="button"
+              variant={mode === "account" ? "default" : "outline"}
+              onClick={() => setMode("account")}
+              disabled={isLoading}
+            >
+              Conta pessoal
+            </Button>
+          </div>
+
+          {mode === "code" ? (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="accessCode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Código de Acesso</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="Digite seu código de acesso"
+                          {...field}
+                          disabled={isLoading}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button 
+                  type="submit" 
+                  className="w-full bg-blue-500 hover:bg-blue-600" 
+                  disabled={isLoading}
+                >
+                  {isLoading ? (
+                    <span>Carregando...</span>
+                  ) : (
+                    <>
+                      <span>Acessar</span>
+                      <LogIn className="ml-2 h-4 w-4" />
+                    </>
+                  )}
+                </Button>
+              </form>
+            </Form>
+          ) : (
+            <Form {...accountForm}>
+              <form onSubmit={accountForm.handleSubmit(onAccountSubmit)} className="space-y-6">
+                <FormField
+                  control={accountForm.control}
+                  name="registrationNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Matrícula</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="Digite sua matrícula"
+                          {...field}
+                          disabled={isLoading}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={accountForm.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Senha ou PIN</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="password"
+                          placeholder="Digite sua senha ou PIN"
+                          {...field}
+                          disabled={isLoading}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button 
+                  type="submit" 
+                  className="w-full bg-blue-500 hover:bg-blue-600" 
+                  disabled={isLoading}
+                >
+                  {isLoading ? (
+                    <span>Carregando...</span>
+                  ) : (
+                    <>
+                      <span>Acessar</span>
+                      <LogIn className="ml-2 h-4 w-4" />
+                    </>
+                  )}
+                </Button>
+              </form>
+            </Form>
+          )}
         </CardContent>
       </Card>
     </div>
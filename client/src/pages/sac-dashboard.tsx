@@ -1,16 +1,20 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { format, addMonths, subMonths } from "date-fns";
+import { format, addMonths, subMonths, parseISO } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { useBlackoutDates } from "@/hooks/use-blackout-dates";
 import { useLocation } from "wouter";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { apiRequest } from "@/lib/queryClient";
+import { BOOKING_STATUS, BOOKING_STATUS_NAMES, STATUS_COLORS } from "@/lib/constants";
 import Header from "@/components/header";
 import CalendarGrid from "@/components/calendar-grid";
+import type { Location } from "@/components/locations-card";
+import { AlertTriangle } from "lucide-react";
 
 // UI Components
 import {
@@ -30,6 +34,7 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import {
   Select,
   SelectContent,
@@ -37,8 +42,24 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 
 // Types
+type TimeSlot = {
+  id: number;
+  availabilityId: number;
+  startTime: string;
+  capacity: number;
+  remainingSlots: number;
+};
+
 type Availability = {
   id: number;
   date: string;
@@ -48,18 +69,33 @@ type Availability = {
   remainingSlots: number;
   createdBy: string;
   createdAt: string;
+  slotDuration: number;
+  breaks: { start: string; end: string }[];
+  seriesId: number | null;
+  locationId: number | null;
+  slots: TimeSlot[];
 };
 
+// Filtro do calendário: todas as unidades EMBASA que publicaram para o posto ou uma unidade específica (id)
+type UnitFilter = "all" | string;
+
 type Booking = {
   id: number;
   availabilityId: number;
+  date: string | null;
   clientName: string;
   clientDocument: string;
   clientPhone: string;
+  serviceNumber: string;
   timeSlot: string;
   createdBy: string;
   createdAt: string;
   status: string;
+  statusReason: string | null;
+  statusChangedAt: string | null;
+  rescheduledFromId: number | null;
+  completedAt: string | null;
+  technicianNotes: string | null;
 };
 
 // Form schema for booking appointment
@@ -75,28 +111,42 @@ const bookingFormSchema = z.object({
 
 type BookingFormValues = z.infer<typeof bookingFormSchema>;
 
-// Function to create time slots based on start and end time
-const createTimeSlots = (startTime: string, endTime: string): string[] => {
-  const slots: string[] = [];
-  const start = parseInt(startTime.split(':')[0]);
-  const end = parseInt(endTime.split(':')[0]);
-  
-  for (let hour = start; hour < end; hour++) {
-    slots.push(`${hour.toString().padStart(2, '0')}:00`);
+// Form schema for cancelling a booking
+const cancelFormSchema = z.object({
+  reason: z.string().trim().min(1, "Motivo do cancelamento é obrigatório"),
+});
+
+type CancelFormValues = z.infer<typeof cancelFormSchema>;
+
+// Form schema for rescheduling a booking
+const rescheduleFormSchema = z.object({
+  availabilityId: z.coerce.number().min(1, "Selecione uma nova data"),
+  timeSlot: z.string().min(1, "Horário é obrigatório"),
+  reason: z.string().optional(),
+});
+
+type RescheduleFormValues = z.infer<typeof rescheduleFormSchema>;
+
+// Label for a time slot option, showing how many places are still free
+const formatTimeSlotOption = (slot: TimeSlot): string => {
+  if (slot.remainingSlots <= 0) {
+    return `${slot.startTime} (esgotado)`;
   }
-  
-  return slots;
+  return `${slot.startTime} (${slot.remainingSlots} ${slot.remainingSlots === 1 ? 'vaga' : 'vagas'})`;
 };
 
 export default function SacDashboard() {
-  const { user, logout } = useAuth();
+  const { user, logout, can } = useAuth();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedAvailability, setSelectedAvailability] = useState<Availability | null>(null);
-  const [timeSlots, setTimeSlots] = useState<string[]>([]);
+  const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([]);
+  const [bookingToCancel, setBookingToCancel] = useState<Booking | null>(null);
+  const [bookingToReschedule, setBookingToReschedule] = useState<Booking | null>(null);
+  const [unitFilter, setUnitFilter] = useState<UnitFilter>("all");
 
   // Form for booking appointment
   const form = useForm<BookingFormValues>({
@@ -112,6 +162,24 @@ export default function SacDashboard() {
     },
   });
 
+  // Form for cancelling a booking
+  const cancelForm = useForm<CancelFormValues>({
+    resolver: zodResolver(cancelFormSchema),
+    defaultValues: {
+      reason: "",
+    },
+  });
+
+  // Form for rescheduling a booking
+  const rescheduleForm = useForm<RescheduleFormValues>({
+    resolver: zodResolver(rescheduleFormSchema),
+    defaultValues: {
+      availabilityId: 0,
+      timeSlot: "",
+      reason: "",
+    },
+  });
+
   // Redirect if not SAC user
   useEffect(() => {
     if (!user) {
@@ -129,11 +197,7 @@ export default function SacDashboard() {
   // Update time slots when selected availability changes
   useEffect(() => {
     if (selectedAvailability) {
-      const slots = createTimeSlots(
-        selectedAvailability.startTime,
-        selectedAvailability.endTime
-      );
-      setTimeSlots(slots);
+      setTimeSlots(selectedAvailability.slots);
       
       // Reset form with default values
       form.reset({
@@ -168,6 +232,15 @@ export default function SacDashboard() {
     enabled: !!user && user.role === "sac",
   });
 
+  // Query for the location registry, used to filter the calendar by EMBASA unit
+  const { data: locations = [] } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+    enabled: !!user && user.role === "sac",
+  });
+
+  // Holidays and closures, shown greyed out in the calendar
+  const { blackoutsByDate } = useBlackoutDates(year, month, !!user && user.role === "sac");
+
   // Query for user's bookings
   const {
     data: bookings = [],
@@ -192,10 +265,67 @@ export default function SacDashboard() {
         description: "Seu agendamento foi realizado com sucesso",
       });
     },
+    onError: (error) => {
+      // 409: outro atendente reservou a última vaga antes da confirmação, ou a data foi bloqueada
+      const isConflict = error.message.startsWith("409");
+      const isBlocked = isConflict && error.message.includes("blocked in the calendar");
+      if (isConflict) {
+        queryClient.invalidateQueries({ queryKey: ["/api/availabilities"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/blackout-dates"] });
+      }
+      toast({
+        title: isBlocked ? "Data bloqueada" : isConflict ? "Horário esgotado" : "Erro ao agendar",
+        description: isBlocked
+          ? "Esta data é feriado ou a unidade estará fechada. Escolha outra data."
+          : isConflict
+          ? "A última vaga deste horário acabou de ser reservada. Escolha outro horário."
+          : "Não foi possível realizar o agendamento",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutation for cancelling a booking
+  const cancelBookingMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: CancelFormValues }) => {
+      await apiRequest("POST", `/api/bookings/${id}/cancel`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/availabilities"] });
+      setBookingToCancel(null);
+      toast({
+        title: "Agendamento cancelado",
+        description: "O horário foi liberado para novos agendamentos",
+      });
+    },
     onError: (error) => {
       toast({
-        title: "Erro ao agendar",
-        description: "Não foi possível realizar o agendamento",
+        title: "Erro ao cancelar",
+        description: "Não foi possível cancelar o agendamento",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutation for rescheduling a booking
+  const rescheduleBookingMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: RescheduleFormValues }) => {
+      await apiRequest("POST", `/api/bookings/${id}/reschedule`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/availabilities"] });
+      setBookingToReschedule(null);
+      toast({
+        title: "Agendamento remarcado",
+        description: "O agendamento foi transferido para o novo horário",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao remarcar",
+        description: "Não foi possível remarcar o agendamento",
         variant: "destructive",
       });
     },
@@ -205,6 +335,40 @@ export default function SacDashboard() {
     createBookingMutation.mutate(data);
   };
 
+  const onSubmitCancel = (data: CancelFormValues) => {
+    if (bookingToCancel) {
+      cancelBookingMutation.mutate({ id: bookingToCancel.id, data });
+    }
+  };
+
+  const onSubmitReschedule = (data: RescheduleFormValues) => {
+    if (bookingToReschedule) {
+      rescheduleBookingMutation.mutate({ id: bookingToReschedule.id, data });
+    }
+  };
+
+  const openCancelDialog = (booking: Booking) => {
+    setBookingToCancel(booking);
+    cancelForm.reset({ reason: "" });
+  };
+
+  const openRescheduleDialog = (booking: Booking) => {
+    setBookingToReschedule(booking);
+    rescheduleForm.reset({ availabilityId: 0, timeSlot: "", reason: "" });
+  };
+
+  // Bookings cancelled by EMBASA (availability removed) whose date has not passed yet
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const cancelledByEmbasa = bookings.filter(
+    b => b.status === BOOKING_STATUS.CANCELLED_BY_EMBASA && (!b.date || b.date >= today)
+  );
+
+  // Availabilities that can receive a rescheduled booking and the time slots of the chosen one
+  const rescheduleTargets = availabilities.filter(a => a.remainingSlots > 0 && !blackoutsByDate[a.date.slice(0, 10)]);
+  const rescheduleAvailabilityId = rescheduleForm.watch("availabilityId");
+  const rescheduleAvailability = availabilities.find(a => a.id === Number(rescheduleAvailabilityId));
+  const rescheduleTimeSlots = rescheduleAvailability?.slots ?? [];
+
   const handlePreviousMonth = () => {
     setCurrentDate(subMonths(currentDate, 1));
   };
@@ -226,11 +390,19 @@ export default function SacDashboard() {
     }
   };
 
+  // O servidor só devolve as disponibilidades publicadas para este posto; o filtro restringe a uma unidade EMBASA
+  const embasaUnits = locations.filter(location =>
+    location.type === "embasa" && availabilities.some(avail => avail.locationId === location.id)
+  );
+  const visibleAvailabilities = unitFilter === "all"
+    ? availabilities
+    : availabilities.filter(avail => avail.locationId === Number(unitFilter));
+
   // Group availabilities by date for the calendar display
   const availabilitiesByDate: Record<string, Availability[]> = {};
   
-  availabilities.forEach(avail => {
-    const dateStr = format(new Date(avail.date), 'yyyy-MM-dd');
+  visibleAvailabilities.forEach(avail => {
+    const dateStr = format(parseISO(avail.date), 'yyyy-MM-dd');
     if (!availabilitiesByDate[dateStr]) {
       availabilitiesByDate[dateStr] = [];
     }
@@ -255,10 +427,36 @@ export default function SacDashboard() {
         title="Painel SAC"
         icon="support_agent"
         role="sac"
+        username={user?.account?.name ?? user?.code}
         onLogout={logout}
       />
 
       <main className="container mx-auto px-4 py-8">
+        {cancelledByEmbasa.length > 0 && (
+          <Alert variant="destructive" className="mb-8 border-2">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>
+              {cancelledByEmbasa.length === 1
+                ? "1 agendamento foi cancelado pela EMBASA"
+                : `${cancelledByEmbasa.length} agendamentos foram cancelados pela EMBASA`}
+            </AlertTitle>
+            <AlertDescription>
+              <p className="mb-2">Entre em contato com os clientes para remarcar o atendimento.</p>
+              <ul className="space-y-1">
+                {cancelledByEmbasa.map((booking) => (
+                  <li key={booking.id}>
+                    <span className="font-medium">
+                      {booking.date ? format(parseISO(booking.date), 'dd/MM/yyyy') : 'Data indisponível'} às {booking.timeSlot}
+                    </span>
+                    {" "}· {booking.clientName} · SS {booking.serviceNumber}
+                    {booking.statusReason && <> · Motivo: {booking.statusReason}</>}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
         <Card className="mb-8">
           <CardHeader>
             <CardTitle className="text-xl text-green-700 flex items-center">
@@ -287,6 +485,22 @@ export default function SacDashboard() {
                   Datas Disponíveis
                 </h3>
 
+                <div className="mb-4">
+                  <Select value={unitFilter} onValueChange={setUnitFilter}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Unidade EMBASA" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Todas as unidades EMBASA que atendem meu posto</SelectItem>
+                      {embasaUnits.map(location => (
+                        <SelectItem key={location.id} value={String(location.id)}>
+                          {location.name}{location.municipality ? ` · ${location.municipality}` : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 <div className="flex justify-between items-center mb-4">
                   <Button 
                     variant="ghost"
@@ -311,6 +525,7 @@ export default function SacDashboard() {
                   year={year}
                   month={month}
                   availabilitiesByDate={availabilitiesByDate}
+                  blackoutsByDate={blackoutsByDate}
                   isLoading={isLoadingAvailabilities}
                   onAvailabilityClick={handleSelectDate}
                   role="sac"
@@ -321,137 +536,147 @@ export default function SacDashboard() {
                     <span className="w-3 h-3 inline-block bg-green-100 rounded-full mr-2"></span>
                     Clique em uma data disponível para agendar seu atendimento
                   </p>
+                  <p className="flex items-center mt-1">
+                    <span className="w-3 h-3 inline-block bg-neutral-200 rounded-full mr-2"></span>
+                    Feriados e fechamentos não aceitam agendamentos
+                  </p>
                 </div>
               </div>
 
               {/* Booking Form */}
               <div className="lg:col-span-1">
-                <Card className={`bg-green-50 border-0 ${!selectedAvailability ? 'opacity-70' : ''}`}>
-                  <CardHeader className="pb-2">
-                    <CardTitle className="text-base text-green-700 flex items-center">
-                      <span className="material-icons mr-1 text-xl">book_online</span>
-                      Realize seu Agendamento
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <Form {...form}>
-                      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                        <FormField
-                          control={form.control}
-                          name="availabilityId"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Data Selecionada</FormLabel>
-                              <FormControl>
-                                <Input 
-                                  value={selectedAvailability 
-                                    ? format(new Date(selectedAvailability.date), 'dd/MM/yyyy')
-                                    : "Selecione uma data no calendário"
-                                  }
-                                  disabled
-                                  className="bg-neutral-100"
-                                />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-
-                        <FormField
-                          control={form.control}
-                          name="timeSlot"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Horário Disponível</FormLabel>
-                              <Select
-                                onValueChange={field.onChange}
-                                defaultValue={field.value}
-                                disabled={!selectedAvailability}
-                              >
+                {can("booking:create") && (
+                  <Card className={`bg-green-50 border-0 ${!selectedAvailability ? 'opacity-70' : ''}`}>
+                    <CardHeader className="pb-2">
+                      <CardTitle className="text-base text-green-700 flex items-center">
+                        <span className="material-icons mr-1 text-xl">book_online</span>
+                        Realize seu Agendamento
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <Form {...form}>
+                        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                          <FormField
+                            control={form.control}
+                            name="availabilityId"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Data Selecionada</FormLabel>
                                 <FormControl>
-                                  <SelectTrigger>
-                                    <SelectValue placeholder="Selecione um horário" />
-                                  </SelectTrigger>
+                                  <Input 
+                                    value={selectedAvailability 
+                                      ? format(parseISO(selectedAvailability.date), 'dd/MM/yyyy')
+                                      : "Selecione uma data no calendário"
+                                    }
+                                    disabled
+                                    className="bg-neutral-100"
+                                  />
                                 </FormControl>
-                                <SelectContent>
-                                  {timeSlots.map((slot) => (
-                                    <SelectItem key={slot} value={slot}>
-                                      {slot}
-                                    </SelectItem>
-                                  ))}
-                                </SelectContent>
-                              </Select>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-
-                        <FormField
-                          control={form.control}
-                          name="clientName"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Nome Completo</FormLabel>
-                              <FormControl>
-                                <Input 
-                                  placeholder="Digite seu nome completo"
-                                  {...field}
-                                  disabled={!selectedAvailability}
-                                />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-
-                        <FormField
-                          control={form.control}
-                          name="serviceNumber"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Número da SS</FormLabel>
-                              <FormControl>
-                                <Input 
-                                  placeholder="Número da Solicitação de Serviço"
-                                  {...field}
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <FormField
+                            control={form.control}
+                            name="timeSlot"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Horário Disponível</FormLabel>
+                                <Select
+                                  onValueChange={field.onChange}
+                                  defaultValue={field.value}
                                   disabled={!selectedAvailability}
-                                />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-
-                        <FormField
-                          control={form.control}
-                          name="comments"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Comentários sobre a Visita Técnica</FormLabel>
-                              <FormControl>
-                                <textarea 
-                                  className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                                  placeholder="Descreva detalhes importantes sobre a visita técnica"
-                                  {...field}
-                                  disabled={!selectedAvailability}
-                                />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-
-                        <Button 
-                          type="submit" 
-                          className="w-full bg-green-700 hover:bg-green-800"
-                          disabled={!selectedAvailability || createBookingMutation.isPending}
-                        >
-                          {createBookingMutation.isPending ? "Confirmando..." : "Confirmar Agendamento"}
-                        </Button>
-                      </form>
-                    </Form>
-                  </CardContent>
-                </Card>
+                                >
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue placeholder="Selecione um horário" />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {timeSlots.map((slot) => (
+                                      <SelectItem
+                                        key={slot.id}
+                                        value={slot.startTime}
+                                        disabled={slot.remainingSlots <= 0}
+                                      >
+                                        {formatTimeSlotOption(slot)}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <FormField
+                            control={form.control}
+                            name="clientName"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Nome Completo</FormLabel>
+                                <FormControl>
+                                  <Input 
+                                    placeholder="Digite seu nome completo"
+                                    {...field}
+                                    disabled={!selectedAvailability}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <FormField
+                            control={form.control}
+                            name="serviceNumber"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Número da SS</FormLabel>
+                                <FormControl>
+                                  <Input 
+                                    placeholder="Número da Solicitação de Serviço"
+                                    {...field}
+                                    disabled={!selectedAvailability}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <FormField
+                            control={form.control}
+                            name="comments"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Comentários sobre a Visita Técnica</FormLabel>
+                                <FormControl>
+                                  <textarea 
+                                    className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                                    placeholder="Descreva detalhes importantes sobre a visita técnica"
+                                    {...field}
+                                    disabled={!selectedAvailability}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <Button 
+                            type="submit" 
+                            className="w-full bg-green-700 hover:bg-green-800"
+                            disabled={!selectedAvailability || createBookingMutation.isPending}
+                          >
+                            {createBookingMutation.isPending ? "Confirmando..." : "Confirmar Agendamento"}
+                          </Button>
+                        </form>
+                      </Form>
+                    </CardContent>
+                  </Card>
+                )}
 
                 <Card className="bg-neutral-100 border border-neutral-200 mt-6">
                   <CardHeader className="pb-2">
@@ -474,24 +699,70 @@ export default function SacDashboard() {
                         {bookings.map(booking => {
                           // Find the availability that matches this booking
                           const availability = availabilities.find(a => a.id === booking.availabilityId);
+                          const bookingDate = booking.date ?? availability?.date;
+                          const isCancelledByEmbasa = booking.status === BOOKING_STATUS.CANCELLED_BY_EMBASA;
                           return (
-                            <div key={booking.id} className="bg-white p-3 rounded-md shadow-sm">
+                            <div
+                              key={booking.id}
+                              className={`bg-white p-3 rounded-md shadow-sm ${isCancelledByEmbasa ? "border-2 border-red-500" : ""}`}
+                            >
                               <div className="flex justify-between items-start">
                                 <div>
                                   <p className="font-medium">
-                                    {availability 
-                                      ? format(new Date(availability.date), 'dd/MM/yyyy')
+                                    {bookingDate 
+                                      ? format(parseISO(bookingDate), 'dd/MM/yyyy')
                                       : 'Data indisponível'
                                     }
                                   </p>
                                   <p className="text-sm text-neutral-600">
-                                    {booking.timeSlot}
+                                    {booking.timeSlot} · SS {booking.serviceNumber}
                                   </p>
                                 </div>
-                                <span className="px-2 py-1 bg-green-100 text-green-700 text-xs rounded-full">
-                                  {booking.status === 'confirmed' ? 'Confirmado' : booking.status}
+                                <span className={`px-2 py-1 text-xs rounded-full ${STATUS_COLORS[booking.status as keyof typeof STATUS_COLORS] ?? 'bg-neutral-100 text-neutral-700'}`}>
+                                  {BOOKING_STATUS_NAMES[booking.status as keyof typeof BOOKING_STATUS_NAMES] ?? booking.status}
                                 </span>
                               </div>
+                              {booking.statusReason && (
+                                <p className="text-xs text-neutral-500 mt-1">
+                                  Motivo: {booking.statusReason}
+                                </p>
+                              )}
+                              {booking.completedAt && (
+                                <p className="text-xs text-neutral-500 mt-1">
+                                  Concluído em {format(new Date(booking.completedAt), 'dd/MM/yyyy HH:mm')}
+                                </p>
+                              )}
+                              {booking.technicianNotes && (
+                                <p className="text-xs text-neutral-500 mt-1">
+                                  Observações do técnico: {booking.technicianNotes}
+                                </p>
+                              )}
+                              {booking.status === BOOKING_STATUS.SCHEDULED && (
+                                <div className="flex justify-end space-x-2 mt-2">
+                                  {can("booking:reschedule") && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => openRescheduleDialog(booking)}
+                                      className="text-green-700 hover:text-green-800 hover:bg-green-50"
+                                    >
+                                      <span className="material-icons mr-1 text-base">event_repeat</span>
+                                      Remarcar
+                                    </Button>
+                                  )}
+                                  {(can("booking:cancel:own") || can("booking:cancel:any")) && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => openCancelDialog(booking)}
+                                      className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                                    >
+                                      <span className="material-icons mr-1 text-base">event_busy</span>
+                                      Cancelar
+                                    </Button>
+                                  )}
+                                </div>
+                              )}
                             </div>
                           );
                         })}
@@ -504,6 +775,174 @@ export default function SacDashboard() {
           </CardContent>
         </Card>
       </main>
+
+      {/* Dialog for cancelling a booking */}
+      <Dialog open={!!bookingToCancel} onOpenChange={(open) => !open && setBookingToCancel(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancelar Agendamento</DialogTitle>
+            <DialogDescription>
+              {bookingToCancel && (
+                <>
+                  O agendamento de {bookingToCancel.clientName} (SS {bookingToCancel.serviceNumber}) às{" "}
+                  {bookingToCancel.timeSlot} será cancelado e o horário ficará disponível novamente.
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...cancelForm}>
+            <form onSubmit={cancelForm.handleSubmit(onSubmitCancel)} className="space-y-4">
+              <FormField
+                control={cancelForm.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Motivo do Cancelamento</FormLabel>
+                    <FormControl>
+                      <textarea 
+                        className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                        placeholder="Informe por que o agendamento está sendo cancelado"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button 
+                  type="button" 
+                  variant="outline" 
+                  onClick={() => setBookingToCancel(null)}
+                >
+                  Voltar
+                </Button>
+                <Button 
+                  type="submit" 
+                  className="bg-red-500 hover:bg-red-600"
+                  disabled={cancelBookingMutation.isPending}
+                >
+                  {cancelBookingMutation.isPending ? "Cancelando..." : "Cancelar Agendamento"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Dialog for rescheduling a booking */}
+      <Dialog open={!!bookingToReschedule} onOpenChange={(open) => !open && setBookingToReschedule(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Remarcar Agendamento</DialogTitle>
+            <DialogDescription>
+              Escolha uma nova data e horário para o agendamento
+              {bookingToReschedule && <> de {bookingToReschedule.clientName}</>}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...rescheduleForm}>
+            <form onSubmit={rescheduleForm.handleSubmit(onSubmitReschedule)} className="space-y-4">
+              <FormField
+                control={rescheduleForm.control}
+                name="availabilityId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nova Data</FormLabel>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(Number(value));
+                        rescheduleForm.setValue("timeSlot", "");
+                      }}
+                      value={field.value ? String(field.value) : ""}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione uma data" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {rescheduleTargets.map((availability) => (
+                          <SelectItem key={availability.id} value={String(availability.id)}>
+                            {format(parseISO(availability.date), 'dd/MM/yyyy')} ({availability.startTime} - {availability.endTime})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={rescheduleForm.control}
+                name="timeSlot"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Novo Horário</FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      value={field.value}
+                      disabled={!rescheduleAvailability}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione um horário" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {rescheduleTimeSlots.map((slot) => (
+                          <SelectItem
+                            key={slot.id}
+                            value={slot.startTime}
+                            disabled={slot.remainingSlots <= 0}
+                          >
+                            {formatTimeSlotOption(slot)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={rescheduleForm.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Motivo da Remarcação</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Opcional" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button 
+                  type="button" 
+                  variant="outline" 
+                  onClick={() => setBookingToReschedule(null)}
+                >
+                  Voltar
+                </Button>
+                <Button 
+                  type="submit" 
+                  className="bg-green-700 hover:bg-green-800"
+                  disabled={rescheduleBookingMutation.isPending}
+                >
+                  {rescheduleBookingMutation.isPending ? "Remarcando..." : "Remarcar"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,392 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, startOfMonth, endOfMonth, parseISO } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useLocation } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { BOOKING_STATUS, BOOKING_STATUS_NAMES, STATUS_COLORS } from "@/lib/constants";
+import Header from "@/components/header";
+
+// UI Components
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+
+// Types
+type BookingStatus = keyof typeof BOOKING_STATUS_NAMES;
+
+type SupervisedBooking = {
+  id: number;
+  availabilityId: number;
+  clientName: string;
+  serviceNumber: string;
+  timeSlot: string;
+  date: string;
+  status: BookingStatus;
+  statusReason: string | null;
+  createdBy: string;
+  createdByName: string | null;
+  sacLocation: string | null;
+  embasaLocation: string | null;
+};
+
+type Attendant = {
+  id: number;
+  code: string;
+  location: string | null;
+  active: boolean;
+};
+
+// Só agendamentos ainda em aberto podem ser remanejados ou cancelados
+const OPEN_STATUSES: BookingStatus[] = [BOOKING_STATUS.SCHEDULED, BOOKING_STATUS.CHECKED_IN];
+
+export default function SupervisorDashboard() {
+  const { user, logout, can } = useAuth();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [from, setFrom] = useState(() => format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(() => format(endOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [status, setStatus] = useState<BookingStatus | "all">("all");
+  const [bookingToReassign, setBookingToReassign] = useState<SupervisedBooking | null>(null);
+  const [targetCodeId, setTargetCodeId] = useState("");
+  const [bookingToCancel, setBookingToCancel] = useState<SupervisedBooking | null>(null);
+  const [cancelReason, setCancelReason] = useState("");
+
+  const isSupervisor = !!user && user.role === "supervisor";
+
+  // Redirect if not SAC supervisor
+  useEffect(() => {
+    if (!user) {
+      setLocation("/");
+    } else if (user.role !== "supervisor") {
+      toast({
+        title: "Acesso negado",
+        description: "Você não tem permissão para acessar essa página",
+        variant: "destructive"
+      });
+      setLocation("/");
+    }
+  }, [user, setLocation, toast]);
+
+  // Query for bookings of every SAC code in the supervisor's region
+  const {
+    data: bookings = [],
+    isLoading: isLoadingBookings,
+  } = useQuery<SupervisedBooking[]>({
+    queryKey: ["/api/supervisor/bookings", from, to, status],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from, to });
+      if (status !== "all") params.set("status", status);
+      const res = await fetch(`/api/supervisor/bookings?${params}`);
+      if (!res.ok) throw new Error("Failed to fetch bookings");
+      return res.json();
+    },
+    enabled: isSupervisor && !!from && !!to,
+  });
+
+  // Query for the region's attendants, the possible targets of a reassignment
+  const { data: attendants = [] } = useQuery<Attendant[]>({
+    queryKey: ["/api/supervisor/attendants"],
+    enabled: isSupervisor,
+  });
+
+  // Mutation for moving a booking to another attendant's code
+  const reassignBookingMutation = useMutation({
+    mutationFn: async ({ id, accessCodeId }: { id: number; accessCodeId: number }) => {
+      await apiRequest("POST", `/api/bookings/${id}/reassign`, { accessCodeId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/supervisor/bookings"] });
+      setBookingToReassign(null);
+      toast({
+        title: "Agendamento remanejado",
+        description: "O agendamento agora pertence ao atendente escolhido",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro ao remanejar",
+        description: "Não foi possível remanejar o agendamento",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutation for cancelling a booking on behalf of the attendant
+  const cancelBookingMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: number; reason: string }) => {
+      await apiRequest("POST", `/api/bookings/${id}/cancel`, { reason });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/supervisor/bookings"] });
+      setBookingToCancel(null);
+      toast({
+        title: "Agendamento cancelado",
+        description: "O horário foi liberado para novos agendamentos",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro ao cancelar",
+        description: "Não foi possível cancelar o agendamento",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openReassign = (booking: SupervisedBooking) => {
+    setTargetCodeId("");
+    setBookingToReassign(booking);
+  };
+
+  const openCancel = (booking: SupervisedBooking) => {
+    setCancelReason("");
+    setBookingToCancel(booking);
+  };
+
+  const reassignTargets = attendants.filter(
+    attendant => attendant.active && attendant.code !== bookingToReassign?.createdBy
+  );
+
+  return (
+    <div className="sac-theme min-h-screen bg-neutral-50">
+      <Header
+        title="Painel Supervisor SAC"
+        icon="supervisor_account"
+        role="supervisor"
+        username={user?.account?.name ?? user?.code}
+        onLogout={logout}
+      />
+
+      <main className="container mx-auto px-4 py-8">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl text-teal-700 flex items-center">
+              <span className="material-icons mr-2">event_note</span>
+              Agendamentos da Região
+            </CardTitle>
+            <CardDescription>
+              Agendamentos feitos pelos {attendants.length} códigos SAC da sua unidade e do mesmo município
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              <div className="space-y-1">
+                <Label htmlFor="supervisor-from">De</Label>
+                <Input id="supervisor-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="supervisor-to">Até</Label>
+                <Input id="supervisor-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>Status</Label>
+                <Select value={status} onValueChange={(value) => setStatus(value as BookingStatus | "all")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todos</SelectItem>
+                    {Object.entries(BOOKING_STATUS_NAMES).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {isLoadingBookings ? (
+              <div className="py-8 text-center">
+                <p>Carregando agendamentos...</p>
+              </div>
+            ) : bookings.length === 0 ? (
+              <div className="py-8 text-center text-neutral-600">
+                <p>Nenhum agendamento encontrado no período</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Data</TableHead>
+                      <TableHead>Horário</TableHead>
+                      <TableHead>Cliente</TableHead>
+                      <TableHead>SS</TableHead>
+                      <TableHead>Atendente</TableHead>
+                      <TableHead>Unidade EMBASA</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Ações</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {bookings.map((booking) => (
+                      <TableRow key={booking.id}>
+                        <TableCell className="font-medium whitespace-nowrap">
+                          {format(parseISO(booking.date), 'dd/MM/yyyy')}
+                        </TableCell>
+                        <TableCell>{booking.timeSlot}</TableCell>
+                        <TableCell>{booking.clientName}</TableCell>
+                        <TableCell>{booking.serviceNumber}</TableCell>
+                        <TableCell>
+                          {booking.createdByName ?? booking.createdBy}
+                          <span className="block text-xs text-neutral-500">
+                            {booking.createdByName ? `${booking.createdBy} · ` : ""}
+                            {booking.sacLocation ?? "Sem unidade"}
+                          </span>
+                        </TableCell>
+                        <TableCell>{booking.embasaLocation ?? "-"}</TableCell>
+                        <TableCell>
+                          <span className={`px-2 py-1 rounded-full text-xs whitespace-nowrap ${STATUS_COLORS[booking.status]}`}>
+                            {BOOKING_STATUS_NAMES[booking.status]}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {OPEN_STATUSES.includes(booking.status) && (
+                            <>
+                              {can("booking:reassign") && (
+                                <Button variant="outline" size="sm" className="mr-2" onClick={() => openReassign(booking)}>
+                                  Remanejar
+                                </Button>
+                              )}
+                              {can("booking:cancel:region") && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="text-red-600 hover:text-red-700"
+                                  onClick={() => openCancel(booking)}
+                                >
+                                  Cancelar
+                                </Button>
+                              )}
+                            </>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* Dialog for reassigning a booking */}
+      <Dialog open={!!bookingToReassign} onOpenChange={(open) => !open && setBookingToReassign(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Remanejar Agendamento</DialogTitle>
+            <DialogDescription>
+              Escolha o atendente que passa a responder pelo agendamento
+              {bookingToReassign && <> de {bookingToReassign.clientName}</>}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-1">
+            <Label>Atendente</Label>
+            <Select value={targetCodeId} onValueChange={setTargetCodeId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione o código SAC" />
+              </SelectTrigger>
+              <SelectContent>
+                {reassignTargets.map((attendant) => (
+                  <SelectItem key={attendant.id} value={String(attendant.id)}>
+                    {attendant.code}{attendant.location ? ` · ${attendant.location}` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setBookingToReassign(null)}>
+              Voltar
+            </Button>
+            <Button
+              disabled={!targetCodeId || reassignBookingMutation.isPending}
+              onClick={() => bookingToReassign && reassignBookingMutation.mutate({
+                id: bookingToReassign.id,
+                accessCodeId: Number(targetCodeId),
+              })}
+            >
+              {reassignBookingMutation.isPending ? "Remanejando..." : "Remanejar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Dialog for cancelling a booking */}
+      <Dialog open={!!bookingToCancel} onOpenChange={(open) => !open && setBookingToCancel(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancelar Agendamento</DialogTitle>
+            <DialogDescription>
+              O cancelamento é feito em nome do atendente e libera o horário
+              {bookingToCancel && <> de {bookingToCancel.clientName}</>}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-1">
+            <Label htmlFor="supervisor-cancel-reason">Motivo do Cancelamento</Label>
+            <textarea
+              id="supervisor-cancel-reason"
+              className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              placeholder="Informe por que o agendamento está sendo cancelado"
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setBookingToCancel(null)}>
+              Voltar
+            </Button>
+            <Button
+              className="bg-red-500 hover:bg-red-600"
+              disabled={!cancelReason.trim() || cancelBookingMutation.isPending}
+              onClick={() => bookingToCancel && cancelBookingMutation.mutate({
+                id: bookingToCancel.id,
+                reason: cancelReason.trim(),
+              })}
+            >
+              {cancelBookingMutation.isPending ? "Cancelando..." : "Cancelar Agendamento"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { randomBytes, randomInt, scrypt, timingSafeEqual, createHash } from "crypto";
+import { promisify } from "util";
+import type { AccessCode } from "@shared/schema";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 32;
+
+// Prefixo do identificador público de cada perfil (o código em si nunca é gravado em texto puro)
+const ROLE_PREFIXES: Record<string, string> = {
+  admin: "ADM",
+  embasa: "EMB",
+  sac: "SAC",
+  supervisor: "SUP",
+};
+
+// Limites de tentativas de login malsucedidas dentro da janela; atingido o limite, o login fica bloqueado
+export const LOGIN_ATTEMPT_WINDOW_MINUTES = 15;
+export const MAX_FAILED_LOGINS_PER_IP = 10;
+export const MAX_FAILED_LOGINS_PER_CODE = 5;
+
+// Espaços nas pontas (comuns ao colar o código) não fazem parte do código
+function normalize(code: string): string {
+  return code.trim();
+}
+
+// Chave de busca: 4 caracteres hex do SHA-256 do código. Reduz os candidatos a verificar sem
+// revelar parte do código, já que vários códigos possíveis compartilham a mesma chave
+export function accessCodeLookup(code: string): string {
+  return createHash("sha256").update(normalize(code)).digest("hex").slice(0, 4);
+}
+
+// Hash com sal no formato "scrypt$<sal>$<hash>" (hex)
+export async function hashAccessCode(code: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(normalize(code), salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${hash.toString("hex")}`;
+}
+
+export async function verifyAccessCode(code: string, stored: string): Promise<boolean> {
+  const [algorithm, salt, hash] = stored.split("$");
+  if (algorithm !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(normalize(code), Buffer.from(salt, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Situação do código para o login. Expirado e esgotado têm precedência sobre inativo, já que
+// a desativação automática acontece justamente por esses motivos
+export type AccessCodeStatus = "valid" | "inactive" | "not_yet_valid" | "expired" | "usage_limit";
+
+// SQLite grava os horários em UTC no formato "AAAA-MM-DD HH:MM:SS"
+function parseTimestamp(value: string): Date {
+  return new Date(`${value.replace(" ", "T")}Z`);
+}
+
+export function accessCodeStatus(code: AccessCode, now = new Date()): AccessCodeStatus {
+  if (code.expiresAt && parseTimestamp(code.expiresAt) <= now) {
+    return "expired";
+  }
+
+  if (
+    (code.maxLogins !== null && code.loginCount >= code.maxLogins) ||
+    (code.maxBookings !== null && code.bookingCount >= code.maxBookings)
+  ) {
+    return "usage_limit";
+  }
+
+  if (!code.active) {
+    return "inactive";
+  }
+
+  if (code.validFrom && parseTimestamp(code.validFrom) > now) {
+    return "not_yet_valid";
+  }
+
+  return "valid";
+}
+
+export function accessCodePrefix(role: string): string {
+  return ROLE_PREFIXES[role] ?? "COD";
+}
+
+// Código aleatório gerado no servidor (CSPRNG), opcionalmente com o prefixo do perfil (ex: SAC-7KQ2M9XH4P)
+export function generateAccessCode(
+  role: string,
+  options: { length: number; alphabet: string; rolePrefix: boolean }
+): string {
+  let code = "";
+  for (let i = 0; i < options.length; i++) {
+    code += options.alphabet[randomInt(options.alphabet.length)];
+  }
+
+  return options.rolePrefix ? `${accessCodePrefix(role)}-${code}` : code;
+}
+
+// Identificador público do código (ex: SAC#0007), usado em created_by e exibido no painel
+export function accessCodeHandle(role: string, id: number): string {
+  return `${accessCodePrefix(role)}#${String(id).padStart(4, "0")}`;
+}
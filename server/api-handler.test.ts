@@ -0,0 +1,85 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AccessCode, FailedLoginAttempt } from "@shared/schema";
+import { MAX_FAILED_LOGINS_PER_IP } from "./access-codes";
+import { serve, stop, type Api, type ErrorBody, type LoginBody } from "./test-helpers";
+
+// A função do Vercel (api/index.ts) atende as mesmas rotas do servidor; aqui ela é servida por um
+// http.Server local, com o armazenamento em memória definido antes de importá-la. O IP do cliente
+// chega pelo X-Forwarded-For, como atrás do proxy do Vercel
+process.env.STORAGE_DRIVER = "memory";
+
+const DEFAULT_ADMIN_CODE = "ADM123456";
+
+let server: Server;
+let api: Api;
+
+before(async () => {
+  const { default: handler } = await import("../api/index");
+  server = createServer(handler);
+  api = await serve(server);
+});
+
+after(() => stop(server));
+
+test("the Vercel login throttles failed attempts per client IP and logs them", async () => {
+  const attacker = "203.0.113.7";
+  for (let i = 0; i < MAX_FAILED_LOGINS_PER_IP; i++) {
+    const failed = await api("POST", "/api/auth/login", { ip: attacker, body: { accessCode: `WRONG-${i}` } });
+    assert.equal(failed.status, 401);
+  }
+
+  // Com o IP bloqueado, nem o código correto entra
+  const locked = await api("POST", "/api/auth/login", { ip: attacker, body: { accessCode: DEFAULT_ADMIN_CODE } });
+  assert.equal(locked.status, 429);
+  assert.equal(locked.cookie, undefined);
+
+  const admin = await api<LoginBody>("POST", "/api/auth/login", { ip: "198.51.100.20", body: { accessCode: DEFAULT_ADMIN_CODE } });
+  assert.equal(admin.status, 200);
+  assert.equal(admin.body.user.role, "admin");
+  assert.ok(admin.cookie);
+
+  const attempts = await api<FailedLoginAttempt[]>("GET", "/api/login-attempts", { ip: "198.51.100.20", session: admin.cookie });
+  assert.equal(attempts.status, 200);
+  const fromAttacker = attempts.body.filter(attempt => attempt.ip === attacker);
+  assert.equal(fromAttacker.length, MAX_FAILED_LOGINS_PER_IP + 1);
+  assert.ok(fromAttacker.some(attempt => attempt.reason === "locked"));
+});
+
+test("the Vercel login enforces validity windows and login limits with specific messages", async () => {
+  const ip = "198.51.100.30";
+  const admin = await api("POST", "/api/auth/login", { ip, body: { accessCode: DEFAULT_ADMIN_CODE } });
+  assert.equal(admin.status, 200);
+
+  const day = 24 * 60 * 60 * 1000;
+  const created: AccessCode[] = [];
+  for (const body of [
+    { code: "TEMP-ONCE-01", role: "sac", maxLogins: 1 },
+    { code: "TEMP-LATER-1", role: "sac", validFrom: new Date(Date.now() + day).toISOString() },
+    { code: "TEMP-OLD-001", role: "sac", expiresAt: new Date(Date.now() - day).toISOString() },
+  ]) {
+    const response = await api<AccessCode>("POST", "/api/access-codes", { ip, session: admin.cookie, body });
+    assert.equal(response.status, 201, JSON.stringify(response.body));
+    created.push(response.body);
+  }
+
+  assert.equal((await api("POST", "/api/auth/login", { ip, body: { accessCode: "TEMP-ONCE-01" } })).status, 200);
+  const exhausted = await api<ErrorBody>("POST", "/api/auth/login", { ip, body: { accessCode: "TEMP-ONCE-01" } });
+  assert.equal(exhausted.status, 401);
+  assert.equal(exhausted.body.message, "Access code usage limit reached");
+
+  const early = await api<ErrorBody>("POST", "/api/auth/login", { ip, body: { accessCode: "TEMP-LATER-1" } });
+  assert.equal(early.status, 401);
+  assert.equal(early.body.message, "Access code is not valid yet");
+
+  const expired = await api<ErrorBody>("POST", "/api/auth/login", { ip, body: { accessCode: "TEMP-OLD-001" } });
+  assert.equal(expired.status, 401);
+  assert.equal(expired.body.message, "Access code expired");
+
+  const codes = await api<AccessCode[]>("GET", "/api/access-codes", { ip, session: admin.cookie });
+  const once = codes.body.find(code => code.id === created[0].id);
+  assert.ok(once);
+  assert.equal(once.loginCount, 1);
+  assert.equal(once.active, false);
+});
@@ -0,0 +1,30 @@
+import express, { type Express } from "express";
+
+// Proxies confiáveis, pela variável TRUST_PROXY. Atrás de um proxy reverso, req.ip só é o IP do cliente se
+// o Express confiar no X-Forwarded-For; sem isso, todos os logins parecem vir do proxy e dividem o mesmo
+// limite de tentativas, e a auditoria grava o IP do proxy:
+//   TRUST_PROXY=1                      -> quantidade de proxies à frente do servidor
+//   TRUST_PROXY=loopback,10.0.0.0/8    -> endereços ou sub-redes dos proxies
+//   TRUST_PROXY=true                   -> todo o X-Forwarded-For (só se o proxy sobrescreve o cabeçalho)
+// Sem TRUST_PROXY, o servidor é acessado diretamente e o X-Forwarded-For é ignorado
+export function resolveTrustProxy(env: NodeJS.ProcessEnv = process.env): boolean | number | string {
+  const value = env.TRUST_PROXY?.trim() ?? "";
+
+  if (value === "" || value.toLowerCase() === "false") {
+    return false;
+  }
+  if (value.toLowerCase() === "true") {
+    return true;
+  }
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
+// App Express com o proxy configurado e os parsers do corpo; o servidor, a função do Vercel e os testes
+// registram as rotas sobre ele
+export function createApp(trustProxy: boolean | number | string = resolveTrustProxy()): Express {
+  const app = express();
+  app.set("trust proxy", trustProxy);
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  return app;
+}
@@ -0,0 +1,26 @@
+import type { AuditChanges } from "@shared/schema";
+
+// Campos que nunca vão para a trilha de auditoria, mesmo que cheguem junto com o registro
+const REDACTED_FIELDS = ["secret", "password", "code_hash", "codeHash", "codeLookup", "passwordHash", "tokenHash"];
+
+// Diferença campo a campo entre o estado anterior e o posterior de um registro;
+// na criação (sem "before") ou na remoção (sem "after") todos os campos entram
+export function auditChanges(before?: object | null, after?: object | null): AuditChanges {
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+
+  for (const field of Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]))) {
+    if (REDACTED_FIELDS.includes(field)) {
+      continue;
+    }
+
+    const from = previous[field] ?? null;
+    const to = next[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { before: from, after: to };
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,9 @@
+// Erros de domínio lançados pela camada de armazenamento e traduzidos em status HTTP pelas rotas
+
+// O agendamento não pode ser feito/alterado porque o estado atual não permite (vaga esgotada, agendamento já cancelado etc.)
+export class BookingConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BookingConflictError";
+  }
+}
@@ -0,0 +1,64 @@
+// Feriados pré-carregados no calendário de bloqueios: nacionais, do estado da Bahia e do município de Salvador.
+// Os feriados móveis são definidos pela distância em dias até o domingo de Páscoa. Os municipais valem só para
+// as unidades do município (location), os demais para todas as unidades.
+import type { BlackoutType } from "@shared/schema";
+
+type Holiday = { date: string; name: string; type: BlackoutType; location: string | null };
+type FixedHoliday = Holiday; // date: MM-DD
+type MovableHoliday = Omit<Holiday, "date"> & { easterOffset: number };
+
+const SALVADOR = "Salvador";
+
+const FIXED_HOLIDAYS: FixedHoliday[] = [
+  { date: "01-01", name: "Confraternização Universal", type: "national", location: null },
+  { date: "04-21", name: "Tiradentes", type: "national", location: null },
+  { date: "05-01", name: "Dia do Trabalho", type: "national", location: null },
+  { date: "06-24", name: "São João", type: "municipal", location: SALVADOR },
+  { date: "07-02", name: "Independência da Bahia", type: "state", location: null },
+  { date: "09-07", name: "Independência do Brasil", type: "national", location: null },
+  { date: "10-12", name: "Nossa Senhora Aparecida", type: "national", location: null },
+  { date: "11-02", name: "Finados", type: "national", location: null },
+  { date: "11-15", name: "Proclamação da República", type: "national", location: null },
+  { date: "11-20", name: "Dia Nacional de Zumbi e da Consciência Negra", type: "national", location: null },
+  { date: "12-08", name: "Nossa Senhora da Conceição da Praia", type: "municipal", location: SALVADOR },
+  { date: "12-25", name: "Natal", type: "national", location: null },
+];
+
+const MOVABLE_HOLIDAYS: MovableHoliday[] = [
+  { easterOffset: -2, name: "Paixão de Cristo", type: "national", location: null },
+  // Ponto facultativo no país, mas feriado municipal em Salvador
+  { easterOffset: 60, name: "Corpus Christi", type: "municipal", location: SALVADOR },
+];
+
+// Domingo de Páscoa pelo algoritmo de Meeus/Jones/Butcher (calendário gregoriano), em UTC
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+// Lista os feriados do ano com a data no formato AAAA-MM-DD, em ordem cronológica
+export function holidaysForYear(year: number): Holiday[] {
+  const easter = easterSunday(year).getTime();
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  return [
+    ...FIXED_HOLIDAYS.map(holiday => ({ ...holiday, date: `${year}-${holiday.date}` })),
+    ...MOVABLE_HOLIDAYS.map(({ easterOffset, ...holiday }) => ({
+      ...holiday,
+      date: new Date(easter + easterOffset * dayMs).toISOString().slice(0, 10),
+    })),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+}
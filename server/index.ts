@@ -1,11 +1,12 @@
-import express, { type Request, Response, NextFunction } from "express";
+import type { Request, Response, NextFunction } from "express";
+import { createApp } from "./app";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { initializeTursoDb } from "./turso-db";
+import { storage, storageConfig } from "./storage";
+import { describeStorageConfig } from "./storage-config";
+import { MigrationError } from "./migrations";
 
-const app = express();
-app.use(express.json());
-app.use(express.urlencoded({ extended: false }));
+const app = createApp();
 
 // Middleware de log detalhado para diagnóstico
 app.use((req, res, next) => {
@@ -51,12 +52,17 @@ process.on('uncaughtException', (error) => {
   console.log("Iniciando servidor...");
   console.log("NODE_ENV:", process.env.NODE_ENV);
   
-  // Inicializar o banco de dados Turso
+  // Inicializar o banco de dados do backend configurado
   try {
-    await initializeTursoDb();
-    log("Banco de dados Turso inicializado com sucesso!", "db");
+    log(`Armazenamento: ${describeStorageConfig(storageConfig)}`, "db");
+    await storage.initialize();
+    log("Banco de dados inicializado com sucesso!", "db");
   } catch (error) {
-    console.error("Erro ao inicializar banco de dados Turso:", error);
+    console.error("Erro ao inicializar banco de dados:", error);
+    // Esquema desconhecido ou alterado: o código não sabe ler esse banco, então não sobe
+    if (error instanceof MigrationError) {
+      process.exit(1);
+    }
   }
   
   const server = await registerRoutes(app);
@@ -0,0 +1,70 @@
+// Linha de comando das migrações do banco configurado (mesmas variáveis de ambiente do servidor):
+//   npm run db:migrate -- status      versão do banco e migrações pendentes
+//   npm run db:migrate -- up          aplica as migrações pendentes
+//   npm run db:migrate -- down [n]    desfaz as n últimas migrações (padrão 1)
+import { createLibsqlClient, libsqlMigrationTarget, migrateTursoDb } from "./turso-db";
+import { createPostgresDb, migratePostgresDb, postgresMigrationTarget } from "./pg-db";
+import { migrationStatus, rollbackMigrations, type Migration, type MigrationTarget } from "./migrations";
+import { describeStorageConfig, resolveStorageConfig, type StorageConfig } from "./storage-config";
+
+const STATE_NAMES = {
+  applied: "aplicada",
+  pending: "pendente",
+  changed: "ALTERADA após aplicada",
+  unknown: "DESCONHECIDA por este código",
+} as const;
+
+// Conexão com o banco configurado; no libsql, o "up" também adota bancos anteriores às migrações numeradas
+function openDatabase(config: StorageConfig): { target: MigrationTarget; migrate(): Promise<Migration[]>; close(): Promise<void> } {
+  if (config.driver === "postgres") {
+    const db = createPostgresDb(config.url);
+    return { target: postgresMigrationTarget(db), migrate: () => migratePostgresDb(db), close: () => db.$client.end() };
+  }
+
+  const client = createLibsqlClient(config);
+  return { target: libsqlMigrationTarget(client), migrate: () => migrateTursoDb(client), close: async () => client.close() };
+}
+
+async function main() {
+  const [command = "status", argument] = process.argv.slice(2);
+
+  const config = resolveStorageConfig();
+  if (config.driver === "memory") {
+    throw new Error("Migrations need a persistent database: set STORAGE_DRIVER to turso, sqlite or postgres");
+  }
+  const database = openDatabase(config);
+  console.log(`Banco: ${describeStorageConfig(config)}`);
+
+  switch (command) {
+    case "status": {
+      for (const migration of await migrationStatus(database.target)) {
+        const appliedAt = migration.appliedAt ? ` em ${migration.appliedAt}` : "";
+        console.log(`${String(migration.version).padStart(4, "0")} ${migration.name}: ${STATE_NAMES[migration.state]}${appliedAt}`);
+      }
+      break;
+    }
+    case "up": {
+      const applied = await database.migrate();
+      console.log(applied.length > 0 ? `${applied.length} migração(ões) aplicada(s)` : "Banco já está na versão mais recente");
+      break;
+    }
+    case "down": {
+      const steps = argument === undefined ? 1 : Number(argument);
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error(`Invalid number of migrations to roll back: "${argument}"`);
+      }
+      const reverted = await rollbackMigrations(database.target, steps);
+      console.log(reverted.length > 0 ? `${reverted.length} migração(ões) desfeita(s)` : "Nenhuma migração aplicada");
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}": expected status, up or down`);
+  }
+
+  await database.close();
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? `${error.name}: ${error.message}` : error);
+  process.exit(1);
+});
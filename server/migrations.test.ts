@@ -0,0 +1,111 @@
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import { getTableColumns, getTableName, is, sql, Table } from "drizzle-orm";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as pgSchema from "@shared/schema";
+import * as sqliteSchema from "./sqlite-schema";
+import { applyMigrations, ensureMigrationsTable, migrationStatus, rollbackMigrations, MIGRATIONS, type MigrationTarget } from "./migrations";
+import { createLibsqlClient, libsqlMigrationTarget } from "./turso-db";
+import { postgresMigrationTarget } from "./pg-db";
+
+// As migrações são a única origem do esquema nos dois bancos: estes testes conferem que as duas versões
+// criam exatamente as tabelas e colunas que o query builder de cada backend espera
+const pglite = new PGlite();
+
+after(async () => {
+  await pglite.close();
+});
+
+type Columns = Record<string, Record<string, boolean>>;
+
+// Tabela -> coluna -> NOT NULL, como as definições do Drizzle descrevem
+function expectedColumns(schema: Record<string, unknown>): Columns {
+  const tables: Columns = {};
+  for (const table of Object.values(schema)) {
+    if (is(table, Table)) {
+      tables[getTableName(table)] = Object.fromEntries(
+        Object.values(getTableColumns(table)).map(column => [column.name, column.notNull])
+      );
+    }
+  }
+  return tables;
+}
+
+// Tabela -> coluna -> NOT NULL, como o banco migrado ficou; o controle de migrações fica de fora
+async function sqliteColumns(target: MigrationTarget): Promise<Columns> {
+  const tables: Columns = {};
+  const names = await target.all(sql`SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT IN ('schema_migrations', 'sqlite_sequence')`);
+  for (const { name } of names) {
+    const columns = await target.all(sql.raw(`PRAGMA table_info(${name})`));
+    // A chave primária INTEGER do SQLite nunca é nula, mesmo sem NOT NULL declarado
+    tables[String(name)] = Object.fromEntries(columns.map(column => [column.name, Boolean(column.notnull) || Boolean(column.pk)]));
+  }
+  return tables;
+}
+
+async function postgresColumns(target: MigrationTarget): Promise<Columns> {
+  const tables: Columns = {};
+  const columns = await target.all(sql`
+    SELECT table_name, column_name, is_nullable FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name <> 'schema_migrations'
+  `);
+  for (const column of columns) {
+    tables[String(column.table_name)] ??= {};
+    tables[String(column.table_name)][String(column.column_name)] = column.is_nullable === "NO";
+  }
+  return tables;
+}
+
+async function migrateAndCompare(target: MigrationTarget, expected: Columns, actual: (target: MigrationTarget) => Promise<Columns>) {
+  await ensureMigrationsTable(target);
+  await applyMigrations(target);
+  assert.deepEqual(await actual(target), expected);
+  assert.ok((await migrationStatus(target)).every(entry => entry.state === "applied"));
+
+  // Desfazer tudo deixa o banco vazio, e aplicar de novo chega ao mesmo esquema
+  await rollbackMigrations(target, MIGRATIONS.length);
+  assert.deepEqual(await actual(target), {});
+  await applyMigrations(target);
+  assert.deepEqual(await actual(target), expected);
+}
+
+test("SQLite migrations create the tables of sqlite-schema", async () => {
+  const client = createLibsqlClient({ driver: "memory" });
+  try {
+    await migrateAndCompare(libsqlMigrationTarget(client), expectedColumns(sqliteSchema), sqliteColumns);
+  } finally {
+    client.close();
+  }
+});
+
+test("Postgres migrations create the tables of @shared/schema", async () => {
+  await migrateAndCompare(postgresMigrationTarget(drizzle(pglite)), expectedColumns(pgSchema), postgresColumns);
+});
+
+test("the municipal holidays seeded without a location are moved to Salvador", async () => {
+  const client = createLibsqlClient({ driver: "memory" });
+  try {
+    const target = libsqlMigrationTarget(client);
+    await ensureMigrationsTable(target);
+    await applyMigrations(target);
+    await rollbackMigrations(target, 1);
+
+    // Como a carga de feriados gravava antes da migração; bloqueios criados pelo administrador não mudam
+    await target.transaction([
+      sql`INSERT INTO blackout_dates (date, name, type) VALUES ('2030-06-24', 'São João', 'municipal')`,
+      sql`INSERT INTO blackout_dates (date, name, type) VALUES ('2030-12-25', 'Natal', 'national')`,
+      sql`INSERT INTO blackout_dates (date, name, type, created_by) VALUES ('2030-12-08', 'Nossa Senhora da Conceição da Praia', 'municipal', 'ADM#0001')`,
+    ]);
+    await applyMigrations(target);
+
+    const rows = await target.all(sql`SELECT name, location FROM blackout_dates ORDER BY date`);
+    assert.deepEqual(rows.map(row => [row.name, row.location]), [
+      ["São João", "Salvador"],
+      ["Nossa Senhora da Conceição da Praia", null],
+      ["Natal", null],
+    ]);
+  } finally {
+    client.close();
+  }
+});
@@ -0,0 +1,565 @@
+import { createHash } from "crypto";
+import { sql, type SQL } from "drizzle-orm";
+
+// Migrações numeradas do banco, com as instruções do SQLite/libsql e do Postgres lado a lado. São a única origem
+// do esquema nos dois bancos: as duas versões de cada migração levam às tabelas de @shared/schema e de
+// sqlite-schema.ts, o que migrations.test.ts confere. Uma migração aplicada nunca deve ser editada: o checksum
+// gravado em schema_migrations é conferido a cada inicialização, e mudanças de esquema entram como uma nova versão
+export type Dialect = "sqlite" | "postgres";
+
+export interface MigrationStatements {
+  up: string[];
+  down: string[];
+}
+
+export interface Migration extends Record<Dialect, MigrationStatements> {
+  version: number;
+  name: string;
+}
+
+// Conexão em que as migrações rodam (ver libsqlMigrationTarget em turso-db.ts e postgresMigrationTarget em pg-db.ts)
+export interface MigrationTarget {
+  dialect: Dialect;
+  all(query: SQL): Promise<Record<string, unknown>[]>;
+  // Executa as consultas em ordem, numa única transação
+  transaction(queries: SQL[]): Promise<void>;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    // Esquema existente quando as migrações foram introduzidas; por usar IF NOT EXISTS, também serve
+    // de base para bancos antigos (ver upgradeLegacySchema em turso-db.ts)
+    sqlite: {
+      up: [
+        `CREATE TABLE IF NOT EXISTS access_codes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        code TEXT NOT NULL UNIQUE,
+        code_hash TEXT,
+        code_lookup TEXT,
+        role TEXT NOT NULL,
+        location TEXT,
+        location_id INTEGER,
+        role_id INTEGER,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        active BOOLEAN DEFAULT 1 NOT NULL,
+        valid_from TIMESTAMP,
+        expires_at TIMESTAMP,
+        max_logins INTEGER,
+        max_bookings INTEGER,
+        login_count INTEGER DEFAULT 0 NOT NULL,
+        booking_count INTEGER DEFAULT 0 NOT NULL
+      )`,
+        `CREATE INDEX IF NOT EXISTS access_codes_lookup_idx ON access_codes (code_lookup)`,
+        `CREATE TABLE IF NOT EXISTS locations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        type TEXT NOT NULL,
+        address TEXT,
+        municipality TEXT,
+        active BOOLEAN DEFAULT 1 NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+      )`,
+        `CREATE TABLE IF NOT EXISTS roles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        base_role TEXT NOT NULL,
+        permissions TEXT DEFAULT '[]' NOT NULL,
+        builtin BOOLEAN DEFAULT 0 NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+      )`,
+        `CREATE TABLE IF NOT EXISTS user_accounts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        access_code_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        registration_number TEXT NOT NULL UNIQUE,
+        password_hash TEXT NOT NULL,
+        active BOOLEAN DEFAULT 1 NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+      )`,
+        `CREATE TABLE IF NOT EXISTS sessions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        token_hash TEXT NOT NULL UNIQUE,
+        access_code_id INTEGER NOT NULL,
+        user_account_id INTEGER,
+        ip TEXT,
+        user_agent TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        last_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        revoked_at TIMESTAMP
+      )`,
+        `CREATE INDEX IF NOT EXISTS sessions_access_code_idx ON sessions (access_code_id)`,
+        `CREATE TABLE IF NOT EXISTS login_attempts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        ip TEXT,
+        code_lookup TEXT,
+        access_code_id INTEGER,
+        success BOOLEAN NOT NULL,
+        reason TEXT,
+        user_agent TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+      )`,
+        `CREATE INDEX IF NOT EXISTS login_attempts_ip_idx ON login_attempts (ip, created_at)`,
+        `CREATE INDEX IF NOT EXISTS login_attempts_code_idx ON login_attempts (code_lookup, created_at)`,
+        // Trilha de auditoria: somente inserção, os gatilhos recusam alterações e remoções
+        `CREATE TABLE IF NOT EXISTS audit_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        actor_code TEXT,
+        actor_account_id INTEGER,
+        actor_role TEXT,
+        action TEXT NOT NULL,
+        entity_type TEXT NOT NULL,
+        entity_id INTEGER,
+        changes TEXT DEFAULT '{}' NOT NULL,
+        ip TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+      )`,
+        `CREATE INDEX IF NOT EXISTS audit_events_created_idx ON audit_events (created_at)`,
+        `CREATE INDEX IF NOT EXISTS audit_events_entity_idx ON audit_events (entity_type, entity_id)`,
+        `CREATE TRIGGER IF NOT EXISTS audit_events_no_update BEFORE UPDATE ON audit_events
+      BEGIN SELECT RAISE(ABORT, 'audit_events is append-only'); END`,
+        `CREATE TRIGGER IF NOT EXISTS audit_events_no_delete BEFORE DELETE ON audit_events
+      BEGIN SELECT RAISE(ABORT, 'audit_events is append-only'); END`,
+        `CREATE TABLE IF NOT EXISTS availabilities (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        date TEXT NOT NULL,
+        start_time TEXT NOT NULL,
+        end_time TEXT NOT NULL,
+        capacity INTEGER NOT NULL,
+        remaining_slots INTEGER NOT NULL,
+        created_by TEXT NOT NULL,
+        created_by_account_id INTEGER,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        slot_duration INTEGER DEFAULT 60 NOT NULL,
+        breaks TEXT DEFAULT '[]' NOT NULL,
+        series_id INTEGER,
+        location_id INTEGER,
+        audience TEXT
+      )`,
+        `CREATE TABLE IF NOT EXISTS availability_series (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        rule TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+      )`,
+        `CREATE TABLE IF NOT EXISTS time_slots (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        availability_id INTEGER NOT NULL,
+        start_time TEXT NOT NULL,
+        capacity INTEGER NOT NULL,
+        remaining_slots INTEGER NOT NULL,
+        UNIQUE (availability_id, start_time)
+      )`,
+        `CREATE TABLE IF NOT EXISTS blackout_dates (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        date TEXT NOT NULL,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        location TEXT,
+        created_by TEXT,
+        created_by_account_id INTEGER,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+      )`,
+        `CREATE TABLE IF NOT EXISTS bookings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        availability_id INTEGER NOT NULL,
+        date TEXT,
+        client_name TEXT NOT NULL,
+        client_document TEXT,
+        client_phone TEXT,
+        service_number TEXT NOT NULL,
+        time_slot TEXT NOT NULL,
+        comments TEXT,
+        created_by TEXT NOT NULL,
+        created_by_account_id INTEGER,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        status TEXT DEFAULT 'scheduled' NOT NULL,
+        status_reason TEXT,
+        status_changed_by TEXT,
+        status_changed_by_account_id INTEGER,
+        status_changed_at TIMESTAMP,
+        rescheduled_from_id INTEGER,
+        checked_in_at TIMESTAMP,
+        completed_at TIMESTAMP,
+        technician_notes TEXT
+      )`,
+      ],
+      down: [
+        `DROP TABLE IF EXISTS bookings`,
+        `DROP TABLE IF EXISTS blackout_dates`,
+        `DROP TABLE IF EXISTS time_slots`,
+        `DROP TABLE IF EXISTS availability_series`,
+        `DROP TABLE IF EXISTS availabilities`,
+        `DROP TABLE IF EXISTS audit_events`,
+        `DROP TABLE IF EXISTS login_attempts`,
+        `DROP TABLE IF EXISTS sessions`,
+        `DROP TABLE IF EXISTS user_accounts`,
+        `DROP TABLE IF EXISTS roles`,
+        `DROP TABLE IF EXISTS locations`,
+        `DROP TABLE IF EXISTS access_codes`,
+      ],
+    },
+    // Mesmas tabelas no Postgres: os horários são timestamp(0) em UTC, no mesmo formato "AAAA-MM-DD HH:MM:SS" do
+    // SQLite, e os campos JSON são jsonb. O IF NOT EXISTS também adota bancos criados pelo antigo drizzle-kit push
+    postgres: {
+      up: [
+        `DO $$ BEGIN
+          CREATE TYPE user_role AS ENUM ('admin', 'embasa', 'sac', 'supervisor');
+        EXCEPTION WHEN duplicate_object THEN NULL;
+        END $$`,
+        `CREATE TABLE IF NOT EXISTS access_codes (
+          id SERIAL PRIMARY KEY,
+          code TEXT NOT NULL UNIQUE,
+          code_hash TEXT,
+          code_lookup TEXT,
+          role user_role NOT NULL,
+          location TEXT,
+          location_id INTEGER,
+          role_id INTEGER,
+          created_at TIMESTAMP(0) DEFAULT (CURRENT_TIMESTAMP AT TIME ZONE 'UTC') NOT NULL,
+          active BOOLEAN DEFAULT TRUE NOT NULL,
+          valid_from TIMESTAMP(0),
+          expires_at TIMESTAMP(0),
+          max_logins INTEGER,
+          max_bookings INTEGER,
+          login_count INTEGER DEFAULT 0 NOT NULL,
+          booking_count INTEGER DEFAULT 0 NOT NULL
+        )`,
+        `CREATE INDEX IF NOT EXISTS access_codes_lookup_idx ON access_codes (code_lookup)`,
+        `CREATE TABLE IF NOT EXISTS locations (
+          id SERIAL PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE,
+          type TEXT NOT NULL,
+          address TEXT,
+          municipality TEXT,
+          active BOOLEAN DEFAULT TRUE NOT NULL,
+          created_at TIMESTAMP(0) DEFAULT (CURRENT_TIMESTAMP AT TIME ZONE 'UTC') NOT NULL
+        )`,
+        `CREATE TABLE IF NOT EXISTS roles (
+          id SERIAL PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE,
+          base_role user_role NOT NULL,
+          permissions JSONB DEFAULT '[]' NOT NULL,
+          builtin BOOLEAN DEFAULT FALSE NOT NULL,
+          created_at TIMESTAMP(0) DEFAULT (CURRENT_TIMESTAMP AT TIME ZONE 'UTC') NOT NULL
+        )`,
+        `CREATE TABLE IF NOT EXISTS user_accounts (
+          id SERIAL PRIMARY KEY,
+          access_code_id INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          registration_number TEXT NOT NULL UNIQUE,
+          password_hash TEXT NOT NULL,
+          active BOOLEAN DEFAULT TRUE NOT NULL,
+          created_at TIMESTAMP(0) DEFAULT (CURRENT_TIMESTAMP AT TIME ZONE 'UTC') NOT NULL
+        )`,
+        `CREATE TABLE IF NOT EXISTS sessions (
+          id SERIAL PRIMARY KEY,
+          token_hash TEXT NOT NULL UNIQUE,
+          access_code_id INTEGER NOT NULL,
+          user_account_id INTEGER,
+          ip TEXT,
+          user_agent TEXT,
+          created_at TIMESTAMP(0) DEFAULT (CURRENT_TIMESTAMP AT TIME ZONE 'UTC') NOT NULL,
+          last_seen_at TIMESTAMP(0) DEFAULT (CURRENT_TIMESTAMP AT TIME ZONE 'UTC') NOT NULL,
+          expires_at TIMESTAMP(0) NOT NULL,
+          revoked_at TIMESTAMP(0)
+        )`,
+        `CREATE INDEX IF NOT EXISTS sessions_access_code_idx ON sessions (access_code_id)`,
+        `CREATE TABLE IF NOT EXISTS login_attempts (
+          id SERIAL PRIMARY KEY,
+          ip TEXT,
+          code_lookup TEXT,
+          access_code_id INTEGER,
+          success BOOLEAN NOT NULL,
+          reason TEXT,
+          user_agent TEXT,
+          created_at TIMESTAMP(0) DEFAULT (CURRENT_TIMESTAMP AT TIME ZONE 'UTC') NOT NULL
+        )`,
+        `CREATE INDEX IF NOT EXISTS login_attempts_ip_idx ON login_attempts (ip, created_at)`,
+        `CREATE INDEX IF NOT EXISTS login_attempts_code_idx ON login_attempts (code_lookup, created_at)`,
+        `CREATE TABLE IF NOT EXISTS audit_events (
+          id SERIAL PRIMARY KEY,
+          actor_code TEXT,
+          actor_account_id INTEGER,
+          actor_role TEXT,
+          action TEXT NOT NULL,
+          entity_type TEXT NOT NULL,
+          entity_id INTEGER,
+          changes JSONB DEFAULT '{}' NOT NULL,
+          ip TEXT,
+          created_at TIMESTAMP(0) DEFAULT (CURRENT_TIMESTAMP AT TIME ZONE 'UTC') NOT NULL
+        )`,
+        `CREATE INDEX IF NOT EXISTS audit_events_created_idx ON audit_events (created_at)`,
+        `CREATE INDEX IF NOT EXISTS audit_events_entity_idx ON audit_events (entity_type, entity_id)`,
+        `CREATE OR REPLACE FUNCTION audit_events_append_only() RETURNS trigger LANGUAGE plpgsql AS $$
+        BEGIN RAISE EXCEPTION 'audit_events is append-only'; END $$`,
+        `CREATE OR REPLACE TRIGGER audit_events_no_change BEFORE UPDATE OR DELETE ON audit_events
+        FOR EACH ROW EXECUTE FUNCTION audit_events_append_only()`,
+        `CREATE TABLE IF NOT EXISTS availabilities (
+          id SERIAL PRIMARY KEY,
+          date TEXT NOT NULL,
+          start_time TEXT NOT NULL,
+          end_time TEXT NOT NULL,
+          capacity INTEGER NOT NULL,
+          remaining_slots INTEGER NOT NULL,
+          created_by TEXT NOT NULL,
+          created_by_account_id INTEGER,
+          created_at TIMESTAMP(0) DEFAULT (CURRENT_TIMESTAMP AT TIME ZONE 'UTC') NOT NULL,
+          slot_duration INTEGER DEFAULT 60 NOT NULL,
+          breaks JSONB DEFAULT '[]' NOT NULL,
+          series_id INTEGER,
+          location_id INTEGER,
+          audience JSONB
+        )`,
+        `CREATE TABLE IF NOT EXISTS availability_series (
+          id SERIAL PRIMARY KEY,
+          rule JSONB NOT NULL,
+          created_by TEXT NOT NULL,
+          created_at TIMESTAMP(0) DEFAULT (CURRENT_TIMESTAMP AT TIME ZONE 'UTC') NOT NULL
+        )`,
+        `CREATE TABLE IF NOT EXISTS time_slots (
+          id SERIAL PRIMARY KEY,
+          availability_id INTEGER NOT NULL,
+          start_time TEXT NOT NULL,
+          capacity INTEGER NOT NULL,
+          remaining_slots INTEGER NOT NULL,
+          UNIQUE (availability_id, start_time)
+        )`,
+        `CREATE TABLE IF NOT EXISTS blackout_dates (
+          id SERIAL PRIMARY KEY,
+          date TEXT NOT NULL,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL,
+          location TEXT,
+          created_by TEXT,
+          created_by_account_id INTEGER,
+          created_at TIMESTAMP(0) DEFAULT (CURRENT_TIMESTAMP AT TIME ZONE 'UTC') NOT NULL
+        )`,
+        `CREATE TABLE IF NOT EXISTS bookings (
+          id SERIAL PRIMARY KEY,
+          availability_id INTEGER NOT NULL,
+          date TEXT,
+          client_name TEXT NOT NULL,
+          client_document TEXT,
+          client_phone TEXT,
+          service_number TEXT NOT NULL,
+          time_slot TEXT NOT NULL,
+          comments TEXT,
+          created_by TEXT NOT NULL,
+          created_by_account_id INTEGER,
+          created_at TIMESTAMP(0) DEFAULT (CURRENT_TIMESTAMP AT TIME ZONE 'UTC') NOT NULL,
+          status TEXT DEFAULT 'scheduled' NOT NULL,
+          status_reason TEXT,
+          status_changed_by TEXT,
+          status_changed_by_account_id INTEGER,
+          status_changed_at TIMESTAMP(0),
+          rescheduled_from_id INTEGER,
+          checked_in_at TIMESTAMP(0),
+          completed_at TIMESTAMP(0),
+          technician_notes TEXT
+        )`,
+      ],
+      down: [
+        `DROP TABLE IF EXISTS bookings`,
+        `DROP TABLE IF EXISTS blackout_dates`,
+        `DROP TABLE IF EXISTS time_slots`,
+        `DROP TABLE IF EXISTS availability_series`,
+        `DROP TABLE IF EXISTS availabilities`,
+        `DROP TABLE IF EXISTS audit_events`,
+        `DROP FUNCTION IF EXISTS audit_events_append_only`,
+        `DROP TABLE IF EXISTS login_attempts`,
+        `DROP TABLE IF EXISTS sessions`,
+        `DROP TABLE IF EXISTS user_accounts`,
+        `DROP TABLE IF EXISTS roles`,
+        `DROP TABLE IF EXISTS locations`,
+        `DROP TABLE IF EXISTS access_codes`,
+        `DROP TYPE IF EXISTS user_role`,
+      ],
+    },
+  },
+  {
+    version: 2,
+    name: "supervisor_reschedule_permission",
+    // O perfil padrão do supervisor passa a remarcar os agendamentos da região, como os perfis criados a partir de agora
+    sqlite: {
+      up: [
+        `UPDATE roles
+      SET permissions = json_insert(permissions, '$[#]', 'booking:reschedule:region')
+      WHERE builtin = 1 AND base_role = 'supervisor'
+        AND NOT EXISTS (SELECT 1 FROM json_each(roles.permissions) WHERE value = 'booking:reschedule:region')`,
+      ],
+      down: [
+        `UPDATE roles
+      SET permissions = (SELECT json_group_array(value) FROM json_each(roles.permissions) WHERE value <> 'booking:reschedule:region')
+      WHERE EXISTS (SELECT 1 FROM json_each(roles.permissions) WHERE value = 'booking:reschedule:region')`,
+      ],
+    },
+    postgres: {
+      up: [
+        `UPDATE roles
+        SET permissions = permissions || '["booking:reschedule:region"]'
+        WHERE builtin AND base_role = 'supervisor' AND NOT permissions @> '["booking:reschedule:region"]'`,
+      ],
+      down: [
+        `UPDATE roles
+        SET permissions = permissions - 'booking:reschedule:region'
+        WHERE permissions @> '["booking:reschedule:region"]'`,
+      ],
+    },
+  },
+  {
+    version: 3,
+    name: "salvador_municipal_holidays",
+    // Os feriados municipais pré-carregados passam a valer só para as unidades de Salvador; antes eram
+    // gravados sem unidade e bloqueavam o calendário de todas
+    sqlite: {
+      up: [
+        `UPDATE blackout_dates SET location = 'Salvador'
+      WHERE created_by IS NULL AND type = 'municipal' AND location IS NULL
+        AND name IN ('São João', 'Nossa Senhora da Conceição da Praia')`,
+      ],
+      down: [
+        `UPDATE blackout_dates SET location = NULL
+      WHERE created_by IS NULL AND type = 'municipal' AND location = 'Salvador'
+        AND name IN ('São João', 'Nossa Senhora da Conceição da Praia')`,
+      ],
+    },
+    postgres: {
+      up: [
+        `UPDATE blackout_dates SET location = 'Salvador'
+        WHERE created_by IS NULL AND type = 'municipal' AND location IS NULL
+          AND name IN ('São João', 'Nossa Senhora da Conceição da Praia')`,
+      ],
+      down: [
+        `UPDATE blackout_dates SET location = NULL
+        WHERE created_by IS NULL AND type = 'municipal' AND location = 'Salvador'
+          AND name IN ('São João', 'Nossa Senhora da Conceição da Praia')`,
+      ],
+    },
+  },
+];
+
+// O banco está numa versão que este código não sabe tratar (mais nova, ou uma migração aplicada foi alterada)
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MigrationError";
+  }
+}
+
+export type MigrationStatus = {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+  // "applied" confere com o código; "changed" foi aplicada com outro conteúdo; "unknown" não existe no código
+  state: "applied" | "pending" | "changed" | "unknown";
+};
+
+// O checksum cobre as instruções do banco em uso; as do SQLite são as mesmas de antes do Postgres
+export function migrationChecksum(migration: Migration, dialect: Dialect): string {
+  return createHash("sha256").update(migration[dialect].up.join(";\n")).digest("hex");
+}
+
+function recordQuery(target: MigrationTarget, migration: Migration): SQL {
+  return sql`INSERT INTO schema_migrations (version, name, checksum)
+    VALUES (${migration.version}, ${migration.name}, ${migrationChecksum(migration, target.dialect)})`;
+}
+
+export async function ensureMigrationsTable(target: MigrationTarget) {
+  await target.transaction([sql`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+    )
+  `]);
+}
+
+export async function migrationStatus(target: MigrationTarget): Promise<MigrationStatus[]> {
+  await ensureMigrationsTable(target);
+  const rows = await target.all(sql`SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version`);
+  const applied = new Map(rows.map(row => [Number(row.version), row]));
+
+  const known: MigrationStatus[] = MIGRATIONS.map(migration => {
+    const row = applied.get(migration.version);
+    return {
+      version: migration.version,
+      name: migration.name,
+      appliedAt: row ? String(row.applied_at) : null,
+      state: !row ? "pending" : String(row.checksum) === migrationChecksum(migration, target.dialect) ? "applied" : "changed",
+    };
+  });
+
+  const unknown: MigrationStatus[] = rows
+    .filter(row => !MIGRATIONS.some(migration => migration.version === Number(row.version)))
+    .map(row => ({ version: Number(row.version), name: String(row.name), appliedAt: String(row.applied_at), state: "unknown" }));
+
+  return [...known, ...unknown].sort((a, b) => a.version - b.version);
+}
+
+// Recusa bancos com migrações desconhecidas ou alteradas depois de aplicadas
+export async function assertKnownSchema(target: MigrationTarget): Promise<MigrationStatus[]> {
+  const status = await migrationStatus(target);
+
+  const unknown = status.filter(migration => migration.state === "unknown");
+  if (unknown.length > 0) {
+    throw new MigrationError(
+      `Database schema version ${unknown[unknown.length - 1].version} is unknown to this build ` +
+      `(latest known: ${MIGRATIONS[MIGRATIONS.length - 1].version}); deploy a newer build or roll the database back`
+    );
+  }
+
+  const changed = status.find(migration => migration.state === "changed");
+  if (changed) {
+    throw new MigrationError(
+      `Migration ${changed.version} (${changed.name}) was modified after being applied; add a new migration instead`
+    );
+  }
+
+  return status;
+}
+
+// Grava a migração como aplicada sem executá-la (adoção de bancos criados antes das migrações)
+export async function recordMigration(target: MigrationTarget, migration: Migration) {
+  await target.transaction([recordQuery(target, migration)]);
+}
+
+// Aplica, em ordem, as migrações pendentes; cada uma roda numa transação junto com o seu registro
+export async function applyMigrations(target: MigrationTarget): Promise<Migration[]> {
+  const status = await assertKnownSchema(target);
+  const pending = MIGRATIONS.filter(migration =>
+    status.some(entry => entry.version === migration.version && entry.state === "pending")
+  );
+
+  for (const migration of pending) {
+    await target.transaction([
+      ...migration[target.dialect].up.map(statement => sql.raw(statement)),
+      recordQuery(target, migration)
+    ]);
+    console.log(`Migração ${migration.version} (${migration.name}) aplicada`);
+  }
+
+  return pending;
+}
+
+// Desfaz as últimas migrações aplicadas, da mais recente para a mais antiga
+export async function rollbackMigrations(target: MigrationTarget, steps = 1): Promise<Migration[]> {
+  const status = await assertKnownSchema(target);
+  const applied = MIGRATIONS
+    .filter(migration => status.some(entry => entry.version === migration.version && entry.state === "applied"))
+    .reverse()
+    .slice(0, steps);
+
+  for (const migration of applied) {
+    await target.transaction([
+      ...migration[target.dialect].down.map(statement => sql.raw(statement)),
+      sql`DELETE FROM schema_migrations WHERE version = ${migration.version}`
+    ]);
+    console.log(`Migração ${migration.version} (${migration.name}) desfeita`);
+  }
+
+  return applied;
+}
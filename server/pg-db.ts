@@ -0,0 +1,120 @@
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-serverless';
+import { between, eq, getTableColumns, sql } from "drizzle-orm";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import {
+  accessCodes, blackoutDates, roles, sessions, userAccounts, type AccessCode, type InsertAccessCode, type UserRole
+} from "@shared/schema";
+import { applyMigrations, type Migration, type MigrationTarget } from "./migrations";
+import { accessCodeHandle } from "./access-codes";
+import { newAccessCodeValues, type TimestampValue } from "./storage-helpers";
+import { seedInitialData, type SeedTarget } from "./seed";
+
+neonConfig.webSocketConstructor = ws;
+
+// Banco Postgres do armazenamento: o pool do Neon no servidor; os testes usam o PGlite, com o mesmo query builder
+export type PostgresDb = PgDatabase<PgQueryResultHKT>;
+
+// O pool fica em $client, para quem precisa encerrá-lo (ver migrate.ts)
+export function createPostgresDb(url: string): PostgresDb & { $client: Pool } {
+  const pool = new Pool({ connectionString: url });
+  return drizzle({ client: pool });
+}
+
+// Colunas que podem sair da camada de armazenamento: hashes de código, senha e token ficam de fora
+const { codeHash, codeLookup, ...accessCodeColumns } = getTableColumns(accessCodes);
+const { passwordHash, ...userAccountColumns } = getTableColumns(userAccounts);
+const { tokenHash, ...sessionColumns } = getTableColumns(sessions);
+export { accessCodeColumns, userAccountColumns, sessionColumns };
+
+// Horário atual em UTC, no formato das colunas timestamp(0)
+export const now = sql<string>`(CURRENT_TIMESTAMP AT TIME ZONE 'UTC')`;
+
+// As datas ISO 8601 são gravadas em UTC, como o datetime() do SQLite faz
+export const postgresTimestamp: TimestampValue = value => sql`(${value}::timestamptz AT TIME ZONE 'UTC')`;
+
+// Migrações no Postgres; o resultado de execute() depende do driver, mas todos devolvem as linhas em rows
+export function postgresMigrationTarget(db: PostgresDb): MigrationTarget {
+  return {
+    dialect: "postgres",
+    all: async query => ((await db.execute(query)) as unknown as { rows: Record<string, unknown>[] }).rows,
+    transaction: async queries => {
+      await db.transaction(async tx => {
+        for (const query of queries) {
+          await tx.execute(query);
+        }
+      });
+    },
+  };
+}
+
+// Insere um código já com hash; o identificador público depende do id e é gravado na mesma transação
+export async function insertAccessCode(
+  db: PostgresDb,
+  code: string,
+  role: UserRole,
+  location: string,
+  active: boolean,
+  details: Pick<InsertAccessCode, "locationId" | "roleId" | "validFrom" | "expiresAt" | "maxLogins" | "maxBookings"> = {}
+): Promise<AccessCode> {
+  const values = await newAccessCodeValues(code, role, location, active, details, postgresTimestamp);
+
+  return db.transaction(async tx => {
+    const [{ id }] = await tx.insert(accessCodes).values(values).returning({ id: accessCodes.id });
+
+    const [created] = await tx.update(accessCodes)
+      .set({ code: accessCodeHandle(role, id) })
+      .where(eq(accessCodes.id, id))
+      .returning(accessCodeColumns);
+
+    return created;
+  });
+}
+
+// Dados iniciais no Postgres, com as mesmas regras do libsql (ver seed.ts)
+export function postgresSeedTarget(db: PostgresDb): SeedTarget {
+  return {
+    builtinRoles: async () => {
+      const builtin = await db.select({ baseRole: roles.baseRole }).from(roles).where(eq(roles.builtin, true));
+      return builtin.map(role => role.baseRole);
+    },
+    insertRoles: async values => {
+      await db.insert(roles).values(values).onConflictDoNothing();
+    },
+    blackoutDates: (from, to) => db.select({ date: blackoutDates.date, name: blackoutDates.name, location: blackoutDates.location })
+      .from(blackoutDates)
+      .where(between(blackoutDates.date, from, to)),
+    insertBlackoutDates: async holidays => {
+      const inserted = await db.insert(blackoutDates).values(holidays).returning({ id: blackoutDates.id });
+      return inserted.length;
+    },
+    hasAdminCode: async () => {
+      const [admin] = await db.select({ id: accessCodes.id }).from(accessCodes).where(eq(accessCodes.role, "admin")).limit(1);
+      return admin !== undefined;
+    },
+    insertAdminCode: async (code, location) => {
+      await insertAccessCode(db, code, "admin", location, true);
+    },
+  };
+}
+
+// Leva o banco à versão mais recente das migrações numeradas
+export async function migratePostgresDb(db: PostgresDb): Promise<Migration[]> {
+  return applyMigrations(postgresMigrationTarget(db));
+}
+
+// Inicialização do banco: migrações pendentes e dados iniciais (perfis padrão, feriados e admin padrão)
+export async function initializePostgresDb(db: PostgresDb) {
+  try {
+    console.log("Inicializando banco de dados Postgres...");
+
+    await migratePostgresDb(db);
+    await seedInitialData(postgresSeedTarget(db));
+
+    console.log("Esquema e dados iniciais atualizados");
+  } catch (error) {
+    console.error("Erro ao inicializar banco de dados:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,1164 @@
+import {
+  and, asc, between, count, desc, eq, getTableColumns, gt, gte, inArray, isNotNull, isNull,
+  like, lt, lte, notExists, or, sql
+} from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import {
+  AccessCode, InsertAccessCode, UpdateAccessCode,
+  Availability, InsertAvailability,
+  Booking, InsertBooking, RescheduleBooking,
+  TimeSlot, RecurrenceRule, expandRecurrence,
+  BlackoutDate, InsertBlackoutDate,
+  BookingWithSacLocation, EmbasaBookingsQuery, VisitOutcome, SupervisedBooking, SupervisorBookingsQuery,
+  InsertLoginAttempt, FailedLoginAttempt, Session, InsertSession, ActiveSession, Actor,
+  UserAccount, InsertUserAccount, UpdateUserAccount, UserAccountWithAccessCode,
+  Location, InsertLocation, UpdateLocation, LocationWithUsage,
+  Role, InsertRole, UpdateRole, RoleWithUsage,
+  AuditEvent, InsertAuditEvent, AuditEventsQuery,
+  ACTIVE_BOOKING_STATUSES, SLOT_HOLDING_STATUSES, statusesAllowedBefore,
+  accessCodes, auditEvents, availabilities, availabilitySeries, blackoutDates, bookings,
+  locations, loginAttempts, roles, sessions, timeSlots, userAccounts
+} from "@shared/schema";
+import {
+  accessCodeColumns, initializePostgresDb, insertAccessCode, now, postgresSeedTarget, postgresTimestamp, sessionColumns,
+  userAccountColumns, type PostgresDb
+} from "./pg-db";
+import type { IStorage } from "./storage";
+import { BookingConflictError } from "./errors";
+import { accessCodeLookup, verifyAccessCode } from "./access-codes";
+import {
+  accessCodeUpdates, BOOKING_NOT_ACTIVE, hasUpdates, locationUpdates, locationValues, newAvailability, newBookingValues,
+  rescheduledBookingValues, SLOT_UNAVAILABLE, statusChange, toDateString, transitionConflict, updatedAvailability,
+  userAccountUpdates, userAccountValues, visitOutcomeChange
+} from "./storage-helpers";
+import { seedHolidays } from "./seed";
+import { SESSION_TTL_HOURS } from "./sessions";
+
+// IStorage sobre Postgres, com as tabelas de @shared/schema. Onde o TursoStorage encadeia as instruções
+// de um lote com changes() > 0, aqui cada passo roda numa transação e a falha de um passo desfaz os anteriores
+export class PostgresStorage implements IStorage {
+  constructor(private readonly db: PostgresDb) {}
+
+  async initialize(): Promise<void> {
+    await initializePostgresDb(this.db);
+  }
+
+  // Insere as disponibilidades das datas informadas e os seus horários, numa transação já aberta
+  private async insertAvailabilities(
+    tx: PostgresDb,
+    availability: InsertAvailability,
+    dates: string[],
+    seriesId: number | null
+  ): Promise<Availability[]> {
+    const rows = dates.map(date => newAvailability(availability, date));
+    const { slots } = rows[0];
+
+    const created = await tx.insert(availabilities)
+      .values(rows.map(row => ({ ...row.values, seriesId })))
+      .returning();
+
+    await tx.insert(timeSlots).values(created.flatMap(row => slots.map(startTime => ({
+      availabilityId: row.id,
+      startTime,
+      capacity: availability.capacity,
+      remainingSlots: availability.capacity
+    }))));
+
+    return created.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // Devolve a vaga do agendamento ao horário e à disponibilidade
+  private async releaseBookingSlot(tx: PostgresDb, booking: Booking) {
+    await tx.update(availabilities)
+      .set({ remainingSlots: sql`${availabilities.remainingSlots} + 1` })
+      .where(eq(availabilities.id, booking.availabilityId));
+    await tx.update(timeSlots)
+      .set({ remainingSlots: sql`${timeSlots.remainingSlots} + 1` })
+      .where(and(eq(timeSlots.availabilityId, booking.availabilityId), eq(timeSlots.startTime, booking.timeSlot)));
+  }
+
+  // Reserva uma vaga no horário; BookingConflictError (que desfaz a transação) se o horário estiver lotado
+  private async takeSlot(tx: PostgresDb, availabilityId: number, timeSlot: string): Promise<Availability> {
+    const [slot] = await tx.update(timeSlots)
+      .set({ remainingSlots: sql`${timeSlots.remainingSlots} - 1` })
+      .where(and(
+        eq(timeSlots.availabilityId, availabilityId),
+        eq(timeSlots.startTime, timeSlot),
+        gt(timeSlots.remainingSlots, 0)
+      ))
+      .returning({ id: timeSlots.id });
+
+    if (!slot) {
+      throw new BookingConflictError(SLOT_UNAVAILABLE);
+    }
+
+    const [availability] = await tx.update(availabilities)
+      .set({ remainingSlots: sql`${availabilities.remainingSlots} - 1` })
+      .where(eq(availabilities.id, availabilityId))
+      .returning();
+
+    return availability;
+  }
+
+  // Access Code operations
+  async getAccessCode(code: string): Promise<AccessCode | undefined> {
+    try {
+      const [accessCode] = await this.db.select(accessCodeColumns).from(accessCodes)
+        .where(and(eq(accessCodes.code, code), eq(accessCodes.active, true)));
+
+      if (!accessCode) {
+        console.log(`Nenhum código de acesso encontrado para: ${code}`);
+        return undefined;
+      }
+
+      return accessCode;
+    } catch (error) {
+      console.error(`ERRO ao buscar código de acesso ${code}:`, error);
+      return undefined;
+    }
+  }
+
+  async findAccessCodeBySecret(secret: string): Promise<AccessCode | undefined> {
+    try {
+      // A chave de busca é compartilhada por vários códigos, então cada candidato tem o hash verificado
+      const candidates = await this.db.select({ accessCode: accessCodeColumns, codeHash: accessCodes.codeHash })
+        .from(accessCodes)
+        .where(eq(accessCodes.codeLookup, accessCodeLookup(secret)));
+
+      for (const candidate of candidates) {
+        if (candidate.codeHash && await verifyAccessCode(secret, candidate.codeHash)) {
+          return candidate.accessCode;
+        }
+      }
+
+      return undefined;
+    } catch (error) {
+      console.error("ERRO ao verificar código de acesso:", error);
+      return undefined;
+    }
+  }
+
+  async createAccessCode(accessCode: InsertAccessCode): Promise<AccessCode> {
+    const [created] = await this.createAccessCodes([accessCode]);
+    return created;
+  }
+
+  async createAccessCodes(accessCodes: InsertAccessCode[]): Promise<AccessCode[]> {
+    try {
+      return await this.db.transaction(async tx => {
+        const created: AccessCode[] = [];
+        for (const accessCode of accessCodes) {
+          created.push(await insertAccessCode(
+            tx,
+            accessCode.code,
+            accessCode.role,
+            accessCode.location || "",
+            accessCode.active ?? true,
+            accessCode
+          ));
+        }
+        return created;
+      });
+    } catch (error) {
+      console.error("Erro ao criar códigos de acesso:", error);
+      throw error;
+    }
+  }
+
+  async listAccessCodes(): Promise<AccessCode[]> {
+    try {
+      return await this.db.select(accessCodeColumns).from(accessCodes).orderBy(desc(accessCodes.createdAt), desc(accessCodes.id));
+    } catch (error) {
+      console.error("Erro ao listar códigos de acesso:", error);
+      return [];
+    }
+  }
+
+  async updateAccessCode(id: number, updates: UpdateAccessCode): Promise<AccessCode | undefined> {
+    try {
+      const values = await accessCodeUpdates(updates, postgresTimestamp);
+
+      if (!hasUpdates(values)) {
+        return undefined;
+      }
+
+      const [updated] = await this.db.update(accessCodes).set(values)
+        .where(eq(accessCodes.id, id))
+        .returning(accessCodeColumns);
+
+      return updated;
+    } catch (error) {
+      console.error("Erro ao atualizar código de acesso:", error);
+      return undefined;
+    }
+  }
+
+  async deleteAccessCode(id: number): Promise<boolean> {
+    try {
+      const deleted = await this.db.delete(accessCodes).where(eq(accessCodes.id, id)).returning({ id: accessCodes.id });
+
+      return deleted.length > 0;
+    } catch (error) {
+      console.error("Erro ao deletar código de acesso:", error);
+      return false;
+    }
+  }
+
+  async recordAccessCodeLogin(id: number): Promise<boolean> {
+    try {
+      // Incremento condicional: dois logins simultâneos não ultrapassam o limite
+      const updated = await this.db.update(accessCodes)
+        .set({ loginCount: sql`${accessCodes.loginCount} + 1` })
+        .where(and(
+          eq(accessCodes.id, id),
+          or(isNull(accessCodes.maxLogins), lt(accessCodes.loginCount, accessCodes.maxLogins))
+        ))
+        .returning({ id: accessCodes.id });
+
+      return updated.length > 0;
+    } catch (error) {
+      console.error("Erro ao registrar login do código de acesso:", error);
+      return false;
+    }
+  }
+
+  async deactivateExpiredAccessCodes(): Promise<number[]> {
+    try {
+      const deactivated = await this.db.update(accessCodes)
+        .set({ active: false })
+        .where(and(
+          eq(accessCodes.active, true),
+          or(
+            lte(accessCodes.expiresAt, now),
+            and(isNotNull(accessCodes.maxBookings), gte(accessCodes.bookingCount, accessCodes.maxBookings))
+          )
+        ))
+        .returning({ id: accessCodes.id });
+
+      return deactivated.map(accessCode => accessCode.id);
+    } catch (error) {
+      console.error("Erro ao desativar códigos expirados:", error);
+      return [];
+    }
+  }
+
+  async listSacAccessCodesInRegion(locationId: number): Promise<AccessCode[]> {
+    try {
+      const region = alias(locations, "region");
+
+      return await this.db.select(accessCodeColumns)
+        .from(accessCodes)
+        .innerJoin(locations, eq(locations.id, accessCodes.locationId))
+        .innerJoin(region, eq(region.id, locationId))
+        .where(and(
+          eq(accessCodes.role, "sac"),
+          or(
+            eq(locations.id, region.id),
+            and(
+              sql`TRIM(COALESCE(${region.municipality}, '')) != ''`,
+              sql`LOWER(TRIM(${locations.municipality})) = LOWER(TRIM(${region.municipality}))`
+            )
+          )
+        ))
+        .orderBy(asc(locations.name), asc(accessCodes.code));
+    } catch (error) {
+      console.error("Erro ao listar códigos SAC da região:", error);
+      return [];
+    }
+  }
+
+  // Role operations
+  async getRole(id: number): Promise<Role | undefined> {
+    try {
+      const [role] = await this.db.select().from(roles).where(eq(roles.id, id));
+
+      return role;
+    } catch (error) {
+      console.error("Erro ao buscar perfil de acesso:", error);
+      return undefined;
+    }
+  }
+
+  async getAccessCodeRole(accessCode: Pick<AccessCode, "role" | "roleId">): Promise<Role | undefined> {
+    try {
+      // Sem perfil próprio, vale o perfil padrão do papel do código
+      const [role] = await this.db.select().from(roles)
+        .where(accessCode.roleId !== null
+          ? eq(roles.id, accessCode.roleId)
+          : and(eq(roles.builtin, true), eq(roles.baseRole, accessCode.role)))
+        .limit(1);
+
+      return role;
+    } catch (error) {
+      console.error("Erro ao buscar perfil do código de acesso:", error);
+      return undefined;
+    }
+  }
+
+  async listRoles(): Promise<RoleWithUsage[]> {
+    try {
+      // A contagem vem de uma subconsulta do query builder, pelo mesmo motivo do TursoStorage
+      return await this.db.select({
+        ...getTableColumns(roles),
+        accessCodeCount: sql<number>`${this.db.select({ count: count() }).from(accessCodes).where(or(
+          eq(accessCodes.roleId, roles.id),
+          and(eq(roles.builtin, true), isNull(accessCodes.roleId), eq(accessCodes.role, roles.baseRole))
+        ))}`.mapWith(Number)
+      })
+        .from(roles)
+        .orderBy(asc(roles.baseRole), desc(roles.builtin), asc(roles.name));
+    } catch (error) {
+      console.error("Erro ao listar perfis de acesso:", error);
+      return [];
+    }
+  }
+
+  async createRole(role: InsertRole): Promise<Role> {
+    try {
+      const [created] = await this.db.insert(roles)
+        .values({ name: role.name, baseRole: role.baseRole, permissions: role.permissions })
+        .returning();
+
+      return created;
+    } catch (error) {
+      console.error("Erro ao criar perfil de acesso:", error);
+      throw error;
+    }
+  }
+
+  async updateRole(id: number, updates: UpdateRole): Promise<Role | undefined> {
+    try {
+      const values = { name: updates.name, permissions: updates.permissions };
+
+      if (!hasUpdates(values)) {
+        return undefined;
+      }
+
+      const [updated] = await this.db.update(roles).set(values).where(eq(roles.id, id)).returning();
+
+      return updated;
+    } catch (error) {
+      console.error("Erro ao atualizar perfil de acesso:", error);
+      throw error;
+    }
+  }
+
+  async deleteRole(id: number): Promise<boolean> {
+    try {
+      // Os códigos que usavam o perfil voltam para o perfil padrão do papel
+      return await this.db.transaction(async tx => {
+        await tx.update(accessCodes).set({ roleId: null }).where(eq(accessCodes.roleId, id));
+        const deleted = await tx.delete(roles)
+          .where(and(eq(roles.id, id), eq(roles.builtin, false)))
+          .returning({ id: roles.id });
+
+        return deleted.length > 0;
+      });
+    } catch (error) {
+      console.error("Erro ao remover perfil de acesso:", error);
+      throw error;
+    }
+  }
+
+  // Location operations
+  async getLocation(id: number): Promise<Location | undefined> {
+    try {
+      const [location] = await this.db.select().from(locations).where(eq(locations.id, id));
+
+      return location;
+    } catch (error) {
+      console.error("Erro ao buscar unidade:", error);
+      return undefined;
+    }
+  }
+
+  async listLocations(): Promise<LocationWithUsage[]> {
+    try {
+      return await this.db.select({
+        ...getTableColumns(locations),
+        accessCodeCount: sql<number>`${this.db.select({ count: count() }).from(accessCodes)
+          .where(and(eq(accessCodes.locationId, locations.id), eq(accessCodes.active, true)))}`.mapWith(Number)
+      })
+        .from(locations)
+        .orderBy(asc(locations.type), asc(locations.name));
+    } catch (error) {
+      console.error("Erro ao listar unidades:", error);
+      return [];
+    }
+  }
+
+  async createLocation(location: InsertLocation): Promise<Location> {
+    try {
+      const [created] = await this.db.insert(locations).values(locationValues(location)).returning();
+
+      return created;
+    } catch (error) {
+      console.error("Erro ao criar unidade:", error);
+      throw error;
+    }
+  }
+
+  async updateLocation(id: number, updates: UpdateLocation): Promise<Location | undefined> {
+    try {
+      const values = locationUpdates(updates);
+
+      if (!hasUpdates(values)) {
+        return undefined;
+      }
+
+      const previous = await this.getLocation(id);
+      if (!previous) {
+        return undefined;
+      }
+
+      // O nome da unidade também fica nos códigos e nos fechamentos do calendário, que são renomeados junto
+      const name = updates.name ?? previous.name;
+      return await this.db.transaction(async tx => {
+        const [updated] = await tx.update(locations).set(values).where(eq(locations.id, id)).returning();
+        await tx.update(accessCodes).set({ location: name }).where(eq(accessCodes.locationId, id));
+        await tx.update(blackoutDates).set({ location: name }).where(eq(blackoutDates.location, previous.name));
+
+        return updated;
+      });
+    } catch (error) {
+      console.error("Erro ao atualizar unidade:", error);
+      throw error;
+    }
+  }
+
+  // User account operations
+  async getUserAccount(id: number): Promise<UserAccount | undefined> {
+    try {
+      const [account] = await this.db.select(userAccountColumns).from(userAccounts).where(eq(userAccounts.id, id));
+
+      return account;
+    } catch (error) {
+      console.error("Erro ao buscar conta pessoal:", error);
+      return undefined;
+    }
+  }
+
+  async findUserAccountByCredentials(
+    registrationNumber: string,
+    password: string
+  ): Promise<{ account: UserAccount; accessCode: AccessCode } | undefined> {
+    try {
+      const [row] = await this.db.select({
+        account: userAccountColumns,
+        passwordHash: userAccounts.passwordHash,
+        accessCode: accessCodeColumns
+      })
+        .from(userAccounts)
+        .innerJoin(accessCodes, eq(accessCodes.id, userAccounts.accessCodeId))
+        .where(eq(userAccounts.registrationNumber, registrationNumber));
+
+      if (!row || !(await verifyAccessCode(password, row.passwordHash))) {
+        return undefined;
+      }
+
+      return { account: row.account, accessCode: row.accessCode };
+    } catch (error) {
+      console.error("Erro ao verificar conta pessoal:", error);
+      return undefined;
+    }
+  }
+
+  async listUserAccounts(): Promise<UserAccountWithAccessCode[]> {
+    try {
+      return await this.db.select({
+        ...userAccountColumns,
+        accessCode: accessCodes.code,
+        role: accessCodes.role,
+        location: sql<string>`COALESCE(${accessCodes.location}, '')`
+      })
+        .from(userAccounts)
+        .innerJoin(accessCodes, eq(accessCodes.id, userAccounts.accessCodeId))
+        .orderBy(asc(userAccounts.name));
+    } catch (error) {
+      console.error("Erro ao listar contas pessoais:", error);
+      return [];
+    }
+  }
+
+  async createUserAccount(account: InsertUserAccount): Promise<UserAccount> {
+    try {
+      const [created] = await this.db.insert(userAccounts).values(await userAccountValues(account))
+        .returning(userAccountColumns);
+
+      return created;
+    } catch (error) {
+      console.error("Erro ao criar conta pessoal:", error);
+      throw error;
+    }
+  }
+
+  async updateUserAccount(id: number, updates: UpdateUserAccount): Promise<UserAccount | undefined> {
+    try {
+      const values = await userAccountUpdates(updates);
+
+      if (!hasUpdates(values)) {
+        return undefined;
+      }
+
+      const [updated] = await this.db.update(userAccounts).set(values)
+        .where(eq(userAccounts.id, id))
+        .returning(userAccountColumns);
+
+      return updated;
+    } catch (error) {
+      console.error("Erro ao atualizar conta pessoal:", error);
+      return undefined;
+    }
+  }
+
+  async deleteUserAccount(id: number): Promise<boolean> {
+    try {
+      const deleted = await this.db.delete(userAccounts).where(eq(userAccounts.id, id)).returning({ id: userAccounts.id });
+
+      return deleted.length > 0;
+    } catch (error) {
+      console.error("Erro ao deletar conta pessoal:", error);
+      return false;
+    }
+  }
+
+  // Session operations
+  async createSession(session: InsertSession): Promise<Session> {
+    try {
+      const [created] = await this.db.insert(sessions).values({
+        tokenHash: session.tokenHash,
+        accessCodeId: session.accessCodeId,
+        userAccountId: session.userAccountId ?? null,
+        ip: session.ip ?? null,
+        userAgent: session.userAgent ?? null,
+        expiresAt: sql`${now} + make_interval(hours => ${SESSION_TTL_HOURS})`
+      }).returning(sessionColumns);
+
+      return created;
+    } catch (error) {
+      console.error("Erro ao criar sessão:", error);
+      throw error;
+    }
+  }
+
+  async getActiveSession(tokenHash: string): Promise<ActiveSession | undefined> {
+    try {
+      // Sessão válida exige token não revogado, não expirado, código de acesso ativo e dentro da
+      // validade e, quando o login foi feito com conta pessoal, a conta também ativa
+      const [active] = await this.db.select({
+        session: sessionColumns,
+        accessCode: accessCodeColumns,
+        account: userAccountColumns
+      })
+        .from(sessions)
+        .innerJoin(accessCodes, eq(accessCodes.id, sessions.accessCodeId))
+        .leftJoin(userAccounts, eq(userAccounts.id, sessions.userAccountId))
+        .where(and(
+          eq(sessions.tokenHash, tokenHash),
+          isNull(sessions.revokedAt),
+          gt(sessions.expiresAt, now),
+          eq(accessCodes.active, true),
+          or(isNull(accessCodes.expiresAt), gt(accessCodes.expiresAt, now)),
+          or(isNull(sessions.userAccountId), eq(userAccounts.active, true))
+        ));
+
+      if (!active) {
+        return undefined;
+      }
+
+      // Atualiza o "visto por último" no máximo uma vez por minuto
+      await this.db.update(sessions)
+        .set({ lastSeenAt: now })
+        .where(and(eq(sessions.id, active.session.id), lt(sessions.lastSeenAt, sql`${now} - interval '1 minute'`)));
+
+      return active;
+    } catch (error) {
+      console.error("Erro ao buscar sessão:", error);
+      return undefined;
+    }
+  }
+
+  async listActiveSessions(accessCodeId: number): Promise<Session[]> {
+    try {
+      return await this.db.select(sessionColumns).from(sessions)
+        .where(and(eq(sessions.accessCodeId, accessCodeId), isNull(sessions.revokedAt), gt(sessions.expiresAt, now)))
+        .orderBy(desc(sessions.lastSeenAt));
+    } catch (error) {
+      console.error("Erro ao listar sessões:", error);
+      return [];
+    }
+  }
+
+  async revokeSession(id: number): Promise<boolean> {
+    try {
+      const revoked = await this.db.update(sessions).set({ revokedAt: now })
+        .where(and(eq(sessions.id, id), isNull(sessions.revokedAt)))
+        .returning({ id: sessions.id });
+
+      return revoked.length > 0;
+    } catch (error) {
+      console.error("Erro ao encerrar sessão:", error);
+      return false;
+    }
+  }
+
+  async revokeSessionsForUserAccount(userAccountId: number): Promise<number> {
+    try {
+      const revoked = await this.db.update(sessions).set({ revokedAt: now })
+        .where(and(eq(sessions.userAccountId, userAccountId), isNull(sessions.revokedAt)))
+        .returning({ id: sessions.id });
+
+      return revoked.length;
+    } catch (error) {
+      console.error("Erro ao encerrar sessões da conta:", error);
+      return 0;
+    }
+  }
+
+  async revokeSessionsForAccessCode(accessCodeId: number): Promise<number> {
+    try {
+      const revoked = await this.db.update(sessions).set({ revokedAt: now })
+        .where(and(eq(sessions.accessCodeId, accessCodeId), isNull(sessions.revokedAt)))
+        .returning({ id: sessions.id });
+
+      return revoked.length;
+    } catch (error) {
+      console.error("Erro ao encerrar sessões do código de acesso:", error);
+      return 0;
+    }
+  }
+
+  // Login attempt operations
+  async recordLoginAttempt(attempt: InsertLoginAttempt): Promise<void> {
+    try {
+      await this.db.insert(loginAttempts).values(attempt);
+    } catch (error) {
+      console.error("Erro ao registrar tentativa de login:", error);
+    }
+  }
+
+  async countFailedLoginAttempts(filter: { ip?: string; codeLookup?: string }, windowMinutes: number): Promise<number> {
+    const [{ failures }] = await this.db.select({ failures: count() }).from(loginAttempts)
+      .where(and(
+        filter.ip !== undefined ? eq(loginAttempts.ip, filter.ip) : eq(loginAttempts.codeLookup, filter.codeLookup ?? ""),
+        eq(loginAttempts.success, false),
+        gt(loginAttempts.createdAt, sql`${now} - make_interval(mins => ${windowMinutes})`)
+      ));
+
+    return failures;
+  }
+
+  async listFailedLoginAttempts(limit: number): Promise<FailedLoginAttempt[]> {
+    try {
+      return await this.db.select({ ...getTableColumns(loginAttempts), accessCode: accessCodes.code })
+        .from(loginAttempts)
+        .leftJoin(accessCodes, eq(accessCodes.id, loginAttempts.accessCodeId))
+        .where(eq(loginAttempts.success, false))
+        .orderBy(desc(loginAttempts.createdAt), desc(loginAttempts.id))
+        .limit(limit);
+    } catch (error) {
+      console.error("Erro ao listar tentativas de login:", error);
+      return [];
+    }
+  }
+
+  // Audit trail operations
+  async recordAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const [created] = await this.db.insert(auditEvents).values(event).returning();
+
+    return created;
+  }
+
+  async listAuditEvents(query: AuditEventsQuery): Promise<AuditEvent[]> {
+    try {
+      return await this.db.select().from(auditEvents)
+        .where(and(
+          query.actor ? like(auditEvents.actorCode, `%${query.actor}%`) : undefined,
+          query.entityType ? eq(auditEvents.entityType, query.entityType) : undefined,
+          query.entityId ? eq(auditEvents.entityId, query.entityId) : undefined,
+          query.from ? sql`${auditEvents.createdAt}::date >= ${query.from}::date` : undefined,
+          query.to ? sql`${auditEvents.createdAt}::date <= ${query.to}::date` : undefined
+        ))
+        .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+        .limit(query.limit);
+    } catch (error) {
+      console.error("Erro ao listar eventos de auditoria:", error);
+      return [];
+    }
+  }
+
+  // Availability operations
+  async getAvailability(id: number): Promise<Availability | undefined> {
+    try {
+      const [availability] = await this.db.select().from(availabilities).where(eq(availabilities.id, id));
+
+      return availability;
+    } catch (error) {
+      console.error("Erro ao buscar disponibilidade:", error);
+      return undefined;
+    }
+  }
+
+  async createAvailability(availability: InsertAvailability): Promise<Availability> {
+    try {
+      // A disponibilidade e seus horários são criados juntos; cada horário recebe a capacidade informada
+      const [created] = await this.db.transaction(tx =>
+        this.insertAvailabilities(tx, availability, [toDateString(availability.date)], null)
+      );
+
+      return created;
+    } catch (error) {
+      console.error("Erro ao criar disponibilidade:", error);
+      throw error;
+    }
+  }
+
+  async createAvailabilitySeries(availability: InsertAvailability, rule: RecurrenceRule): Promise<Availability[]> {
+    try {
+      const dates = expandRecurrence(toDateString(availability.date), rule);
+      if (dates.length === 0) {
+        throw new Error("A recorrência não gera nenhuma data");
+      }
+
+      // A série e todas as suas ocorrências são criadas numa única transação
+      return await this.db.transaction(async tx => {
+        const [series] = await tx.insert(availabilitySeries)
+          .values({ rule, createdBy: availability.createdBy })
+          .returning({ id: availabilitySeries.id });
+
+        return this.insertAvailabilities(tx, availability, dates, series.id);
+      });
+    } catch (error) {
+      console.error("Erro ao criar série de disponibilidades:", error);
+      throw error;
+    }
+  }
+
+  async listAvailabilitiesBySeries(seriesId: number): Promise<Availability[]> {
+    try {
+      return await this.db.select().from(availabilities)
+        .where(eq(availabilities.seriesId, seriesId))
+        .orderBy(asc(availabilities.date), asc(availabilities.startTime));
+    } catch (error) {
+      console.error("Erro ao listar disponibilidades da série:", error);
+      return [];
+    }
+  }
+
+  async listAvailabilities(): Promise<Availability[]> {
+    try {
+      return await this.db.select().from(availabilities)
+        .orderBy(asc(availabilities.date), asc(availabilities.startTime));
+    } catch (error) {
+      console.error("Erro ao listar disponibilidades:", error);
+      return [];
+    }
+  }
+
+  async getAvailabilitiesByMonth(year: number, month: number): Promise<Availability[]> {
+    try {
+      // A data é gravada como YYYY-MM-DD, então o mês é filtrado pelo prefixo YYYY-MM
+      const monthPrefix = `${year}-${String(month).padStart(2, '0')}`;
+
+      return await this.db.select().from(availabilities)
+        .where(like(availabilities.date, `${monthPrefix}%`))
+        .orderBy(asc(availabilities.date), asc(availabilities.startTime));
+    } catch (error) {
+      console.error("Erro ao listar disponibilidades por mês:", error);
+      return [];
+    }
+  }
+
+  async updateAvailability(id: number, updates: Partial<InsertAvailability>): Promise<Availability | undefined> {
+    try {
+      const current = await this.getAvailability(id);
+      if (!current) {
+        return undefined;
+      }
+
+      const { values: next, slots } = updatedAvailability(current, updates);
+
+      // Os horários são regerados descontando os agendamentos confirmados em cada um; agendamentos
+      // em horários que deixaram de existir continuam registrados, mas não ocupam vaga
+      return await this.db.transaction(async tx => {
+        await tx.delete(timeSlots).where(eq(timeSlots.availabilityId, id));
+        await tx.insert(timeSlots).values(slots.map(startTime => ({
+          availabilityId: id,
+          startTime,
+          capacity: next.capacity,
+          remainingSlots: sql`GREATEST(${next.capacity} - (
+            SELECT COUNT(*) FROM ${bookings}
+            WHERE ${bookings.availabilityId} = ${id} AND ${bookings.timeSlot} = ${startTime}
+              AND ${inArray(bookings.status, [...SLOT_HOLDING_STATUSES])}
+          ), 0)`
+        })));
+        const [updated] = await tx.update(availabilities)
+          .set({
+            ...next,
+            remainingSlots: sql`(
+              SELECT COALESCE(SUM(${timeSlots.remainingSlots}), 0) FROM ${timeSlots} WHERE ${timeSlots.availabilityId} = ${id}
+            )`
+          })
+          .where(eq(availabilities.id, id))
+          .returning();
+
+        return updated;
+      });
+    } catch (error) {
+      console.error("Erro ao atualizar disponibilidade:", error);
+      return undefined;
+    }
+  }
+
+  async deleteAvailability(id: number, cancellation?: { changedBy: Actor; reason: string }): Promise<boolean> {
+    try {
+      // Com cancelamento, os agendamentos ainda não atendidos passam a "cancelado pela EMBASA" na mesma
+      // transação; a remoção só acontece se não sobrar agendamento ativo, senão a transação é desfeita
+      return await this.db.transaction(async tx => {
+        if (cancellation) {
+          await tx.update(bookings)
+            .set(statusChange("cancelled_by_embasa", cancellation.changedBy, now, cancellation.reason))
+            .where(and(eq(bookings.availabilityId, id), inArray(bookings.status, statusesAllowedBefore("cancelled_by_embasa"))));
+        }
+
+        const deleted = await tx.delete(availabilities)
+          .where(and(
+            eq(availabilities.id, id),
+            notExists(tx.select({ id: bookings.id }).from(bookings).where(and(
+              eq(bookings.availabilityId, id),
+              inArray(bookings.status, [...ACTIVE_BOOKING_STATUSES])
+            )))
+          ))
+          .returning({ id: availabilities.id });
+
+        if (deleted.length === 0) {
+          const [existing] = await tx.select({ id: availabilities.id }).from(availabilities).where(eq(availabilities.id, id));
+          if (existing) {
+            throw new BookingConflictError("Há agendamentos ativos nesta disponibilidade");
+          }
+          return false;
+        }
+
+        await tx.delete(timeSlots).where(eq(timeSlots.availabilityId, id));
+        return true;
+      });
+    } catch (error) {
+      if (error instanceof BookingConflictError) {
+        throw error;
+      }
+      console.error("Erro ao deletar disponibilidade:", error);
+      return false;
+    }
+  }
+
+  async listTimeSlots(availabilityIds: number[]): Promise<TimeSlot[]> {
+    try {
+      if (availabilityIds.length === 0) {
+        return [];
+      }
+
+      return await this.db.select().from(timeSlots)
+        .where(inArray(timeSlots.availabilityId, availabilityIds))
+        .orderBy(asc(timeSlots.availabilityId), asc(timeSlots.startTime));
+    } catch (error) {
+      console.error("Erro ao listar horários:", error);
+      return [];
+    }
+  }
+
+  // Blackout calendar operations
+  async listBlackoutDates(from?: string, to?: string): Promise<BlackoutDate[]> {
+    try {
+      return await this.db.select().from(blackoutDates)
+        .where(and(
+          from !== undefined ? gte(blackoutDates.date, from) : undefined,
+          to !== undefined ? lte(blackoutDates.date, to) : undefined
+        ))
+        .orderBy(asc(blackoutDates.date), asc(blackoutDates.name));
+    } catch (error) {
+      console.error("Erro ao listar bloqueios do calendário:", error);
+      return [];
+    }
+  }
+
+  async createBlackoutDate(blackoutDate: InsertBlackoutDate): Promise<BlackoutDate> {
+    try {
+      const [created] = await this.db.insert(blackoutDates).values({
+        date: blackoutDate.date,
+        name: blackoutDate.name,
+        type: blackoutDate.type,
+        location: blackoutDate.location ?? null,
+        createdBy: blackoutDate.createdBy ?? null,
+        createdByAccountId: blackoutDate.createdByAccountId ?? null
+      }).returning();
+
+      return created;
+    } catch (error) {
+      console.error("Erro ao criar bloqueio do calendário:", error);
+      throw error;
+    }
+  }
+
+  async deleteBlackoutDate(id: number): Promise<boolean> {
+    try {
+      const deleted = await this.db.delete(blackoutDates).where(eq(blackoutDates.id, id)).returning({ id: blackoutDates.id });
+
+      return deleted.length > 0;
+    } catch (error) {
+      console.error("Erro ao deletar bloqueio do calendário:", error);
+      return false;
+    }
+  }
+
+  async importHolidays(year: number): Promise<number> {
+    try {
+      return await this.db.transaction(tx => seedHolidays(postgresSeedTarget(tx), year));
+    } catch (error) {
+      console.error("Erro ao importar feriados:", error);
+      throw error;
+    }
+  }
+
+  // Booking operations
+  async getBooking(id: number): Promise<Booking | undefined> {
+    try {
+      const [booking] = await this.db.select().from(bookings).where(eq(bookings.id, id));
+
+      return booking;
+    } catch (error) {
+      console.error("Erro ao buscar agendamento:", error);
+      return undefined;
+    }
+  }
+
+  async createBooking(booking: InsertBooking): Promise<Booking> {
+    try {
+      // Reserva a vaga e cria o agendamento na mesma transação; o decremento condicional do horário
+      // garante que a capacidade nunca fica negativa
+      return await this.db.transaction(async tx => {
+        const [exists] = await tx.select({ id: availabilities.id }).from(availabilities)
+          .where(eq(availabilities.id, booking.availabilityId));
+        if (!exists) {
+          throw new Error("Disponibilidade não encontrada");
+        }
+
+        const availability = await this.takeSlot(tx, booking.availabilityId, booking.timeSlot);
+        const [created] = await tx.insert(bookings).values({
+          availabilityId: availability.id,
+          date: availability.date,
+          ...newBookingValues(booking)
+        }).returning();
+
+        // Conta o agendamento no código do SAC; o agendamento que esgota o limite desativa o código
+        await tx.update(accessCodes)
+          .set({
+            bookingCount: sql`${accessCodes.bookingCount} + 1`,
+            active: sql`CASE WHEN ${accessCodes.maxBookings} IS NOT NULL AND ${accessCodes.bookingCount} + 1 >= ${accessCodes.maxBookings}
+                        THEN FALSE ELSE ${accessCodes.active} END`
+          })
+          .where(eq(accessCodes.code, booking.createdBy));
+
+        return created;
+      });
+    } catch (error) {
+      console.error("Erro ao criar agendamento:", error);
+      throw error;
+    }
+  }
+
+  async listBookingsByUser(createdBy: string): Promise<Booking[]> {
+    try {
+      return await this.db.select().from(bookings)
+        .where(eq(bookings.createdBy, createdBy))
+        .orderBy(desc(bookings.createdAt), desc(bookings.id));
+    } catch (error) {
+      console.error("Erro ao listar agendamentos por usuário:", error);
+      return [];
+    }
+  }
+
+  async listBookingsByAvailability(availabilityId: number): Promise<Booking[]> {
+    try {
+      return await this.db.select().from(bookings)
+        .where(eq(bookings.availabilityId, availabilityId))
+        .orderBy(desc(bookings.createdAt), desc(bookings.id));
+    } catch (error) {
+      console.error("Erro ao listar agendamentos por disponibilidade:", error);
+      return [];
+    }
+  }
+
+  async listBookingsForAvailabilityOwner(
+    createdBy: string,
+    query: EmbasaBookingsQuery
+  ): Promise<BookingWithSacLocation[]> {
+    try {
+      return await this.db.select({
+        ...getTableColumns(bookings),
+        sacLocation: accessCodes.location,
+        createdByName: userAccounts.name
+      })
+        .from(bookings)
+        .innerJoin(availabilities, eq(availabilities.id, bookings.availabilityId))
+        .leftJoin(accessCodes, eq(accessCodes.code, bookings.createdBy))
+        .leftJoin(userAccounts, eq(userAccounts.id, bookings.createdByAccountId))
+        .where(and(
+          eq(availabilities.createdBy, createdBy),
+          query.availabilityId ? eq(bookings.availabilityId, query.availabilityId) : undefined,
+          query.date ? eq(availabilities.date, query.date) : undefined,
+          query.from && query.to ? between(availabilities.date, query.from, query.to) : undefined
+        ))
+        .orderBy(asc(availabilities.date), asc(bookings.timeSlot));
+    } catch (error) {
+      console.error("Erro ao listar agendamentos da EMBASA:", error);
+      return [];
+    }
+  }
+
+  async listBookingsByCreators(createdBy: string[], query: SupervisorBookingsQuery): Promise<SupervisedBooking[]> {
+    try {
+      if (createdBy.length === 0) {
+        return [];
+      }
+
+      // A disponibilidade pode ter sido removida; o agendamento guarda a própria data
+      return await this.db.select({
+        ...getTableColumns(bookings),
+        sacLocation: accessCodes.location,
+        createdByName: userAccounts.name,
+        embasaLocation: locations.name
+      })
+        .from(bookings)
+        .leftJoin(accessCodes, eq(accessCodes.code, bookings.createdBy))
+        .leftJoin(userAccounts, eq(userAccounts.id, bookings.createdByAccountId))
+        .leftJoin(availabilities, eq(availabilities.id, bookings.availabilityId))
+        .leftJoin(locations, eq(locations.id, availabilities.locationId))
+        .where(and(
+          inArray(bookings.createdBy, createdBy),
+          between(bookings.date, query.from, query.to),
+          query.status ? eq(bookings.status, query.status) : undefined
+        ))
+        .orderBy(asc(bookings.date), asc(bookings.timeSlot));
+    } catch (error) {
+      console.error("Erro ao listar agendamentos da supervisão:", error);
+      return [];
+    }
+  }
+
+  async reassignBooking(id: number, accessCode: AccessCode): Promise<Booking | undefined> {
+    try {
+      // A conta pessoal de quem agendou pertence ao código anterior, então deixa de valer.
+      // Os contadores de uso dos códigos não mudam: o limite conta os agendamentos feitos por cada um
+      const [reassigned] = await this.db.update(bookings)
+        .set({ createdBy: accessCode.code, createdByAccountId: null })
+        .where(and(eq(bookings.id, id), inArray(bookings.status, [...ACTIVE_BOOKING_STATUSES])))
+        .returning();
+
+      if (!reassigned) {
+        const existing = await this.getBooking(id);
+        if (!existing) {
+          return undefined;
+        }
+        throw new BookingConflictError(BOOKING_NOT_ACTIVE);
+      }
+
+      return reassigned;
+    } catch (error) {
+      console.error("Erro ao remanejar agendamento:", error);
+      throw error;
+    }
+  }
+
+  async recordVisitOutcome(id: number, changedBy: Actor, outcome: VisitOutcome): Promise<Booking | undefined> {
+    try {
+      // A atualização só acontece a partir de um status que permite a transição
+      const [updated] = await this.db.update(bookings)
+        .set(visitOutcomeChange(outcome, changedBy, now, postgresTimestamp))
+        .where(and(eq(bookings.id, id), inArray(bookings.status, statusesAllowedBefore(outcome.status))))
+        .returning();
+
+      if (!updated) {
+        const existing = await this.getBooking(id);
+        if (!existing) {
+          return undefined;
+        }
+        throw transitionConflict(existing, outcome.status);
+      }
+
+      return updated;
+    } catch (error) {
+      console.error("Erro ao registrar resultado da visita:", error);
+      throw error;
+    }
+  }
+
+  async cancelBooking(id: number, changedBy: Actor, reason: string): Promise<Booking | undefined> {
+    try {
+      // A vaga só volta à disponibilidade se o agendamento realmente passou de agendado para cancelado
+      const cancelled = await this.db.transaction(async tx => {
+        const [updated] = await tx.update(bookings)
+          .set(statusChange("cancelled", changedBy, now, reason))
+          .where(and(eq(bookings.id, id), inArray(bookings.status, statusesAllowedBefore("cancelled"))))
+          .returning();
+
+        if (updated) {
+          await this.releaseBookingSlot(tx, updated);
+        }
+        return updated;
+      });
+
+      if (!cancelled) {
+        const existing = await this.getBooking(id);
+        if (!existing) {
+          return undefined;
+        }
+        throw transitionConflict(existing, "cancelled");
+      }
+
+      return cancelled;
+    } catch (error) {
+      console.error("Erro ao cancelar agendamento:", error);
+      throw error;
+    }
+  }
+
+  async rescheduleBooking(id: number, changedBy: Actor, target: RescheduleBooking): Promise<Booking | undefined> {
+    try {
+      // O original é marcado como remarcado, a vaga nova é reservada e o novo agendamento criado na mesma
+      // transação; sem vaga no destino, a transação é desfeita e o original continua como estava
+      const created = await this.db.transaction(async tx => {
+        const [original] = await tx.update(bookings)
+          .set(statusChange("rescheduled", changedBy, now, target.reason || null))
+          .where(and(eq(bookings.id, id), inArray(bookings.status, statusesAllowedBefore("rescheduled"))))
+          .returning();
+
+        if (!original) {
+          return undefined;
+        }
+
+        const availability = await this.takeSlot(tx, target.availabilityId, target.timeSlot);
+        const [rescheduled] = await tx.insert(bookings).values({
+          availabilityId: availability.id,
+          date: availability.date,
+          ...rescheduledBookingValues(original, target)
+        }).returning();
+
+        await this.releaseBookingSlot(tx, original);
+        return rescheduled;
+      });
+
+      if (!created) {
+        const existing = await this.getBooking(id);
+        if (!existing) {
+          return undefined;
+        }
+        throw transitionConflict(existing, "rescheduled");
+      }
+
+      return created;
+    } catch (error) {
+      console.error("Erro ao remarcar agendamento:", error);
+      throw error;
+    }
+  }
+}
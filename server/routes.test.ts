@@ -0,0 +1,735 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "node:http";
+import type {
+  AccessCode, AuditEvent, Availability, BlackoutDate, Booking, BookingWithSacLocation, FailedLoginAttempt, IssuedAccessCode,
+  Location, LocationWithUsage, Role, RoleWithUsage, Session, SupervisedBooking, TimeSlot, UserAccount, UserAccountWithAccessCode
+} from "@shared/schema";
+import { createApp, resolveTrustProxy } from "./app";
+import { SESSION_COOKIE } from "./sessions";
+import { MAX_FAILED_LOGINS_PER_IP } from "./access-codes";
+import { DEFAULT_ADMIN_CODE } from "./seed";
+import { serve, stop, type Api, type ErrorBody, type LoginBody } from "./test-helpers";
+
+// Harness das rotas HTTP: sobe o app Express no próprio processo, com o armazenamento em memória, e
+// faz as requisições com fetch. As rotas leem o armazenamento configurado pelo ambiente, então a
+// variável é definida antes de importá-las. Os testes rodam em sequência e compartilham o banco
+process.env.STORAGE_DRIVER = "memory";
+
+// Respostas das rotas que não são registros do schema
+type AvailabilityWithSlots = Availability & { slots: TimeSlot[] };
+type ActiveBookings = ErrorBody & { reason: "has_bookings" | "checked_in"; bookings: Booking[] };
+type AdminStats = { roles: { id: number; name: string; baseRole: string; activeCodes: number }[]; activeSchedules: number };
+
+type User = "admin" | "embasa" | "otherEmbasa" | "sac" | "otherSac" | "supervisor";
+
+let server: Server;
+let api: Api;
+
+// Cookie de sessão ("session=<token>") de cada usuário logado, e o código de acesso de cada um
+const sessions: Record<User, string> = {
+  admin: "", embasa: "", otherEmbasa: "", sac: "", otherSac: "", supervisor: "",
+};
+let codes: Record<Exclude<User, "admin">, AccessCode>;
+let units: Record<"embasa" | "sac", Location>;
+
+async function login(accessCode: string): Promise<string> {
+  const response = await api("POST", "/api/auth/login", { body: { accessCode } });
+  assert.equal(response.status, 200, `login with ${accessCode}: ${JSON.stringify(response.body)}`);
+  assert.ok(response.cookie);
+  return response.cookie;
+}
+
+async function createLocation(location: { name: string; type: string; municipality: string }): Promise<Location> {
+  const response = await api<Location>("POST", "/api/locations", { session: sessions.admin, body: location });
+  assert.equal(response.status, 201, JSON.stringify(response.body));
+  return response.body;
+}
+
+// Cria um código de acesso pelo administrador e devolve o registro criado
+async function createAccessCode(secret: string, role: string, locationId: number): Promise<AccessCode> {
+  const response = await api<AccessCode>("POST", "/api/access-codes", {
+    session: sessions.admin,
+    body: { code: secret, role, locationId },
+  });
+  assert.equal(response.status, 201, JSON.stringify(response.body));
+  return response.body;
+}
+
+before(async () => {
+  const { registerRoutes } = await import("./routes");
+  const { storage } = await import("./storage");
+  await storage.initialize();
+
+  // Como o servidor atrás de um proxy reverso (TRUST_PROXY=1); sem ip, a requisição chega direto do
+  // 127.0.0.1, e com ip, pelo X-Forwarded-For
+  server = await registerRoutes(createApp(resolveTrustProxy({ TRUST_PROXY: "1" })));
+  api = await serve(server);
+
+  sessions.admin = await login(DEFAULT_ADMIN_CODE);
+
+  units = {
+    embasa: await createLocation({ name: "EMBASA Cabula", type: "embasa", municipality: "Salvador" }),
+    sac: await createLocation({ name: "SAC Barra", type: "sac", municipality: "Salvador" }),
+  };
+  codes = {
+    embasa: await createAccessCode("EMBASA-ONE-1", "embasa", units.embasa.id),
+    otherEmbasa: await createAccessCode("EMBASA-TWO-2", "embasa", units.embasa.id),
+    sac: await createAccessCode("SAC-ONE-0001", "sac", units.sac.id),
+    otherSac: await createAccessCode("SAC-TWO-0002", "sac", units.sac.id),
+    supervisor: await createAccessCode("SUPERVISOR-1", "supervisor", units.sac.id),
+  };
+
+  sessions.embasa = await login("EMBASA-ONE-1");
+  sessions.otherEmbasa = await login("EMBASA-TWO-2");
+  sessions.sac = await login("SAC-ONE-0001");
+  sessions.otherSac = await login("SAC-TWO-0002");
+  sessions.supervisor = await login("SUPERVISOR-1");
+});
+
+after(() => stop(server));
+
+// Todas as rotas que exigem sessão
+const PROTECTED_ROUTES: [string, string][] = [
+  ["GET", "/api/access-codes"],
+  ["POST", "/api/access-codes"],
+  ["POST", "/api/access-codes/issue"],
+  ["PATCH", "/api/access-codes/1"],
+  ["DELETE", "/api/access-codes/1"],
+  ["GET", "/api/access-codes/1/sessions"],
+  ["DELETE", "/api/access-codes/1/sessions"],
+  ["DELETE", "/api/sessions/1"],
+  ["GET", "/api/user-accounts"],
+  ["POST", "/api/user-accounts"],
+  ["PATCH", "/api/user-accounts/1"],
+  ["DELETE", "/api/user-accounts/1"],
+  ["GET", "/api/login-attempts"],
+  ["GET", "/api/audit-events"],
+  ["GET", "/api/locations"],
+  ["POST", "/api/locations"],
+  ["PATCH", "/api/locations/1"],
+  ["GET", "/api/roles"],
+  ["POST", "/api/roles"],
+  ["PATCH", "/api/roles/1"],
+  ["DELETE", "/api/roles/1"],
+  ["GET", "/api/availabilities"],
+  ["POST", "/api/availabilities"],
+  ["PATCH", "/api/availabilities/1"],
+  ["DELETE", "/api/availabilities/1"],
+  ["GET", "/api/blackout-dates"],
+  ["POST", "/api/blackout-dates"],
+  ["POST", "/api/blackout-dates/holidays"],
+  ["DELETE", "/api/blackout-dates/1"],
+  ["GET", "/api/bookings"],
+  ["POST", "/api/bookings"],
+  ["GET", "/api/embasa/bookings"],
+  ["GET", "/api/supervisor/attendants"],
+  ["GET", "/api/supervisor/bookings"],
+  ["POST", "/api/bookings/1/reassign"],
+  ["POST", "/api/bookings/1/cancel"],
+  ["POST", "/api/bookings/1/reschedule"],
+  ["POST", "/api/bookings/1/outcome"],
+  ["GET", "/api/admin/stats"],
+];
+
+// Rotas protegidas por permissão, chamadas por um perfil padrão que não a tem
+const FORBIDDEN: [User, string, string][] = [
+  ["sac", "GET", "/api/access-codes"],
+  ["embasa", "POST", "/api/access-codes"],
+  ["supervisor", "POST", "/api/access-codes/issue"],
+  ["sac", "PATCH", "/api/access-codes/1"],
+  ["embasa", "DELETE", "/api/access-codes/1"],
+  ["sac", "GET", "/api/access-codes/1/sessions"],
+  ["sac", "DELETE", "/api/access-codes/1/sessions"],
+  ["embasa", "DELETE", "/api/sessions/1"],
+  ["sac", "GET", "/api/user-accounts"],
+  ["embasa", "POST", "/api/user-accounts"],
+  ["sac", "PATCH", "/api/user-accounts/1"],
+  ["supervisor", "DELETE", "/api/user-accounts/1"],
+  ["embasa", "GET", "/api/login-attempts"],
+  ["sac", "GET", "/api/audit-events"],
+  ["embasa", "POST", "/api/locations"],
+  ["sac", "PATCH", "/api/locations/1"],
+  ["sac", "GET", "/api/roles"],
+  ["embasa", "POST", "/api/roles"],
+  ["supervisor", "PATCH", "/api/roles/1"],
+  ["sac", "DELETE", "/api/roles/1"],
+  ["sac", "POST", "/api/availabilities"],
+  ["admin", "POST", "/api/availabilities"],
+  ["sac", "PATCH", "/api/availabilities/1"],
+  ["sac", "DELETE", "/api/availabilities/1"],
+  ["admin", "DELETE", "/api/availabilities/1"],
+  ["embasa", "POST", "/api/blackout-dates"],
+  ["sac", "POST", "/api/blackout-dates/holidays"],
+  ["embasa", "DELETE", "/api/blackout-dates/1"],
+  ["embasa", "POST", "/api/bookings"],
+  ["admin", "POST", "/api/bookings"],
+  ["sac", "GET", "/api/embasa/bookings"],
+  ["sac", "GET", "/api/supervisor/attendants"],
+  ["embasa", "GET", "/api/supervisor/bookings"],
+  ["sac", "POST", "/api/bookings/1/reassign"],
+  ["admin", "POST", "/api/bookings/1/cancel"],
+  ["embasa", "POST", "/api/bookings/1/reschedule"],
+  ["sac", "POST", "/api/bookings/1/outcome"],
+  ["sac", "GET", "/api/admin/stats"],
+];
+
+test("protected routes answer 401 without a valid session", async () => {
+  for (const [method, path] of PROTECTED_ROUTES) {
+    const response = await api(method, path, { body: method === "GET" ? undefined : {} });
+    assert.equal(response.status, 401, `${method} ${path}`);
+  }
+
+  const expired = await api("GET", "/api/access-codes", { session: `${SESSION_COOKIE}=token-inexistente` });
+  assert.equal(expired.status, 401);
+});
+
+test("routes guarded by a permission answer 403 to roles without it", async () => {
+  for (const [user, method, path] of FORBIDDEN) {
+    const response = await api(method, path, { session: sessions[user], body: method === "GET" ? undefined : {} });
+    assert.equal(response.status, 403, `${user} ${method} ${path}`);
+  }
+});
+
+test("login, me, test-session and logout", async () => {
+  assert.equal((await api("POST", "/api/auth/login", { body: {} })).status, 400);
+  assert.equal((await api("POST", "/api/auth/login", { body: { accessCode: "NAO-EXISTE" } })).status, 401);
+
+  const me = await api<LoginBody>("GET", "/api/auth/me", { session: sessions.sac });
+  assert.equal(me.status, 200);
+  assert.equal(me.body.user.code, codes.sac.code);
+  assert.equal(me.body.user.role, "sac");
+  assert.ok(me.body.user.permissions.includes("booking:create"));
+  assert.equal((await api("GET", "/api/auth/me")).status, 401);
+
+  const anonymous = await api("GET", "/api/auth/test-session");
+  assert.deepEqual(anonymous.body, { hasAuth: false, user: null });
+  assert.equal((await api<{ hasAuth: boolean }>("GET", "/api/auth/test-session", { session: sessions.admin })).body.hasAuth, true);
+
+  // O logout encerra só a sessão usada
+  const extra = await login("SAC-ONE-0001");
+  assert.equal((await api("POST", "/api/auth/logout", { session: extra })).status, 200);
+  assert.equal((await api("GET", "/api/auth/me", { session: extra })).status, 401);
+  assert.equal((await api("GET", "/api/auth/me", { session: sessions.sac })).status, 200);
+});
+
+test("clients behind the proxy are throttled by their forwarded IP, not the proxy's", async () => {
+  const blocked = "203.0.113.10";
+  for (let i = 0; i < MAX_FAILED_LOGINS_PER_IP; i++) {
+    const failed = await api("POST", "/api/auth/login", { ip: blocked, body: { accessCode: `WRONG-${i}` } });
+    assert.equal(failed.status, 401);
+  }
+  assert.equal((await api("POST", "/api/auth/login", { ip: blocked, body: { accessCode: "SAC-ONE-0001" } })).status, 429);
+
+  // Outro cliente atrás do mesmo proxy continua entrando
+  assert.equal((await api("POST", "/api/auth/login", { ip: "203.0.113.20", body: { accessCode: "SAC-ONE-0001" } })).status, 200);
+
+  const attempts = await api<FailedLoginAttempt[]>("GET", "/api/login-attempts", { session: sessions.admin });
+  assert.equal(attempts.body.filter(attempt => attempt.ip === blocked).length, MAX_FAILED_LOGINS_PER_IP + 1);
+});
+
+test("personal accounts log in with registration number and password", async () => {
+  const created = await api<UserAccount>("POST", "/api/user-accounts", {
+    session: sessions.admin,
+    body: { accessCodeId: codes.sac.id, name: "Ana Souza", registrationNumber: "M-1001", password: "1234" },
+  });
+  assert.equal(created.status, 201);
+  assert.equal("passwordHash" in created.body, false);
+
+  const duplicate = await api("POST", "/api/user-accounts", {
+    session: sessions.admin,
+    body: { accessCodeId: codes.sac.id, name: "Outra", registrationNumber: "M-1001", password: "1234" },
+  });
+  assert.equal(duplicate.status, 400);
+
+  assert.equal((await api("POST", "/api/auth/login/account", { body: {} })).status, 400);
+  const wrong = await api("POST", "/api/auth/login/account", { body: { registrationNumber: "M-1001", password: "9999" } });
+  assert.equal(wrong.status, 401);
+
+  const ok = await api<LoginBody>("POST", "/api/auth/login/account", { body: { registrationNumber: "M-1001", password: "1234" } });
+  assert.equal(ok.status, 200);
+  assert.equal(ok.body.user.code, codes.sac.code);
+  assert.equal(ok.body.user.account?.name, "Ana Souza");
+  assert.ok(ok.cookie);
+
+  const list = await api<UserAccountWithAccessCode[]>("GET", "/api/user-accounts", { session: sessions.admin });
+  assert.equal(list.status, 200);
+  assert.ok(list.body.some(account => account.registrationNumber === "M-1001"));
+
+  // Desativar a conta derruba a sessão aberta com ela
+  const updated = await api<UserAccount>("PATCH", `/api/user-accounts/${created.body.id}`, { session: sessions.admin, body: { active: false } });
+  assert.equal(updated.status, 200);
+  assert.equal(updated.body.active, false);
+  assert.equal((await api("GET", "/api/auth/me", { session: ok.cookie })).status, 401);
+  assert.equal((await api("PATCH", "/api/user-accounts/9999", { session: sessions.admin, body: { name: "X" } })).status, 404);
+
+  assert.equal((await api("DELETE", `/api/user-accounts/${created.body.id}`, { session: sessions.admin })).status, 200);
+  assert.equal((await api("DELETE", `/api/user-accounts/${created.body.id}`, { session: sessions.admin })).status, 404);
+});
+
+test("request bodies and queries are validated", async () => {
+  const invalid: [User, string, string, unknown?][] = [
+    ["admin", "POST", "/api/access-codes", { role: "sac" }],
+    ["admin", "POST", "/api/access-codes/issue", { role: "sac" }],
+    ["admin", "PATCH", `/api/access-codes/${codes.sac.id}`, { code: "abc" }],
+    ["admin", "POST", "/api/user-accounts", { name: "Sem matrícula" }],
+    ["admin", "PATCH", "/api/user-accounts/1", { password: "12" }],
+    ["admin", "GET", "/api/audit-events?limit=0"],
+    ["admin", "POST", "/api/locations", { name: "", type: "sac" }],
+    ["admin", "PATCH", `/api/locations/${units.sac.id}`, { type: "hospital" }],
+    ["admin", "POST", "/api/roles", { name: "Perfil", baseRole: "sac", permissions: ["nao:existe"] }],
+    ["admin", "PATCH", "/api/roles/1", { permissions: "reports:view" }],
+    ["admin", "POST", "/api/blackout-dates", { date: "11/03/2030", name: "Fechado" }],
+    ["admin", "POST", "/api/blackout-dates/holidays", { year: 1900 }],
+    ["embasa", "POST", "/api/availabilities", { startTime: "08:00", endTime: "10:00", capacity: 1 }],
+    ["embasa", "POST", "/api/availabilities", { date: "2030-03-11T23:00:00-03:00", startTime: "08:00", endTime: "10:00", capacity: 1 }],
+    ["embasa", "POST", "/api/availabilities", { date: "2030-02-31", startTime: "08:00", endTime: "10:00", capacity: 1 }],
+    ["embasa", "POST", "/api/availabilities", { date: "2030-03-11", startTime: "8h", endTime: "10:00", capacity: 1 }],
+    ["embasa", "POST", "/api/availabilities", { date: "2030-03-11", startTime: "08:00", endTime: "10:00", capacity: 1, recurrence: { daysOfWeek: [] } }],
+    ["embasa", "PATCH", "/api/availabilities/1", { capacity: 0 }],
+    ["embasa", "DELETE", "/api/availabilities/1", { cancelReason: "" }],
+    ["embasa", "GET", "/api/embasa/bookings"],
+    ["supervisor", "GET", "/api/supervisor/bookings?from=2030-03-01"],
+    ["supervisor", "POST", "/api/bookings/1/reassign", { accessCodeId: "x" }],
+    ["sac", "POST", "/api/bookings", { availabilityId: 1 }],
+    ["sac", "POST", "/api/bookings/1/cancel", { reason: "" }],
+    ["sac", "POST", "/api/bookings/1/reschedule", { timeSlot: "08:00" }],
+    ["embasa", "POST", "/api/bookings/1/outcome", { status: "cancelled" }],
+  ];
+
+  for (const [user, method, path, body] of invalid) {
+    const response = await api<ErrorBody>(method, path, { session: sessions[user], body });
+    assert.equal(response.status, 400, `${user} ${method} ${path}: ${JSON.stringify(response.body)}`);
+    assert.equal(typeof response.body.message, "string");
+  }
+});
+
+test("admins manage access codes and their sessions", async () => {
+  const created = await api<AccessCode>("POST", "/api/access-codes", {
+    session: sessions.admin,
+    body: { code: "TEMP-SAC-01", role: "sac", locationId: units.sac.id },
+  });
+  assert.equal(created.status, 201);
+  assert.match(created.body.code, /^SAC#\d{4}$/);
+  assert.equal(created.body.location, units.sac.name);
+
+  const duplicate = await api("POST", "/api/access-codes", {
+    session: sessions.admin,
+    body: { code: "TEMP-SAC-01", role: "sac", locationId: units.sac.id },
+  });
+  assert.equal(duplicate.status, 400);
+
+  const list = await api<AccessCode[]>("GET", "/api/access-codes", { session: sessions.admin });
+  assert.equal(list.status, 200);
+  assert.ok(list.body.some(code => code.id === created.body.id));
+  assert.ok(list.body.every(code => !("codeHash" in code)));
+
+  const issued = await api<IssuedAccessCode[]>("POST", "/api/access-codes/issue", {
+    session: sessions.admin,
+    body: { role: "sac", locationId: units.sac.id, count: 2 },
+  });
+  assert.equal(issued.status, 201);
+  assert.equal(issued.body.length, 2);
+  assert.ok(issued.body.every(code => typeof code.secret === "string"));
+
+  const temp = await login("TEMP-SAC-01");
+  const openSessions = await api<Session[]>("GET", `/api/access-codes/${created.body.id}/sessions`, { session: sessions.admin });
+  assert.equal(openSessions.status, 200);
+  assert.equal(openSessions.body.length, 1);
+
+  assert.equal((await api("DELETE", `/api/sessions/${openSessions.body[0].id}`, { session: sessions.admin })).status, 200);
+  assert.equal((await api("DELETE", `/api/sessions/${openSessions.body[0].id}`, { session: sessions.admin })).status, 404);
+  assert.equal((await api("GET", "/api/auth/me", { session: temp })).status, 401);
+
+  await login("TEMP-SAC-01");
+  const revoked = await api<{ revoked: number }>("DELETE", `/api/access-codes/${created.body.id}/sessions`, { session: sessions.admin });
+  assert.equal(revoked.status, 200);
+  assert.equal(revoked.body.revoked, 1);
+
+  // Trocar o código mantém o identificador público e invalida o código antigo
+  const updated = await api<AccessCode>("PATCH", `/api/access-codes/${created.body.id}`, { session: sessions.admin, body: { code: "TEMP-SAC-02" } });
+  assert.equal(updated.status, 200);
+  assert.equal(updated.body.code, created.body.code);
+  assert.equal((await api("POST", "/api/auth/login", { body: { accessCode: "TEMP-SAC-01" } })).status, 401);
+  await login("TEMP-SAC-02");
+  assert.equal((await api("PATCH", "/api/access-codes/9999", { session: sessions.admin, body: { active: false } })).status, 404);
+
+  assert.equal((await api("DELETE", `/api/access-codes/${created.body.id}`, { session: sessions.admin })).status, 200);
+  assert.equal((await api("DELETE", `/api/access-codes/${created.body.id}`, { session: sessions.admin })).status, 404);
+});
+
+test("admins manage locations, roles, blackout dates and read the reports", async () => {
+  const locations = await api<LocationWithUsage[]>("GET", "/api/locations", { session: sessions.sac });
+  assert.equal(locations.status, 200);
+  assert.ok(locations.body.some(location => location.id === units.sac.id));
+
+  const duplicate = await api("POST", "/api/locations", { session: sessions.admin, body: { name: "sac barra", type: "sac" } });
+  assert.equal(duplicate.status, 400);
+  const renamed = await api<Location>("PATCH", `/api/locations/${units.embasa.id}`, { session: sessions.admin, body: { address: "Rua Silveira Martins" } });
+  assert.equal(renamed.status, 200);
+  assert.equal(renamed.body.address, "Rua Silveira Martins");
+  assert.equal((await api("PATCH", "/api/locations/9999", { session: sessions.admin, body: { active: false } })).status, 404);
+
+  const role = await api<Role>("POST", "/api/roles", {
+    session: sessions.admin,
+    body: { name: "SAC consulta", baseRole: "sac", permissions: ["booking:create"] },
+  });
+  assert.equal(role.status, 201);
+  assert.equal(role.body.builtin, false);
+  const roles = await api<RoleWithUsage[]>("GET", "/api/roles", { session: sessions.admin });
+  assert.equal(roles.status, 200);
+  assert.ok(roles.body.some(item => item.id === role.body.id));
+
+  const updatedRole = await api<Role>("PATCH", `/api/roles/${role.body.id}`, { session: sessions.admin, body: { permissions: ["booking:create", "booking:reschedule"] } });
+  assert.equal(updatedRole.status, 200);
+  assert.deepEqual(updatedRole.body.permissions, ["booking:create", "booking:reschedule"]);
+  const adminRole = roles.body.find(item => item.builtin && item.baseRole === "admin");
+  assert.ok(adminRole);
+  const lockout = await api("PATCH", `/api/roles/${adminRole.id}`, { session: sessions.admin, body: { permissions: ["reports:view"] } });
+  assert.equal(lockout.status, 400);
+  assert.equal((await api("DELETE", `/api/roles/${adminRole.id}`, { session: sessions.admin })).status, 400);
+  assert.equal((await api("DELETE", `/api/roles/${role.body.id}`, { session: sessions.admin })).status, 200);
+  assert.equal((await api("DELETE", `/api/roles/${role.body.id}`, { session: sessions.admin })).status, 404);
+
+  const blackout = await api<BlackoutDate>("POST", "/api/blackout-dates", {
+    session: sessions.admin,
+    body: { date: "2030-05-20", name: "Dedetização", location: units.sac.name },
+  });
+  assert.equal(blackout.status, 201);
+  assert.equal(blackout.body.type, "closure");
+  const sacBlackouts = await api<BlackoutDate[]>("GET", "/api/blackout-dates?year=2030&month=5", { session: sessions.sac });
+  assert.deepEqual(sacBlackouts.body.map(item => item.id), [blackout.body.id]);
+  const embasaBlackouts = await api("GET", "/api/blackout-dates?year=2030&month=5", { session: sessions.embasa });
+  assert.deepEqual(embasaBlackouts.body, []);
+  assert.equal((await api("DELETE", `/api/blackout-dates/${blackout.body.id}`, { session: sessions.admin })).status, 200);
+  assert.equal((await api("DELETE", `/api/blackout-dates/${blackout.body.id}`, { session: sessions.admin })).status, 404);
+
+  const holidays = await api<{ imported: number }>("POST", "/api/blackout-dates/holidays", { session: sessions.admin, body: { year: 2031 } });
+  assert.equal(holidays.status, 201);
+  assert.ok(holidays.body.imported > 0);
+
+  const stats = await api<AdminStats>("GET", "/api/admin/stats", { session: sessions.admin });
+  assert.equal(stats.status, 200);
+  assert.ok(stats.body.roles.some(role => role.baseRole === "sac" && role.activeCodes >= 2));
+
+  const attempts = await api<FailedLoginAttempt[]>("GET", "/api/login-attempts", { session: sessions.admin });
+  assert.equal(attempts.status, 200);
+  assert.ok(attempts.body.length > 0);
+  assert.ok(attempts.body.every(attempt => attempt.success === false));
+
+  const events = await api<AuditEvent[]>("GET", "/api/audit-events?entityType=role", { session: sessions.admin });
+  assert.equal(events.status, 200);
+  assert.deepEqual(
+    events.body.filter(event => event.entityId === role.body.id).map(event => event.action),
+    ["delete", "update", "create"],
+  );
+});
+
+test("custom roles are authorized by their permissions rather than their base role", async () => {
+  const role = await api<Role>("POST", "/api/roles", {
+    session: sessions.admin,
+    body: { name: "Calendário EMBASA", baseRole: "embasa", permissions: ["blackouts:manage", "reports:view"] },
+  });
+  assert.equal(role.status, 201);
+  const code = await api("POST", "/api/access-codes", {
+    session: sessions.admin,
+    body: { code: "CALENDAR-0001", role: "embasa", roleId: role.body.id, locationId: units.embasa.id },
+  });
+  assert.equal(code.status, 201, JSON.stringify(code.body));
+  const session = await login("CALENDAR-0001");
+
+  const blackout = await api<BlackoutDate>("POST", "/api/blackout-dates", {
+    session,
+    body: { date: "2030-08-12", name: "Inventário", location: units.sac.name },
+  });
+  assert.equal(blackout.status, 201);
+  const managed = await api<BlackoutDate[]>("GET", "/api/blackout-dates?year=2030&month=8", { session });
+  assert.ok(managed.body.some(item => item.id === blackout.body.id));
+  const embasa = await api<BlackoutDate[]>("GET", "/api/blackout-dates?year=2030&month=8", { session: sessions.embasa });
+  assert.equal(embasa.body.some(item => item.id === blackout.body.id), false);
+
+  const stats = await api<AdminStats>("GET", "/api/admin/stats", { session });
+  assert.equal(stats.status, 200);
+  assert.equal(stats.body.roles.find(item => item.id === role.body.id)?.activeCodes, 1);
+  assert.ok(stats.body.roles.some(item => item.baseRole === "supervisor" && item.activeCodes >= 1));
+});
+
+test("municipal holidays only block the units of their municipality", async () => {
+  const feira = await createLocation({ name: "EMBASA Feira", type: "embasa", municipality: "Feira de Santana" });
+  await createAccessCode("EMBASA-FEIRA-1", "embasa", feira.id);
+  const session = await login("EMBASA-FEIRA-1");
+  assert.equal((await api("POST", "/api/blackout-dates/holidays", { session: sessions.admin, body: { year: 2032 } })).status, 201);
+
+  const salvador = await api<BlackoutDate[]>("GET", "/api/blackout-dates?year=2032&month=6", { session: sessions.embasa });
+  assert.deepEqual(salvador.body.map(item => [item.name, item.location]), [["São João", "Salvador"]]);
+  const elsewhere = await api<BlackoutDate[]>("GET", "/api/blackout-dates?year=2032&month=6", { session });
+  assert.deepEqual(elsewhere.body, []);
+
+  const window = { date: "2032-06-24", startTime: "08:00", endTime: "09:00", capacity: 1 };
+  assert.equal((await api("POST", "/api/availabilities", { session: sessions.embasa, body: window })).status, 409);
+  const created = await api<Availability>("POST", "/api/availabilities", { session, body: window });
+  assert.equal(created.status, 201, JSON.stringify(created.body));
+  assert.equal((await api("DELETE", `/api/availabilities/${created.body.id}`, { session })).status, 200);
+});
+
+test("availabilities can only be changed or deleted by the EMBASA code that created them", async () => {
+  const created = await api<AvailabilityWithSlots>("POST", "/api/availabilities", {
+    session: sessions.embasa,
+    body: { date: "2030-03-11", startTime: "08:00", endTime: "10:00", capacity: 1, slotDuration: 60 },
+  });
+  assert.equal(created.status, 201, JSON.stringify(created.body));
+  assert.equal(created.body.date, "2030-03-11");
+  assert.deepEqual(created.body.slots.map(slot => slot.startTime), ["08:00", "09:00"]);
+  const id = created.body.id;
+
+  // Publicada para os postos SAC do município da unidade EMBASA
+  const month = await api<Availability[]>("GET", "/api/availabilities?year=2030&month=3", { session: sessions.sac });
+  assert.equal(month.status, 200);
+  assert.ok(month.body.some(availability => availability.id === id));
+
+  const crossUpdate = await api("PATCH", `/api/availabilities/${id}`, { session: sessions.otherEmbasa, body: { capacity: 5 } });
+  assert.equal(crossUpdate.status, 403);
+  const crossDelete = await api("DELETE", `/api/availabilities/${id}`, { session: sessions.otherEmbasa });
+  assert.equal(crossDelete.status, 403);
+  const crossCancelDelete = await api("DELETE", `/api/availabilities/${id}`, {
+    session: sessions.otherEmbasa,
+    body: { cancelReason: "Tentativa indevida" },
+  });
+  assert.equal(crossCancelDelete.status, 403);
+  assert.equal((await api<Availability[]>("GET", "/api/availabilities", { session: sessions.embasa })).body.some(item => item.id === id), true);
+
+  const updated = await api<Availability[]>("PATCH", `/api/availabilities/${id}`, { session: sessions.embasa, body: { capacity: 2 } });
+  assert.equal(updated.status, 200);
+  assert.equal(updated.body[0].capacity, 2);
+  assert.equal((await api("PATCH", "/api/availabilities/9999", { session: sessions.embasa, body: { capacity: 2 } })).status, 404);
+  assert.equal((await api("DELETE", `/api/availabilities/${id}?scope=todas`, { session: sessions.embasa })).status, 400);
+
+  const booking = await api<Booking>("POST", "/api/bookings", {
+    session: sessions.sac,
+    body: { availabilityId: id, clientName: "Maria", serviceNumber: "SS-100", timeSlot: "08:00" },
+  });
+  assert.equal(booking.status, 201);
+
+  // Com agendamento ativo, a remoção exige um motivo de cancelamento
+  const busy = await api<ActiveBookings>("DELETE", `/api/availabilities/${id}`, { session: sessions.embasa });
+  assert.equal(busy.status, 409);
+  assert.equal(busy.body.reason, "has_bookings");
+  assert.deepEqual(busy.body.bookings.map(item => item.id), [booking.body.id]);
+
+  const deleted = await api<{ deleted: number }>("DELETE", `/api/availabilities/${id}`, { session: sessions.embasa, body: { cancelReason: "Equipe indisponível" } });
+  assert.equal(deleted.status, 200);
+  assert.equal(deleted.body.deleted, 1);
+  const sacBookings = await api<Booking[]>("GET", "/api/bookings", { session: sessions.sac });
+  assert.equal(sacBookings.body.find(item => item.id === booking.body.id)?.status, "cancelled_by_embasa");
+  assert.equal((await api("DELETE", `/api/availabilities/${id}`, { session: sessions.embasa })).status, 404);
+});
+
+test("recurring availabilities are created and deleted as a series", async () => {
+  const created = await api<Availability[]>("POST", "/api/availabilities", {
+    session: sessions.embasa,
+    body: { date: "2030-06-03", startTime: "08:00", endTime: "09:00", capacity: 1, recurrence: { daysOfWeek: [1], count: 3 } },
+  });
+  assert.equal(created.status, 201, JSON.stringify(created.body));
+  assert.deepEqual(created.body.map(item => item.date), ["2030-06-03", "2030-06-10", "2030-06-17"]);
+
+  const deleted = await api<{ deleted: number }>("DELETE", `/api/availabilities/${created.body[1].id}?scope=following`, { session: sessions.embasa });
+  assert.equal(deleted.status, 200);
+  assert.equal(deleted.body.deleted, 2);
+  assert.equal((await api("DELETE", `/api/availabilities/${created.body[0].id}`, { session: sessions.embasa })).status, 200);
+});
+
+test("long recurrences are expanded in full and rejected past the series limit", async () => {
+  const weekdays = [1, 2, 3, 4, 5];
+  const created = await api<Availability[]>("POST", "/api/availabilities", {
+    session: sessions.otherEmbasa,
+    body: { date: "2031-01-06", startTime: "08:00", endTime: "09:00", capacity: 1, recurrence: { daysOfWeek: weekdays, count: 300 } },
+  });
+  assert.equal(created.status, 201, JSON.stringify(created.body));
+  assert.equal(created.body.length, 300);
+  assert.ok(created.body.every(item => weekdays.includes(new Date(`${item.date}T00:00:00Z`).getUTCDay())));
+
+  const deleted = await api<{ deleted: number }>("DELETE", `/api/availabilities/${created.body[0].id}?scope=series`, { session: sessions.otherEmbasa });
+  assert.equal(deleted.body.deleted, 300);
+
+  const tooLong = await api<ErrorBody>("POST", "/api/availabilities", {
+    session: sessions.otherEmbasa,
+    body: { date: "2031-01-06", startTime: "08:00", endTime: "09:00", capacity: 1, recurrence: { daysOfWeek: weekdays, until: "2033-12-31" } },
+  });
+  assert.equal(tooLong.status, 400);
+  assert.match(tooLong.body.message, /limited to 366 occurrences/);
+});
+
+test("deleting an availability with a checked-in visit cancels nothing", async () => {
+  const availability = await api<Availability>("POST", "/api/availabilities", {
+    session: sessions.embasa,
+    body: { date: "2030-05-06", startTime: "08:00", endTime: "10:00", capacity: 1, slotDuration: 60 },
+  });
+  assert.equal(availability.status, 201);
+  const id = availability.body.id;
+  const [scheduled, visiting] = await Promise.all(["08:00", "09:00"].map(async (timeSlot, i) => {
+    const booking = await api<Booking>("POST", "/api/bookings", {
+      session: sessions.sac,
+      body: { availabilityId: id, clientName: "Marta", serviceNumber: `SS-40${i}`, timeSlot },
+    });
+    assert.equal(booking.status, 201);
+    return booking.body;
+  }));
+  assert.equal((await api("POST", `/api/bookings/${visiting.id}/outcome`, { session: sessions.embasa, body: { status: "checked_in" } })).status, 200);
+
+  const withoutReason = await api<ActiveBookings>("DELETE", `/api/availabilities/${id}`, { session: sessions.embasa });
+  assert.equal(withoutReason.status, 409);
+  assert.equal(withoutReason.body.reason, "has_bookings");
+  assert.deepEqual(withoutReason.body.bookings.map(item => item.id).sort(), [scheduled.id, visiting.id].sort());
+
+  const withReason = await api<ActiveBookings>("DELETE", `/api/availabilities/${id}`, { session: sessions.embasa, body: { cancelReason: "Equipe indisponível" } });
+  assert.equal(withReason.status, 409);
+  assert.equal(withReason.body.reason, "checked_in");
+  assert.deepEqual(withReason.body.bookings.map(item => item.id), [visiting.id]);
+
+  const received = await api<BookingWithSacLocation[]>("GET", "/api/embasa/bookings?date=2030-05-06", { session: sessions.embasa });
+  assert.deepEqual(received.body.map(item => [item.id, item.status]), [[scheduled.id, "scheduled"], [visiting.id, "checked_in"]]);
+  assert.equal((await api<Availability[]>("GET", "/api/availabilities?year=2030&month=5", { session: sessions.embasa })).body.some(item => item.id === id), true);
+});
+
+test("bookings follow ownership rules for SAC, EMBASA and supervisor users", async () => {
+  const availability = await api<Availability>("POST", "/api/availabilities", {
+    session: sessions.embasa,
+    body: { date: "2030-04-15", startTime: "08:00", endTime: "11:00", capacity: 1, slotDuration: 60 },
+  });
+  assert.equal(availability.status, 201);
+  const id = availability.body.id;
+
+  const booking = await api<Booking>("POST", "/api/bookings", {
+    session: sessions.sac,
+    body: { availabilityId: id, clientName: "João", serviceNumber: "SS-200", timeSlot: "08:00" },
+  });
+  assert.equal(booking.status, 201);
+  assert.equal(booking.body.createdBy, codes.sac.code);
+  assert.equal(booking.body.date, "2030-04-15");
+
+  const full = await api("POST", "/api/bookings", {
+    session: sessions.otherSac,
+    body: { availabilityId: id, clientName: "Pedro", serviceNumber: "SS-201", timeSlot: "08:00" },
+  });
+  assert.equal(full.status, 409);
+  const badSlot = await api("POST", "/api/bookings", {
+    session: sessions.sac,
+    body: { availabilityId: id, clientName: "Pedro", serviceNumber: "SS-201", timeSlot: "07:00" },
+  });
+  assert.equal(badSlot.status, 400);
+  const missing = await api("POST", "/api/bookings", {
+    session: sessions.sac,
+    body: { availabilityId: 9999, clientName: "Pedro", serviceNumber: "SS-201", timeSlot: "08:00" },
+  });
+  assert.equal(missing.status, 404);
+
+  const own = await api<Booking[]>("GET", "/api/bookings", { session: sessions.sac });
+  assert.ok(own.body.some(item => item.id === booking.body.id));
+  assert.equal((await api<Booking[]>("GET", "/api/bookings", { session: sessions.otherSac })).body.some(item => item.id === booking.body.id), false);
+
+  const received = await api<BookingWithSacLocation[]>("GET", `/api/embasa/bookings?date=2030-04-15`, { session: sessions.embasa });
+  assert.equal(received.status, 200);
+  assert.deepEqual(received.body.map(item => item.id), [booking.body.id]);
+  assert.equal(received.body[0].sacLocation, units.sac.name);
+  assert.deepEqual((await api("GET", `/api/embasa/bookings?date=2030-04-15`, { session: sessions.otherEmbasa })).body, []);
+
+  // Só quem criou remarca ou cancela; só a EMBASA dona da disponibilidade registra o atendimento
+  const crossReschedule = await api("POST", `/api/bookings/${booking.body.id}/reschedule`, {
+    session: sessions.otherSac,
+    body: { availabilityId: id, timeSlot: "09:00" },
+  });
+  assert.equal(crossReschedule.status, 403);
+  const crossCancel = await api("POST", `/api/bookings/${booking.body.id}/cancel`, { session: sessions.otherSac, body: { reason: "Engano" } });
+  assert.equal(crossCancel.status, 403);
+  const crossOutcome = await api("POST", `/api/bookings/${booking.body.id}/outcome`, { session: sessions.otherEmbasa, body: { status: "checked_in" } });
+  assert.equal(crossOutcome.status, 403);
+  assert.equal((await api("POST", "/api/bookings/9999/cancel", { session: sessions.sac, body: { reason: "Engano" } })).status, 404);
+
+  const rescheduled = await api<Booking>("POST", `/api/bookings/${booking.body.id}/reschedule`, {
+    session: sessions.sac,
+    body: { availabilityId: id, timeSlot: "09:00", reason: "Cliente pediu" },
+  });
+  assert.equal(rescheduled.status, 201);
+  assert.equal(rescheduled.body.timeSlot, "09:00");
+  assert.equal(rescheduled.body.rescheduledFromId, booking.body.id);
+  const current = rescheduled.body;
+
+  // O supervisor vê e remaneja os agendamentos dos códigos SAC da sua região
+  const attendants = await api<AccessCode[]>("GET", "/api/supervisor/attendants", { session: sessions.supervisor });
+  assert.equal(attendants.status, 200);
+  assert.ok(attendants.body.every(code => code.role === "sac"));
+  assert.ok([codes.sac.id, codes.otherSac.id].every(id => attendants.body.some(code => code.id === id)));
+  const supervised = await api<SupervisedBooking[]>("GET", "/api/supervisor/bookings?from=2030-04-01&to=2030-04-30&status=scheduled", { session: sessions.supervisor });
+  assert.equal(supervised.status, 200);
+  assert.deepEqual(supervised.body.map(item => item.id), [current.id]);
+
+  const outsideRegion = await api("POST", `/api/bookings/${current.id}/reassign`, { session: sessions.supervisor, body: { accessCodeId: codes.embasa.id } });
+  assert.equal(outsideRegion.status, 400);
+  const reassigned = await api<Booking>("POST", `/api/bookings/${current.id}/reassign`, { session: sessions.supervisor, body: { accessCodeId: codes.otherSac.id } });
+  assert.equal(reassigned.status, 200);
+  assert.equal(reassigned.body.createdBy, codes.otherSac.code);
+  assert.equal((await api("POST", "/api/bookings/9999/reassign", { session: sessions.supervisor, body: { accessCodeId: codes.sac.id } })).status, 404);
+
+  // Depois do remanejamento, o agendamento é do outro atendente
+  assert.equal((await api("POST", `/api/bookings/${current.id}/cancel`, { session: sessions.sac, body: { reason: "Engano" } })).status, 403);
+
+  const checkedIn = await api<Booking>("POST", `/api/bookings/${current.id}/outcome`, { session: sessions.embasa, body: { status: "checked_in" } });
+  assert.equal(checkedIn.status, 200);
+  assert.equal(checkedIn.body.status, "checked_in");
+  const completed = await api<Booking>("POST", `/api/bookings/${current.id}/outcome`, { session: sessions.embasa, body: { status: "completed", technicianNotes: "Vazamento reparado" } });
+  assert.equal(completed.status, 200);
+  assert.equal(completed.body.technicianNotes, "Vazamento reparado");
+  assert.equal((await api("POST", `/api/bookings/${current.id}/outcome`, { session: sessions.embasa, body: { status: "no_show" } })).status, 409);
+  assert.equal((await api("POST", `/api/bookings/${current.id}/cancel`, { session: sessions.otherSac, body: { reason: "Tarde" } })).status, 409);
+
+  const another = await api<Booking>("POST", "/api/bookings", {
+    session: sessions.sac,
+    body: { availabilityId: id, clientName: "Clara", serviceNumber: "SS-300", timeSlot: "10:00" },
+  });
+  assert.equal(another.status, 201);
+  const cancelled = await api<Booking>("POST", `/api/bookings/${another.body.id}/cancel`, { session: sessions.sac, body: { reason: "Cliente desistiu" } });
+  assert.equal(cancelled.status, 200);
+  assert.equal(cancelled.body.status, "cancelled");
+  assert.equal(cancelled.body.statusReason, "Cliente desistiu");
+});
+
+test("supervisors reschedule region bookings only into availabilities the attendant can book", async () => {
+  const otherPost = await api<Location>("POST", "/api/locations", { session: sessions.admin, body: { name: "SAC Itapuã", type: "sac", municipality: "Salvador" } });
+  assert.equal(otherPost.status, 201);
+
+  const [ownPost, elsewhere] = await Promise.all([units.sac.id, otherPost.body.id].map(async (locationId, i) => {
+    const availability = await api<Availability>("POST", "/api/availabilities", {
+      session: sessions.embasa,
+      body: { date: `2030-09-0${i + 2}`, startTime: "08:00", endTime: "10:00", capacity: 1, audience: { locationIds: [locationId] } },
+    });
+    assert.equal(availability.status, 201, JSON.stringify(availability.body));
+    return availability.body;
+  }));
+
+  const booking = await api<Booking>("POST", "/api/bookings", {
+    session: sessions.sac,
+    body: { availabilityId: ownPost.id, clientName: "Rita", serviceNumber: "SS-500", timeSlot: "08:00" },
+  });
+  assert.equal(booking.status, 201);
+
+  const hidden = await api("POST", `/api/bookings/${booking.body.id}/reschedule`, {
+    session: sessions.supervisor,
+    body: { availabilityId: elsewhere.id, timeSlot: "08:00" },
+  });
+  assert.equal(hidden.status, 404);
+
+  const moved = await api<Booking>("POST", `/api/bookings/${booking.body.id}/reschedule`, {
+    session: sessions.supervisor,
+    body: { availabilityId: ownPost.id, timeSlot: "09:00", reason: "Pedido da coordenação" },
+  });
+  assert.equal(moved.status, 201, JSON.stringify(moved.body));
+  assert.equal(moved.body.createdBy, codes.sac.code);
+  assert.equal(moved.body.timeSlot, "09:00");
+
+  // Um atendente continua restrito aos próprios agendamentos
+  const cross = await api("POST", `/api/bookings/${moved.body.id}/reschedule`, {
+    session: sessions.otherSac,
+    body: { availabilityId: ownPost.id, timeSlot: "08:00" },
+  });
+  assert.equal(cross.status, 403);
+});
@@ -4,23 +4,90 @@ import { storage } from "./storage";
 import cookieParser from "cookie-parser";
 import { 
   insertAccessCodeSchema, 
+  updateAccessCodeSchema,
+  issueAccessCodesSchema,
   insertAvailabilitySchema, 
-  insertBookingSchema,
-  loginSchema
+  createBookingSchema,
+  loginSchema,
+  accountLoginSchema,
+  createUserAccountSchema,
+  updateUserAccountSchema,
+  insertLocationSchema,
+  updateLocationSchema,
+  insertRoleSchema,
+  updateRoleSchema,
+  cancelBookingSchema,
+  rescheduleBookingSchema,
+  createBlackoutDateSchema,
+  importHolidaysSchema,
+  availabilityWindowSchema,
+  recurrenceRuleSchema,
+  availabilityAudienceSchema,
+  dateSchema,
+  availabilityVisibleTo,
+  updateAvailabilitySchema,
+  deleteAvailabilitySchema,
+  embasaBookingsQuerySchema,
+  supervisorBookingsQuerySchema,
+  reassignBookingSchema,
+  auditEventsQuerySchema,
+  visitOutcomeSchema,
+  expandRecurrence,
+  MAX_SERIES_OCCURRENCES,
+  createTimeSlots,
+  SERIES_SCOPES,
+  ACTIVE_BOOKING_STATUSES,
+  SLOT_HOLDING_STATUSES,
+  statusesAllowedBefore,
+  type AccessCode,
+  type Actor,
+  type AuditEntityType,
+  type AvailabilityAudience,
+  type Availability,
+  type Booking,
+  type InsertLoginAttempt,
+  type Location,
+  type Permission,
+  type Role,
+  type SeriesScope
 } from "@shared/schema";
+import { BookingConflictError } from "./errors";
+import { auditChanges } from "./audit";
+import { generateSessionToken, hashSessionToken, SESSION_COOKIE, SESSION_TTL_HOURS } from "./sessions";
+import {
+  accessCodeLookup,
+  accessCodeStatus,
+  generateAccessCode,
+  LOGIN_ATTEMPT_WINDOW_MINUTES,
+  MAX_FAILED_LOGINS_PER_CODE,
+  MAX_FAILED_LOGINS_PER_IP
+} from "./access-codes";
+import { SLOT_DURATION_MINUTES } from "./storage-helpers";
 import { z } from "zod";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 
+// Mensagens do login para cada situação do código de acesso que impede a entrada
+const ACCESS_CODE_STATUS_MESSAGES = {
+  inactive: "Invalid access code",
+  not_yet_valid: "Access code is not valid yet",
+  expired: "Access code expired",
+  usage_limit: "Access code usage limit reached",
+};
+
+// Com início e fim informados juntos, o fim precisa ser posterior ao início
+function validityWindowIsOrdered(body: { validFrom?: string | null; expiresAt?: string | null }) {
+  return !body.validFrom || !body.expiresAt || new Date(body.validFrom) < new Date(body.expiresAt);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Use cookie parser para gerenciar cookies diretamente em vez de sessões
+  // Cookie parser para ler o token da sessão
   app.use(cookieParser(process.env.SESSION_SECRET || "calendar_scheduling_secret"));
   
-  // Adicionar middleware de diagnóstico
+  // Adicionar middleware de diagnóstico (sem registrar o token da sessão)
   app.use((req, res, next) => {
     if (req.path.startsWith('/api/auth')) {
-      console.log('Cookies:', req.cookies);
-      console.log('Signed Cookies:', req.signedCookies);
+      console.log('Cookie de sessão presente:', !!req.cookies?.[SESSION_COOKIE]);
     }
     next();
   });
@@ -42,67 +109,289 @@ export async function registerRoutes(app: Express): Promise<Server> {
     };
   };
 
-  // Authentication middleware usando cookies ao invés de sessão
-  const requireAuth = (req: Request, res: Response, next: Function) => {
-    const userData = req.signedCookies.user ? JSON.parse(req.signedCookies.user) : null;
+  // Permissões do perfil de acesso do código; lidas a cada requisição, para que mudanças no perfil valham na hora
+  const permissionsOf = async (accessCode: Pick<AccessCode, "role" | "roleId">): Promise<Permission[]> =>
+    (await storage.getAccessCodeRole(accessCode))?.permissions ?? [];
+
+  // Usuário da sessão do cookie, com perfil e status lidos do código de acesso a cada requisição
+  const currentUser = async (req: Request) => {
+    const token = req.cookies?.[SESSION_COOKIE];
+    if (!token) {
+      return undefined;
+    }
     
-    if (!userData) {
-      return res.status(401).json({ message: "Unauthorized. Please log in." });
+    const active = await storage.getActiveSession(hashSessionToken(token));
+    if (!active) {
+      return undefined;
     }
     
-    // Adiciona o usuário do cookie ao objeto req
-    (req as any).user = userData;
-    next();
+    return {
+      id: active.accessCode.id,
+      code: active.accessCode.code,
+      role: active.accessCode.role,
+      roleId: active.accessCode.roleId,
+      permissions: await permissionsOf(active.accessCode),
+      locationId: active.accessCode.locationId,
+      account: active.account
+        ? { id: active.account.id, name: active.account.name, registrationNumber: active.account.registrationNumber }
+        : null,
+      sessionId: active.session.id,
+    };
+  };
+
+  // Autor das alterações: o código de acesso e, quando logado com conta pessoal, a pessoa
+  const actor = (req: Request): Actor => {
+    const userData = (req as any).user;
+    return { code: userData.code, accountId: userData.account?.id ?? null };
+  };
+
+  // Grava a operação na trilha de auditoria. Sem usuário (ex.: desativação automática), o autor fica vazio;
+  // uma falha aqui só é registrada no log, pois a alteração em si já foi concluída
+  const audit = async (
+    req: Request,
+    action: string,
+    entityType: AuditEntityType,
+    entityId: number | null,
+    before?: object | null,
+    after?: object | null,
+    userData: { code: string; role: string; account: { id: number } | null } | null = (req as any).user ?? null
+  ) => {
+    try {
+      await storage.recordAuditEvent({
+        actorCode: userData?.code ?? null,
+        actorAccountId: userData?.account?.id ?? null,
+        actorRole: userData?.role ?? null,
+        action,
+        entityType,
+        entityId,
+        changes: auditChanges(before, after),
+        ip: req.ip ?? null,
+      });
+    } catch (error) {
+      console.error("Erro ao registrar evento de auditoria:", error);
+    }
+  };
+
+  // Authentication middleware: a sessão precisa existir, não estar revogada/expirada e o código precisa estar ativo
+  const requireAuth = async (req: Request, res: Response, next: Function) => {
+    try {
+      const userData = await currentUser(req);
+      
+      if (!userData) {
+        return res.status(401).json({ message: "Unauthorized. Please log in." });
+      }
+      
+      (req as any).user = userData;
+      next();
+    } catch (error) {
+      console.error("Erro ao validar sessão:", error);
+      res.status(500).json({ message: "Server error validating session" });
+    }
   };
 
-  // Role-based authorization middleware
-  const requireRole = (roles: string[]) => {
+  // Permission-based authorization middleware: basta uma das permissões informadas
+  const requirePermission = (...permissions: Permission[]) => {
     return (req: Request, res: Response, next: Function) => {
       const userData = (req as any).user;
       
-      if (!userData || !roles.includes(userData.role)) {
+      if (!userData || !permissions.some(permission => userData.permissions.includes(permission))) {
         return res.status(403).json({ message: "Forbidden. Insufficient permissions." });
       }
       next();
     };
   };
 
+  // Anexa a cada disponibilidade os seus horários com a ocupação atual
+  const withTimeSlots = async (availabilities: Availability[]) => {
+    const slots = await storage.listTimeSlots(availabilities.map(a => a.id));
+    return availabilities.map(availability => ({
+      ...availability,
+      slots: slots.filter(slot => slot.availabilityId === availability.id),
+    }));
+  };
+
+  // Confere se o horário pertence à disponibilidade e ainda tem vaga; responde com o erro caso contrário
+  const checkTimeSlot = async (res: Response, availabilityId: number, timeSlot: string) => {
+    const [slot] = (await storage.listTimeSlots([availabilityId])).filter(s => s.startTime === timeSlot);
+    
+    if (!slot) {
+      res.status(400).json({ message: "Invalid time slot for this availability" });
+      return false;
+    }
+    
+    if (slot.remainingSlots <= 0) {
+      res.status(409).json({ message: "No slots available for this time" });
+      return false;
+    }
+    
+    return true;
+  };
+
+  // Bloqueios do calendário que valem para as unidades dos códigos informados: os da unidade, os do município
+  // da unidade (como os feriados municipais) e os sem unidade, que valem para todas
+  const applicableBlackouts = async (codes: string[], from?: string, to?: string) => {
+    const accessCodes = await Promise.all(codes.map(code => storage.getAccessCode(code)));
+    const units = await Promise.all(accessCodes.map(accessCode =>
+      accessCode?.locationId ? storage.getLocation(accessCode.locationId) : undefined
+    ));
+    const locations = [
+      ...accessCodes.map(accessCode => accessCode?.location),
+      ...units.map(unit => unit?.municipality),
+    ].filter(Boolean);
+    const blackouts = await storage.listBlackoutDates(from, to);
+    return blackouts.filter(blackout => !blackout.location || locations.includes(blackout.location));
+  };
+
+  // Confere se a data (AAAA-MM-DD) está livre no calendário de bloqueios; responde com o erro caso contrário
+  const checkBlackout = async (res: Response, date: string, codes: string[]) => {
+    const [blackout] = await applicableBlackouts(codes, date, date);
+    
+    if (blackout) {
+      res.status(409).json({ message: `This date is blocked in the calendar: ${blackout.name}` });
+      return false;
+    }
+    
+    return true;
+  };
+
+  // Ocorrências afetadas por uma edição/remoção: só esta, esta e as seguintes da série, ou a série inteira
+  const seriesTargets = async (availability: Availability, scope: SeriesScope) => {
+    if (scope === "occurrence" || !availability.seriesId) {
+      return [availability];
+    }
+
+    const occurrences = await storage.listAvailabilitiesBySeries(availability.seriesId);
+    if (scope === "series") {
+      return occurrences;
+    }
+
+    return occurrences.filter(occurrence => String(occurrence.date) >= String(availability.date));
+  };
+
+  // Bloqueio por IP e por código (ou matrícula) após falhas seguidas na janela; a tentativa bloqueada também conta
+  const checkLoginThrottle = async (res: Response, attempt: Omit<InsertLoginAttempt, "success" | "reason"> & { codeLookup: string }) => {
+    const [ipFailures, codeFailures] = await Promise.all([
+      attempt.ip ? storage.countFailedLoginAttempts({ ip: attempt.ip }, LOGIN_ATTEMPT_WINDOW_MINUTES) : 0,
+      storage.countFailedLoginAttempts({ codeLookup: attempt.codeLookup }, LOGIN_ATTEMPT_WINDOW_MINUTES),
+    ]);
+    
+    if (ipFailures >= MAX_FAILED_LOGINS_PER_IP || codeFailures >= MAX_FAILED_LOGINS_PER_CODE) {
+      await storage.recordLoginAttempt({ ...attempt, success: false, reason: "locked" });
+      res.set("Retry-After", String(LOGIN_ATTEMPT_WINDOW_MINUTES * 60));
+      res.status(429).json({
+        message: `Too many failed login attempts. Try again in ${LOGIN_ATTEMPT_WINDOW_MINUTES} minutes`
+      });
+      return false;
+    }
+    
+    return true;
+  };
+
+  // Desativa os códigos vencidos ou esgotados e derruba as sessões abertas deles
+  const deactivateExpiredAccessCodes = async (req: Request) => {
+    const ids = await storage.deactivateExpiredAccessCodes();
+    await Promise.all(ids.map(id => storage.revokeSessionsForAccessCode(id)));
+    await Promise.all(ids.map(id => audit(req, "expire", "access_code", id, { active: true }, { active: false }, null)));
+  };
+
+  // Confere validade e limites do código antes de abrir a sessão e conta o login. Quem encontra o
+  // limite de logins esgotado desativa o código; responde com o motivo específico caso contrário
+  const admitAccessCode = async (
+    req: Request,
+    res: Response,
+    accessCode: AccessCode,
+    attempt: Omit<InsertLoginAttempt, "success" | "reason">
+  ) => {
+    let status = accessCodeStatus(accessCode);
+    if (status === "valid" && !(await storage.recordAccessCodeLogin(accessCode.id))) {
+      status = "usage_limit";
+    }
+    
+    if (status === "valid") {
+      return true;
+    }
+    
+    if (status === "usage_limit" && accessCode.active) {
+      await storage.updateAccessCode(accessCode.id, { active: false });
+      await storage.revokeSessionsForAccessCode(accessCode.id);
+      await audit(req, "expire", "access_code", accessCode.id, { active: true }, { active: false }, null);
+    }
+    
+    console.log(`Falha de login (código ${accessCode.code}: ${status}) de ${attempt.ip}`);
+    await storage.recordLoginAttempt({ ...attempt, accessCodeId: accessCode.id, success: false, reason: status });
+    res.status(401).json({ message: ACCESS_CODE_STATUS_MESSAGES[status] });
+    return false;
+  };
+
+  // Cria a sessão e grava o cookie; o cookie guarda apenas o token opaco e os dados do usuário ficam no servidor
+  const startSession = async (req: Request, res: Response, accessCodeId: number, userAccountId: number | null) => {
+    const token = generateSessionToken();
+    const session = await storage.createSession({
+      tokenHash: hashSessionToken(token),
+      accessCodeId,
+      userAccountId,
+      ip: req.ip ?? null,
+      userAgent: req.get("user-agent") ?? null,
+    });
+    
+    res.cookie(SESSION_COOKIE, token, {
+      httpOnly: true,
+      maxAge: SESSION_TTL_HOURS * 60 * 60 * 1000,
+      sameSite: 'strict',
+      secure: process.env.NODE_ENV === 'production'
+    });
+    
+    return session;
+  };
+
   // Authentication routes - usando cookies em vez de sessão
   app.post("/api/auth/login", validateRequest(loginSchema), async (req, res) => {
     try {
-      console.log("Processando login com dados:", req.body);
       const { accessCode } = req.body;
       
       if (!accessCode) {
         return res.status(400).json({ message: "Código de acesso não fornecido" });
       }
       
-      console.log("Buscando código de acesso:", accessCode);
-      const user = await storage.getAccessCode(accessCode);
+      const attempt = {
+        ip: req.ip ?? null,
+        codeLookup: accessCodeLookup(accessCode),
+        accessCodeId: null,
+        userAgent: req.get("user-agent") ?? null,
+      };
+      
+      if (!(await checkLoginThrottle(res, attempt))) {
+        return;
+      }
       
-      console.log("Resultado da busca de usuário:", user);
+      await deactivateExpiredAccessCodes(req);
+      const user = await storage.findAccessCodeBySecret(accessCode);
       
-      if (!user || !user.active) {
+      if (!user) {
+        console.log(`Falha de login (código inválido) de ${attempt.ip}`);
+        await storage.recordLoginAttempt({ ...attempt, success: false, reason: "invalid_code" });
         return res.status(401).json({ message: "Invalid access code" });
       }
       
-      // Criar objeto de usuário para armazenar no cookie
+      if (!(await admitAccessCode(req, res, user, attempt))) {
+        return;
+      }
+      
+      await storage.recordLoginAttempt({ ...attempt, accessCodeId: user.id, success: true, reason: null });
+      const session = await startSession(req, res, user.id, null);
+      
       const userData = {
         id: user.id,
         code: user.code,
-        role: user.role
+        role: user.role,
+        roleId: user.roleId,
+        permissions: await permissionsOf(user),
+        locationId: user.locationId,
+        account: null
       };
+      await audit(req, "login", "session", session.id, null, session, userData);
       
-      // Defina um cookie assinado com os dados do usuário
-      res.cookie('user', JSON.stringify(userData), {
-        signed: true,
-        httpOnly: true,
-        maxAge: 24 * 60 * 60 * 1000, // 24 hours
-        sameSite: 'strict',
-        secure: process.env.NODE_ENV === 'production'
-      });
-      
-      console.log("Cookie definido com sucesso para:", userData);
+      console.log("Sessão criada para:", userData);
       res.json({ user: userData });
     } catch (error) {
       console.error("Login error:", error);
@@ -110,39 +399,138 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Rota de teste para verificar se o cookie está funcionando
-  app.get("/api/auth/test-session", (req, res) => {
-    console.log("Cookies atuais:", req.cookies);
-    console.log("Cookies assinados:", req.signedCookies);
-    
-    const userData = req.signedCookies.user ? JSON.parse(req.signedCookies.user) : null;
-    
-    res.json({
-      hasAuth: !!userData,
-      user: userData
-    });
+  // Login com conta pessoal (matrícula + senha/PIN); perfil e localidade vêm do código de acesso vinculado
+  app.post("/api/auth/login/account", validateRequest(accountLoginSchema), async (req, res) => {
+    try {
+      const { registrationNumber, password } = req.body;
+      
+      // O prefixo separa o contador de falhas da matrícula do contador dos códigos de acesso
+      const attempt = {
+        ip: req.ip ?? null,
+        codeLookup: accessCodeLookup(`conta:${registrationNumber}`),
+        accessCodeId: null,
+        userAgent: req.get("user-agent") ?? null,
+      };
+      
+      if (!(await checkLoginThrottle(res, attempt))) {
+        return;
+      }
+      
+      await deactivateExpiredAccessCodes(req);
+      const found = await storage.findUserAccountByCredentials(registrationNumber, password);
+      
+      // A conta só entra se estiver ativa e se o código de acesso vinculado estiver válido
+      if (!found || !found.account.active) {
+        console.log(`Falha de login com conta pessoal (${found ? "inativa" : "credenciais inválidas"}) de ${attempt.ip}`);
+        await storage.recordLoginAttempt({
+          ...attempt,
+          accessCodeId: found?.accessCode.id ?? null,
+          success: false,
+          reason: found ? "inactive" : "invalid_code",
+        });
+        return res.status(401).json({ message: "Invalid registration number or password" });
+      }
+      
+      const { account, accessCode } = found;
+      if (!(await admitAccessCode(req, res, accessCode, attempt))) {
+        return;
+      }
+      
+      await storage.recordLoginAttempt({ ...attempt, accessCodeId: accessCode.id, success: true, reason: null });
+      const session = await startSession(req, res, accessCode.id, account.id);
+      
+      const userData = {
+        id: accessCode.id,
+        code: accessCode.code,
+        role: accessCode.role,
+        roleId: accessCode.roleId,
+        permissions: await permissionsOf(accessCode),
+        locationId: accessCode.locationId,
+        account: { id: account.id, name: account.name, registrationNumber: account.registrationNumber }
+      };
+      await audit(req, "login", "session", session.id, null, session, userData);
+      
+      console.log("Sessão criada para:", userData);
+      res.json({ user: userData });
+    } catch (error) {
+      console.error("Account login error:", error);
+      res.status(500).json({ message: "Server error during login" });
+    }
   });
 
-  app.post("/api/auth/logout", (req, res) => {
-    res.clearCookie('user');
-    res.json({ message: "Logged out successfully" });
+  // Rota de teste para verificar se a sessão está funcionando
+  app.get("/api/auth/test-session", async (req, res) => {
+    try {
+      const userData = await currentUser(req);
+      
+      res.json({
+        hasAuth: !!userData,
+        user: userData ?? null
+      });
+    } catch (error) {
+      console.error("Erro ao testar sessão:", error);
+      res.status(500).json({ message: "Server error validating session" });
+    }
   });
 
-  app.get("/api/auth/me", (req, res) => {
-    console.log("Verificando usuário atual. Cookies:", req.signedCookies);
-    
-    const userData = req.signedCookies.user ? JSON.parse(req.signedCookies.user) : null;
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      const userData = await currentUser(req);
+      if (userData) {
+        await storage.revokeSession(userData.sessionId);
+        await audit(req, "logout", "session", userData.sessionId, null, null, userData);
+      }
+      
+      res.clearCookie(SESSION_COOKIE);
+      res.json({ message: "Logged out successfully" });
+    } catch (error) {
+      console.error("Logout error:", error);
+      res.status(500).json({ message: "Server error during logout" });
+    }
+  });
+
+  app.get("/api/auth/me", async (req, res) => {
+    try {
+      const userData = await currentUser(req);
+      
+      if (!userData) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const { sessionId, ...user } = userData;
+      res.json({ user });
+    } catch (error) {
+      console.error("Erro ao verificar usuário atual:", error);
+      res.status(500).json({ message: "Server error validating session" });
+    }
+  });
+
+  // Unidade do cadastro informada por id; responde 400 se não existir ou estiver desativada
+  const activeLocation = async (res: Response, locationId: number): Promise<Location | undefined> => {
+    const location = await storage.getLocation(locationId);
+    if (!location || !location.active) {
+      res.status(400).json({ message: "Location not found or inactive" });
+      return undefined;
+    }
     
-    if (!userData) {
-      return res.status(401).json({ message: "Not authenticated" });
+    return location;
+  };
+
+  // Perfil de acesso informado para um código; responde 400 se não existir ou for de outro papel
+  const compatibleRole = async (res: Response, roleId: number, role: string): Promise<Role | undefined> => {
+    const found = await storage.getRole(roleId);
+    if (!found || found.baseRole !== role) {
+      res.status(400).json({ message: "Role not found or not compatible with the access code role" });
+      return undefined;
     }
     
-    res.json({ user: userData });
-  });
+    return found;
+  };
 
-  // Access Code routes (Admin only)
-  app.get("/api/access-codes", requireAuth, requireRole(["admin"]), async (req, res) => {
+  // Access Code routes
+  app.get("/api/access-codes", requireAuth, requirePermission("access_codes:manage"), async (req, res) => {
     try {
+      await deactivateExpiredAccessCodes(req);
       const accessCodes = await storage.listAccessCodes();
       res.json(accessCodes);
     } catch (error) {
@@ -154,17 +542,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post(
     "/api/access-codes", 
     requireAuth, 
-    requireRole(["admin"]), 
+    requirePermission("access_codes:manage"), 
     validateRequest(insertAccessCodeSchema), 
     async (req, res) => {
       try {
+        if (!validityWindowIsOrdered(req.body)) {
+          return res.status(400).json({ message: "expiresAt must be after validFrom" });
+        }
+        
         // Check if code already exists
-        const existingCode = await storage.getAccessCode(req.body.code);
+        const existingCode = await storage.findAccessCodeBySecret(req.body.code);
         if (existingCode) {
           return res.status(400).json({ message: "Access code already exists" });
         }
         
+        if (req.body.locationId) {
+          const location = await activeLocation(res, req.body.locationId);
+          if (!location) {
+            return;
+          }
+          req.body.location = location.name;
+        }
+        
+        if (req.body.roleId && !(await compatibleRole(res, req.body.roleId, req.body.role))) {
+          return;
+        }
+        
         const accessCode = await storage.createAccessCode(req.body);
+        await audit(req, "create", "access_code", accessCode.id, null, accessCode);
         res.status(201).json(accessCode);
       } catch (error) {
         console.error("Error creating access code:", error);
@@ -173,20 +578,107 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
+  // Emissão em lote: o servidor gera os códigos e os devolve em texto puro apenas nesta resposta
+  app.post(
+    "/api/access-codes/issue", 
+    requireAuth, 
+    requirePermission("access_codes:manage"), 
+    validateRequest(issueAccessCodesSchema), 
+    async (req, res) => {
+      try {
+        const { count, length, alphabet, rolePrefix, ...accessCode } = req.body;
+        
+        if (!validityWindowIsOrdered(accessCode)) {
+          return res.status(400).json({ message: "expiresAt must be after validFrom" });
+        }
+        
+        const location = await activeLocation(res, accessCode.locationId);
+        if (!location) {
+          return;
+        }
+        
+        if (accessCode.roleId && !(await compatibleRole(res, accessCode.roleId, accessCode.role))) {
+          return;
+        }
+        
+        // Com pelo menos 16^8 combinações, repetir um código já existente é improvável o bastante
+        // para dispensar a consulta de cada um; repetições dentro do próprio lote são descartadas
+        const secrets = new Set<string>();
+        while (secrets.size < count) {
+          secrets.add(generateAccessCode(accessCode.role, { length, alphabet, rolePrefix }));
+        }
+        
+        const codes = Array.from(secrets);
+        const created = await storage.createAccessCodes(
+          codes.map(code => ({ ...accessCode, location: location.name, code, active: true }))
+        );
+        
+        for (const issued of created) {
+          await audit(req, "issue", "access_code", issued.id, null, issued);
+        }
+        
+        res.status(201).json(created.map((issued, index) => ({ ...issued, secret: codes[index] })));
+      } catch (error) {
+        console.error("Error issuing access codes:", error);
+        res.status(500).json({ message: "Server error issuing access codes" });
+      }
+    }
+  );
+
   app.patch(
     "/api/access-codes/:id", 
     requireAuth, 
-    requireRole(["admin"]), 
+    requirePermission("access_codes:manage"), 
+    validateRequest(updateAccessCodeSchema), 
     async (req, res) => {
       try {
         const id = parseInt(req.params.id);
         const updates = req.body;
         
+        if (!validityWindowIsOrdered(updates)) {
+          return res.status(400).json({ message: "expiresAt must be after validFrom" });
+        }
+        
+        if (updates.code) {
+          const existingCode = await storage.findAccessCodeBySecret(updates.code);
+          if (existingCode && existingCode.id !== id) {
+            return res.status(400).json({ message: "Access code already exists" });
+          }
+        }
+        
+        // Trocar a unidade também troca o nome gravado no código
+        if (updates.locationId) {
+          const location = await activeLocation(res, updates.locationId);
+          if (!location) {
+            return;
+          }
+          updates.location = location.name;
+        }
+        
+        const before = (await storage.listAccessCodes()).find(code => code.id === id);
+        
+        // Trocar o papel sem informar o perfil devolve o código ao perfil padrão do novo papel
+        if (updates.roleId) {
+          if (!(await compatibleRole(res, updates.roleId, updates.role ?? before?.role ?? ""))) {
+            return;
+          }
+        } else if (updates.role && updates.role !== before?.role && updates.roleId === undefined) {
+          updates.roleId = null;
+        }
+        
         const accessCode = await storage.updateAccessCode(id, updates);
         if (!accessCode) {
           return res.status(404).json({ message: "Access code not found" });
         }
         
+        // A troca do código em si não aparece no registro (só o hash muda), então ela é anotada à parte
+        await audit(req, updates.code ? "update_secret" : "update", "access_code", id, before, accessCode);
+        
+        // Código desativado ou trocado derruba as sessões abertas (uma reativação não as ressuscita)
+        if (updates.active === false || updates.code) {
+          await storage.revokeSessionsForAccessCode(id);
+        }
+        
         res.json(accessCode);
       } catch (error) {
         console.error("Error updating access code:", error);
@@ -198,16 +690,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete(
     "/api/access-codes/:id", 
     requireAuth, 
-    requireRole(["admin"]), 
+    requirePermission("access_codes:manage"), 
     async (req, res) => {
       try {
         const id = parseInt(req.params.id);
+        const before = (await storage.listAccessCodes()).find(code => code.id === id);
         const success = await storage.deleteAccessCode(id);
         
         if (!success) {
           return res.status(404).json({ message: "Access code not found" });
         }
         
+        await storage.revokeSessionsForAccessCode(id);
+        await audit(req, "delete", "access_code", id, before, null);
         res.json({ message: "Access code deleted successfully" });
       } catch (error) {
         console.error("Error deleting access code:", error);
@@ -216,183 +711,1129 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
-  // Availability routes (EMBASA user can create, all authenticated users can view)
-  app.get("/api/availabilities", requireAuth, async (req, res) => {
+  // Sessões ativas de um código de acesso
+  app.get("/api/access-codes/:id/sessions", requireAuth, requirePermission("access_codes:manage"), async (req, res) => {
     try {
-      const { year, month } = req.query;
+      const sessions = await storage.listActiveSessions(parseInt(req.params.id));
+      res.json(sessions);
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Server error fetching sessions" });
+    }
+  });
+
+  // Encerra todas as sessões de um código de acesso
+  app.delete("/api/access-codes/:id/sessions", requireAuth, requirePermission("access_codes:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const revoked = await storage.revokeSessionsForAccessCode(id);
+      await audit(req, "revoke_sessions", "access_code", id, null, { revokedSessions: revoked });
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ message: "Server error revoking sessions" });
+    }
+  });
+
+  // Encerra uma sessão específica
+  app.delete("/api/sessions/:id", requireAuth, requirePermission("access_codes:manage"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.revokeSession(id);
       
-      let availabilities;
-      if (year && month) {
-        availabilities = await storage.getAvailabilitiesByMonth(
-          parseInt(year as string), 
-          parseInt(month as string)
-        );
-      } else {
-        availabilities = await storage.listAvailabilities();
+      if (!success) {
+        return res.status(404).json({ message: "Session not found" });
       }
       
-      res.json(availabilities);
+      await audit(req, "revoke", "session", id, null, null);
+      
+      res.json({ message: "Session revoked successfully" });
     } catch (error) {
-      console.error("Error fetching availabilities:", error);
-      res.status(500).json({ message: "Server error fetching availabilities" });
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Server error revoking session" });
+    }
+  });
+
+  // Contas pessoais vinculadas a códigos de acesso
+  app.get("/api/user-accounts", requireAuth, requirePermission("user_accounts:manage"), async (req, res) => {
+    try {
+      const accounts = await storage.listUserAccounts();
+      res.json(accounts);
+    } catch (error) {
+      console.error("Error fetching user accounts:", error);
+      res.status(500).json({ message: "Server error fetching user accounts" });
     }
   });
 
   app.post(
-    "/api/availabilities", 
+    "/api/user-accounts", 
     requireAuth, 
-    requireRole(["embasa"]), 
+    requirePermission("user_accounts:manage"), 
+    validateRequest(createUserAccountSchema), 
     async (req, res) => {
       try {
-        // Log the full request body first for debugging
-        console.log("Corpo completo da requisição:", req.body);
-        
-        // Check for date parsing
-        const dateStr = req.body.date;
-        
-        // Validar manualmente os dados
-        if (!dateStr || typeof dateStr !== 'string') {
-          return res.status(400).json({ message: "Data inválida ou ausente" });
+        const accessCodes = await storage.listAccessCodes();
+        if (!accessCodes.some(code => code.id === req.body.accessCodeId)) {
+          return res.status(400).json({ message: "Access code not found" });
         }
         
-        if (!req.body.startTime || typeof req.body.startTime !== 'string') {
-          return res.status(400).json({ message: "Horário inicial inválido ou ausente" });
+        const existing = (await storage.listUserAccounts())
+          .find(account => account.registrationNumber === req.body.registrationNumber);
+        if (existing) {
+          return res.status(400).json({ message: "Registration number already exists" });
         }
         
-        if (!req.body.endTime || typeof req.body.endTime !== 'string') {
-          return res.status(400).json({ message: "Horário final inválido ou ausente" });
-        }
+        const account = await storage.createUserAccount(req.body);
+        await audit(req, "create", "user_account", account.id, null, account);
+        res.status(201).json(account);
+      } catch (error) {
+        console.error("Error creating user account:", error);
+        res.status(500).json({ message: "Server error creating user account" });
+      }
+    }
+  );
+
+  app.patch(
+    "/api/user-accounts/:id", 
+    requireAuth, 
+    requirePermission("user_accounts:manage"), 
+    validateRequest(updateUserAccountSchema), 
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const before = await storage.getUserAccount(id);
+        const account = await storage.updateUserAccount(id, req.body);
         
-        if (!req.body.capacity || isNaN(Number(req.body.capacity))) {
-          return res.status(400).json({ message: "Capacidade inválida ou ausente" });
+        if (!account) {
+          return res.status(404).json({ message: "User account not found" });
         }
         
-        // Try to parse the date
-        const date = new Date(dateStr);
-        console.log("Data recebida:", dateStr);
-        console.log("Data convertida:", date);
+        // A senha nunca entra no registro; a troca fica indicada pela ação
+        await audit(req, req.body.password ? "update_password" : "update", "user_account", id, before, account);
         
-        if (isNaN(date.getTime())) {
-          return res.status(400).json({ message: "Formato de data inválido: " + dateStr });
+        // Conta desativada ou com senha trocada derruba as sessões abertas dela
+        if (req.body.active === false || req.body.password) {
+          await storage.revokeSessionsForUserAccount(id);
         }
         
-        // Processar outros campos
-        const capacity = Number(req.body.capacity);
-        
-        // Create the availability
-        const availability = await storage.createAvailability({
-          date: date,
-          startTime: req.body.startTime,
-          endTime: req.body.endTime,
-          capacity: capacity,
-          remainingSlots: capacity,
-          createdBy: (req as any).user.code,
-        });
-        
-        res.status(201).json(availability);
+        res.json(account);
       } catch (error) {
-        console.error("Error creating availability:", error);
-        res.status(500).json({ message: "Server error creating availability" });
+        console.error("Error updating user account:", error);
+        res.status(500).json({ message: "Server error updating user account" });
       }
     }
   );
 
   app.delete(
-    "/api/availabilities/:id", 
+    "/api/user-accounts/:id", 
     requireAuth, 
-    requireRole(["embasa"]), 
+    requirePermission("user_accounts:manage"), 
     async (req, res) => {
       try {
         const id = parseInt(req.params.id);
-        const availability = await storage.getAvailability(id);
-        
-        if (!availability) {
-          return res.status(404).json({ message: "Availability not found" });
-        }
-        
-        // Check if the user created this availability
-        if (availability.createdBy !== (req as any).user.code) {
-          return res.status(403).json({ message: "You can only delete availabilities you created" });
-        }
+        const before = await storage.getUserAccount(id);
+        const success = await storage.deleteUserAccount(id);
         
-        const success = await storage.deleteAvailability(id);
         if (!success) {
-          return res.status(404).json({ message: "Availability not found" });
+          return res.status(404).json({ message: "User account not found" });
         }
         
-        res.json({ message: "Availability deleted successfully" });
+        await storage.revokeSessionsForUserAccount(id);
+        await audit(req, "delete", "user_account", id, before, null);
+        res.json({ message: "User account deleted successfully" });
       } catch (error) {
-        console.error("Error deleting availability:", error);
-        res.status(500).json({ message: "Server error deleting availability" });
+        console.error("Error deleting user account:", error);
+        res.status(500).json({ message: "Server error deleting user account" });
       }
     }
   );
 
-  // Booking routes (SAC users)
-  app.get("/api/bookings", requireAuth, async (req, res) => {
+  // Registro de tentativas de login malsucedidas
+  app.get("/api/login-attempts", requireAuth, requirePermission("audit:view"), async (req, res) => {
     try {
-      const bookings = await storage.listBookingsByUser((req as any).user.code);
-      res.json(bookings);
+      const attempts = await storage.listFailedLoginAttempts(100);
+      res.json(attempts);
     } catch (error) {
-      console.error("Error fetching bookings:", error);
+      console.error("Error fetching login attempts:", error);
+      res.status(500).json({ message: "Server error fetching login attempts" });
+    }
+  });
+
+  // Trilha de auditoria
+  app.get("/api/audit-events", requireAuth, requirePermission("audit:view"), async (req, res) => {
+    try {
+      const query = auditEventsQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: fromZodError(query.error).message });
+      }
+      
+      const events = await storage.listAuditEvents(query.data);
+      res.json(events);
+    } catch (error) {
+      console.error("Error fetching audit events:", error);
+      res.status(500).json({ message: "Server error fetching audit events" });
+    }
+  });
+
+  // Quem agenda para o próprio posto (booking:create) vê só as disponibilidades publicadas para ele;
+  // os demais perfis veem todas
+  const visibleAvailabilities = async <T extends Availability>(req: Request, availabilities: T[]): Promise<T[]> => {
+    const userData = (req as any).user;
+    if (!userData.permissions.includes("booking:create")) {
+      return availabilities;
+    }
+    
+    const location = userData.locationId ? await storage.getLocation(userData.locationId) : undefined;
+    return availabilities.filter(availability => availabilityVisibleTo(availability.audience, location));
+  };
+
+  // O público só pode listar postos SAC do cadastro; responde 400 caso contrário
+  const checkAudience = async (res: Response, audience: AvailabilityAudience | null | undefined) => {
+    if (!audience || audience.locationIds.length === 0) {
+      return true;
+    }
+    
+    const sacLocationIds = (await storage.listLocations())
+      .filter(location => location.type === "sac")
+      .map(location => location.id);
+    if (audience.locationIds.some(id => !sacLocationIds.includes(id))) {
+      res.status(400).json({ message: "Audience must only list SAC locations" });
+      return false;
+    }
+    
+    return true;
+  };
+
+  // Location routes (todos os perfis consultam, para os filtros do calendário; só quem gerencia unidades altera)
+  app.get("/api/locations", requireAuth, async (req, res) => {
+    try {
+      const locations = await storage.listLocations();
+      res.json(locations);
+    } catch (error) {
+      console.error("Error fetching locations:", error);
+      res.status(500).json({ message: "Server error fetching locations" });
+    }
+  });
+
+  app.post(
+    "/api/locations", 
+    requireAuth, 
+    requirePermission("locations:manage"), 
+    validateRequest(insertLocationSchema), 
+    async (req, res) => {
+      try {
+        const existing = (await storage.listLocations())
+          .find(location => location.name.toLowerCase() === req.body.name.toLowerCase());
+        if (existing) {
+          return res.status(400).json({ message: "Location already exists" });
+        }
+        
+        const location = await storage.createLocation(req.body);
+        await audit(req, "create", "location", location.id, null, location);
+        res.status(201).json(location);
+      } catch (error) {
+        console.error("Error creating location:", error);
+        res.status(500).json({ message: "Server error creating location" });
+      }
+    }
+  );
+
+  app.patch(
+    "/api/locations/:id", 
+    requireAuth, 
+    requirePermission("locations:manage"), 
+    validateRequest(updateLocationSchema), 
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        
+        if (req.body.name) {
+          const existing = (await storage.listLocations())
+            .find(location => location.name.toLowerCase() === req.body.name.toLowerCase());
+          if (existing && existing.id !== id) {
+            return res.status(400).json({ message: "Location already exists" });
+          }
+        }
+        
+        const before = await storage.getLocation(id);
+        const location = await storage.updateLocation(id, req.body);
+        if (!location) {
+          return res.status(404).json({ message: "Location not found" });
+        }
+        
+        await audit(req, "update", "location", id, before, location);
+        
+        res.json(location);
+      } catch (error) {
+        console.error("Error updating location:", error);
+        res.status(500).json({ message: "Server error updating location" });
+      }
+    }
+  );
+
+  // Role routes (a lista também alimenta o cadastro de códigos de acesso)
+  app.get(
+    "/api/roles", 
+    requireAuth, 
+    requirePermission("roles:manage", "access_codes:manage"), 
+    async (req, res) => {
+      try {
+        const roles = await storage.listRoles();
+        res.json(roles);
+      } catch (error) {
+        console.error("Error fetching roles:", error);
+        res.status(500).json({ message: "Server error fetching roles" });
+      }
+    }
+  );
+
+  // Nome de perfil já usado por outro perfil (sem diferenciar maiúsculas)
+  const roleNameTaken = async (name: string, id?: number) =>
+    (await storage.listRoles()).some(role => role.name.toLowerCase() === name.toLowerCase() && role.id !== id);
+
+  app.post(
+    "/api/roles", 
+    requireAuth, 
+    requirePermission("roles:manage"), 
+    validateRequest(insertRoleSchema), 
+    async (req, res) => {
+      try {
+        if (await roleNameTaken(req.body.name)) {
+          return res.status(400).json({ message: "Role already exists" });
+        }
+        
+        const role = await storage.createRole(req.body);
+        await audit(req, "create", "role", role.id, null, role);
+        res.status(201).json(role);
+      } catch (error) {
+        console.error("Error creating role:", error);
+        res.status(500).json({ message: "Server error creating role" });
+      }
+    }
+  );
+
+  app.patch(
+    "/api/roles/:id", 
+    requireAuth, 
+    requirePermission("roles:manage"), 
+    validateRequest(updateRoleSchema), 
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const before = await storage.getRole(id);
+        if (!before) {
+          return res.status(404).json({ message: "Role not found" });
+        }
+        
+        if (req.body.name && await roleNameTaken(req.body.name, id)) {
+          return res.status(400).json({ message: "Role already exists" });
+        }
+        
+        // O perfil padrão do administrador sempre gerencia perfis, para ninguém perder o acesso a esta tela
+        if (before.builtin && before.baseRole === "admin" && req.body.permissions && !req.body.permissions.includes("roles:manage")) {
+          return res.status(400).json({ message: "The default admin role must keep roles:manage" });
+        }
+        
+        const role = await storage.updateRole(id, req.body);
+        if (!role) {
+          return res.status(404).json({ message: "Role not found" });
+        }
+        
+        await audit(req, "update", "role", id, before, role);
+        res.json(role);
+      } catch (error) {
+        console.error("Error updating role:", error);
+        res.status(500).json({ message: "Server error updating role" });
+      }
+    }
+  );
+
+  app.delete(
+    "/api/roles/:id", 
+    requireAuth, 
+    requirePermission("roles:manage"), 
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const before = await storage.getRole(id);
+        if (!before) {
+          return res.status(404).json({ message: "Role not found" });
+        }
+        
+        if (before.builtin) {
+          return res.status(400).json({ message: "Default roles cannot be deleted" });
+        }
+        
+        await storage.deleteRole(id);
+        await audit(req, "delete", "role", id, before, null);
+        res.json({ message: "Role deleted successfully" });
+      } catch (error) {
+        console.error("Error deleting role:", error);
+        res.status(500).json({ message: "Server error deleting role" });
+      }
+    }
+  );
+
+  // Availability routes (quem tem permissão cria e altera; todos os usuários autenticados consultam)
+  app.get("/api/availabilities", requireAuth, async (req, res) => {
+    try {
+      const { year, month } = req.query;
+      
+      let availabilities;
+      if (year && month) {
+        availabilities = await storage.getAvailabilitiesByMonth(
+          parseInt(year as string), 
+          parseInt(month as string)
+        );
+      } else {
+        availabilities = await storage.listAvailabilities();
+      }
+      
+      res.json(await withTimeSlots(await visibleAvailabilities(req, availabilities)));
+    } catch (error) {
+      console.error("Error fetching availabilities:", error);
+      res.status(500).json({ message: "Server error fetching availabilities" });
+    }
+  });
+
+  app.post(
+    "/api/availabilities", 
+    requireAuth, 
+    requirePermission("availability:create"), 
+    async (req, res) => {
+      try {
+        // Log the full request body first for debugging
+        console.log("Corpo completo da requisição:", req.body);
+        
+        // Check for date parsing
+        const dateStr = req.body.date;
+        
+        // Validar manualmente os dados
+        if (!dateStr || typeof dateStr !== 'string') {
+          return res.status(400).json({ message: "Data inválida ou ausente" });
+        }
+        
+        if (!req.body.startTime || typeof req.body.startTime !== 'string') {
+          return res.status(400).json({ message: "Horário inicial inválido ou ausente" });
+        }
+        
+        if (!req.body.endTime || typeof req.body.endTime !== 'string') {
+          return res.status(400).json({ message: "Horário final inválido ou ausente" });
+        }
+        
+        if (!req.body.capacity || isNaN(Number(req.body.capacity))) {
+          return res.status(400).json({ message: "Capacidade inválida ou ausente" });
+        }
+        
+        // A data é um dia do calendário (AAAA-MM-DD), sem fuso: o mesmo dia é gravado, expandido na série e
+        // conferido no calendário de bloqueios. Datas inexistentes (2030-02-31) são recusadas, não ajustadas
+        const date = new Date(dateStr);
+        console.log("Data recebida:", dateStr);
+        
+        if (!dateSchema.safeParse(dateStr).success || isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== dateStr) {
+          return res.status(400).json({ message: "Formato de data inválido: " + dateStr });
+        }
+        const day: string = dateStr;
+        
+        // Validar a janela de atendimento (formato HH:MM, duração dos horários e intervalos)
+        const window = availabilityWindowSchema.safeParse({
+          startTime: req.body.startTime,
+          endTime: req.body.endTime,
+          slotDuration: req.body.slotDuration ?? SLOT_DURATION_MINUTES,
+          breaks: req.body.breaks,
+        });
+        
+        if (!window.success) {
+          return res.status(400).json({ message: fromZodError(window.error).message });
+        }
+        
+        // Sem público informado, a disponibilidade vai para os postos SAC do município da unidade EMBASA
+        let audience: AvailabilityAudience | null = null;
+        if (req.body.audience !== undefined) {
+          const parsed = availabilityAudienceSchema.safeParse(req.body.audience);
+          if (!parsed.success) {
+            return res.status(400).json({ message: fromZodError(parsed.error).message });
+          }
+          audience = parsed.data;
+        } else if ((req as any).user.locationId) {
+          const municipality = (await storage.getLocation((req as any).user.locationId))?.municipality;
+          audience = municipality ? { locationIds: [], municipalities: [municipality] } : null;
+        }
+        
+        if (!(await checkAudience(res, audience))) {
+          return;
+        }
+        
+        // Processar outros campos
+        const capacity = Number(req.body.capacity);
+        const newAvailability = {
+          date: day,
+          ...window.data,
+          capacity: capacity,
+          remainingSlots: capacity,
+          createdBy: (req as any).user.code,
+          createdByAccountId: actor(req).accountId,
+          // A visita acontece na unidade EMBASA do código que publicou a disponibilidade
+          locationId: (req as any).user.locationId,
+          audience,
+        };
+        
+        // Com regra de recorrência, cria uma série com uma disponibilidade por data gerada
+        if (req.body.recurrence) {
+          const rule = recurrenceRuleSchema.safeParse(req.body.recurrence);
+          if (!rule.success) {
+            return res.status(400).json({ message: fromZodError(rule.error).message });
+          }
+          
+          // Feriados e fechamentos da unidade viram exceções da série em vez de impedir a criação
+          const blackouts = await applicableBlackouts([(req as any).user.code], day);
+          const exceptions = Array.from(new Set([...rule.data.exceptions, ...blackouts.map(b => b.date)])).sort();
+          const dates = expandRecurrence(day, { ...rule.data, exceptions });
+          
+          if (dates.length === 0) {
+            return res.status(400).json({ message: "Recurrence rule does not produce any date" });
+          }
+          if (dates.length > MAX_SERIES_OCCURRENCES) {
+            return res.status(400).json({
+              message: `Recurrence rule produces more than ${MAX_SERIES_OCCURRENCES} dates; a series is limited to ${MAX_SERIES_OCCURRENCES} occurrences`
+            });
+          }
+          
+          const availabilities = await storage.createAvailabilitySeries(newAvailability, {
+            ...rule.data,
+            exceptions: exceptions.filter(exception => exception <= dates[dates.length - 1]),
+          });
+          for (const created of availabilities) {
+            await audit(req, "create", "availability", created.id, null, created);
+          }
+          return res.status(201).json(await withTimeSlots(availabilities));
+        }
+        
+        if (!(await checkBlackout(res, day, [(req as any).user.code]))) {
+          return;
+        }
+        
+        // Create the availability
+        const availability = await storage.createAvailability(newAvailability);
+        await audit(req, "create", "availability", availability.id, null, availability);
+        
+        res.status(201).json((await withTimeSlots([availability]))[0]);
+      } catch (error) {
+        console.error("Error creating availability:", error);
+        res.status(500).json({ message: "Server error creating availability" });
+      }
+    }
+  );
+
+  app.patch(
+    "/api/availabilities/:id", 
+    requireAuth, 
+    requirePermission("availability:update"), 
+    validateRequest(updateAvailabilitySchema), 
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const availability = await storage.getAvailability(id);
+        
+        if (!availability) {
+          return res.status(404).json({ message: "Availability not found" });
+        }
+        
+        // Check if the user created this availability
+        if (availability.createdBy !== (req as any).user.code) {
+          return res.status(403).json({ message: "You can only edit availabilities you created" });
+        }
+        
+        const { scope, ...updates } = req.body;
+        const targets = await seriesTargets(availability, scope);
+        
+        if (!(await checkAudience(res, updates.audience))) {
+          return;
+        }
+        
+        // Validar a janela resultante de cada ocorrência antes de alterar qualquer uma delas
+        const overCapacity = [];
+        const outsideWindow = [];
+        for (const target of targets) {
+          const window = availabilityWindowSchema.safeParse({
+            startTime: updates.startTime ?? target.startTime,
+            endTime: updates.endTime ?? target.endTime,
+            slotDuration: updates.slotDuration ?? target.slotDuration,
+            breaks: updates.breaks ?? target.breaks,
+          });
+          
+          if (!window.success) {
+            return res.status(400).json({ message: fromZodError(window.error).message });
+          }
+          
+          // Agendamentos que ocupam vaga não podem perdê-la nem ficar fora dos novos horários
+          const { startTime, endTime, slotDuration, breaks } = window.data;
+          const slots = createTimeSlots(startTime, endTime, slotDuration, breaks);
+          const capacity = updates.capacity ?? target.capacity;
+          const confirmed = (await storage.listBookingsByAvailability(target.id))
+            .filter(booking => SLOT_HOLDING_STATUSES.includes(booking.status))
+            .map(booking => ({ ...booking, date: target.date }));
+          
+          for (const slot of slots) {
+            const slotBookings = confirmed.filter(booking => booking.timeSlot === slot);
+            if (slotBookings.length > capacity) {
+              overCapacity.push(...slotBookings);
+            }
+          }
+          outsideWindow.push(...confirmed.filter(booking => !slots.includes(booking.timeSlot)));
+        }
+        
+        if (overCapacity.length > 0) {
+          return res.status(409).json({
+            message: "Capacity cannot be lower than the confirmed bookings of a time slot",
+            reason: "capacity",
+            bookings: overCapacity,
+          });
+        }
+        
+        if (outsideWindow.length > 0) {
+          return res.status(409).json({
+            message: "Some confirmed bookings fall outside the new time window",
+            reason: "outside_window",
+            bookings: outsideWindow,
+          });
+        }
+        
+        const updated: Availability[] = [];
+        for (const target of targets) {
+          const result = await storage.updateAvailability(target.id, updates);
+          if (result) {
+            updated.push(result);
+            await audit(req, "update", "availability", target.id, target, result);
+          }
+        }
+        
+        if (updated.length === 0) {
+          return res.status(404).json({ message: "Availability not found" });
+        }
+        
+        res.json(await withTimeSlots(updated));
+      } catch (error) {
+        console.error("Error updating availability:", error);
+        res.status(500).json({ message: "Server error updating availability" });
+      }
+    }
+  );
+
+  app.delete(
+    "/api/availabilities/:id", 
+    requireAuth, 
+    requirePermission("availability:delete"), 
+    validateRequest(deleteAvailabilitySchema), 
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const availability = await storage.getAvailability(id);
+        
+        if (!availability) {
+          return res.status(404).json({ message: "Availability not found" });
+        }
+        
+        // Check if the user created this availability
+        if (availability.createdBy !== (req as any).user.code) {
+          return res.status(403).json({ message: "You can only delete availabilities you created" });
+        }
+        
+        const scope = req.query.scope ?? "occurrence";
+        if (!SERIES_SCOPES.includes(scope as SeriesScope)) {
+          return res.status(400).json({ message: "Invalid scope" });
+        }
+        
+        const targets = await seriesTargets(availability, scope as SeriesScope);
+        const { cancelReason } = req.body;
+        
+        // Agendamentos ativos de todas as ocorrências, conferidos antes de qualquer remoção
+        const affected: Booking[] = [];
+        for (const target of targets) {
+          const bookings = await storage.listBookingsByAvailability(target.id);
+          affected.push(...bookings.filter(booking => ACTIVE_BOOKING_STATUSES.includes(booking.status)));
+        }
+        
+        // Sem motivo de cancelamento, a remoção é recusada listando os agendamentos ativos afetados
+        if (!cancelReason && affected.length > 0) {
+          return res.status(409).json({
+            message: "This availability has confirmed bookings",
+            reason: "has_bookings",
+            bookings: affected,
+          });
+        }
+        
+        // Uma visita que já teve check-in não pode ser cancelada, então nenhuma ocorrência é removida
+        const cancellable = statusesAllowedBefore("cancelled_by_embasa");
+        const checkedIn = affected.filter(booking => !cancellable.includes(booking.status));
+        if (checkedIn.length > 0) {
+          return res.status(409).json({
+            message: "This availability has visits already checked in",
+            reason: "checked_in",
+            bookings: checkedIn,
+          });
+        }
+        
+        const cancellation = cancelReason ? { changedBy: actor(req), reason: cancelReason } : undefined;
+        let deleted = 0;
+        for (const target of targets) {
+          // Os agendamentos cancelados junto com a disponibilidade também entram na auditoria
+          const active = (await storage.listBookingsByAvailability(target.id))
+            .filter(booking => ACTIVE_BOOKING_STATUSES.includes(booking.status));
+          
+          try {
+            if (!(await storage.deleteAvailability(target.id, cancellation))) {
+              continue;
+            }
+          } catch (error) {
+            // Um agendamento ou check-in feito depois da verificação acima impediu a remoção desta ocorrência
+            if (error instanceof BookingConflictError) {
+              const blocking = (await storage.listBookingsByAvailability(target.id)).filter(booking =>
+                ACTIVE_BOOKING_STATUSES.includes(booking.status) && (!cancellation || !cancellable.includes(booking.status))
+              );
+              return res.status(409).json({
+                message: error.message,
+                reason: cancellation ? "checked_in" : "has_bookings",
+                bookings: blocking,
+                deleted,
+              });
+            }
+            throw error;
+          }
+          
+          deleted++;
+          await audit(req, "delete", "availability", target.id, target, null);
+          if (cancellation) {
+            for (const booking of active) {
+              await audit(req, "cancel", "booking", booking.id, booking, await storage.getBooking(booking.id));
+            }
+          }
+        }
+        
+        if (deleted === 0) {
+          return res.status(404).json({ message: "Availability not found" });
+        }
+        
+        res.json({ message: "Availability deleted successfully", deleted });
+      } catch (error) {
+        console.error("Error deleting availability:", error);
+        res.status(500).json({ message: "Server error deleting availability" });
+      }
+    }
+  );
+
+  // Blackout calendar routes (Admin manages, all authenticated users can view)
+  app.get("/api/blackout-dates", requireAuth, async (req, res) => {
+    try {
+      const { year, month } = req.query;
+      
+      let from: string | undefined;
+      let to: string | undefined;
+      if (year && month) {
+        const monthStr = String(month).padStart(2, "0");
+        from = `${year}-${monthStr}-01`;
+        to = `${year}-${monthStr}-31`;
+      } else if (year) {
+        from = `${year}-01-01`;
+        to = `${year}-12-31`;
+      }
+      
+      // Quem gerencia o calendário vê todos os bloqueios; os demais só os que valem para a própria unidade
+      const user = (req as any).user;
+      const blackouts = user.permissions.includes("blackouts:manage")
+        ? await storage.listBlackoutDates(from, to)
+        : await applicableBlackouts([user.code], from, to);
+      
+      res.json(blackouts);
+    } catch (error) {
+      console.error("Error fetching blackout dates:", error);
+      res.status(500).json({ message: "Server error fetching blackout dates" });
+    }
+  });
+
+  app.post(
+    "/api/blackout-dates", 
+    requireAuth, 
+    requirePermission("blackouts:manage"), 
+    validateRequest(createBlackoutDateSchema), 
+    async (req, res) => {
+      try {
+        const blackout = await storage.createBlackoutDate({
+          ...req.body,
+          createdBy: (req as any).user.code,
+          createdByAccountId: actor(req).accountId,
+        });
+        await audit(req, "create", "blackout_date", blackout.id, null, blackout);
+        
+        res.status(201).json(blackout);
+      } catch (error) {
+        console.error("Error creating blackout date:", error);
+        res.status(500).json({ message: "Server error creating blackout date" });
+      }
+    }
+  );
+
+  app.post(
+    "/api/blackout-dates/holidays", 
+    requireAuth, 
+    requirePermission("blackouts:manage"), 
+    validateRequest(importHolidaysSchema), 
+    async (req, res) => {
+      try {
+        const imported = await storage.importHolidays(req.body.year);
+        await audit(req, "import_holidays", "blackout_date", null, null, { year: req.body.year, imported });
+        res.status(201).json({ imported });
+      } catch (error) {
+        console.error("Error importing holidays:", error);
+        res.status(500).json({ message: "Server error importing holidays" });
+      }
+    }
+  );
+
+  app.delete(
+    "/api/blackout-dates/:id", 
+    requireAuth, 
+    requirePermission("blackouts:manage"), 
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const before = (await storage.listBlackoutDates()).find(blackout => blackout.id === id);
+        const success = await storage.deleteBlackoutDate(id);
+        
+        if (!success) {
+          return res.status(404).json({ message: "Blackout date not found" });
+        }
+        
+        await audit(req, "delete", "blackout_date", id, before, null);
+        res.json({ message: "Blackout date deleted successfully" });
+      } catch (error) {
+        console.error("Error deleting blackout date:", error);
+        res.status(500).json({ message: "Server error deleting blackout date" });
+      }
+    }
+  );
+
+  // Booking routes (SAC users)
+  app.get("/api/bookings", requireAuth, async (req, res) => {
+    try {
+      const bookings = await storage.listBookingsByUser((req as any).user.code);
+      res.json(bookings);
+    } catch (error) {
+      console.error("Error fetching bookings:", error);
+      res.status(500).json({ message: "Server error fetching bookings" });
+    }
+  });
+
+  // Bookings made against the availabilities of the logged EMBASA user
+  app.get("/api/embasa/bookings", requireAuth, requirePermission("booking:view:received"), async (req, res) => {
+    try {
+      const query = embasaBookingsQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: fromZodError(query.error).message });
+      }
+      
+      const bookings = await storage.listBookingsForAvailabilityOwner((req as any).user.code, query.data);
+      res.json(bookings);
+    } catch (error) {
+      console.error("Error fetching EMBASA bookings:", error);
+      res.status(500).json({ message: "Server error fetching bookings" });
+    }
+  });
+
+  // Códigos SAC da unidade/região do supervisor logado
+  const regionSacCodes = async (req: Request): Promise<AccessCode[]> => {
+    const { locationId } = (req as any).user;
+    return locationId ? storage.listSacAccessCodesInRegion(locationId) : [];
+  };
+
+  // Atendentes (códigos SAC) da região do supervisor, destinos possíveis de um remanejamento
+  app.get("/api/supervisor/attendants", requireAuth, requirePermission("booking:view:region"), async (req, res) => {
+    try {
+      res.json(await regionSacCodes(req));
+    } catch (error) {
+      console.error("Error fetching region attendants:", error);
+      res.status(500).json({ message: "Server error fetching attendants" });
+    }
+  });
+
+  // Agendamentos de todos os códigos SAC da região do supervisor
+  app.get("/api/supervisor/bookings", requireAuth, requirePermission("booking:view:region"), async (req, res) => {
+    try {
+      const query = supervisorBookingsQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: fromZodError(query.error).message });
+      }
+      
+      const codes = await regionSacCodes(req);
+      const bookings = await storage.listBookingsByCreators(codes.map(code => code.code), query.data);
+      res.json(bookings);
+    } catch (error) {
+      console.error("Error fetching supervised bookings:", error);
       res.status(500).json({ message: "Server error fetching bookings" });
     }
   });
 
+  // Remanejamento: o supervisor passa o agendamento para o código de outro atendente da região
+  app.post(
+    "/api/bookings/:id/reassign", 
+    requireAuth, 
+    requirePermission("booking:reassign"), 
+    validateRequest(reassignBookingSchema), 
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const booking = await storage.getBooking(id);
+        
+        if (!booking) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+        
+        const codes = await regionSacCodes(req);
+        if (!codes.some(code => code.code === booking.createdBy)) {
+          return res.status(403).json({ message: "You can only manage bookings of SAC codes in your region" });
+        }
+        
+        const target = codes.find(code => code.id === req.body.accessCodeId);
+        if (!target || !target.active) {
+          return res.status(400).json({ message: "Target must be an active SAC access code in your region" });
+        }
+        
+        if (target.code === booking.createdBy) {
+          return res.status(400).json({ message: "Booking already belongs to this access code" });
+        }
+        
+        const reassigned = await storage.reassignBooking(id, target);
+        if (!reassigned) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+        
+        await audit(req, "reassign", "booking", id, booking, reassigned);
+        
+        res.json(reassigned);
+      } catch (error) {
+        if (error instanceof BookingConflictError) {
+          return res.status(409).json({ message: error.message });
+        }
+        console.error("Error reassigning booking:", error);
+        res.status(500).json({ message: "Server error reassigning booking" });
+      }
+    }
+  );
+
   app.post(
     "/api/bookings", 
     requireAuth, 
-    requireRole(["sac"]), 
-    validateRequest(insertBookingSchema), 
+    requirePermission("booking:create"), 
+    validateRequest(createBookingSchema), 
     async (req, res) => {
       try {
         // Check if availability exists and has remaining slots
         const availability = await storage.getAvailability(req.body.availabilityId);
         
-        if (!availability) {
+        // Disponibilidades não publicadas para o posto SAC são tratadas como inexistentes
+        if (!availability || (await visibleAvailabilities(req, [availability])).length === 0) {
           return res.status(404).json({ message: "Availability not found" });
         }
         
-        if (availability.remainingSlots <= 0) {
-          return res.status(400).json({ message: "No slots available for this time" });
+        // Fechamentos tanto da unidade SAC quanto da unidade EMBASA que publicou o horário impedem o agendamento
+        const blackoutCodes = [(req as any).user.code, availability.createdBy];
+        if (!(await checkBlackout(res, String(availability.date).slice(0, 10), blackoutCodes))) {
+          return;
+        }
+        
+        if (!(await checkTimeSlot(res, availability.id, req.body.timeSlot))) {
+          return;
         }
         
-        // Create the booking
+        // Create the booking (the slot is reserved atomically, so a concurrent booking may still win the last slot)
         const booking = await storage.createBooking({
           ...req.body,
           createdBy: (req as any).user.code,
+          createdByAccountId: actor(req).accountId,
         });
+        await audit(req, "create", "booking", booking.id, null, booking);
         
         res.status(201).json(booking);
       } catch (error) {
+        if (error instanceof BookingConflictError) {
+          return res.status(409).json({ message: error.message });
+        }
         console.error("Error creating booking:", error);
         res.status(500).json({ message: "Server error creating booking" });
       }
     }
   );
 
+  app.post(
+    "/api/bookings/:id/cancel", 
+    requireAuth, 
+    requirePermission("booking:cancel:own", "booking:cancel:any", "booking:cancel:region"), 
+    validateRequest(cancelBookingSchema), 
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const booking = await storage.getBooking(id);
+        
+        if (!booking) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+        
+        // Sem "booking:cancel:any", só quem criou o agendamento ou o supervisor da região pode cancelá-lo
+        const userData = (req as any).user;
+        const canCancel = userData.permissions.includes("booking:cancel:any")
+          || (userData.permissions.includes("booking:cancel:own") && booking.createdBy === userData.code)
+          || (userData.permissions.includes("booking:cancel:region")
+            && (await regionSacCodes(req)).some(code => code.code === booking.createdBy));
+        if (!canCancel) {
+          return res.status(403).json({ message: "You can only cancel bookings you created" });
+        }
+        
+        const cancelled = await storage.cancelBooking(id, actor(req), req.body.reason);
+        if (!cancelled) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+        
+        await audit(req, "cancel", "booking", id, booking, cancelled);
+        
+        res.json(cancelled);
+      } catch (error) {
+        if (error instanceof BookingConflictError) {
+          return res.status(409).json({ message: error.message });
+        }
+        console.error("Error cancelling booking:", error);
+        res.status(500).json({ message: "Server error cancelling booking" });
+      }
+    }
+  );
+
+  app.post(
+    "/api/bookings/:id/reschedule", 
+    requireAuth, 
+    requirePermission("booking:reschedule", "booking:reschedule:region"), 
+    validateRequest(rescheduleBookingSchema), 
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const booking = await storage.getBooking(id);
+        
+        if (!booking) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+        
+        // Remarca quem criou o agendamento ou o supervisor da região do atendente que o criou
+        const userData = (req as any).user;
+        const attendant = userData.permissions.includes("booking:reschedule") && booking.createdBy === userData.code
+          ? { locationId: userData.locationId }
+          : userData.permissions.includes("booking:reschedule:region")
+            ? (await regionSacCodes(req)).find(code => code.code === booking.createdBy)
+            : undefined;
+        if (!attendant) {
+          return res.status(403).json({ message: "You can only reschedule bookings you created" });
+        }
+        
+        // O novo horário precisa estar publicado para o posto SAC do atendente, mesmo quando o supervisor remarca
+        const availability = await storage.getAvailability(req.body.availabilityId);
+        const attendantLocation = attendant.locationId ? await storage.getLocation(attendant.locationId) : undefined;
+        if (!availability || !availabilityVisibleTo(availability.audience, attendantLocation)) {
+          return res.status(404).json({ message: "Availability not found" });
+        }
+        
+        const blackoutCodes = [booking.createdBy, availability.createdBy];
+        if (!(await checkBlackout(res, String(availability.date).slice(0, 10), blackoutCodes))) {
+          return;
+        }
+        
+        if (!(await checkTimeSlot(res, availability.id, req.body.timeSlot))) {
+          return;
+        }
+        
+        const rescheduled = await storage.rescheduleBooking(id, actor(req), req.body);
+        if (!rescheduled) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+        
+        await audit(req, "reschedule", "booking", id, booking, await storage.getBooking(id));
+        await audit(req, "create", "booking", rescheduled.id, null, rescheduled);
+        
+        res.status(201).json(rescheduled);
+      } catch (error) {
+        if (error instanceof BookingConflictError) {
+          return res.status(409).json({ message: error.message });
+        }
+        console.error("Error rescheduling booking:", error);
+        res.status(500).json({ message: "Server error rescheduling booking" });
+      }
+    }
+  );
+
+  // Registro do atendimento (check-in, conclusão ou não comparecimento) pela EMBASA dona da disponibilidade
+  app.post(
+    "/api/bookings/:id/outcome", 
+    requireAuth, 
+    requirePermission("booking:outcome"), 
+    validateRequest(visitOutcomeSchema), 
+    async (req, res) => {
+      try {
+        const id = parseInt(req.params.id);
+        const booking = await storage.getBooking(id);
+        
+        if (!booking) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+        
+        const availability = await storage.getAvailability(booking.availabilityId);
+        if (!availability || availability.createdBy !== (req as any).user.code) {
+          return res.status(403).json({ message: "You can only record outcomes for bookings on your availabilities" });
+        }
+        
+        const updated = await storage.recordVisitOutcome(id, actor(req), req.body);
+        if (!updated) {
+          return res.status(404).json({ message: "Booking not found" });
+        }
+        
+        await audit(req, "outcome", "booking", id, booking, updated);
+        
+        res.json(updated);
+      } catch (error) {
+        if (error instanceof BookingConflictError) {
+          return res.status(409).json({ message: error.message });
+        }
+        console.error("Error recording visit outcome:", error);
+        res.status(500).json({ message: "Server error recording visit outcome" });
+      }
+    }
+  );
+
   // Admin dashboard statistics
-  app.get("/api/admin/stats", requireAuth, requireRole(["admin"]), async (req, res) => {
+  app.get("/api/admin/stats", requireAuth, requirePermission("reports:view"), async (req, res) => {
     try {
-      const accessCodes = await storage.listAccessCodes();
-      const availabilities = await storage.listAvailabilities();
+      const [accessCodes, roles, availabilities] = await Promise.all([
+        storage.listAccessCodes(),
+        storage.listRoles(),
+        storage.listAvailabilities(),
+      ]);
       
-      // Calculate stats
-      const adminCount = accessCodes.filter(code => code.role === "admin" && code.active).length;
-      const embasaCount = accessCodes.filter(code => code.role === "embasa" && code.active).length;
-      const sacCount = accessCodes.filter(code => code.role === "sac" && code.active).length;
+      // Códigos ativos por perfil de acesso, incluindo os perfis criados pelo administrador; um código
+      // sem perfil próprio conta no perfil padrão do seu papel
+      const activeCodes = accessCodes.filter(code => code.active);
+      const roleCounts = roles.map(role => ({
+        id: role.id,
+        name: role.name,
+        baseRole: role.baseRole,
+        activeCodes: activeCodes.filter(code =>
+          code.roleId === role.id || (code.roleId === null && role.builtin && code.role === role.baseRole)
+        ).length,
+      }));
       
       // Count bookings by getting all availabilities and their bookings
       let activeBookings = 0;
       for (const availability of availabilities) {
         const bookings = await storage.listBookingsByAvailability(availability.id);
-        activeBookings += bookings.filter(b => b.status === "confirmed").length;
+        activeBookings += bookings.filter(b => ACTIVE_BOOKING_STATUSES.includes(b.status)).length;
       }
       
       res.json({
-        adminCount,
-        embasaCount,
-        sacCount,
+        roles: roleCounts,
         activeSchedules: activeBookings
       });
     } catch (error) {
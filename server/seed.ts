@@ -0,0 +1,85 @@
+import { DEFAULT_ROLE_PERMISSIONS, type BlackoutDate, type BlackoutType, type Permission, type UserRole } from "@shared/schema";
+import { holidaysForYear } from "./holidays";
+
+// Dados iniciais carregados em toda inicialização, depois das migrações: perfis padrão, feriados e o
+// administrador padrão. As regras ficam aqui; cada backend fornece apenas as consultas do seu dialeto
+// (libsqlSeedTarget em turso-db.ts, postgresSeedTarget em pg-db.ts)
+
+// Código do administrador criado junto com o banco, para o primeiro acesso ao painel
+export const DEFAULT_ADMIN_CODE = "ADM123456";
+
+// Nomes dos perfis padrão criados para cada papel
+export const BUILTIN_ROLE_NAMES: Record<UserRole, string> = {
+  admin: "Administrador",
+  embasa: "EMBASA",
+  sac: "SAC",
+  supervisor: "Supervisor SAC",
+};
+
+export type BuiltinRoleValues = { name: string; baseRole: UserRole; permissions: Permission[]; builtin: true };
+export type HolidayValues = { date: string; name: string; type: BlackoutType; location: string | null };
+
+export interface SeedTarget {
+  // Papéis que já têm o perfil padrão
+  builtinRoles(): Promise<UserRole[]>;
+  // Perfis com nome já cadastrado são ignorados
+  insertRoles(roles: BuiltinRoleValues[]): Promise<void>;
+  // Bloqueios do calendário no intervalo (datas AAAA-MM-DD, inclusivo)
+  blackoutDates(from: string, to: string): Promise<Pick<BlackoutDate, "date" | "name" | "location">[]>;
+  // Retorna quantos bloqueios foram inseridos
+  insertBlackoutDates(holidays: HolidayValues[]): Promise<number>;
+  // Se há algum código de administrador, ativo ou não
+  hasAdminCode(): Promise<boolean>;
+  insertAdminCode(code: string, location: string): Promise<void>;
+}
+
+// Cria o perfil padrão de cada papel, com as permissões que o papel tinha antes dos perfis configuráveis.
+// Perfis já existentes não são tocados, para preservar as permissões ajustadas pelo administrador
+async function seedBuiltinRoles(target: SeedTarget) {
+  const existing = await target.builtinRoles();
+  const missing = (Object.keys(BUILTIN_ROLE_NAMES) as UserRole[]).filter(role => !existing.includes(role));
+
+  if (missing.length > 0) {
+    await target.insertRoles(missing.map(role => ({
+      name: BUILTIN_ROLE_NAMES[role],
+      baseRole: role,
+      permissions: DEFAULT_ROLE_PERMISSIONS[role],
+      builtin: true
+    })));
+  }
+}
+
+// Carrega os feriados do ano no calendário de bloqueios, ignorando os que já foram cadastrados.
+// Retorna quantos feriados foram adicionados.
+export async function seedHolidays(target: SeedTarget, year: number): Promise<number> {
+  const existing = await target.blackoutDates(`${year}-01-01`, `${year}-12-31`);
+  const missing = holidaysForYear(year).filter(holiday => !existing.some(blackout =>
+    blackout.date === holiday.date && blackout.name === holiday.name && blackout.location === holiday.location
+  ));
+
+  return missing.length > 0 ? target.insertBlackoutDates(missing) : 0;
+}
+
+// O admin padrão só é criado num banco sem nenhum código de administrador. Depois que o código é trocado
+// (ou o administrador cria outros e o desativa), o código conhecido não volta a dar acesso ao painel
+async function seedDefaultAdmin(target: SeedTarget) {
+  if (await target.hasAdminCode()) {
+    return;
+  }
+
+  await target.insertAdminCode(DEFAULT_ADMIN_CODE, "Sede");
+  console.log(`Admin padrão criado: ${DEFAULT_ADMIN_CODE}`);
+}
+
+export async function seedInitialData(target: SeedTarget) {
+  await seedBuiltinRoles(target);
+
+  // Feriados do ano corrente e do próximo, para que o calendário já nasça bloqueado
+  const currentYear = new Date().getFullYear();
+  const seededHolidays = await seedHolidays(target, currentYear) + await seedHolidays(target, currentYear + 1);
+  if (seededHolidays > 0) {
+    console.log(`${seededHolidays} feriado(s) adicionados ao calendário de bloqueios`);
+  }
+
+  await seedDefaultAdmin(target);
+}
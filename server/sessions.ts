@@ -0,0 +1,14 @@
+import { randomBytes, createHash } from "crypto";
+
+// Cookie com o token opaco da sessão; os dados do usuário ficam só no servidor
+export const SESSION_COOKIE = "session";
+export const SESSION_TTL_HOURS = 24;
+
+export function generateSessionToken(): string {
+  return randomBytes(32).toString("hex");
+}
+
+// Só o hash do token é gravado, para que um dump do banco não permita assumir sessões
+export function hashSessionToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
@@ -0,0 +1,197 @@
+// Tabelas do banco libsql (Turso, SQLite local e memória) para o query builder do Drizzle.
+// Espelham as tabelas de @shared/schema coluna a coluna: no SQLite os horários são texto
+// "AAAA-MM-DD HH:MM:SS" (UTC), os booleanos são 0/1 e os campos JSON são texto. As verificações
+// no fim do arquivo fazem o TypeScript recusar qualquer divergência entre os tipos das duas definições.
+// Este arquivo e shared/schema.ts mudam sempre juntos, no mesmo commit e com uma nova migração em
+// server/migrations.ts: migrations.test.ts confere que as migrações dos dois bancos criam exatamente as
+// colunas (e os NOT NULL) de cada definição.
+import { getTableColumns, sql } from "drizzle-orm";
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import * as pg from "@shared/schema";
+import type {
+  UserRole, LocationType, Permission, AuditEntityType, AuditChanges,
+  TimeRange, AvailabilityAudience, RecurrenceRule, BlackoutType, BookingStatus,
+} from "@shared/schema";
+
+const id = () => integer("id").primaryKey({ autoIncrement: true });
+const createdAt = () => text("created_at").default(sql`CURRENT_TIMESTAMP`).notNull();
+
+export const locations = sqliteTable("locations", {
+  id: id(),
+  name: text("name").notNull().unique(),
+  type: text("type").$type<LocationType>().notNull(),
+  address: text("address"),
+  municipality: text("municipality"),
+  active: integer("active", { mode: "boolean" }).default(true).notNull(),
+  createdAt: createdAt(),
+});
+
+export const roles = sqliteTable("roles", {
+  id: id(),
+  name: text("name").notNull().unique(),
+  baseRole: text("base_role").$type<UserRole>().notNull(),
+  permissions: text("permissions", { mode: "json" }).$type<Permission[]>().default([]).notNull(),
+  builtin: integer("builtin", { mode: "boolean" }).default(false).notNull(),
+  createdAt: createdAt(),
+});
+
+export const accessCodes = sqliteTable("access_codes", {
+  id: id(),
+  code: text("code").notNull().unique(),
+  codeHash: text("code_hash"),
+  codeLookup: text("code_lookup"),
+  role: text("role").$type<UserRole>().notNull(),
+  location: text("location"),
+  locationId: integer("location_id"),
+  roleId: integer("role_id"),
+  createdAt: createdAt(),
+  active: integer("active", { mode: "boolean" }).default(true).notNull(),
+  validFrom: text("valid_from"),
+  expiresAt: text("expires_at"),
+  maxLogins: integer("max_logins"),
+  maxBookings: integer("max_bookings"),
+  loginCount: integer("login_count").default(0).notNull(),
+  bookingCount: integer("booking_count").default(0).notNull(),
+});
+
+export const userAccounts = sqliteTable("user_accounts", {
+  id: id(),
+  accessCodeId: integer("access_code_id").notNull(),
+  name: text("name").notNull(),
+  registrationNumber: text("registration_number").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  active: integer("active", { mode: "boolean" }).default(true).notNull(),
+  createdAt: createdAt(),
+});
+
+export const sessions = sqliteTable("sessions", {
+  id: id(),
+  tokenHash: text("token_hash").notNull().unique(),
+  accessCodeId: integer("access_code_id").notNull(),
+  userAccountId: integer("user_account_id"),
+  ip: text("ip"),
+  userAgent: text("user_agent"),
+  createdAt: createdAt(),
+  lastSeenAt: text("last_seen_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  expiresAt: text("expires_at").notNull(),
+  revokedAt: text("revoked_at"),
+});
+
+export const loginAttempts = sqliteTable("login_attempts", {
+  id: id(),
+  ip: text("ip"),
+  codeLookup: text("code_lookup"),
+  accessCodeId: integer("access_code_id"),
+  success: integer("success", { mode: "boolean" }).notNull(),
+  reason: text("reason"),
+  userAgent: text("user_agent"),
+  createdAt: createdAt(),
+});
+
+export const auditEvents = sqliteTable("audit_events", {
+  id: id(),
+  actorCode: text("actor_code"),
+  actorAccountId: integer("actor_account_id"),
+  actorRole: text("actor_role"),
+  action: text("action").notNull(),
+  entityType: text("entity_type").$type<AuditEntityType>().notNull(),
+  entityId: integer("entity_id"),
+  changes: text("changes", { mode: "json" }).$type<AuditChanges>().default({}).notNull(),
+  ip: text("ip"),
+  createdAt: createdAt(),
+});
+
+export const availabilities = sqliteTable("availabilities", {
+  id: id(),
+  date: text("date").notNull(),
+  startTime: text("start_time").notNull(),
+  endTime: text("end_time").notNull(),
+  capacity: integer("capacity").notNull(),
+  createdBy: text("created_by").notNull(),
+  createdByAccountId: integer("created_by_account_id"),
+  createdAt: createdAt(),
+  remainingSlots: integer("remaining_slots").notNull(),
+  slotDuration: integer("slot_duration").default(pg.DEFAULT_SLOT_DURATION).notNull(),
+  breaks: text("breaks", { mode: "json" }).$type<TimeRange[]>().default([]).notNull(),
+  seriesId: integer("series_id"),
+  locationId: integer("location_id"),
+  audience: text("audience", { mode: "json" }).$type<AvailabilityAudience>(),
+});
+
+export const availabilitySeries = sqliteTable("availability_series", {
+  id: id(),
+  rule: text("rule", { mode: "json" }).$type<RecurrenceRule>().notNull(),
+  createdBy: text("created_by").notNull(),
+  createdAt: createdAt(),
+});
+
+export const timeSlots = sqliteTable("time_slots", {
+  id: id(),
+  availabilityId: integer("availability_id").notNull(),
+  startTime: text("start_time").notNull(),
+  capacity: integer("capacity").notNull(),
+  remainingSlots: integer("remaining_slots").notNull(),
+});
+
+export const blackoutDates = sqliteTable("blackout_dates", {
+  id: id(),
+  date: text("date").notNull(),
+  name: text("name").notNull(),
+  type: text("type").$type<BlackoutType>().notNull(),
+  location: text("location"),
+  createdBy: text("created_by"),
+  createdByAccountId: integer("created_by_account_id"),
+  createdAt: createdAt(),
+});
+
+export const bookings = sqliteTable("bookings", {
+  id: id(),
+  availabilityId: integer("availability_id").notNull(),
+  date: text("date"),
+  clientName: text("client_name").notNull(),
+  clientDocument: text("client_document"),
+  clientPhone: text("client_phone"),
+  serviceNumber: text("service_number").notNull(),
+  timeSlot: text("time_slot").notNull(),
+  comments: text("comments"),
+  createdBy: text("created_by").notNull(),
+  createdByAccountId: integer("created_by_account_id"),
+  createdAt: createdAt(),
+  status: text("status").$type<BookingStatus>().default("scheduled").notNull(),
+  statusReason: text("status_reason"),
+  statusChangedBy: text("status_changed_by"),
+  statusChangedByAccountId: integer("status_changed_by_account_id"),
+  statusChangedAt: text("status_changed_at"),
+  rescheduledFromId: integer("rescheduled_from_id"),
+  checkedInAt: text("checked_in_at"),
+  completedAt: text("completed_at"),
+  technicianNotes: text("technician_notes"),
+});
+
+// Colunas que podem sair da camada de armazenamento: hashes de código, senha e token ficam de fora
+const { codeHash, codeLookup, ...accessCodeColumns } = getTableColumns(accessCodes);
+const { passwordHash, ...userAccountColumns } = getTableColumns(userAccounts);
+const { tokenHash, ...sessionColumns } = getTableColumns(sessions);
+export { accessCodeColumns, userAccountColumns, sessionColumns };
+
+// Cada tabela do SQLite precisa devolver exatamente o tipo da tabela correspondente de @shared/schema
+type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false;
+type SameRow<A extends { $inferSelect: unknown }, B extends { $inferSelect: unknown }> =
+  Equal<A["$inferSelect"], B["$inferSelect"]>;
+
+type Expect<T extends true> = T;
+
+export type SqliteSchemaMatchesShared = [
+  Expect<SameRow<typeof locations, typeof pg.locations>>,
+  Expect<SameRow<typeof roles, typeof pg.roles>>,
+  Expect<SameRow<typeof accessCodes, typeof pg.accessCodes>>,
+  Expect<SameRow<typeof userAccounts, typeof pg.userAccounts>>,
+  Expect<SameRow<typeof sessions, typeof pg.sessions>>,
+  Expect<SameRow<typeof loginAttempts, typeof pg.loginAttempts>>,
+  Expect<SameRow<typeof auditEvents, typeof pg.auditEvents>>,
+  Expect<SameRow<typeof availabilities, typeof pg.availabilities>>,
+  Expect<SameRow<typeof availabilitySeries, typeof pg.availabilitySeries>>,
+  Expect<SameRow<typeof timeSlots, typeof pg.timeSlots>>,
+  Expect<SameRow<typeof blackoutDates, typeof pg.blackoutDates>>,
+  Expect<SameRow<typeof bookings, typeof pg.bookings>>,
+];
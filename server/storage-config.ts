@@ -0,0 +1,77 @@
+// Seleção do backend de armazenamento pelas variáveis de ambiente:
+//   STORAGE_DRIVER=turso    -> banco Turso/libsql remoto (TURSO_DB_URL e, se exigido, TURSO_AUTH_TOKEN)
+//   STORAGE_DRIVER=sqlite   -> arquivo SQLite local (SQLITE_PATH, padrão data/agendamento.db)
+//   STORAGE_DRIVER=memory   -> banco em memória, descartado ao encerrar o processo (testes)
+//   STORAGE_DRIVER=postgres -> Postgres (DATABASE_URL), pelo pool do Neon
+// Sem STORAGE_DRIVER, usa o Turso se TURSO_DB_URL estiver definida e, fora de produção, o SQLite local
+export const STORAGE_DRIVERS = ["turso", "sqlite", "memory", "postgres"] as const;
+export type StorageDriver = typeof STORAGE_DRIVERS[number];
+
+export const DEFAULT_SQLITE_PATH = "data/agendamento.db";
+
+export type StorageConfig =
+  | { driver: "turso"; url: string; authToken?: string }
+  | { driver: "sqlite"; path: string }
+  | { driver: "memory" }
+  | { driver: "postgres"; url: string };
+
+// Backends servidos pelo libsql (ver createLibsqlClient)
+export type LibsqlStorageConfig = Exclude<StorageConfig, { driver: "postgres" }>;
+
+// Configuração inválida: interrompe a inicialização com uma mensagem que diz o que ajustar
+export class StorageConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageConfigError";
+  }
+}
+
+export function resolveStorageConfig(env: NodeJS.ProcessEnv = process.env): StorageConfig {
+  const driver = env.STORAGE_DRIVER?.trim().toLowerCase()
+    || (env.TURSO_DB_URL ? "turso" : env.NODE_ENV === "production" ? "" : "sqlite");
+
+  switch (driver) {
+    case "turso":
+      if (!env.TURSO_DB_URL) {
+        throw new StorageConfigError("STORAGE_DRIVER=turso requires TURSO_DB_URL (e.g. libsql://<database>.turso.io)");
+      }
+      if (!URL.canParse(env.TURSO_DB_URL)) {
+        throw new StorageConfigError(`TURSO_DB_URL is not a valid URL: "${env.TURSO_DB_URL}"`);
+      }
+      return { driver, url: env.TURSO_DB_URL, authToken: env.TURSO_AUTH_TOKEN || undefined };
+    case "sqlite":
+      return { driver, path: env.SQLITE_PATH || DEFAULT_SQLITE_PATH };
+    case "memory":
+      return { driver };
+    case "":
+      throw new StorageConfigError(
+        `No storage configured for production: set STORAGE_DRIVER (${STORAGE_DRIVERS.join(", ")}) or TURSO_DB_URL`
+      );
+    case "postgres":
+      if (!env.DATABASE_URL) {
+        throw new StorageConfigError("STORAGE_DRIVER=postgres requires DATABASE_URL (e.g. postgres://<user>:<password>@<host>/<database>)");
+      }
+      if (!URL.canParse(env.DATABASE_URL)) {
+        throw new StorageConfigError("DATABASE_URL is not a valid URL");
+      }
+      return { driver, url: env.DATABASE_URL };
+    default:
+      throw new StorageConfigError(
+        `Unknown STORAGE_DRIVER "${driver}": expected one of ${STORAGE_DRIVERS.join(", ")}`
+      );
+  }
+}
+
+// Descrição para o log de inicialização, sem expor credenciais
+export function describeStorageConfig(config: StorageConfig): string {
+  switch (config.driver) {
+    case "turso":
+      return `Turso (${new URL(config.url).host || config.url})`;
+    case "sqlite":
+      return `SQLite local (${config.path})`;
+    case "memory":
+      return "banco em memória";
+    case "postgres":
+      return `Postgres (${new URL(config.url).host})`;
+  }
+}
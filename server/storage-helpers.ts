@@ -0,0 +1,250 @@
+import { randomBytes } from "crypto";
+import type { SQL } from "drizzle-orm";
+import {
+  createTimeSlots, DEFAULT_SLOT_DURATION, SLOT_DURATIONS, statusesAllowedBefore,
+  type Actor, type Availability, type Booking, type BookingStatus, type InsertAccessCode, type InsertAvailability,
+  type InsertBooking, type InsertLocation, type InsertUserAccount, type RescheduleBooking, type UpdateAccessCode,
+  type UpdateLocation, type UpdateUserAccount, type UserRole, type VisitOutcome
+} from "@shared/schema";
+import { accessCodeLookup, hashAccessCode } from "./access-codes";
+import { BookingConflictError } from "./errors";
+
+// Regras do armazenamento que não dependem do banco: os valores gravados em cada operação e as transições de
+// status dos agendamentos. TursoStorage e PostgresStorage escrevem apenas as consultas do seu dialeto
+
+// Duração padrão dos horários quando a disponibilidade não informa uma (configurável por ambiente)
+export const SLOT_DURATION_MINUTES = (SLOT_DURATIONS as readonly number[]).includes(Number(process.env.SLOT_DURATION_MINUTES))
+  ? Number(process.env.SLOT_DURATION_MINUTES)
+  : DEFAULT_SLOT_DURATION;
+
+// Conflitos das transições de agendamento, devolvidos às rotas como 409
+export const BOOKING_NOT_ACTIVE = "Este agendamento não está mais ativo";
+export const SLOT_UNAVAILABLE = "Não há mais vagas disponíveis neste horário";
+
+// As datas de validade chegam em ISO 8601; cada banco as converte para UTC no formato das suas colunas
+export type TimestampValue = (value: string) => SQL | string;
+
+// A coluna date guarda "YYYY-MM-DD" para as buscas por mês funcionarem (o libsql gravaria Date como número)
+export function toDateString(date: Date | string): string {
+  return date instanceof Date ? date.toISOString().slice(0, 10) : date;
+}
+
+// O Drizzle ignora os campos undefined de um UPDATE; sem nenhum campo informado não há o que atualizar
+export function hasUpdates(values: object): boolean {
+  return Object.values(values).some(value => value !== undefined);
+}
+
+function nullableTimestamp(value: string | null | undefined, timestamp: TimestampValue) {
+  return value === undefined || value === null ? value : timestamp(value);
+}
+
+// Linha de um código novo, já com hash. O identificador público depende do id, então a linha entra com um
+// valor provisório e único, trocado pelo backend logo depois, na mesma transação
+export async function newAccessCodeValues(
+  code: string,
+  role: UserRole,
+  location: string,
+  active: boolean,
+  details: Pick<InsertAccessCode, "locationId" | "roleId" | "validFrom" | "expiresAt" | "maxLogins" | "maxBookings">,
+  timestamp: TimestampValue
+) {
+  return {
+    code: `pendente:${randomBytes(8).toString("hex")}`,
+    codeHash: await hashAccessCode(code),
+    codeLookup: accessCodeLookup(code),
+    role,
+    location,
+    locationId: details.locationId ?? null,
+    roleId: details.roleId ?? null,
+    active,
+    validFrom: nullableTimestamp(details.validFrom, timestamp) ?? null,
+    expiresAt: nullableTimestamp(details.expiresAt, timestamp) ?? null,
+    maxLogins: details.maxLogins ?? null,
+    maxBookings: details.maxBookings ?? null
+  };
+}
+
+export async function accessCodeUpdates(updates: UpdateAccessCode, timestamp: TimestampValue) {
+  return {
+    // Um novo código troca apenas o hash; o identificador público continua o mesmo
+    codeHash: updates.code !== undefined ? await hashAccessCode(updates.code) : undefined,
+    codeLookup: updates.code !== undefined ? accessCodeLookup(updates.code) : undefined,
+    role: updates.role,
+    location: updates.location,
+    locationId: updates.locationId,
+    roleId: updates.roleId,
+    active: updates.active,
+    validFrom: nullableTimestamp(updates.validFrom, timestamp),
+    expiresAt: nullableTimestamp(updates.expiresAt, timestamp),
+    maxLogins: updates.maxLogins,
+    maxBookings: updates.maxBookings,
+    loginCount: updates.resetUsage ? 0 : undefined,
+    bookingCount: updates.resetUsage ? 0 : undefined
+  };
+}
+
+export function locationValues(location: InsertLocation) {
+  return {
+    name: location.name,
+    type: location.type,
+    address: location.address || null,
+    municipality: location.municipality || null,
+    active: location.active ?? true
+  };
+}
+
+export function locationUpdates(updates: UpdateLocation) {
+  return {
+    name: updates.name,
+    type: updates.type,
+    address: updates.address !== undefined ? updates.address || null : undefined,
+    municipality: updates.municipality !== undefined ? updates.municipality || null : undefined,
+    active: updates.active
+  };
+}
+
+// A senha/PIN usa o mesmo hash com sal dos códigos de acesso
+export async function userAccountValues(account: InsertUserAccount) {
+  return {
+    accessCodeId: account.accessCodeId,
+    name: account.name,
+    registrationNumber: account.registrationNumber,
+    passwordHash: await hashAccessCode(account.password)
+  };
+}
+
+export async function userAccountUpdates(updates: UpdateUserAccount) {
+  return {
+    name: updates.name,
+    passwordHash: updates.password !== undefined ? await hashAccessCode(updates.password) : undefined,
+    active: updates.active
+  };
+}
+
+function validSlots(startTime: string, endTime: string, slotDuration: number, breaks: Availability["breaks"]): string[] {
+  const slots = createTimeSlots(startTime, endTime, slotDuration, breaks);
+  if (slots.length === 0) {
+    throw new Error("A janela de horário não comporta nenhum horário de atendimento");
+  }
+  return slots;
+}
+
+// Disponibilidade nova numa data e os seus horários, que recebem cada um a capacidade informada;
+// a série (se houver) fica a cargo do backend
+export function newAvailability(availability: InsertAvailability, date: string) {
+  const slotDuration = availability.slotDuration ?? SLOT_DURATION_MINUTES;
+  const breaks = availability.breaks ?? [];
+  const slots = validSlots(availability.startTime, availability.endTime, slotDuration, breaks);
+
+  return {
+    values: {
+      date,
+      startTime: availability.startTime,
+      endTime: availability.endTime,
+      capacity: availability.capacity,
+      remainingSlots: availability.capacity * slots.length,
+      createdBy: availability.createdBy,
+      createdByAccountId: availability.createdByAccountId ?? null,
+      slotDuration,
+      breaks,
+      locationId: availability.locationId ?? null,
+      audience: availability.audience ?? null
+    },
+    slots
+  };
+}
+
+// Disponibilidade depois da atualização e os horários regerados a partir dela. remainingSlots é sempre
+// derivado dos horários, então não é aceito como atualização direta
+export function updatedAvailability(current: Availability, updates: Partial<InsertAvailability>) {
+  const values = {
+    date: updates.date !== undefined ? toDateString(updates.date) : current.date,
+    startTime: updates.startTime ?? current.startTime,
+    endTime: updates.endTime ?? current.endTime,
+    capacity: updates.capacity ?? current.capacity,
+    slotDuration: updates.slotDuration ?? current.slotDuration,
+    breaks: updates.breaks ?? current.breaks,
+    audience: (updates.audience !== undefined ? updates.audience : current.audience) ?? null
+  };
+
+  return { values, slots: validSlots(values.startTime, values.endTime, values.slotDuration, values.breaks) };
+}
+
+// Agendamento novo; a disponibilidade e a data vêm da disponibilidade lida pelo backend
+export function newBookingValues(booking: InsertBooking) {
+  return {
+    clientName: booking.clientName,
+    clientDocument: booking.clientDocument || "",
+    clientPhone: booking.clientPhone || "",
+    serviceNumber: booking.serviceNumber || "",
+    timeSlot: booking.timeSlot,
+    comments: booking.comments || "",
+    createdBy: booking.createdBy,
+    createdByAccountId: booking.createdByAccountId ?? null,
+    status: (booking.status || "scheduled") as BookingStatus
+  };
+}
+
+type RescheduledField =
+  "id" | "clientName" | "clientDocument" | "clientPhone" | "serviceNumber" | "comments" | "createdBy" | "createdByAccountId";
+
+// Agendamento criado por uma remarcação, com os dados e o autor do original: quem remarca (o próprio atendente
+// ou o supervisor da região) fica registrado na mudança de status do original e na auditoria. O original é a
+// linha já lida (Postgres) ou as colunas da tabela, para um INSERT … SELECT (SQLite)
+export function rescheduledBookingValues<T extends Record<RescheduledField, unknown>>(
+  original: T,
+  target: RescheduleBooking
+): Pick<T, Exclude<RescheduledField, "id">> & { timeSlot: string; status: "scheduled"; rescheduledFromId: T["id"] } {
+  return {
+    clientName: original.clientName,
+    clientDocument: original.clientDocument,
+    clientPhone: original.clientPhone,
+    serviceNumber: original.serviceNumber,
+    timeSlot: target.timeSlot,
+    comments: original.comments,
+    createdBy: original.createdBy,
+    createdByAccountId: original.createdByAccountId,
+    status: "scheduled",
+    rescheduledFromId: original.id
+  };
+}
+
+// Campos gravados em toda mudança de status; now é o horário atual no formato de cada banco
+export function statusChange<S extends BookingStatus>(status: S, changedBy: Actor, now: SQL<string>, reason?: string | null) {
+  return {
+    status,
+    statusReason: reason,
+    statusChangedBy: changedBy.code,
+    statusChangedByAccountId: changedBy.accountId,
+    statusChangedAt: now
+  };
+}
+
+// Check-in, conclusão ou não comparecimento; a conclusão pode informar o horário em que aconteceu
+export function visitOutcomeChange(outcome: VisitOutcome, changedBy: Actor, now: SQL<string>, timestamp: TimestampValue) {
+  return {
+    ...statusChange(outcome.status, changedBy, now),
+    checkedInAt: outcome.status === "checked_in" ? now : undefined,
+    completedAt: outcome.status === "completed"
+      ? outcome.completedAt !== undefined ? timestamp(outcome.completedAt) : now
+      : undefined,
+    technicianNotes: outcome.technicianNotes || undefined
+  };
+}
+
+// Conflito de uma transição que o banco recusou, conforme o status atual do agendamento
+export function transitionConflict(existing: Booking, to: BookingStatus): BookingConflictError {
+  switch (to) {
+    case "checked_in":
+    case "completed":
+    case "no_show":
+      return new BookingConflictError(`Não é possível passar de "${existing.status}" para "${to}"`);
+    case "rescheduled":
+      // Se o original ainda podia ser remarcado, o que faltou foi vaga no horário de destino
+      return new BookingConflictError(
+        statusesAllowedBefore(to).includes(existing.status) ? SLOT_UNAVAILABLE : BOOKING_NOT_ACTIVE
+      );
+    default:
+      return new BookingConflictError(BOOKING_NOT_ACTIVE);
+  }
+}
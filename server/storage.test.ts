@@ -0,0 +1,462 @@
+import { describe, test, beforeEach, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import type { InsertAvailability, InsertBooking } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { createLibsqlClient } from "./turso-db";
+import { TursoStorage } from "./turso-storage";
+import { PostgresStorage } from "./pg-storage";
+import { BookingConflictError } from "./errors";
+
+// Contrato do IStorage: os mesmos testes rodam contra cada backend, sempre num banco novo por teste.
+// Um backend novo só precisa entrar na lista abaixo
+const tmpDir = mkdtempSync(path.join(tmpdir(), "storage-contract-"));
+let databases = 0;
+
+// O PGlite leva segundos para iniciar, então os testes do Postgres dividem uma instância e recriam o esquema
+let pglite: PGlite | undefined;
+
+const backends: { name: string; create: () => IStorage | Promise<IStorage> }[] = [
+  {
+    name: "sqlite",
+    create: () => new TursoStorage(createLibsqlClient({ driver: "sqlite", path: path.join(tmpDir, `test-${++databases}.db`) })),
+  },
+  { name: "memory", create: () => new TursoStorage(createLibsqlClient({ driver: "memory" })) },
+  // Postgres embutido (PGlite), com as mesmas consultas que o pool do Neon executa
+  {
+    name: "postgres",
+    create: async () => {
+      pglite ??= new PGlite();
+      await pglite.exec("DROP SCHEMA public CASCADE; CREATE SCHEMA public;");
+      return new PostgresStorage(drizzle(pglite));
+    },
+  },
+];
+
+after(async () => {
+  rmSync(tmpDir, { recursive: true, force: true });
+  await pglite?.close();
+});
+
+const actor = { code: "EMB#0099", accountId: null };
+
+function availability(overrides: Partial<InsertAvailability> = {}): InsertAvailability {
+  return {
+    date: "2030-03-11",
+    startTime: "08:00",
+    endTime: "10:00",
+    capacity: 2,
+    remainingSlots: 0,
+    createdBy: actor.code,
+    slotDuration: 60,
+    ...overrides,
+  };
+}
+
+function booking(availabilityId: number, overrides: Partial<InsertBooking> = {}): InsertBooking {
+  return {
+    availabilityId,
+    clientName: "Cliente",
+    serviceNumber: "SS-1",
+    timeSlot: "08:00",
+    createdBy: "SAC#0098",
+    ...overrides,
+  };
+}
+
+for (const backend of backends) {
+  describe(`IStorage contract (${backend.name})`, () => {
+    let storage: IStorage;
+
+    beforeEach(async () => {
+      storage = await backend.create();
+      await storage.initialize();
+    });
+
+    test("access codes are created, found, updated and deleted", async () => {
+      const created = await storage.createAccessCode({ code: "SECRET-SAC-1", role: "sac", location: "SAC Cabula" });
+      assert.match(created.code, /^SAC#\d{4}$/);
+      assert.equal(created.active, true);
+      assert.equal(created.loginCount, 0);
+      assert.ok(!("codeHash" in created) && !("codeLookup" in created));
+
+      assert.deepEqual(await storage.getAccessCode(created.code), created);
+      assert.deepEqual(await storage.findAccessCodeBySecret("SECRET-SAC-1"), created);
+      assert.equal(await storage.findAccessCodeBySecret("SECRET-SAC-2"), undefined);
+      assert.ok((await storage.listAccessCodes()).some(code => code.id === created.id));
+
+      // Trocar o código troca só o segredo; o identificador público continua o mesmo
+      const updated = await storage.updateAccessCode(created.id, { code: "SECRET-SAC-2", location: "SAC Barra" });
+      assert.equal(updated?.code, created.code);
+      assert.equal(updated?.location, "SAC Barra");
+      assert.equal(await storage.findAccessCodeBySecret("SECRET-SAC-1"), undefined);
+      assert.equal((await storage.findAccessCodeBySecret("SECRET-SAC-2"))?.id, created.id);
+
+      await storage.updateAccessCode(created.id, { active: false });
+      assert.equal(await storage.getAccessCode(created.code), undefined);
+
+      assert.equal(await storage.updateAccessCode(9999, { active: true }), undefined);
+      assert.equal(await storage.deleteAccessCode(created.id), true);
+      assert.equal(await storage.deleteAccessCode(created.id), false);
+      assert.equal((await storage.listAccessCodes()).some(code => code.id === created.id), false);
+    });
+
+    test("the default admin is only seeded into a database without admin codes", async () => {
+      const admin = await storage.findAccessCodeBySecret("ADM123456");
+      assert.ok(admin);
+      assert.equal(admin.role, "admin");
+
+      // Com o código trocado, reinicializar não traz o código conhecido de volta
+      await storage.updateAccessCode(admin.id, { code: "ROTATED-ADMIN-1" });
+      await storage.initialize();
+      assert.equal(await storage.findAccessCodeBySecret("ADM123456"), undefined);
+      assert.equal((await storage.listAccessCodes()).filter(code => code.role === "admin").length, 1);
+
+      // Nem com o único admin desativado
+      await storage.updateAccessCode(admin.id, { active: false });
+      await storage.initialize();
+      assert.equal(await storage.findAccessCodeBySecret("ADM123456"), undefined);
+    });
+
+    test("access code batches get sequential public codes and login limits are enforced", async () => {
+      const [embasa, sac] = await storage.createAccessCodes([
+        { code: "SECRET-EMB", role: "embasa", location: "Sede" },
+        { code: "SECRET-SAC", role: "sac", location: "SAC Cabula", maxLogins: 1 },
+      ]);
+      assert.match(embasa.code, /^EMB#\d{4}$/);
+      assert.equal(sac.id, embasa.id + 1);
+      assert.equal(sac.code, `SAC#${String(sac.id).padStart(4, "0")}`);
+
+      assert.equal(await storage.recordAccessCodeLogin(sac.id), true);
+      assert.equal(await storage.recordAccessCodeLogin(sac.id), false);
+      assert.equal(await storage.recordAccessCodeLogin(embasa.id), true);
+    });
+
+    test("getAvailabilitiesByMonth returns only the requested month, ordered by date and time", async () => {
+      await storage.createAvailability(availability({ date: "2030-02-28" }));
+      await storage.createAvailability(availability({ date: "2030-03-31", startTime: "14:00", endTime: "15:00" }));
+      await storage.createAvailability(availability({ date: "2030-03-31", startTime: "08:00", endTime: "09:00" }));
+      await storage.createAvailability(availability({ date: "2030-03-01" }));
+      await storage.createAvailability(availability({ date: "2030-04-01" }));
+      await storage.createAvailability(availability({ date: "2031-03-15" }));
+
+      const march = await storage.getAvailabilitiesByMonth(2030, 3);
+      assert.deepEqual(
+        march.map(item => [item.date, item.startTime]),
+        [["2030-03-01", "08:00"], ["2030-03-31", "08:00"], ["2030-03-31", "14:00"]],
+      );
+
+      assert.deepEqual((await storage.getAvailabilitiesByMonth(2030, 2)).map(item => item.date), ["2030-02-28"]);
+      assert.deepEqual(await storage.getAvailabilitiesByMonth(2030, 5), []);
+    });
+
+    test("availabilities and time slots are listed in date and time order", async () => {
+      const late = await storage.createAvailability(availability({ date: "2030-03-12", startTime: "13:00", endTime: "15:00" }));
+      const early = await storage.createAvailability(availability({ date: "2030-03-12", startTime: "08:00", endTime: "09:00" }));
+      const first = await storage.createAvailability(availability({ date: "2030-03-10" }));
+
+      assert.deepEqual((await storage.listAvailabilities()).map(item => item.id), [first.id, early.id, late.id]);
+      assert.deepEqual(
+        (await storage.listTimeSlots([late.id, first.id])).map(slot => [slot.availabilityId, slot.startTime]),
+        [[late.id, "13:00"], [late.id, "14:00"], [first.id, "08:00"], [first.id, "09:00"]],
+      );
+      assert.deepEqual(await storage.listTimeSlots([]), []);
+    });
+
+    test("availability capacity is the per-slot capacity times the number of slots", async () => {
+      const created = await storage.createAvailability(availability({
+        startTime: "08:00",
+        endTime: "12:00",
+        capacity: 3,
+        slotDuration: 30,
+        breaks: [{ start: "10:00", end: "11:00" }],
+      }));
+
+      const slots = await storage.listTimeSlots([created.id]);
+      assert.deepEqual(slots.map(slot => slot.startTime), ["08:00", "08:30", "09:00", "09:30", "11:00", "11:30"]);
+      assert.ok(slots.every(slot => slot.capacity === 3 && slot.remainingSlots === 3));
+      assert.equal(created.remainingSlots, 18);
+      assert.equal(created.date, "2030-03-11");
+
+      await assert.rejects(storage.createAvailability(availability({ startTime: "08:00", endTime: "08:30" })));
+    });
+
+    test("bookings take a slot until it is full and cancelling gives it back", async () => {
+      const created = await storage.createAvailability(availability({ capacity: 2 }));
+
+      const first = await storage.createBooking(booking(created.id, { clientName: "Primeiro" }));
+      await storage.createBooking(booking(created.id, { clientName: "Segundo" }));
+      await assert.rejects(storage.createBooking(booking(created.id)), BookingConflictError);
+      await assert.rejects(storage.createBooking(booking(9999)), (error: Error) => !(error instanceof BookingConflictError));
+
+      assert.equal(first.status, "scheduled");
+      assert.equal(first.date, created.date);
+      assert.deepEqual(
+        (await storage.listTimeSlots([created.id])).map(slot => [slot.startTime, slot.remainingSlots]),
+        [["08:00", 0], ["09:00", 2]],
+      );
+      assert.equal((await storage.getAvailability(created.id))?.remainingSlots, 2);
+
+      const cancelled = await storage.cancelBooking(first.id, actor, "Cliente desistiu");
+      assert.equal(cancelled?.status, "cancelled");
+      assert.equal(cancelled?.statusReason, "Cliente desistiu");
+      assert.equal(cancelled?.statusChangedBy, actor.code);
+      assert.equal((await storage.getAvailability(created.id))?.remainingSlots, 3);
+
+      // Cancelar de novo não devolve a vaga outra vez
+      await assert.rejects(storage.cancelBooking(first.id, actor, "De novo"), BookingConflictError);
+      assert.equal((await storage.getAvailability(created.id))?.remainingSlots, 3);
+      assert.equal(await storage.cancelBooking(9999, actor, "Inexistente"), undefined);
+    });
+
+    test("rescheduling moves the booking to the new slot and frees the old one", async () => {
+      const created = await storage.createAvailability(availability({ capacity: 1 }));
+      const original = await storage.createBooking(booking(created.id, { clientName: "Maria", comments: "Portão azul" }));
+
+      const moved = await storage.rescheduleBooking(original.id, actor, { availabilityId: created.id, timeSlot: "09:00", reason: "Pedido do cliente" });
+      assert.equal(moved?.timeSlot, "09:00");
+      assert.equal(moved?.clientName, "Maria");
+      assert.equal(moved?.comments, "Portão azul");
+      assert.equal(moved?.rescheduledFromId, original.id);
+      assert.equal((await storage.getBooking(original.id))?.status, "rescheduled");
+      assert.deepEqual(
+        (await storage.listTimeSlots([created.id])).map(slot => [slot.startTime, slot.remainingSlots]),
+        [["08:00", 1], ["09:00", 0]],
+      );
+
+      // O horário de destino lotado não altera nada
+      const other = await storage.createBooking(booking(created.id, { timeSlot: "08:00" }));
+      await assert.rejects(
+        storage.rescheduleBooking(other.id, actor, { availabilityId: created.id, timeSlot: "09:00" }),
+        BookingConflictError,
+      );
+      assert.equal((await storage.getBooking(other.id))?.status, "scheduled");
+      assert.equal((await storage.getAvailability(created.id))?.remainingSlots, 0);
+    });
+
+    test("a supervisor reschedule keeps the attendant as the author of the new booking", async () => {
+      const [sac, supervisor] = await storage.createAccessCodes([
+        { code: "SECRET-SAC", role: "sac", location: "SAC Cabula" },
+        { code: "SECRET-SUP", role: "supervisor", location: "SAC Cabula" },
+      ]);
+      const attendant = await storage.createUserAccount({ accessCodeId: sac.id, name: "Ana", registrationNumber: "1001", password: "1234" });
+      const lead = await storage.createUserAccount({ accessCodeId: supervisor.id, name: "Bia", registrationNumber: "2001", password: "1234" });
+      const created = await storage.createAvailability(availability());
+      const original = await storage.createBooking(booking(created.id, { createdBy: sac.code, createdByAccountId: attendant.id }));
+
+      const moved = await storage.rescheduleBooking(original.id, { code: supervisor.code, accountId: lead.id }, { availabilityId: created.id, timeSlot: "09:00" });
+      assert.equal(moved?.createdBy, sac.code);
+      assert.equal(moved?.createdByAccountId, attendant.id);
+
+      // Quem remarcou fica na mudança de status do original
+      const rescheduled = await storage.getBooking(original.id);
+      assert.equal(rescheduled?.statusChangedBy, supervisor.code);
+      assert.equal(rescheduled?.statusChangedByAccountId, lead.id);
+    });
+
+    test("visit outcomes follow the allowed status transitions", async () => {
+      const created = await storage.createAvailability(availability());
+      const scheduled = await storage.createBooking(booking(created.id));
+
+      const checkedIn = await storage.recordVisitOutcome(scheduled.id, actor, { status: "checked_in" });
+      assert.equal(checkedIn?.status, "checked_in");
+      assert.ok(checkedIn?.checkedInAt);
+
+      const completed = await storage.recordVisitOutcome(scheduled.id, actor, { status: "completed", technicianNotes: "Hidrômetro trocado" });
+      assert.equal(completed?.status, "completed");
+      assert.ok(completed?.completedAt);
+      assert.equal(completed?.technicianNotes, "Hidrômetro trocado");
+
+      await assert.rejects(storage.recordVisitOutcome(scheduled.id, actor, { status: "no_show" }), BookingConflictError);
+      await assert.rejects(storage.cancelBooking(scheduled.id, actor, "Tarde demais"), BookingConflictError);
+      assert.equal(await storage.recordVisitOutcome(9999, actor, { status: "no_show" }), undefined);
+    });
+
+    test("availabilities with active bookings are only deleted together with a cancellation", async () => {
+      const created = await storage.createAvailability(availability());
+      const active = await storage.createBooking(booking(created.id));
+
+      await assert.rejects(storage.deleteAvailability(created.id), BookingConflictError);
+      assert.ok(await storage.getAvailability(created.id));
+
+      assert.equal(await storage.deleteAvailability(created.id, { changedBy: actor, reason: "Unidade fechada" }), true);
+      assert.equal(await storage.getAvailability(created.id), undefined);
+      assert.deepEqual(await storage.listTimeSlots([created.id]), []);
+      assert.equal((await storage.getBooking(active.id))?.status, "cancelled_by_embasa");
+      assert.equal(await storage.deleteAvailability(created.id), false);
+    });
+
+    test("a checked-in visit blocks the delete without cancelling the other bookings", async () => {
+      const created = await storage.createAvailability(availability());
+      const scheduled = await storage.createBooking(booking(created.id));
+      const visiting = await storage.createBooking(booking(created.id, { serviceNumber: "SS-2", timeSlot: "09:00" }));
+      await storage.recordVisitOutcome(visiting.id, actor, { status: "checked_in" });
+
+      await assert.rejects(
+        storage.deleteAvailability(created.id, { changedBy: actor, reason: "Unidade fechada" }),
+        BookingConflictError
+      );
+      assert.ok(await storage.getAvailability(created.id));
+      assert.equal((await storage.listTimeSlots([created.id])).length, 2);
+      assert.equal((await storage.getBooking(scheduled.id))?.status, "scheduled");
+      assert.equal((await storage.getBooking(visiting.id))?.status, "checked_in");
+    });
+
+    test("bookings for the availability owner are ordered by date and time slot", async () => {
+      const later = await storage.createAvailability(availability({ date: "2030-03-12" }));
+      const earlier = await storage.createAvailability(availability({ date: "2030-03-11" }));
+      await storage.createAvailability(availability({ date: "2030-03-11", createdBy: "EMB#0077" }));
+
+      await storage.createBooking(booking(later.id, { clientName: "C", timeSlot: "08:00" }));
+      await storage.createBooking(booking(earlier.id, { clientName: "B", timeSlot: "09:00" }));
+      await storage.createBooking(booking(earlier.id, { clientName: "A", timeSlot: "08:00" }));
+
+      const all = await storage.listBookingsForAvailabilityOwner(actor.code, {});
+      assert.deepEqual(all.map(item => item.clientName), ["A", "B", "C"]);
+
+      const day = await storage.listBookingsForAvailabilityOwner(actor.code, { date: "2030-03-12" });
+      assert.deepEqual(day.map(item => item.clientName), ["C"]);
+      assert.deepEqual(await storage.listBookingsForAvailabilityOwner("EMB#0077", {}), []);
+    });
+
+    test("blackout dates are listed in date order within an inclusive range", async () => {
+      await storage.createBlackoutDate({ date: "2030-07-20", name: "Fechamento", type: "closure" });
+      await storage.createBlackoutDate({ date: "2030-07-02", name: "Independência da Bahia", type: "state" });
+      const last = await storage.createBlackoutDate({ date: "2030-07-31", name: "Inventário", type: "closure" });
+
+      const july = await storage.listBlackoutDates("2030-07-02", "2030-07-31");
+      assert.deepEqual(july.map(item => [item.date, item.type]), [
+        ["2030-07-02", "state"],
+        ["2030-07-20", "closure"],
+        ["2030-07-31", "closure"],
+      ]);
+
+      assert.equal(await storage.deleteBlackoutDate(last.id), true);
+      assert.equal(await storage.deleteBlackoutDate(last.id), false);
+      assert.deepEqual((await storage.listBlackoutDates("2030-07-21", "2030-07-31")), []);
+    });
+
+    test("holidays are imported once, with the municipal ones limited to Salvador", async () => {
+      const imported = await storage.importHolidays(2030);
+      assert.ok(imported > 0);
+      assert.equal(await storage.importHolidays(2030), 0);
+
+      const holidays = await storage.listBlackoutDates("2030-01-01", "2030-12-31");
+      assert.equal(holidays.length, imported);
+      assert.deepEqual(
+        holidays.filter(item => item.type === "municipal").map(item => [item.date, item.name, item.location]),
+        [
+          ["2030-06-20", "Corpus Christi", "Salvador"],
+          ["2030-06-24", "São João", "Salvador"],
+          ["2030-12-08", "Nossa Senhora da Conceição da Praia", "Salvador"],
+        ]
+      );
+      assert.ok(holidays.filter(item => item.type !== "municipal").every(item => item.location === null));
+      assert.equal(holidays.find(item => item.name === "Paixão de Cristo")?.date, "2030-04-19");
+    });
+
+    test("sessions end with their access code and failed logins are counted within the window", async () => {
+      const code = await storage.createAccessCode({ code: "SECRET-SESSION", role: "sac", location: "SAC Cabula" });
+      const session = await storage.createSession({ tokenHash: "hash-1", accessCodeId: code.id, ip: "10.0.0.1" });
+      assert.match(session.expiresAt, /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/);
+      assert.ok(Date.parse(`${session.expiresAt.replace(" ", "T")}Z`) > Date.now());
+      assert.equal((await storage.getActiveSession("hash-1"))?.session.id, session.id);
+      assert.deepEqual((await storage.listActiveSessions(code.id)).map(item => item.id), [session.id]);
+
+      // A validade chega em ISO 8601 e é gravada em UTC; o código vencido derruba a sessão
+      const expired = await storage.updateAccessCode(code.id, { expiresAt: "2020-01-01T00:00:00-03:00" });
+      assert.equal(expired?.expiresAt, "2020-01-01 03:00:00");
+      assert.equal(await storage.getActiveSession("hash-1"), undefined);
+      assert.deepEqual(await storage.deactivateExpiredAccessCodes(), [code.id]);
+      assert.equal(await storage.revokeSessionsForAccessCode(code.id), 1);
+      assert.equal(await storage.revokeSession(session.id), false);
+
+      const attempt = { ip: "10.0.0.1", codeLookup: "abcd", accessCodeId: null, reason: "invalid_code", userAgent: null };
+      await storage.recordLoginAttempt({ ...attempt, success: false });
+      await storage.recordLoginAttempt({ ...attempt, success: false });
+      await storage.recordLoginAttempt({ ...attempt, success: true, reason: null });
+      assert.equal(await storage.countFailedLoginAttempts({ ip: "10.0.0.1" }, 15), 2);
+      assert.equal(await storage.countFailedLoginAttempts({ codeLookup: "abcd" }, 15), 2);
+      assert.equal(await storage.countFailedLoginAttempts({ ip: "10.0.0.2" }, 15), 0);
+      assert.equal((await storage.listFailedLoginAttempts(10)).length, 2);
+    });
+
+    test("access codes without a role use the builtin role of their base role", async () => {
+      const builtin = (await storage.listRoles()).find(role => role.builtin && role.baseRole === "supervisor");
+      assert.ok(builtin);
+      assert.ok(builtin.permissions.includes("booking:reschedule:region"));
+      const custom = await storage.createRole({ name: "Supervisor sem remarcação", baseRole: "supervisor", permissions: ["booking:view:region"] });
+
+      const [plain, withRole] = await storage.createAccessCodes([
+        { code: "SECRET-SUP-1", role: "supervisor", location: "SAC Cabula" },
+        { code: "SECRET-SUP-2", role: "supervisor", location: "SAC Cabula", roleId: custom.id },
+      ]);
+      assert.equal((await storage.getAccessCodeRole(plain))?.id, builtin.id);
+      assert.equal((await storage.getAccessCodeRole(withRole))?.id, custom.id);
+
+      const usage = new Map((await storage.listRoles()).map(role => [role.id, role.accessCodeCount]));
+      assert.equal(usage.get(builtin.id), 1);
+      assert.equal(usage.get(custom.id), 1);
+
+      assert.equal(await storage.deleteRole(builtin.id), false);
+      assert.equal(await storage.deleteRole(custom.id), true);
+      assert.equal((await storage.listAccessCodes()).find(code => code.id === withRole.id)?.roleId, null);
+    });
+
+    test("renaming a location renames it in its access codes and closures", async () => {
+      const location = await storage.createLocation({ name: "SAC Cabula", type: "sac", municipality: "Salvador" });
+      const code = await storage.createAccessCode({ code: "SECRET-LOC", role: "sac", location: location.name, locationId: location.id });
+      await storage.createBlackoutDate({ date: "2030-08-01", name: "Reforma", type: "closure", location: location.name });
+
+      const renamed = await storage.updateLocation(location.id, { name: "SAC Cabula Shopping" });
+      assert.equal(renamed?.name, "SAC Cabula Shopping");
+      assert.equal(renamed?.municipality, "Salvador");
+      assert.equal((await storage.getAccessCode(code.code))?.location, "SAC Cabula Shopping");
+      assert.deepEqual((await storage.listBlackoutDates("2030-08-01", "2030-08-01")).map(item => item.location), ["SAC Cabula Shopping"]);
+      assert.equal((await storage.listLocations()).find(item => item.id === location.id)?.accessCodeCount, 1);
+      assert.deepEqual((await storage.listSacAccessCodesInRegion(location.id)).map(item => item.id), [code.id]);
+      assert.equal(await storage.updateLocation(9999, { name: "Inexistente" }), undefined);
+    });
+
+    test("availability series share an id and updates keep the booked seats", async () => {
+      const series = await storage.createAvailabilitySeries(availability(), { daysOfWeek: [1, 3], interval: 1, count: 4, exceptions: [] });
+      assert.deepEqual(series.map(item => item.date), ["2030-03-11", "2030-03-13", "2030-03-18", "2030-03-20"]);
+      const seriesId = series[0].seriesId;
+      assert.ok(seriesId !== null && series.every(item => item.seriesId === seriesId));
+      assert.deepEqual((await storage.listAvailabilitiesBySeries(seriesId)).map(item => item.id), series.map(item => item.id));
+      assert.equal((await storage.listTimeSlots(series.map(item => item.id))).length, 8);
+
+      await storage.createBooking(booking(series[0].id));
+      const updated = await storage.updateAvailability(series[0].id, { endTime: "11:00", capacity: 3 });
+      assert.equal(updated?.remainingSlots, 8);
+      assert.deepEqual(
+        (await storage.listTimeSlots([series[0].id])).map(slot => [slot.startTime, slot.remainingSlots]),
+        [["08:00", 2], ["09:00", 3], ["10:00", 3]],
+      );
+    });
+
+    test("audit events are filtered by actor, entity and day", async () => {
+      const event = await storage.recordAuditEvent({
+        actorCode: actor.code,
+        actorAccountId: null,
+        actorRole: "embasa",
+        action: "update",
+        entityType: "availability",
+        entityId: 7,
+        changes: { capacity: { before: 2, after: 3 } },
+        ip: null,
+      });
+      assert.deepEqual(event.changes, { capacity: { before: 2, after: 3 } });
+
+      const today = event.createdAt.slice(0, 10);
+      const found = await storage.listAuditEvents({ actor: actor.code, entityType: "availability", entityId: 7, from: today, to: today, limit: 10 });
+      assert.deepEqual(found.map(item => item.id), [event.id]);
+      assert.deepEqual(await storage.listAuditEvents({ to: "2020-01-01", limit: 10 }), []);
+      assert.deepEqual(await storage.listAuditEvents({ entityType: "booking", limit: 10 }), []);
+    });
+  });
+}
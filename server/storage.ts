@@ -1,36 +1,135 @@
 import { 
-  AccessCode, InsertAccessCode, 
-  Availability, InsertAvailability, 
-  Booking, InsertBooking
+  AccessCode, InsertAccessCode, UpdateAccessCode,
+  Availability, InsertAvailability, TimeSlot,
+  Booking, InsertBooking, RescheduleBooking, RecurrenceRule,
+  BlackoutDate, InsertBlackoutDate,
+  BookingWithSacLocation, EmbasaBookingsQuery, VisitOutcome, SupervisedBooking, SupervisorBookingsQuery,
+  InsertLoginAttempt, FailedLoginAttempt, AuditEvent, InsertAuditEvent, AuditEventsQuery, Session, InsertSession, ActiveSession, Actor,
+  UserAccount, InsertUserAccount, UpdateUserAccount, UserAccountWithAccessCode,
+  Location, InsertLocation, UpdateLocation, LocationWithUsage,
+  Role, InsertRole, UpdateRole, RoleWithUsage
 } from "@shared/schema";
 
 // Interface for storage operations
 export interface IStorage {
-  // Access Code operations
+  // Cria ou atualiza as tabelas e os dados iniciais; chamado uma vez na inicialização do servidor
+  initialize(): Promise<void>;
+
+  // Access Code operations ("code" é o identificador público; o código digitado no login só é comparado com o hash)
   getAccessCode(code: string): Promise<AccessCode | undefined>;
+  // Busca pelo código digitado, inclusive inativos
+  findAccessCodeBySecret(secret: string): Promise<AccessCode | undefined>;
   createAccessCode(accessCode: InsertAccessCode): Promise<AccessCode>;
+  // Cria vários códigos numa única transação, na ordem recebida
+  createAccessCodes(accessCodes: InsertAccessCode[]): Promise<AccessCode[]>;
   listAccessCodes(): Promise<AccessCode[]>;
-  updateAccessCode(id: number, updates: Partial<InsertAccessCode>): Promise<AccessCode | undefined>;
+  updateAccessCode(id: number, updates: UpdateAccessCode): Promise<AccessCode | undefined>;
   deleteAccessCode(id: number): Promise<boolean>;
+  // Conta um login; falha (false) se o limite de logins do código já foi atingido
+  recordAccessCodeLogin(id: number): Promise<boolean>;
+  // Desativa os códigos expirados ou que esgotaram os agendamentos e retorna os ids desativados
+  deactivateExpiredAccessCodes(): Promise<number[]>;
+  // Códigos SAC da região da unidade informada: a própria unidade e as do mesmo município
+  listSacAccessCodesInRegion(locationId: number): Promise<AccessCode[]>;
+  
+  // Role operations (os perfis padrão de cada papel não podem ser removidos)
+  getRole(id: number): Promise<Role | undefined>;
+  // Perfil efetivo do código: o perfil próprio ou, se não tiver, o perfil padrão do papel
+  getAccessCodeRole(accessCode: Pick<AccessCode, "role" | "roleId">): Promise<Role | undefined>;
+  listRoles(): Promise<RoleWithUsage[]>;
+  createRole(role: InsertRole): Promise<Role>;
+  updateRole(id: number, updates: UpdateRole): Promise<Role | undefined>;
+  // Os códigos que usavam o perfil voltam para o perfil padrão do papel
+  deleteRole(id: number): Promise<boolean>;
+  
+  // Location operations (unidades não são removidas, apenas desativadas)
+  getLocation(id: number): Promise<Location | undefined>;
+  listLocations(): Promise<LocationWithUsage[]>;
+  createLocation(location: InsertLocation): Promise<Location>;
+  // Renomear a unidade atualiza o nome gravado nos códigos de acesso e nos fechamentos do calendário
+  updateLocation(id: number, updates: UpdateLocation): Promise<Location | undefined>;
+  
+  // User account operations (contas pessoais herdam perfil e localidade do código de acesso vinculado)
+  getUserAccount(id: number): Promise<UserAccount | undefined>;
+  // Busca pela matrícula e confere a senha/PIN, inclusive contas ou códigos inativos
+  findUserAccountByCredentials(registrationNumber: string, password: string): Promise<{ account: UserAccount; accessCode: AccessCode } | undefined>;
+  listUserAccounts(): Promise<UserAccountWithAccessCode[]>;
+  createUserAccount(account: InsertUserAccount): Promise<UserAccount>;
+  updateUserAccount(id: number, updates: UpdateUserAccount): Promise<UserAccount | undefined>;
+  deleteUserAccount(id: number): Promise<boolean>;
+  
+  // Session operations
+  createSession(session: InsertSession): Promise<Session>;
+  // Sessão não revogada e não expirada cujo código de acesso (e conta pessoal, se houver) ainda está ativo
+  getActiveSession(tokenHash: string): Promise<ActiveSession | undefined>;
+  listActiveSessions(accessCodeId: number): Promise<Session[]>;
+  revokeSession(id: number): Promise<boolean>;
+  // Encerra todas as sessões do código e retorna quantas estavam abertas
+  revokeSessionsForAccessCode(accessCodeId: number): Promise<number>;
+  revokeSessionsForUserAccount(userAccountId: number): Promise<number>;
+  
+  // Login attempt operations (janela em minutos a partir de agora)
+  recordLoginAttempt(attempt: InsertLoginAttempt): Promise<void>;
+  countFailedLoginAttempts(filter: { ip?: string; codeLookup?: string }, windowMinutes: number): Promise<number>;
+  listFailedLoginAttempts(limit: number): Promise<FailedLoginAttempt[]>;
+  
+  // Audit trail operations (somente inserção; eventos mais recentes primeiro)
+  recordAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  listAuditEvents(query: AuditEventsQuery): Promise<AuditEvent[]>;
   
   // Availability operations
   getAvailability(id: number): Promise<Availability | undefined>;
   createAvailability(availability: InsertAvailability): Promise<Availability>;
+  // Cria a série e uma disponibilidade para cada data gerada pela regra a partir de availability.date
+  createAvailabilitySeries(availability: InsertAvailability, rule: RecurrenceRule): Promise<Availability[]>;
+  listAvailabilitiesBySeries(seriesId: number): Promise<Availability[]>;
   listAvailabilities(): Promise<Availability[]>;
   getAvailabilitiesByMonth(year: number, month: number): Promise<Availability[]>;
   updateAvailability(id: number, updates: Partial<InsertAvailability>): Promise<Availability | undefined>;
-  deleteAvailability(id: number): Promise<boolean>;
+  // Recusa (BookingConflictError) se houver agendamentos ativos, a menos que um cancelamento seja informado
+  deleteAvailability(id: number, cancellation?: { changedBy: Actor; reason: string }): Promise<boolean>;
+  listTimeSlots(availabilityIds: number[]): Promise<TimeSlot[]>;
+  
+  // Blackout calendar operations (datas no formato AAAA-MM-DD, intervalo inclusivo)
+  listBlackoutDates(from?: string, to?: string): Promise<BlackoutDate[]>;
+  createBlackoutDate(blackoutDate: InsertBlackoutDate): Promise<BlackoutDate>;
+  deleteBlackoutDate(id: number): Promise<boolean>;
+  // Carrega os feriados do ano e retorna quantos foram adicionados
+  importHolidays(year: number): Promise<number>;
   
   // Booking operations
   getBooking(id: number): Promise<Booking | undefined>;
   createBooking(booking: InsertBooking): Promise<Booking>;
   listBookingsByUser(createdBy: string): Promise<Booking[]>;
   listBookingsByAvailability(availabilityId: number): Promise<Booking[]>;
-  updateBookingStatus(id: number, status: string): Promise<Booking | undefined>;
+  // Agendamentos feitos nas disponibilidades criadas pelo código EMBASA informado
+  listBookingsForAvailabilityOwner(createdBy: string, query: EmbasaBookingsQuery): Promise<BookingWithSacLocation[]>;
+  // Agendamentos feitos pelos códigos SAC informados, pela data da visita
+  listBookingsByCreators(createdBy: string[], query: SupervisorBookingsQuery): Promise<SupervisedBooking[]>;
+  // Passa um agendamento ainda ativo para outro código SAC; BookingConflictError se ele não estiver mais ativo
+  reassignBooking(id: number, accessCode: AccessCode): Promise<Booking | undefined>;
+  // Registra check-in, conclusão ou não comparecimento; BookingConflictError se a transição não for permitida
+  recordVisitOutcome(id: number, changedBy: Actor, outcome: VisitOutcome): Promise<Booking | undefined>;
+  // Cancela um agendamento ainda não atendido e devolve a vaga à disponibilidade
+  cancelBooking(id: number, changedBy: Actor, reason: string): Promise<Booking | undefined>;
+  // Marca o agendamento como remarcado e cria um novo na disponibilidade/horário de destino
+  rescheduleBooking(id: number, changedBy: Actor, target: RescheduleBooking): Promise<Booking | undefined>;
 }
 
-// Importar a implementação TursoStorage
+// Implementações disponíveis
 import { TursoStorage } from './turso-storage';
+import { PostgresStorage } from './pg-storage';
+import { createLibsqlClient } from './turso-db';
+import { createPostgresDb } from './pg-db';
+import { resolveStorageConfig, type StorageConfig } from './storage-config';
+
+// Cria o armazenamento do backend configurado (Turso, SQLite local, memória ou Postgres)
+export function createStorage(config: StorageConfig): IStorage {
+  return config.driver === "postgres"
+    ? new PostgresStorage(createPostgresDb(config.url))
+    : new TursoStorage(createLibsqlClient(config));
+}
 
-// ALTERAR ESTA LINHA: Em vez de usar o MemStorage, usamos o TursoStorage para persistência em banco de dados
-export const storage = new TursoStorage();
+// Backend escolhido pelas variáveis de ambiente; configuração inválida interrompe a inicialização
+export const storageConfig = resolveStorageConfig();
+export const storage = createStorage(storageConfig);
@@ -0,0 +1,62 @@
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Permission, UserRole } from "@shared/schema";
+import { SESSION_COOKIE } from "./sessions";
+
+// Harness HTTP dos testes de rotas: o servidor sobe numa porta livre do 127.0.0.1 e as requisições são
+// feitas com fetch. O corpo da resposta tem o tipo que o teste espera da rota (unknown se não informado)
+
+export type ApiResponse<T = unknown> = { status: number; body: T; cookie?: string };
+
+// session é o cookie de sessão ("session=<token>"); ip chega pelo X-Forwarded-For, como atrás de um proxy
+export type ApiOptions = { ip?: string; session?: string; body?: unknown };
+
+export type Api = <T = unknown>(method: string, path: string, options?: ApiOptions) => Promise<ApiResponse<T>>;
+
+// Respostas de erro e de login das rotas
+export type ErrorBody = { message: string };
+export type LoginBody = {
+  user: {
+    id: number;
+    code: string;
+    role: UserRole;
+    roleId: number | null;
+    permissions: Permission[];
+    locationId: number | null;
+    account: { id: number; name: string; registrationNumber: string } | null;
+  };
+};
+
+export async function serve(server: Server): Promise<Api> {
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return async <T = unknown>(method: string, path: string, options: ApiOptions = {}): Promise<ApiResponse<T>> => {
+    const headers: Record<string, string> = {};
+    if (options.ip) {
+      headers["X-Forwarded-For"] = options.ip;
+    }
+    if (options.body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+    if (options.session) {
+      headers.Cookie = options.session;
+    }
+
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    });
+    const text = await response.text();
+    const cookie = response.headers.getSetCookie().find(value => value.startsWith(`${SESSION_COOKIE}=`));
+
+    return { status: response.status, body: text ? JSON.parse(text) : undefined, cookie: cookie?.split(";")[0] };
+  };
+}
+
+// Encerra também as conexões keep-alive do fetch, para o processo de teste terminar
+export function stop(server: Server | undefined) {
+  server?.closeAllConnections();
+  server?.close();
+}
@@ -0,0 +1,70 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { InsertAvailability } from "@shared/schema";
+import { createLibsqlClient } from "./turso-db";
+import { TursoStorage } from "./turso-storage";
+import { BookingConflictError } from "./errors";
+
+const tmpDir = mkdtempSync(path.join(tmpdir(), "turso-storage-"));
+const storage = new TursoStorage(createLibsqlClient({ driver: "sqlite", path: path.join(tmpDir, "test.db") }));
+
+before(async () => {
+  await storage.initialize();
+});
+
+after(() => {
+  rmSync(tmpDir, { recursive: true, force: true });
+});
+
+test("parallel bookings never exceed the time slot capacity", async () => {
+  const capacity = 5;
+  const attempts = 25;
+
+  const input: InsertAvailability = {
+    date: "2030-01-15",
+    startTime: "08:00",
+    endTime: "10:00",
+    capacity,
+    remainingSlots: capacity,
+    createdBy: "EMB000001",
+    slotDuration: 60,
+  };
+  const availability = await storage.createAvailability(input);
+
+  const results = await Promise.allSettled(
+    Array.from({ length: attempts }, (_, i) =>
+      storage.createBooking({
+        availabilityId: availability.id,
+        clientName: `Cliente ${i}`,
+        serviceNumber: `SS-${i}`,
+        timeSlot: "08:00",
+        createdBy: `SAC00000${i % 3}`,
+      }),
+    ),
+  );
+
+  const fulfilled = results.filter(r => r.status === "fulfilled");
+  const rejected = results.filter((r): r is PromiseRejectedResult => r.status === "rejected");
+
+  assert.equal(fulfilled.length, capacity);
+  assert.equal(rejected.length, attempts - capacity);
+  for (const result of rejected) {
+    assert.ok(result.reason instanceof BookingConflictError);
+  }
+
+  // 08:00 está lotado; o horário das 09:00 continua com todas as vagas
+  const slots = await storage.listTimeSlots([availability.id]);
+  assert.deepEqual(
+    slots.map(slot => [slot.startTime, slot.remainingSlots]),
+    [["08:00", 0], ["09:00", capacity]],
+  );
+
+  const updated = await storage.getAvailability(availability.id);
+  assert.equal(updated?.remainingSlots, capacity);
+
+  const bookings = await storage.listBookingsByAvailability(availability.id);
+  assert.equal(bookings.length, capacity);
+});
@@ -1,184 +1,705 @@
-import { tursoClient } from "./turso-db";
-import { 
-  AccessCode, InsertAccessCode, 
+import type { Client, ResultSet } from "@libsql/client";
+import {
+  and, asc, between, Column, count, desc, eq, exists, getTableColumns, gt, gte, inArray, is, isNotNull, isNull,
+  isSQLWrapper, like, lt, lte, notExists, or, sql, type SQL, type SQLWrapper
+} from "drizzle-orm";
+import { drizzle, type LibSQLDatabase } from "drizzle-orm/libsql";
+import type { BatchItem } from "drizzle-orm/batch";
+import { alias, type SQLiteTable } from "drizzle-orm/sqlite-core";
+import { initializeTursoDb, insertAccessCodeQueries, libsqlSeedTarget, sqliteTimestamp } from "./turso-db";
+import {
+  AccessCode, InsertAccessCode, UpdateAccessCode,
   Availability, InsertAvailability,
-  Booking, InsertBooking
+  Booking, InsertBooking, RescheduleBooking,
+  TimeSlot, RecurrenceRule, expandRecurrence,
+  BlackoutDate, InsertBlackoutDate,
+  BookingWithSacLocation, EmbasaBookingsQuery, VisitOutcome, SupervisedBooking, SupervisorBookingsQuery,
+  InsertLoginAttempt, FailedLoginAttempt, Session, InsertSession, ActiveSession, Actor,
+  UserAccount, InsertUserAccount, UpdateUserAccount, UserAccountWithAccessCode,
+  Location, InsertLocation, UpdateLocation, LocationWithUsage,
+  Role, InsertRole, UpdateRole, RoleWithUsage,
+  AuditEvent, InsertAuditEvent, AuditEventsQuery,
+  ACTIVE_BOOKING_STATUSES, SLOT_HOLDING_STATUSES, statusesAllowedBefore
 } from "@shared/schema";
-import { IStorage } from "./storage";
+import {
+  accessCodes, accessCodeColumns, auditEvents, availabilities, availabilitySeries, blackoutDates, bookings,
+  locations, loginAttempts, roles, sessions, sessionColumns, timeSlots, userAccounts, userAccountColumns
+} from "./sqlite-schema";
+import type { IStorage } from "./storage";
+import { BookingConflictError } from "./errors";
+import { accessCodeLookup, verifyAccessCode } from "./access-codes";
+import {
+  accessCodeUpdates, BOOKING_NOT_ACTIVE, hasUpdates, locationUpdates, locationValues, newAvailability, newBookingValues,
+  rescheduledBookingValues, SLOT_UNAVAILABLE, statusChange, toDateString, transitionConflict, updatedAvailability,
+  userAccountUpdates, userAccountValues, visitOutcomeChange
+} from "./storage-helpers";
+import { seedHolidays } from "./seed";
+import { SESSION_TTL_HOURS } from "./sessions";
 
+type Batch = [BatchItem<"sqlite">, ...BatchItem<"sqlite">[]];
+
+const now = sql<string>`CURRENT_TIMESTAMP`;
+
+// Colunas de um INSERT … SELECT: o Drizzle lista todas as colunas da tabela, então os valores seguem
+// a ordem da definição e as colunas não informadas recebem o padrão da coluna (ou NULL)
+function insertSelection<T extends SQLiteTable>(
+  table: T,
+  values: { [K in keyof T["$inferInsert"]]?: T["$inferInsert"][K] | Column | SQLWrapper }
+): SQL {
+  const columns: Record<string, Column> = getTableColumns(table);
+  return sql.join(Object.entries(columns).map(([key, column]) => {
+    const value = key in values ? values[key as keyof typeof values] : column.default;
+    if (value === undefined || value === null) {
+      return sql`NULL`;
+    }
+    return is(value, Column) || isSQLWrapper(value) ? sql`${value}` : sql.param(value, column);
+  }), sql`, `);
+}
+
+// Consultas que inserem uma disponibilidade e seus horários no mesmo lote. Os horários (e, numa série,
+// a própria disponibilidade) referenciam a linha recém-criada por MAX(id), seguro dentro da transação do lote.
+function insertAvailabilityQueries(db: LibSQLDatabase, availability: InsertAvailability, date: string, inSeries: boolean) {
+  const { values, slots } = newAvailability(availability, date);
+
+  return [
+    db.insert(availabilities).values({
+      ...values,
+      seriesId: inSeries ? sql`(SELECT MAX(${availabilitySeries.id}) FROM ${availabilitySeries})` : null
+    }).returning(),
+    db.insert(timeSlots).values(slots.map(startTime => ({
+      availabilityId: sql`(SELECT MAX(${availabilities.id}) FROM ${availabilities})`,
+      startTime,
+      capacity: availability.capacity,
+      remainingSlots: availability.capacity
+    })))
+  ] as const;
+}
+
+// IStorage sobre libsql: serve o Turso remoto, o arquivo SQLite local e o banco em memória,
+// conforme o cliente recebido (ver createLibsqlClient). As consultas usam as tabelas de sqlite-schema,
+// que têm os mesmos tipos de @shared/schema, então as linhas já saem no formato da aplicação
 export class TursoStorage implements IStorage {
+  private readonly db: LibSQLDatabase;
+
+  constructor(private readonly client: Client) {
+    this.db = drizzle(client);
+  }
+
+  async initialize(): Promise<void> {
+    await initializeTursoDb(this.client);
+  }
+
+  // Disponibilidade e horário ocupados pelo agendamento, como subconsultas dentro de um lote
+  private bookingAvailabilityId(id: number) {
+    return this.db.select({ availabilityId: bookings.availabilityId }).from(bookings).where(eq(bookings.id, id));
+  }
+
+  private bookingTimeSlot(id: number) {
+    return this.db.select({ timeSlot: bookings.timeSlot }).from(bookings).where(eq(bookings.id, id));
+  }
+
+  // Devolve a vaga do agendamento ao horário e à disponibilidade, se a instrução anterior do lote alterou alguma linha
+  private releaseBookingSlotQueries(id: number) {
+    return [
+      this.db.update(availabilities)
+        .set({ remainingSlots: sql`${availabilities.remainingSlots} + 1` })
+        .where(and(eq(availabilities.id, this.bookingAvailabilityId(id)), sql`changes() > 0`)),
+      this.db.update(timeSlots)
+        .set({ remainingSlots: sql`${timeSlots.remainingSlots} + 1` })
+        .where(and(
+          eq(timeSlots.availabilityId, this.bookingAvailabilityId(id)),
+          eq(timeSlots.startTime, this.bookingTimeSlot(id)),
+          sql`changes() > 0`
+        ))
+    ] as const;
+  }
+
   // Access Code operations
   async getAccessCode(code: string): Promise<AccessCode | undefined> {
     try {
-      console.log(`Tentando buscar código de acesso: ${code}`);
-      
-      const result = await tursoClient.execute({
-        sql: `SELECT * FROM access_codes WHERE code = ? AND active = 1`,
-        args: [code]
-      });
-
-      console.log(`Resultado da busca de código de acesso:`, {
-        rowCount: result.rows.length,
-        resultData: result.rows.length > 0 ? result.rows[0] : null
-      });
+      const [accessCode] = await this.db.select(accessCodeColumns).from(accessCodes)
+        .where(and(eq(accessCodes.code, code), eq(accessCodes.active, true)));
 
-      if (result.rows.length === 0) {
+      if (!accessCode) {
         console.log(`Nenhum código de acesso encontrado para: ${code}`);
         return undefined;
       }
 
-      const row = result.rows[0];
-      return {
-        id: Number(row.id),
-        code: String(row.code),
-        role: String(row.role),
-        location: row.location ? String(row.location) : "",
-        createdAt: String(row.created_at),
-        active: Boolean(row.active)
-      };
+      return accessCode;
     } catch (error) {
       console.error(`ERRO ao buscar código de acesso ${code}:`, error);
       return undefined;
     }
   }
 
+  async findAccessCodeBySecret(secret: string): Promise<AccessCode | undefined> {
+    try {
+      // A chave de busca é compartilhada por vários códigos, então cada candidato tem o hash verificado
+      const candidates = await this.db.select({ accessCode: accessCodeColumns, codeHash: accessCodes.codeHash })
+        .from(accessCodes)
+        .where(eq(accessCodes.codeLookup, accessCodeLookup(secret)));
+
+      for (const candidate of candidates) {
+        if (candidate.codeHash && await verifyAccessCode(secret, candidate.codeHash)) {
+          return candidate.accessCode;
+        }
+      }
+
+      return undefined;
+    } catch (error) {
+      console.error("ERRO ao verificar código de acesso:", error);
+      return undefined;
+    }
+  }
+
   async createAccessCode(accessCode: InsertAccessCode): Promise<AccessCode> {
+    const [created] = await this.createAccessCodes([accessCode]);
+    return created;
+  }
+
+  async createAccessCodes(accessCodes: InsertAccessCode[]): Promise<AccessCode[]> {
     try {
-      const result = await tursoClient.execute({
-        sql: `INSERT INTO access_codes (code, role, location, active) VALUES (?, ?, ?, ?) RETURNING *`,
-        args: [
-          accessCode.code, 
-          accessCode.role, 
-          accessCode.location || "", 
-          accessCode.active
-        ]
-      });
-
-      const row = result.rows[0];
-      return {
-        id: Number(row.id),
-        code: String(row.code),
-        role: String(row.role),
-        location: row.location ? String(row.location) : "",
-        createdAt: String(row.created_at),
-        active: Boolean(row.active)
-      };
-    } catch (error) {
-      console.error("Erro ao criar código de acesso:", error);
+      const queries = await Promise.all(accessCodes.map(accessCode => insertAccessCodeQueries(
+        this.db,
+        accessCode.code,
+        accessCode.role,
+        accessCode.location || "",
+        accessCode.active ?? true,
+        accessCode
+      )));
+
+      // Cada código tem um INSERT seguido do UPDATE que grava o identificador e devolve a linha
+      const results = await this.db.batch(queries.flat() as BatchItem<"sqlite">[] as Batch);
+      return results.filter((_, index) => index % 2 === 1).map(rows => (rows as AccessCode[])[0]);
+    } catch (error) {
+      console.error("Erro ao criar códigos de acesso:", error);
       throw error;
     }
   }
 
   async listAccessCodes(): Promise<AccessCode[]> {
     try {
-      const result = await tursoClient.execute(`SELECT * FROM access_codes ORDER BY created_at DESC`);
-
-      return result.rows.map(row => ({
-        id: Number(row.id),
-        code: String(row.code),
-        role: String(row.role),
-        location: row.location ? String(row.location) : "",
-        createdAt: String(row.created_at),
-        active: Boolean(row.active)
-      }));
+      return await this.db.select(accessCodeColumns).from(accessCodes).orderBy(desc(accessCodes.createdAt));
     } catch (error) {
       console.error("Erro ao listar códigos de acesso:", error);
       return [];
     }
   }
 
-  async updateAccessCode(id: number, updates: Partial<InsertAccessCode>): Promise<AccessCode | undefined> {
+  async updateAccessCode(id: number, updates: UpdateAccessCode): Promise<AccessCode | undefined> {
     try {
-      const setClauses = [];
-      const args = [];
+      const values = await accessCodeUpdates(updates, sqliteTimestamp);
 
-      if (updates.code !== undefined) {
-        setClauses.push("code = ?");
-        args.push(updates.code);
+      if (!hasUpdates(values)) {
+        return undefined;
       }
 
-      if (updates.role !== undefined) {
-        setClauses.push("role = ?");
-        args.push(updates.role);
+      const [updated] = await this.db.update(accessCodes).set(values)
+        .where(eq(accessCodes.id, id))
+        .returning(accessCodeColumns);
+
+      return updated;
+    } catch (error) {
+      console.error("Erro ao atualizar código de acesso:", error);
+      return undefined;
+    }
+  }
+
+  async deleteAccessCode(id: number): Promise<boolean> {
+    try {
+      const result = await this.db.delete(accessCodes).where(eq(accessCodes.id, id));
+
+      return result.rowsAffected > 0;
+    } catch (error) {
+      console.error("Erro ao deletar código de acesso:", error);
+      return false;
+    }
+  }
+
+  async recordAccessCodeLogin(id: number): Promise<boolean> {
+    try {
+      // Incremento condicional: dois logins simultâneos não ultrapassam o limite
+      const result = await this.db.update(accessCodes)
+        .set({ loginCount: sql`${accessCodes.loginCount} + 1` })
+        .where(and(
+          eq(accessCodes.id, id),
+          or(isNull(accessCodes.maxLogins), lt(accessCodes.loginCount, accessCodes.maxLogins))
+        ));
+
+      return result.rowsAffected > 0;
+    } catch (error) {
+      console.error("Erro ao registrar login do código de acesso:", error);
+      return false;
+    }
+  }
+
+  async deactivateExpiredAccessCodes(): Promise<number[]> {
+    try {
+      const deactivated = await this.db.update(accessCodes)
+        .set({ active: false })
+        .where(and(
+          eq(accessCodes.active, true),
+          or(
+            lte(accessCodes.expiresAt, now),
+            and(isNotNull(accessCodes.maxBookings), gte(accessCodes.bookingCount, accessCodes.maxBookings))
+          )
+        ))
+        .returning({ id: accessCodes.id });
+
+      return deactivated.map(accessCode => accessCode.id);
+    } catch (error) {
+      console.error("Erro ao desativar códigos expirados:", error);
+      return [];
+    }
+  }
+
+  async listSacAccessCodesInRegion(locationId: number): Promise<AccessCode[]> {
+    try {
+      const region = alias(locations, "region");
+
+      return await this.db.select(accessCodeColumns)
+        .from(accessCodes)
+        .innerJoin(locations, eq(locations.id, accessCodes.locationId))
+        .innerJoin(region, eq(region.id, locationId))
+        .where(and(
+          eq(accessCodes.role, "sac"),
+          or(
+            eq(locations.id, region.id),
+            and(
+              sql`TRIM(COALESCE(${region.municipality}, '')) != ''`,
+              sql`LOWER(TRIM(${locations.municipality})) = LOWER(TRIM(${region.municipality}))`
+            )
+          )
+        ))
+        .orderBy(asc(locations.name), asc(accessCodes.code));
+    } catch (error) {
+      console.error("Erro ao listar códigos SAC da região:", error);
+      return [];
+    }
+  }
+
+  // Role operations
+  async getRole(id: number): Promise<Role | undefined> {
+    try {
+      const [role] = await this.db.select().from(roles).where(eq(roles.id, id));
+
+      return role;
+    } catch (error) {
+      console.error("Erro ao buscar perfil de acesso:", error);
+      return undefined;
+    }
+  }
+
+  async getAccessCodeRole(accessCode: Pick<AccessCode, "role" | "roleId">): Promise<Role | undefined> {
+    try {
+      // Sem perfil próprio, vale o perfil padrão do papel do código
+      const [role] = await this.db.select().from(roles)
+        .where(accessCode.roleId !== null
+          ? eq(roles.id, accessCode.roleId)
+          : and(eq(roles.builtin, true), eq(roles.baseRole, accessCode.role)))
+        .limit(1);
+
+      return role;
+    } catch (error) {
+      console.error("Erro ao buscar perfil do código de acesso:", error);
+      return undefined;
+    }
+  }
+
+  async listRoles(): Promise<RoleWithUsage[]> {
+    try {
+      // A contagem vem de uma subconsulta do query builder: num SELECT de uma tabela só, o Drizzle tira o
+      // prefixo das colunas de um sql`` da seleção, e roles.id passaria a ser o id de access_codes
+      return await this.db.select({
+        ...getTableColumns(roles),
+        accessCodeCount: sql<number>`${this.db.select({ count: count() }).from(accessCodes).where(or(
+          eq(accessCodes.roleId, roles.id),
+          and(eq(roles.builtin, true), isNull(accessCodes.roleId), eq(accessCodes.role, roles.baseRole))
+        ))}`.mapWith(Number)
+      })
+        .from(roles)
+        .orderBy(asc(roles.baseRole), desc(roles.builtin), asc(roles.name));
+    } catch (error) {
+      console.error("Erro ao listar perfis de acesso:", error);
+      return [];
+    }
+  }
+
+  async createRole(role: InsertRole): Promise<Role> {
+    try {
+      const [created] = await this.db.insert(roles)
+        .values({ name: role.name, baseRole: role.baseRole, permissions: role.permissions })
+        .returning();
+
+      return created;
+    } catch (error) {
+      console.error("Erro ao criar perfil de acesso:", error);
+      throw error;
+    }
+  }
+
+  async updateRole(id: number, updates: UpdateRole): Promise<Role | undefined> {
+    try {
+      const values = { name: updates.name, permissions: updates.permissions };
+
+      if (!hasUpdates(values)) {
+        return undefined;
       }
 
-      if (updates.location !== undefined) {
-        setClauses.push("location = ?");
-        args.push(updates.location);
+      const [updated] = await this.db.update(roles).set(values).where(eq(roles.id, id)).returning();
+
+      return updated;
+    } catch (error) {
+      console.error("Erro ao atualizar perfil de acesso:", error);
+      throw error;
+    }
+  }
+
+  async deleteRole(id: number): Promise<boolean> {
+    try {
+      // Os códigos que usavam o perfil voltam para o perfil padrão do papel
+      const [, result] = await this.db.batch([
+        this.db.update(accessCodes).set({ roleId: null }).where(eq(accessCodes.roleId, id)),
+        this.db.delete(roles).where(and(eq(roles.id, id), eq(roles.builtin, false)))
+      ]);
+
+      return result.rowsAffected > 0;
+    } catch (error) {
+      console.error("Erro ao remover perfil de acesso:", error);
+      throw error;
+    }
+  }
+
+  // Location operations
+  async getLocation(id: number): Promise<Location | undefined> {
+    try {
+      const [location] = await this.db.select().from(locations).where(eq(locations.id, id));
+
+      return location;
+    } catch (error) {
+      console.error("Erro ao buscar unidade:", error);
+      return undefined;
+    }
+  }
+
+  async listLocations(): Promise<LocationWithUsage[]> {
+    try {
+      return await this.db.select({
+        ...getTableColumns(locations),
+        accessCodeCount: sql<number>`${this.db.select({ count: count() }).from(accessCodes)
+          .where(and(eq(accessCodes.locationId, locations.id), eq(accessCodes.active, true)))}`.mapWith(Number)
+      })
+        .from(locations)
+        .orderBy(asc(locations.type), asc(locations.name));
+    } catch (error) {
+      console.error("Erro ao listar unidades:", error);
+      return [];
+    }
+  }
+
+  async createLocation(location: InsertLocation): Promise<Location> {
+    try {
+      const [created] = await this.db.insert(locations).values(locationValues(location)).returning();
+
+      return created;
+    } catch (error) {
+      console.error("Erro ao criar unidade:", error);
+      throw error;
+    }
+  }
+
+  async updateLocation(id: number, updates: UpdateLocation): Promise<Location | undefined> {
+    try {
+      const values = locationUpdates(updates);
+
+      if (!hasUpdates(values)) {
+        return undefined;
       }
 
-      if (updates.active !== undefined) {
-        setClauses.push("active = ?");
-        args.push(updates.active);
+      const previous = await this.getLocation(id);
+      if (!previous) {
+        return undefined;
       }
 
-      if (setClauses.length === 0) {
+      // O nome da unidade também fica nos códigos e nos fechamentos do calendário, que são renomeados junto
+      const name = updates.name ?? previous.name;
+      const [[updated]] = await this.db.batch([
+        this.db.update(locations).set(values).where(eq(locations.id, id)).returning(),
+        this.db.update(accessCodes).set({ location: name }).where(eq(accessCodes.locationId, id)),
+        this.db.update(blackoutDates).set({ location: name }).where(eq(blackoutDates.location, previous.name))
+      ]);
+
+      return updated;
+    } catch (error) {
+      console.error("Erro ao atualizar unidade:", error);
+      throw error;
+    }
+  }
+
+  // User account operations
+  async getUserAccount(id: number): Promise<UserAccount | undefined> {
+    try {
+      const [account] = await this.db.select(userAccountColumns).from(userAccounts).where(eq(userAccounts.id, id));
+
+      return account;
+    } catch (error) {
+      console.error("Erro ao buscar conta pessoal:", error);
+      return undefined;
+    }
+  }
+
+  async findUserAccountByCredentials(
+    registrationNumber: string,
+    password: string
+  ): Promise<{ account: UserAccount; accessCode: AccessCode } | undefined> {
+    try {
+      const [row] = await this.db.select({
+        account: userAccountColumns,
+        passwordHash: userAccounts.passwordHash,
+        accessCode: accessCodeColumns
+      })
+        .from(userAccounts)
+        .innerJoin(accessCodes, eq(accessCodes.id, userAccounts.accessCodeId))
+        .where(eq(userAccounts.registrationNumber, registrationNumber));
+
+      if (!row || !(await verifyAccessCode(password, row.passwordHash))) {
         return undefined;
       }
 
-      args.push(id);
+      return { account: row.account, accessCode: row.accessCode };
+    } catch (error) {
+      console.error("Erro ao verificar conta pessoal:", error);
+      return undefined;
+    }
+  }
+
+  async listUserAccounts(): Promise<UserAccountWithAccessCode[]> {
+    try {
+      return await this.db.select({
+        ...userAccountColumns,
+        accessCode: accessCodes.code,
+        role: accessCodes.role,
+        location: sql<string>`COALESCE(${accessCodes.location}, '')`
+      })
+        .from(userAccounts)
+        .innerJoin(accessCodes, eq(accessCodes.id, userAccounts.accessCodeId))
+        .orderBy(asc(userAccounts.name));
+    } catch (error) {
+      console.error("Erro ao listar contas pessoais:", error);
+      return [];
+    }
+  }
+
+  async createUserAccount(account: InsertUserAccount): Promise<UserAccount> {
+    try {
+      const [created] = await this.db.insert(userAccounts).values(await userAccountValues(account))
+        .returning(userAccountColumns);
 
-      const result = await tursoClient.execute({
-        sql: `UPDATE access_codes SET ${setClauses.join(", ")} WHERE id = ? RETURNING *`,
-        args
-      });
+      return created;
+    } catch (error) {
+      console.error("Erro ao criar conta pessoal:", error);
+      throw error;
+    }
+  }
 
-      if (result.rows.length === 0) {
+  async updateUserAccount(id: number, updates: UpdateUserAccount): Promise<UserAccount | undefined> {
+    try {
+      const values = await userAccountUpdates(updates);
+
+      if (!hasUpdates(values)) {
         return undefined;
       }
 
-      const row = result.rows[0];
-      return {
-        id: Number(row.id),
-        code: String(row.code),
-        role: String(row.role),
-        location: row.location ? String(row.location) : "",
-        createdAt: String(row.created_at),
-        active: Boolean(row.active)
-      };
+      const [updated] = await this.db.update(userAccounts).set(values)
+        .where(eq(userAccounts.id, id))
+        .returning(userAccountColumns);
+
+      return updated;
     } catch (error) {
-      console.error("Erro ao atualizar código de acesso:", error);
+      console.error("Erro ao atualizar conta pessoal:", error);
       return undefined;
     }
   }
 
-  async deleteAccessCode(id: number): Promise<boolean> {
+  async deleteUserAccount(id: number): Promise<boolean> {
     try {
-      const result = await tursoClient.execute({
-        sql: `DELETE FROM access_codes WHERE id = ?`,
-        args: [id]
-      });
+      const result = await this.db.delete(userAccounts).where(eq(userAccounts.id, id));
 
       return result.rowsAffected > 0;
     } catch (error) {
-      console.error("Erro ao deletar código de acesso:", error);
+      console.error("Erro ao deletar conta pessoal:", error);
       return false;
     }
   }
 
-  // Availability operations
-  async getAvailability(id: number): Promise<Availability | undefined> {
+  // Session operations
+  async createSession(session: InsertSession): Promise<Session> {
+    try {
+      const [created] = await this.db.insert(sessions).values({
+        tokenHash: session.tokenHash,
+        accessCodeId: session.accessCodeId,
+        userAccountId: session.userAccountId ?? null,
+        ip: session.ip ?? null,
+        userAgent: session.userAgent ?? null,
+        expiresAt: sql`datetime('now', ${`+${SESSION_TTL_HOURS} hours`})`
+      }).returning(sessionColumns);
+
+      return created;
+    } catch (error) {
+      console.error("Erro ao criar sessão:", error);
+      throw error;
+    }
+  }
+
+  async getActiveSession(tokenHash: string): Promise<ActiveSession | undefined> {
     try {
-      const result = await tursoClient.execute({
-        sql: `SELECT * FROM availabilities WHERE id = ?`,
-        args: [id]
-      });
+      // Sessão válida exige token não revogado, não expirado, código de acesso ativo e dentro da
+      // validade e, quando o login foi feito com conta pessoal, a conta também ativa
+      const [active] = await this.db.select({
+        session: sessionColumns,
+        accessCode: accessCodeColumns,
+        account: userAccountColumns
+      })
+        .from(sessions)
+        .innerJoin(accessCodes, eq(accessCodes.id, sessions.accessCodeId))
+        .leftJoin(userAccounts, eq(userAccounts.id, sessions.userAccountId))
+        .where(and(
+          eq(sessions.tokenHash, tokenHash),
+          isNull(sessions.revokedAt),
+          gt(sessions.expiresAt, now),
+          eq(accessCodes.active, true),
+          or(isNull(accessCodes.expiresAt), gt(accessCodes.expiresAt, now)),
+          or(isNull(sessions.userAccountId), eq(userAccounts.active, true))
+        ));
 
-      if (result.rows.length === 0) {
+      if (!active) {
         return undefined;
       }
 
-      const row = result.rows[0];
-      return {
-        id: Number(row.id),
-        date: String(row.date),
-        startTime: String(row.start_time),
-        endTime: String(row.end_time),
-        capacity: Number(row.capacity),
-        remainingSlots: Number(row.remaining_slots),
-        createdBy: String(row.created_by),
-        createdAt: String(row.created_at)
-      };
+      // Atualiza o "visto por último" no máximo uma vez por minuto
+      await this.db.update(sessions)
+        .set({ lastSeenAt: now })
+        .where(and(eq(sessions.id, active.session.id), lt(sessions.lastSeenAt, sql`datetime('now', '-1 minute')`)));
+
+      return active;
+    } catch (error) {
+      console.error("Erro ao buscar sessão:", error);
+      return undefined;
+    }
+  }
+
+  async listActiveSessions(accessCodeId: number): Promise<Session[]> {
+    try {
+      return await this.db.select(sessionColumns).from(sessions)
+        .where(and(eq(sessions.accessCodeId, accessCodeId), isNull(sessions.revokedAt), gt(sessions.expiresAt, now)))
+        .orderBy(desc(sessions.lastSeenAt));
+    } catch (error) {
+      console.error("Erro ao listar sessões:", error);
+      return [];
+    }
+  }
+
+  async revokeSession(id: number): Promise<boolean> {
+    try {
+      const result = await this.db.update(sessions).set({ revokedAt: now })
+        .where(and(eq(sessions.id, id), isNull(sessions.revokedAt)));
+
+      return result.rowsAffected > 0;
+    } catch (error) {
+      console.error("Erro ao encerrar sessão:", error);
+      return false;
+    }
+  }
+
+  async revokeSessionsForUserAccount(userAccountId: number): Promise<number> {
+    try {
+      const result = await this.db.update(sessions).set({ revokedAt: now })
+        .where(and(eq(sessions.userAccountId, userAccountId), isNull(sessions.revokedAt)));
+
+      return result.rowsAffected;
+    } catch (error) {
+      console.error("Erro ao encerrar sessões da conta:", error);
+      return 0;
+    }
+  }
+
+  async revokeSessionsForAccessCode(accessCodeId: number): Promise<number> {
+    try {
+      const result = await this.db.update(sessions).set({ revokedAt: now })
+        .where(and(eq(sessions.accessCodeId, accessCodeId), isNull(sessions.revokedAt)));
+
+      return result.rowsAffected;
+    } catch (error) {
+      console.error("Erro ao encerrar sessões do código de acesso:", error);
+      return 0;
+    }
+  }
+
+  // Login attempt operations
+  async recordLoginAttempt(attempt: InsertLoginAttempt): Promise<void> {
+    try {
+      await this.db.insert(loginAttempts).values(attempt);
+    } catch (error) {
+      console.error("Erro ao registrar tentativa de login:", error);
+    }
+  }
+
+  async countFailedLoginAttempts(filter: { ip?: string; codeLookup?: string }, windowMinutes: number): Promise<number> {
+    const [{ failures }] = await this.db.select({ failures: count() }).from(loginAttempts)
+      .where(and(
+        filter.ip !== undefined ? eq(loginAttempts.ip, filter.ip) : eq(loginAttempts.codeLookup, filter.codeLookup ?? ""),
+        eq(loginAttempts.success, false),
+        gt(loginAttempts.createdAt, sql`datetime('now', ${`-${windowMinutes} minutes`})`)
+      ));
+
+    return failures;
+  }
+
+  async listFailedLoginAttempts(limit: number): Promise<FailedLoginAttempt[]> {
+    try {
+      return await this.db.select({ ...getTableColumns(loginAttempts), accessCode: accessCodes.code })
+        .from(loginAttempts)
+        .leftJoin(accessCodes, eq(accessCodes.id, loginAttempts.accessCodeId))
+        .where(eq(loginAttempts.success, false))
+        .orderBy(desc(loginAttempts.createdAt), desc(loginAttempts.id))
+        .limit(limit);
+    } catch (error) {
+      console.error("Erro ao listar tentativas de login:", error);
+      return [];
+    }
+  }
+
+  // Audit trail operations
+  async recordAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const [created] = await this.db.insert(auditEvents).values(event).returning();
+
+    return created;
+  }
+
+  async listAuditEvents(query: AuditEventsQuery): Promise<AuditEvent[]> {
+    try {
+      return await this.db.select().from(auditEvents)
+        .where(and(
+          query.actor ? like(auditEvents.actorCode, `%${query.actor}%`) : undefined,
+          query.entityType ? eq(auditEvents.entityType, query.entityType) : undefined,
+          query.entityId ? eq(auditEvents.entityId, query.entityId) : undefined,
+          query.from ? sql`date(${auditEvents.createdAt}) >= ${query.from}` : undefined,
+          query.to ? sql`date(${auditEvents.createdAt}) <= ${query.to}` : undefined
+        ))
+        .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+        .limit(query.limit);
+    } catch (error) {
+      console.error("Erro ao listar eventos de auditoria:", error);
+      return [];
+    }
+  }
+
+  // Availability operations
+  async getAvailability(id: number): Promise<Availability | undefined> {
+    try {
+      const [availability] = await this.db.select().from(availabilities).where(eq(availabilities.id, id));
+
+      return availability;
     } catch (error) {
       console.error("Erro ao buscar disponibilidade:", error);
       return undefined;
@@ -187,67 +708,54 @@ export class TursoStorage implements IStorage {
 
   async createAvailability(availability: InsertAvailability): Promise<Availability> {
     try {
-      // Validar que o horário não excede 2 horas
-      const startHour = parseInt(availability.startTime.split(':')[0]);
-      const startMinute = parseInt(availability.startTime.split(':')[1]);
-      const endHour = parseInt(availability.endTime.split(':')[0]);
-      const endMinute = parseInt(availability.endTime.split(':')[1]);
-      
-      const startTotalMinutes = startHour * 60 + startMinute;
-      const endTotalMinutes = endHour * 60 + endMinute;
-      
-      // Diferença em minutos entre início e fim
-      const diffMinutes = endTotalMinutes - startTotalMinutes;
-      
-      // Se diferença for maior que 120 minutos (2 horas), lançar erro
-      if (diffMinutes > 120) {
-        throw new Error("Horários não podem exceder 2 horas de intervalo");
-      }
+      // A disponibilidade e seus horários são criados juntos; cada horário recebe a capacidade informada
+      const [[created]] = await this.db.batch(
+        insertAvailabilityQueries(this.db, availability, toDateString(availability.date), false)
+      );
 
-      const result = await tursoClient.execute({
-        sql: `INSERT INTO availabilities (date, start_time, end_time, capacity, remaining_slots, created_by) 
-              VALUES (?, ?, ?, ?, ?, ?) RETURNING *`,
-        args: [
-          availability.date, 
-          availability.startTime, 
-          availability.endTime,
-          availability.capacity,
-          availability.remainingSlots || availability.capacity,
-          availability.createdBy
-        ]
-      });
-
-      const row = result.rows[0];
-      return {
-        id: Number(row.id),
-        date: String(row.date),
-        startTime: String(row.start_time),
-        endTime: String(row.end_time),
-        capacity: Number(row.capacity),
-        remainingSlots: Number(row.remaining_slots),
-        createdBy: String(row.created_by),
-        createdAt: String(row.created_at)
-      };
+      return created;
     } catch (error) {
       console.error("Erro ao criar disponibilidade:", error);
       throw error;
     }
   }
 
-  async listAvailabilities(): Promise<Availability[]> {
+  async createAvailabilitySeries(availability: InsertAvailability, rule: RecurrenceRule): Promise<Availability[]> {
+    try {
+      const dates = expandRecurrence(toDateString(availability.date), rule);
+      if (dates.length === 0) {
+        throw new Error("A recorrência não gera nenhuma data");
+      }
+
+      // A série e todas as suas ocorrências são criadas numa única transação
+      const [, ...results] = await this.db.batch([
+        this.db.insert(availabilitySeries).values({ rule, createdBy: availability.createdBy }),
+        ...dates.flatMap(date => insertAvailabilityQueries(this.db, availability, date, true))
+      ]);
+
+      // Cada ocorrência gera duas consultas: a disponibilidade (com RETURNING) e seus horários
+      return results.filter((_, index) => index % 2 === 0).map(rows => (rows as Availability[])[0]);
+    } catch (error) {
+      console.error("Erro ao criar série de disponibilidades:", error);
+      throw error;
+    }
+  }
+
+  async listAvailabilitiesBySeries(seriesId: number): Promise<Availability[]> {
     try {
-      const result = await tursoClient.execute(`SELECT * FROM availabilities ORDER BY date ASC, start_time ASC`);
+      return await this.db.select().from(availabilities)
+        .where(eq(availabilities.seriesId, seriesId))
+        .orderBy(asc(availabilities.date), asc(availabilities.startTime));
+    } catch (error) {
+      console.error("Erro ao listar disponibilidades da série:", error);
+      return [];
+    }
+  }
 
-      return result.rows.map(row => ({
-        id: Number(row.id),
-        date: String(row.date),
-        startTime: String(row.start_time),
-        endTime: String(row.end_time),
-        capacity: Number(row.capacity),
-        remainingSlots: Number(row.remaining_slots),
-        createdBy: String(row.created_by),
-        createdAt: String(row.created_at)
-      }));
+  async listAvailabilities(): Promise<Availability[]> {
+    try {
+      return await this.db.select().from(availabilities)
+        .orderBy(asc(availabilities.date), asc(availabilities.startTime));
     } catch (error) {
       console.error("Erro ao listar disponibilidades:", error);
       return [];
@@ -256,25 +764,12 @@ export class TursoStorage implements IStorage {
 
   async getAvailabilitiesByMonth(year: number, month: number): Promise<Availability[]> {
     try {
-      // No SQLite, usamos a função strftime para manipular datas
-      // Ao invés de filtragem complexa de data, usamos a filtragem pelo início do formato de data YYYY-MM
+      // A data é gravada como YYYY-MM-DD, então o mês é filtrado pelo prefixo YYYY-MM
       const monthPrefix = `${year}-${String(month).padStart(2, '0')}`;
-      
-      const result = await tursoClient.execute({
-        sql: `SELECT * FROM availabilities WHERE date LIKE ?||'%' ORDER BY date ASC, start_time ASC`,
-        args: [monthPrefix]
-      });
-
-      return result.rows.map(row => ({
-        id: Number(row.id),
-        date: String(row.date),
-        startTime: String(row.start_time),
-        endTime: String(row.end_time),
-        capacity: Number(row.capacity),
-        remainingSlots: Number(row.remaining_slots),
-        createdBy: String(row.created_by),
-        createdAt: String(row.created_at)
-      }));
+
+      return await this.db.select().from(availabilities)
+        .where(like(availabilities.date, `${monthPrefix}%`))
+        .orderBy(asc(availabilities.date), asc(availabilities.startTime));
     } catch (error) {
       console.error("Erro ao listar disponibilidades por mês:", error);
       return [];
@@ -283,106 +778,172 @@ export class TursoStorage implements IStorage {
 
   async updateAvailability(id: number, updates: Partial<InsertAvailability>): Promise<Availability | undefined> {
     try {
-      const setClauses = [];
-      const args = [];
-
-      if (updates.date !== undefined) {
-        setClauses.push("date = ?");
-        args.push(updates.date);
+      const current = await this.getAvailability(id);
+      if (!current) {
+        return undefined;
       }
 
-      if (updates.startTime !== undefined) {
-        setClauses.push("start_time = ?");
-        args.push(updates.startTime);
-      }
+      const { values: next, slots } = updatedAvailability(current, updates);
 
-      if (updates.endTime !== undefined) {
-        setClauses.push("end_time = ?");
-        args.push(updates.endTime);
+      // Os horários são regerados descontando os agendamentos confirmados em cada um; agendamentos
+      // em horários que deixaram de existir continuam registrados, mas não ocupam vaga
+      const [, , [updated]] = await this.db.batch([
+        this.db.delete(timeSlots).where(eq(timeSlots.availabilityId, id)),
+        this.db.insert(timeSlots).values(slots.map(startTime => ({
+          availabilityId: id,
+          startTime,
+          capacity: next.capacity,
+          remainingSlots: sql`MAX(${next.capacity} - (
+            SELECT COUNT(*) FROM ${bookings}
+            WHERE ${bookings.availabilityId} = ${id} AND ${bookings.timeSlot} = ${startTime}
+              AND ${inArray(bookings.status, [...SLOT_HOLDING_STATUSES])}
+          ), 0)`
+        }))),
+        this.db.update(availabilities)
+          .set({
+            ...next,
+            remainingSlots: sql`(
+              SELECT COALESCE(SUM(${timeSlots.remainingSlots}), 0) FROM ${timeSlots} WHERE ${timeSlots.availabilityId} = ${id}
+            )`
+          })
+          .where(eq(availabilities.id, id))
+          .returning()
+      ]);
+
+      return updated;
+    } catch (error) {
+      console.error("Erro ao atualizar disponibilidade:", error);
+      return undefined;
+    }
+  }
+
+  async deleteAvailability(id: number, cancellation?: { changedBy: Actor; reason: string }): Promise<boolean> {
+    try {
+      // Com cancelamento, os agendamentos ainda não atendidos passam a "cancelado pela EMBASA" no mesmo lote;
+      // a remoção só acontece se não sobrar agendamento ativo. Um check-in em andamento impede as duas
+      // coisas: o cancelamento também é condicionado a ele, para o lote não ficar pela metade
+      const queries: BatchItem<"sqlite">[] = [
+        this.db.delete(availabilities).where(and(
+          eq(availabilities.id, id),
+          notExists(this.db.select({ id: bookings.id }).from(bookings).where(and(
+            eq(bookings.availabilityId, id),
+            inArray(bookings.status, [...ACTIVE_BOOKING_STATUSES])
+          )))
+        )),
+        this.db.delete(timeSlots).where(and(
+          eq(timeSlots.availabilityId, id),
+          notExists(this.db.select({ id: availabilities.id }).from(availabilities).where(eq(availabilities.id, id)))
+        ))
+      ];
+
+      if (cancellation) {
+        const cancellable = statusesAllowedBefore("cancelled_by_embasa");
+        queries.unshift(
+          this.db.update(bookings)
+            .set(statusChange("cancelled_by_embasa", cancellation.changedBy, now, cancellation.reason))
+            .where(and(
+              eq(bookings.availabilityId, id),
+              inArray(bookings.status, cancellable),
+              notExists(this.db.select({ id: bookings.id }).from(bookings).where(and(
+                eq(bookings.availabilityId, id),
+                inArray(bookings.status, ACTIVE_BOOKING_STATUSES.filter(status => !cancellable.includes(status)))
+              )))
+            ))
+        );
       }
 
-      if (updates.capacity !== undefined) {
-        setClauses.push("capacity = ?");
-        args.push(updates.capacity);
+      const results = await this.db.batch(queries as Batch);
+      if ((results[queries.length - 2] as ResultSet).rowsAffected > 0) {
+        return true;
       }
 
-      if (updates.remainingSlots !== undefined) {
-        setClauses.push("remaining_slots = ?");
-        args.push(updates.remainingSlots);
+      if (await this.getAvailability(id)) {
+        throw new BookingConflictError("Há agendamentos ativos nesta disponibilidade");
+      }
+      return false;
+    } catch (error) {
+      if (error instanceof BookingConflictError) {
+        throw error;
       }
+      console.error("Erro ao deletar disponibilidade:", error);
+      return false;
+    }
+  }
 
-      if (setClauses.length === 0) {
-        return undefined;
+  async listTimeSlots(availabilityIds: number[]): Promise<TimeSlot[]> {
+    try {
+      if (availabilityIds.length === 0) {
+        return [];
       }
 
-      args.push(id);
+      return await this.db.select().from(timeSlots)
+        .where(inArray(timeSlots.availabilityId, availabilityIds))
+        .orderBy(asc(timeSlots.availabilityId), asc(timeSlots.startTime));
+    } catch (error) {
+      console.error("Erro ao listar horários:", error);
+      return [];
+    }
+  }
 
-      const result = await tursoClient.execute({
-        sql: `UPDATE availabilities SET ${setClauses.join(", ")} WHERE id = ? RETURNING *`,
-        args
-      });
+  // Blackout calendar operations
+  async listBlackoutDates(from?: string, to?: string): Promise<BlackoutDate[]> {
+    try {
+      return await this.db.select().from(blackoutDates)
+        .where(and(
+          from !== undefined ? gte(blackoutDates.date, from) : undefined,
+          to !== undefined ? lte(blackoutDates.date, to) : undefined
+        ))
+        .orderBy(asc(blackoutDates.date), asc(blackoutDates.name));
+    } catch (error) {
+      console.error("Erro ao listar bloqueios do calendário:", error);
+      return [];
+    }
+  }
 
-      if (result.rows.length === 0) {
-        return undefined;
-      }
+  async createBlackoutDate(blackoutDate: InsertBlackoutDate): Promise<BlackoutDate> {
+    try {
+      const [created] = await this.db.insert(blackoutDates).values({
+        date: blackoutDate.date,
+        name: blackoutDate.name,
+        type: blackoutDate.type,
+        location: blackoutDate.location ?? null,
+        createdBy: blackoutDate.createdBy ?? null,
+        createdByAccountId: blackoutDate.createdByAccountId ?? null
+      }).returning();
 
-      const row = result.rows[0];
-      return {
-        id: Number(row.id),
-        date: String(row.date),
-        startTime: String(row.start_time),
-        endTime: String(row.end_time),
-        capacity: Number(row.capacity),
-        remainingSlots: Number(row.remaining_slots),
-        createdBy: String(row.created_by),
-        createdAt: String(row.created_at)
-      };
+      return created;
     } catch (error) {
-      console.error("Erro ao atualizar disponibilidade:", error);
-      return undefined;
+      console.error("Erro ao criar bloqueio do calendário:", error);
+      throw error;
     }
   }
 
-  async deleteAvailability(id: number): Promise<boolean> {
+  async deleteBlackoutDate(id: number): Promise<boolean> {
     try {
-      const result = await tursoClient.execute({
-        sql: `DELETE FROM availabilities WHERE id = ?`,
-        args: [id]
-      });
+      const result = await this.db.delete(blackoutDates).where(eq(blackoutDates.id, id));
 
       return result.rowsAffected > 0;
     } catch (error) {
-      console.error("Erro ao deletar disponibilidade:", error);
+      console.error("Erro ao deletar bloqueio do calendário:", error);
       return false;
     }
   }
 
+  async importHolidays(year: number): Promise<number> {
+    try {
+      return await seedHolidays(libsqlSeedTarget(this.client), year);
+    } catch (error) {
+      console.error("Erro ao importar feriados:", error);
+      throw error;
+    }
+  }
+
   // Booking operations
   async getBooking(id: number): Promise<Booking | undefined> {
     try {
-      const result = await tursoClient.execute({
-        sql: `SELECT * FROM bookings WHERE id = ?`,
-        args: [id]
-      });
+      const [booking] = await this.db.select().from(bookings).where(eq(bookings.id, id));
 
-      if (result.rows.length === 0) {
-        return undefined;
-      }
-
-      const row = result.rows[0];
-      return {
-        id: Number(row.id),
-        availabilityId: Number(row.availability_id),
-        clientName: String(row.client_name),
-        clientDocument: row.client_document ? String(row.client_document) : "",
-        clientPhone: row.client_phone ? String(row.client_phone) : "",
-        serviceNumber: row.service_number ? String(row.service_number) : "",
-        timeSlot: String(row.time_slot),
-        comments: row.comments ? String(row.comments) : "",
-        createdBy: String(row.created_by),
-        createdAt: String(row.created_at),
-        status: String(row.status)
-      };
+      return booking;
     } catch (error) {
       console.error("Erro ao buscar agendamento:", error);
       return undefined;
@@ -391,54 +952,46 @@ export class TursoStorage implements IStorage {
 
   async createBooking(booking: InsertBooking): Promise<Booking> {
     try {
-      // Verificar se ainda existem vagas disponíveis
-      const availability = await this.getAvailability(booking.availabilityId);
-      if (!availability) {
-        throw new Error("Disponibilidade não encontrada");
-      }
+      // Reserva a vaga e cria o agendamento na mesma transação: cada passo só é aplicado se o
+      // decremento condicional do horário alterou alguma linha, então a capacidade nunca fica negativa
+      const [, , [created]] = await this.db.batch([
+        this.db.update(timeSlots)
+          .set({ remainingSlots: sql`${timeSlots.remainingSlots} - 1` })
+          .where(and(
+            eq(timeSlots.availabilityId, booking.availabilityId),
+            eq(timeSlots.startTime, booking.timeSlot),
+            gt(timeSlots.remainingSlots, 0)
+          )),
+        this.db.update(availabilities)
+          .set({ remainingSlots: sql`${availabilities.remainingSlots} - 1` })
+          .where(and(eq(availabilities.id, booking.availabilityId), sql`changes() > 0`)),
+        this.db.insert(bookings).select(sql`
+          SELECT ${insertSelection(bookings, {
+            availabilityId: availabilities.id,
+            date: availabilities.date,
+            ...newBookingValues(booking)
+          })}
+          FROM ${availabilities} WHERE ${availabilities.id} = ${booking.availabilityId} AND changes() > 0
+        `).returning(),
+        // Conta o agendamento no código do SAC; o agendamento que esgota o limite desativa o código
+        this.db.update(accessCodes)
+          .set({
+            bookingCount: sql`${accessCodes.bookingCount} + 1`,
+            active: sql`CASE WHEN ${accessCodes.maxBookings} IS NOT NULL AND ${accessCodes.bookingCount} + 1 >= ${accessCodes.maxBookings}
+                        THEN 0 ELSE ${accessCodes.active} END`
+          })
+          .where(and(eq(accessCodes.code, booking.createdBy), sql`changes() > 0`))
+      ]);
 
-      if (availability.remainingSlots <= 0) {
-        throw new Error("Não há mais vagas disponíveis neste horário");
+      if (!created) {
+        const availability = await this.getAvailability(booking.availabilityId);
+        if (!availability) {
+          throw new Error("Disponibilidade não encontrada");
+        }
+        throw new BookingConflictError(SLOT_UNAVAILABLE);
       }
 
-      // Criar o agendamento
-      const result = await tursoClient.execute({
-        sql: `INSERT INTO bookings (
-                availability_id, client_name, client_document, client_phone, 
-                service_number, time_slot, comments, created_by, status
-              ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`,
-        args: [
-          booking.availabilityId,
-          booking.clientName,
-          booking.clientDocument || "",
-          booking.clientPhone || "",
-          booking.serviceNumber || "",
-          booking.timeSlot,
-          booking.comments || "",
-          booking.createdBy,
-          booking.status || "confirmed"
-        ]
-      });
-
-      // Atualizar as vagas disponíveis
-      await this.updateAvailability(booking.availabilityId, {
-        remainingSlots: availability.remainingSlots - 1
-      });
-
-      const row = result.rows[0];
-      return {
-        id: Number(row.id),
-        availabilityId: Number(row.availability_id),
-        clientName: String(row.client_name),
-        clientDocument: row.client_document ? String(row.client_document) : "",
-        clientPhone: row.client_phone ? String(row.client_phone) : "",
-        serviceNumber: row.service_number ? String(row.service_number) : "",
-        timeSlot: String(row.time_slot),
-        comments: row.comments ? String(row.comments) : "",
-        createdBy: String(row.created_by),
-        createdAt: String(row.created_at),
-        status: String(row.status)
-      };
+      return created;
     } catch (error) {
       console.error("Erro ao criar agendamento:", error);
       throw error;
@@ -447,24 +1000,9 @@ export class TursoStorage implements IStorage {
 
   async listBookingsByUser(createdBy: string): Promise<Booking[]> {
     try {
-      const result = await tursoClient.execute({
-        sql: `SELECT * FROM bookings WHERE created_by = ? ORDER BY created_at DESC`,
-        args: [createdBy]
-      });
-
-      return result.rows.map(row => ({
-        id: Number(row.id),
-        availabilityId: Number(row.availability_id),
-        clientName: String(row.client_name),
-        clientDocument: row.client_document ? String(row.client_document) : "",
-        clientPhone: row.client_phone ? String(row.client_phone) : "",
-        serviceNumber: row.service_number ? String(row.service_number) : "",
-        timeSlot: String(row.time_slot),
-        comments: row.comments ? String(row.comments) : "",
-        createdBy: String(row.created_by),
-        createdAt: String(row.created_at),
-        status: String(row.status)
-      }));
+      return await this.db.select().from(bookings)
+        .where(eq(bookings.createdBy, createdBy))
+        .orderBy(desc(bookings.createdAt));
     } catch (error) {
       console.error("Erro ao listar agendamentos por usuário:", error);
       return [];
@@ -473,58 +1011,193 @@ export class TursoStorage implements IStorage {
 
   async listBookingsByAvailability(availabilityId: number): Promise<Booking[]> {
     try {
-      const result = await tursoClient.execute({
-        sql: `SELECT * FROM bookings WHERE availability_id = ? ORDER BY created_at DESC`,
-        args: [availabilityId]
-      });
-
-      return result.rows.map(row => ({
-        id: Number(row.id),
-        availabilityId: Number(row.availability_id),
-        clientName: String(row.client_name),
-        clientDocument: row.client_document ? String(row.client_document) : "",
-        clientPhone: row.client_phone ? String(row.client_phone) : "",
-        serviceNumber: row.service_number ? String(row.service_number) : "",
-        timeSlot: String(row.time_slot),
-        comments: row.comments ? String(row.comments) : "",
-        createdBy: String(row.created_by),
-        createdAt: String(row.created_at),
-        status: String(row.status)
-      }));
+      return await this.db.select().from(bookings)
+        .where(eq(bookings.availabilityId, availabilityId))
+        .orderBy(desc(bookings.createdAt));
     } catch (error) {
       console.error("Erro ao listar agendamentos por disponibilidade:", error);
       return [];
     }
   }
 
-  async updateBookingStatus(id: number, status: string): Promise<Booking | undefined> {
+  async listBookingsForAvailabilityOwner(
+    createdBy: string,
+    query: EmbasaBookingsQuery
+  ): Promise<BookingWithSacLocation[]> {
     try {
-      const result = await tursoClient.execute({
-        sql: `UPDATE bookings SET status = ? WHERE id = ? RETURNING *`,
-        args: [status, id]
-      });
+      return await this.db.select({
+        ...getTableColumns(bookings),
+        sacLocation: accessCodes.location,
+        createdByName: userAccounts.name
+      })
+        .from(bookings)
+        .innerJoin(availabilities, eq(availabilities.id, bookings.availabilityId))
+        .leftJoin(accessCodes, eq(accessCodes.code, bookings.createdBy))
+        .leftJoin(userAccounts, eq(userAccounts.id, bookings.createdByAccountId))
+        .where(and(
+          eq(availabilities.createdBy, createdBy),
+          query.availabilityId ? eq(bookings.availabilityId, query.availabilityId) : undefined,
+          query.date ? eq(availabilities.date, query.date) : undefined,
+          query.from && query.to ? between(availabilities.date, query.from, query.to) : undefined
+        ))
+        .orderBy(asc(availabilities.date), asc(bookings.timeSlot));
+    } catch (error) {
+      console.error("Erro ao listar agendamentos da EMBASA:", error);
+      return [];
+    }
+  }
 
-      if (result.rows.length === 0) {
-        return undefined;
+  async listBookingsByCreators(createdBy: string[], query: SupervisorBookingsQuery): Promise<SupervisedBooking[]> {
+    try {
+      if (createdBy.length === 0) {
+        return [];
       }
 
-      const row = result.rows[0];
-      return {
-        id: Number(row.id),
-        availabilityId: Number(row.availability_id),
-        clientName: String(row.client_name),
-        clientDocument: row.client_document ? String(row.client_document) : "",
-        clientPhone: row.client_phone ? String(row.client_phone) : "",
-        serviceNumber: row.service_number ? String(row.service_number) : "",
-        timeSlot: String(row.time_slot),
-        comments: row.comments ? String(row.comments) : "",
-        createdBy: String(row.created_by),
-        createdAt: String(row.created_at),
-        status: String(row.status)
-      };
-    } catch (error) {
-      console.error("Erro ao atualizar status do agendamento:", error);
-      return undefined;
+      // A disponibilidade pode ter sido removida; o agendamento guarda a própria data
+      return await this.db.select({
+        ...getTableColumns(bookings),
+        sacLocation: accessCodes.location,
+        createdByName: userAccounts.name,
+        embasaLocation: locations.name
+      })
+        .from(bookings)
+        .leftJoin(accessCodes, eq(accessCodes.code, bookings.createdBy))
+        .leftJoin(userAccounts, eq(userAccounts.id, bookings.createdByAccountId))
+        .leftJoin(availabilities, eq(availabilities.id, bookings.availabilityId))
+        .leftJoin(locations, eq(locations.id, availabilities.locationId))
+        .where(and(
+          inArray(bookings.createdBy, createdBy),
+          between(bookings.date, query.from, query.to),
+          query.status ? eq(bookings.status, query.status) : undefined
+        ))
+        .orderBy(asc(bookings.date), asc(bookings.timeSlot));
+    } catch (error) {
+      console.error("Erro ao listar agendamentos da supervisão:", error);
+      return [];
+    }
+  }
+
+  async reassignBooking(id: number, accessCode: AccessCode): Promise<Booking | undefined> {
+    try {
+      // A conta pessoal de quem agendou pertence ao código anterior, então deixa de valer.
+      // Os contadores de uso dos códigos não mudam: o limite conta os agendamentos feitos por cada um
+      const [reassigned] = await this.db.update(bookings)
+        .set({ createdBy: accessCode.code, createdByAccountId: null })
+        .where(and(eq(bookings.id, id), inArray(bookings.status, [...ACTIVE_BOOKING_STATUSES])))
+        .returning();
+
+      if (!reassigned) {
+        const existing = await this.getBooking(id);
+        if (!existing) {
+          return undefined;
+        }
+        throw new BookingConflictError(BOOKING_NOT_ACTIVE);
+      }
+
+      return reassigned;
+    } catch (error) {
+      console.error("Erro ao remanejar agendamento:", error);
+      throw error;
+    }
+  }
+
+  async recordVisitOutcome(id: number, changedBy: Actor, outcome: VisitOutcome): Promise<Booking | undefined> {
+    try {
+      // A atualização só acontece a partir de um status que permite a transição
+      const [updated] = await this.db.update(bookings)
+        // O horário da conclusão é gravado como informado (ISO 8601)
+        .set(visitOutcomeChange(outcome, changedBy, now, completedAt => completedAt))
+        .where(and(eq(bookings.id, id), inArray(bookings.status, statusesAllowedBefore(outcome.status))))
+        .returning();
+
+      if (!updated) {
+        const existing = await this.getBooking(id);
+        if (!existing) {
+          return undefined;
+        }
+        throw transitionConflict(existing, outcome.status);
+      }
+
+      return updated;
+    } catch (error) {
+      console.error("Erro ao registrar resultado da visita:", error);
+      throw error;
+    }
+  }
+
+  async cancelBooking(id: number, changedBy: Actor, reason: string): Promise<Booking | undefined> {
+    try {
+      // Executado em lote (transação única) para que a vaga só volte à disponibilidade
+      // se o agendamento realmente passou de agendado para cancelado
+      const [[cancelled]] = await this.db.batch([
+        this.db.update(bookings)
+          .set(statusChange("cancelled", changedBy, now, reason))
+          .where(and(eq(bookings.id, id), inArray(bookings.status, statusesAllowedBefore("cancelled"))))
+          .returning(),
+        ...this.releaseBookingSlotQueries(id)
+      ]);
+
+      if (!cancelled) {
+        const existing = await this.getBooking(id);
+        if (!existing) {
+          return undefined;
+        }
+        throw transitionConflict(existing, "cancelled");
+      }
+
+      return cancelled;
+    } catch (error) {
+      console.error("Erro ao cancelar agendamento:", error);
+      throw error;
+    }
+  }
+
+  async rescheduleBooking(id: number, changedBy: Actor, target: RescheduleBooking): Promise<Booking | undefined> {
+    try {
+      // Cada passo só é aplicado se o anterior alterou alguma linha (changes() > 0), então
+      // ou a vaga nova é reservada, o original marcado como remarcado e o novo criado, ou nada muda
+      const [, , , [created]] = await this.db.batch([
+        this.db.update(timeSlots)
+          .set({ remainingSlots: sql`${timeSlots.remainingSlots} - 1` })
+          .where(and(
+            eq(timeSlots.availabilityId, target.availabilityId),
+            eq(timeSlots.startTime, target.timeSlot),
+            gt(timeSlots.remainingSlots, 0),
+            exists(this.db.select({ id: bookings.id }).from(bookings).where(and(
+              eq(bookings.id, id),
+              inArray(bookings.status, statusesAllowedBefore("rescheduled"))
+            )))
+          )),
+        this.db.update(availabilities)
+          .set({ remainingSlots: sql`${availabilities.remainingSlots} - 1` })
+          .where(and(eq(availabilities.id, target.availabilityId), sql`changes() > 0`)),
+        this.db.update(bookings)
+          .set(statusChange("rescheduled", changedBy, now, target.reason || null))
+          .where(and(eq(bookings.id, id), sql`changes() > 0`)),
+        this.db.insert(bookings).select(sql`
+          SELECT ${insertSelection(bookings, {
+            availabilityId: target.availabilityId,
+            date: this.db.select({ date: availabilities.date }).from(availabilities)
+              .where(eq(availabilities.id, target.availabilityId)),
+            ...rescheduledBookingValues(bookings, target)
+          })}
+          FROM ${bookings} WHERE ${bookings.id} = ${id} AND changes() > 0
+        `).returning(),
+        ...this.releaseBookingSlotQueries(id)
+      ]);
+
+      if (!created) {
+        const existing = await this.getBooking(id);
+        if (!existing) {
+          return undefined;
+        }
+        throw transitionConflict(existing, "rescheduled");
+      }
+
+      return created;
+    } catch (error) {
+      console.error("Erro ao remarcar agendamento:", error);
+      throw error;
     }
   }
-}
\ No newline at end of file
+}
@@ -1,36 +1,257 @@
-import { pgTable, text, serial, integer, boolean, timestamp, pgEnum } from "drizzle-orm/pg-core";
+// Tabelas do Postgres e os tipos e validações compartilhados entre o cliente e o servidor. As tabelas têm uma
+// cópia para o libsql em server/sqlite-schema.ts: os dois arquivos mudam sempre juntos, com uma nova migração
+// em server/migrations.ts, e migrations.test.ts confere que cada banco migrado tem as colunas da sua definição.
+import { pgTable, text, serial, integer, boolean, timestamp, pgEnum, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 // Enum for user roles
-export const userRoleEnum = pgEnum('user_role', ['admin', 'embasa', 'sac']);
+export const userRoleEnum = pgEnum('user_role', ['admin', 'embasa', 'sac', 'supervisor']);
+export type UserRole = typeof userRoleEnum.enumValues[number];
+
+// Permissões verificadas pelas rotas; cada perfil de acesso concede um conjunto delas
+export const PERMISSIONS = [
+  "reports:view",
+  "audit:view",
+  "access_codes:manage",
+  "user_accounts:manage",
+  "locations:manage",
+  "roles:manage",
+  "blackouts:manage",
+  "availability:create",
+  "availability:update",
+  "availability:delete",
+  "booking:create",
+  "booking:reschedule",
+  "booking:cancel:own",
+  "booking:cancel:any",
+  "booking:view:region",
+  "booking:reassign",
+  "booking:reschedule:region",
+  "booking:cancel:region",
+  "booking:view:received",
+  "booking:outcome",
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+// Permissões dos perfis padrão, equivalentes ao que cada papel podia fazer antes dos perfis configuráveis
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [
+    "reports:view", "audit:view", "access_codes:manage", "user_accounts:manage",
+    "locations:manage", "roles:manage", "blackouts:manage",
+  ],
+  embasa: ["availability:create", "availability:update", "availability:delete", "booking:view:received", "booking:outcome"],
+  sac: ["booking:create", "booking:reschedule", "booking:cancel:own"],
+  // Coordenação SAC: acompanha os agendamentos dos códigos SAC da sua unidade/região
+  supervisor: ["booking:view:region", "booking:reassign", "booking:reschedule:region", "booking:cancel:region"],
+};
+
+// Durações permitidas para cada horário de atendimento, em minutos
+export const SLOT_DURATIONS = [15, 30, 45, 60] as const;
+export type SlotDuration = typeof SLOT_DURATIONS[number];
+
+// Duração padrão de cada horário de atendimento, em minutos
+export const DEFAULT_SLOT_DURATION: SlotDuration = 60;
+
+// Intervalo de horário (ex.: almoço), no formato HH:MM
+export type TimeRange = { start: string; end: string };
+
+// Postos SAC para os quais uma disponibilidade é publicada: por unidade e/ou por município atendido
+export type AvailabilityAudience = { locationIds: number[]; municipalities: string[] };
+
+// Tipos de bloqueio do calendário: feriados pré-carregados e fechamentos avulsos de uma unidade
+export const BLACKOUT_TYPES = ["national", "state", "municipal", "closure"] as const;
+export type BlackoutType = typeof BLACKOUT_TYPES[number];
+
+// Ciclo de vida de um agendamento (visita técnica). Cada status lista para quais outros ele pode passar.
+export const BOOKING_STATUSES = [
+  "scheduled", "checked_in", "completed", "no_show", "rescheduled", "cancelled", "cancelled_by_embasa",
+] as const;
+export type BookingStatus = typeof BOOKING_STATUSES[number];
+
+export const BOOKING_TRANSITIONS: Record<BookingStatus, readonly BookingStatus[]> = {
+  scheduled: ["checked_in", "no_show", "rescheduled", "cancelled", "cancelled_by_embasa"],
+  checked_in: ["completed", "no_show"],
+  completed: [],
+  no_show: [],
+  rescheduled: [],
+  cancelled: [],
+  cancelled_by_embasa: [],
+};
+
+// Agendamentos que ainda podem ser cancelados, remarcados ou receber o resultado da visita
+export const ACTIVE_BOOKING_STATUSES: readonly BookingStatus[] = ["scheduled", "checked_in"];
+
+// Agendamentos que ocupam a vaga do horário (os cancelados e remarcados a devolvem)
+export const SLOT_HOLDING_STATUSES: readonly BookingStatus[] = ["scheduled", "checked_in", "completed", "no_show"];
+
+// Resultados que a EMBASA registra na visita
+export const VISIT_OUTCOME_STATUSES = ["checked_in", "completed", "no_show"] as const;
+
+// Status a partir dos quais um agendamento pode passar para o status informado
+export function statusesAllowedBefore(status: BookingStatus): BookingStatus[] {
+  return BOOKING_STATUSES.filter(from => BOOKING_TRANSITIONS[from].includes(status));
+}
+
+// Tipos de unidade do cadastro de localizações
+export const LOCATION_TYPES = ["sac", "embasa"] as const;
+export type LocationType = typeof LOCATION_TYPES[number];
+
+// Unidades SAC e EMBASA; o município define a região atendida
+export const locations = pgTable("locations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(), // Ex: SAC Cabula, EMBASA Federação
+  type: text("type").$type<LocationType>().notNull(),
+  address: text("address"),
+  municipality: text("municipality"),
+  active: boolean("active").default(true).notNull(),
+  createdAt: timestamp("created_at", { mode: "string" }).defaultNow().notNull(),
+});
+
+// Perfis de acesso: um conjunto de permissões sobre um dos painéis (papel base). Os perfis padrão
+// de cada papel não podem ser removidos e valem para os códigos sem perfil próprio
+export const roles = pgTable("roles", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(), // Ex: Supervisor SAC
+  baseRole: userRoleEnum("base_role").notNull(),
+  permissions: jsonb("permissions").$type<Permission[]>().default([]).notNull(),
+  builtin: boolean("builtin").default(false).notNull(),
+  createdAt: timestamp("created_at", { mode: "string" }).defaultNow().notNull(),
+});
 
 // Access codes table
 export const accessCodes = pgTable("access_codes", {
   id: serial("id").primaryKey(),
-  code: text("code").notNull().unique(),
+  code: text("code").notNull().unique(), // Identificador público (ex: SAC#0007); o código em si só existe como hash
+  codeHash: text("code_hash"),
+  codeLookup: text("code_lookup"), // Chave de busca derivada do código, para não verificar o hash de todas as linhas
   role: userRoleEnum("role").notNull(),
   location: text("location"),  // Novo campo para localização (ex: SAC Cabula, EMBASA Federação)
-  createdAt: timestamp("created_at").defaultNow().notNull(),
+  locationId: integer("location_id"), // Unidade do cadastro; "location" guarda o nome dela
+  roleId: integer("role_id"), // Perfil de acesso; vazio usa o perfil padrão do papel
+  createdAt: timestamp("created_at", { mode: "string" }).defaultNow().notNull(),
   active: boolean("active").default(true).notNull(),
+  // Validade e limites de uso (vazios = sem restrição); ao expirar ou esgotar, o código é desativado
+  validFrom: timestamp("valid_from", { mode: "string" }),
+  expiresAt: timestamp("expires_at", { mode: "string" }),
+  maxLogins: integer("max_logins"),
+  maxBookings: integer("max_bookings"),
+  loginCount: integer("login_count").default(0).notNull(),
+  bookingCount: integer("booking_count").default(0).notNull(),
+});
+
+// Contas pessoais de atendentes/técnicos; herdam perfil e unidade do código de acesso ao qual pertencem
+export const userAccounts = pgTable("user_accounts", {
+  id: serial("id").primaryKey(),
+  accessCodeId: integer("access_code_id").notNull(),
+  name: text("name").notNull(),
+  registrationNumber: text("registration_number").notNull().unique(), // Matrícula, usada no login
+  passwordHash: text("password_hash").notNull(), // Senha ou PIN, com o mesmo hash dos códigos de acesso
+  active: boolean("active").default(true).notNull(),
+  createdAt: timestamp("created_at", { mode: "string" }).defaultNow().notNull(),
+});
+
+// Sessões de login; o cookie guarda apenas o token, e o código de acesso é revalidado a cada requisição
+export const sessions = pgTable("sessions", {
+  id: serial("id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(),
+  accessCodeId: integer("access_code_id").notNull(),
+  userAccountId: integer("user_account_id"), // Conta pessoal usada no login; vazio no login só com o código
+  ip: text("ip"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at", { mode: "string" }).defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at", { mode: "string" }).defaultNow().notNull(),
+  expiresAt: timestamp("expires_at", { mode: "string" }).notNull(),
+  revokedAt: timestamp("revoked_at", { mode: "string" }),
+});
+
+// Tentativas de login, usadas para limitar força bruta e auditar falhas
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  ip: text("ip"),
+  codeLookup: text("code_lookup"),
+  accessCodeId: integer("access_code_id"), // Preenchido quando o código existe mas está inativo
+  success: boolean("success").notNull(),
+  reason: text("reason"), // invalid_code, inactive, not_yet_valid, expired, usage_limit, locked
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at", { mode: "string" }).defaultNow().notNull(),
+});
+
+// Entidades registradas na trilha de auditoria
+export const AUDIT_ENTITY_TYPES = [
+  "access_code", "user_account", "session", "location", "role", "availability", "blackout_date", "booking",
+] as const;
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+
+// Campos alterados por uma operação, com o valor anterior e o novo (null quando o registro não existia ou deixou de existir)
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+// Audit trail - somente inserção: cada operação que altera dados grava quem fez, o quê e de onde
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  actorCode: text("actor_code"), // Identificador público do código de acesso; null em operações do sistema
+  actorAccountId: integer("actor_account_id"), // Conta pessoal usada, se houver
+  actorRole: text("actor_role"),
+  action: text("action").notNull(), // Ex: create, update, delete, cancel, reschedule, login
+  entityType: text("entity_type").$type<AuditEntityType>().notNull(),
+  entityId: integer("entity_id"),
+  changes: jsonb("changes").$type<AuditChanges>().default({}).notNull(),
+  ip: text("ip"),
+  createdAt: timestamp("created_at", { mode: "string" }).defaultNow().notNull(),
 });
 
 // Availability table - stores the dates and times EMBASA makes available
 export const availabilities = pgTable("availabilities", {
   id: serial("id").primaryKey(),
-  date: timestamp("date").notNull(),
+  date: text("date").notNull(), // Format: YYYY-MM-DD
   startTime: text("start_time").notNull(), // Format: HH:MM
   endTime: text("end_time").notNull(), // Format: HH:MM
-  capacity: integer("capacity").notNull(),
+  capacity: integer("capacity").notNull(), // Vagas por horário (cada time slot recebe essa capacidade)
+  createdBy: text("created_by").notNull(), // Access code of the EMBASA user who created it
+  createdByAccountId: integer("created_by_account_id"), // Conta pessoal de quem criou, se logado com uma
+  createdAt: timestamp("created_at", { mode: "string" }).defaultNow().notNull(),
+  remainingSlots: integer("remaining_slots").notNull(), // Total de vagas livres somando todos os horários
+  slotDuration: integer("slot_duration").default(DEFAULT_SLOT_DURATION).notNull(), // Minutos de cada horário
+  breaks: jsonb("breaks").$type<TimeRange[]>().default([]).notNull(), // Intervalos sem atendimento (ex.: almoço)
+  seriesId: integer("series_id"), // Série de recorrência que gerou esta disponibilidade, se houver
+  locationId: integer("location_id"), // Unidade EMBASA onde a visita acontece
+  audience: jsonb("audience").$type<AvailabilityAudience>(), // Postos SAC que podem agendar; vazio = todos
+});
+
+// Availability series table - recurrence rule used to materialize a set of availabilities
+export const availabilitySeries = pgTable("availability_series", {
+  id: serial("id").primaryKey(),
+  rule: jsonb("rule").$type<RecurrenceRule>().notNull(),
   createdBy: text("created_by").notNull(), // Access code of the EMBASA user who created it
-  createdAt: timestamp("created_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at", { mode: "string" }).defaultNow().notNull(),
+});
+
+// Time slots table - capacity of each time slot inside an availability window
+export const timeSlots = pgTable("time_slots", {
+  id: serial("id").primaryKey(),
+  availabilityId: integer("availability_id").notNull(),
+  startTime: text("start_time").notNull(), // Format: HH:MM
+  capacity: integer("capacity").notNull(),
   remainingSlots: integer("remaining_slots").notNull(), // Decrements as bookings are made
 });
 
+// Blackout dates table - holidays and closures on which no availability or booking is accepted
+export const blackoutDates = pgTable("blackout_dates", {
+  id: serial("id").primaryKey(),
+  date: text("date").notNull(), // Format: YYYY-MM-DD
+  name: text("name").notNull(), // Ex.: Natal, Dedetização da unidade
+  type: text("type").$type<BlackoutType>().notNull(), // national, state, municipal, closure
+  location: text("location"), // Unidade ou município afetado; vazio bloqueia todas as unidades
+  createdBy: text("created_by"), // Access code of the admin who created it; vazio nos feriados pré-carregados
+  createdByAccountId: integer("created_by_account_id"),
+  createdAt: timestamp("created_at", { mode: "string" }).defaultNow().notNull(),
+});
+
 // Bookings table - stores the appointments made by SAC users
 export const bookings = pgTable("bookings", {
   id: serial("id").primaryKey(),
   availabilityId: integer("availability_id").notNull(),
+  date: text("date"), // Format: YYYY-MM-DD, copiada da disponibilidade para sobreviver à remoção dela
   clientName: text("client_name").notNull(),
   clientDocument: text("client_document"), // CPF - agora opcional
   clientPhone: text("client_phone"), // Telefone - agora opcional
@@ -38,44 +259,452 @@ export const bookings = pgTable("bookings", {
   timeSlot: text("time_slot").notNull(), // Format: HH:MM
   comments: text("comments"), // Comentários sobre a visita técnica
   createdBy: text("created_by").notNull(), // Access code of the SAC user who created it
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  status: text("status").default("confirmed").notNull(), // confirmed, cancelled, etc.
+  createdByAccountId: integer("created_by_account_id"), // Atendente que fez o agendamento, se logado com conta pessoal
+  createdAt: timestamp("created_at", { mode: "string" }).defaultNow().notNull(),
+  status: text("status").$type<BookingStatus>().default("scheduled").notNull(), // Ver BOOKING_TRANSITIONS
+  statusReason: text("status_reason"), // Motivo informado no cancelamento ou remarcação
+  statusChangedBy: text("status_changed_by"), // Access code of the user who changed the status
+  statusChangedByAccountId: integer("status_changed_by_account_id"),
+  statusChangedAt: timestamp("status_changed_at", { mode: "string" }),
+  rescheduledFromId: integer("rescheduled_from_id"), // Agendamento original quando este foi gerado por remarcação
+  checkedInAt: timestamp("checked_in_at", { mode: "string" }), // Chegada do técnico/cliente registrada pela EMBASA
+  completedAt: timestamp("completed_at", { mode: "string" }), // Horário de conclusão informado pela EMBASA
+  technicianNotes: text("technician_notes"), // Observações do técnico sobre a visita
 });
 
 // Insert schemas
 export const insertAccessCodeSchema = createInsertSchema(accessCodes).omit({ 
+  id: true,
+  codeHash: true,
+  codeLookup: true,
+  createdAt: true,
+  loginCount: true,
+  bookingCount: true,
+}).extend({
+  validFrom: z.string().datetime({ offset: true }).nullable().optional(),
+  expiresAt: z.string().datetime({ offset: true }).nullable().optional(),
+  maxLogins: z.number().int().positive().nullable().optional(),
+  maxBookings: z.number().int().positive().nullable().optional(),
+});
+
+export const insertLocationSchema = createInsertSchema(locations).omit({
   id: true,
   createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Nome é obrigatório"),
+  type: z.enum(LOCATION_TYPES),
+  address: z.string().trim().nullable().optional(),
+  municipality: z.string().trim().nullable().optional(),
 });
 
+export const updateLocationSchema = insertLocationSchema.partial();
+
+export const insertRoleSchema = createInsertSchema(roles).omit({
+  id: true,
+  builtin: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Nome é obrigatório"),
+  baseRole: z.enum(userRoleEnum.enumValues),
+  permissions: z.array(z.enum(PERMISSIONS)).transform(permissions => Array.from(new Set(permissions))),
+});
+
+// O papel base não muda depois de criado, pois define o painel dos códigos que já usam o perfil
+export const updateRoleSchema = insertRoleSchema.omit({ baseRole: true }).partial();
+
 export const insertAvailabilitySchema = createInsertSchema(availabilities).omit({ 
   id: true, 
   createdAt: true,
+  seriesId: true,
+});
+
+export const insertBlackoutDateSchema = createInsertSchema(blackoutDates).omit({ 
+  id: true, 
+  createdAt: true,
+}).extend({
+  type: z.enum(BLACKOUT_TYPES),
 });
 
 export const insertBookingSchema = createInsertSchema(bookings).omit({ 
   id: true, 
+  date: true,
   createdAt: true,
+  statusReason: true,
+  statusChangedBy: true,
+  statusChangedByAccountId: true,
+  statusChangedAt: true,
+  rescheduledFromId: true,
+  checkedInAt: true,
+  completedAt: true,
+  technicianNotes: true,
 });
 
 // Types
-export type AccessCode = typeof accessCodes.$inferSelect;
+// O hash e a chave de busca nunca saem da camada de armazenamento
+export type Location = typeof locations.$inferSelect;
+export type InsertLocation = z.infer<typeof insertLocationSchema>;
+export type UpdateLocation = z.infer<typeof updateLocationSchema>;
+// Unidade com a quantidade de códigos ativos vinculados, para o painel do administrador
+export type LocationWithUsage = Location & { accessCodeCount: number };
+
+export type Role = typeof roles.$inferSelect;
+export type InsertRole = z.infer<typeof insertRoleSchema>;
+export type UpdateRole = z.infer<typeof updateRoleSchema>;
+// Perfil com a quantidade de códigos de acesso que o usam, para o painel do administrador
+export type RoleWithUsage = Role & { accessCodeCount: number };
+
+export type AccessCode = Omit<typeof accessCodes.$inferSelect, "codeHash" | "codeLookup">;
 export type InsertAccessCode = z.infer<typeof insertAccessCodeSchema>;
+export type UpdateAccessCode = z.infer<typeof updateAccessCodeSchema>;
+export type IssueAccessCodes = z.infer<typeof issueAccessCodesSchema>;
+// Código recém-emitido, com o código em texto puro que não poderá ser consultado depois
+export type IssuedAccessCode = AccessCode & { secret: string };
+
+// Quem executa uma alteração: o código de acesso (unidade) e, se logado com uma, a conta pessoal
+export type Actor = { code: string; accountId: number | null };
+
+// O hash da senha nunca sai da camada de armazenamento
+export type UserAccount = Omit<typeof userAccounts.$inferSelect, "passwordHash">;
+export type InsertUserAccount = z.infer<typeof createUserAccountSchema>;
+export type UpdateUserAccount = z.infer<typeof updateUserAccountSchema>;
+// Conta listada no painel do administrador, com o código de acesso ao qual pertence
+export type UserAccountWithAccessCode = UserAccount & { accessCode: string; role: string; location: string };
+
+// O hash do token nunca sai da camada de armazenamento
+export type Session = Omit<typeof sessions.$inferSelect, "tokenHash">;
+// Sessão válida com os dados atuais do código de acesso e da conta pessoal (se houver)
+export type ActiveSession = { session: Session; accessCode: AccessCode; account: UserAccount | null };
+export type InsertSession = Pick<typeof sessions.$inferInsert, "tokenHash" | "accessCodeId" | "userAccountId" | "ip" | "userAgent">;
+
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type InsertLoginAttempt = Omit<LoginAttempt, "id" | "createdAt">;
+// Tentativa listada no painel do administrador, com o identificador público do código quando conhecido
+export type FailedLoginAttempt = LoginAttempt & { accessCode: string | null };
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = Omit<AuditEvent, "id" | "createdAt">;
 
 export type Availability = typeof availabilities.$inferSelect;
 export type InsertAvailability = z.infer<typeof insertAvailabilitySchema>;
 
+export type AvailabilitySeries = typeof availabilitySeries.$inferSelect;
+
+export type TimeSlot = typeof timeSlots.$inferSelect;
+
+export type BlackoutDate = typeof blackoutDates.$inferSelect;
+export type InsertBlackoutDate = z.infer<typeof insertBlackoutDateSchema>;
+
 export type Booking = typeof bookings.$inferSelect;
 export type InsertBooking = z.infer<typeof insertBookingSchema>;
 
+// Agendamento visto pela EMBASA, com a unidade SAC que o registrou
+export type BookingWithSacLocation = Booking & { sacLocation: string | null; createdByName: string | null };
+
+// Agendamento visto pelo supervisor SAC, com a unidade EMBASA onde a visita acontece
+export type SupervisedBooking = BookingWithSacLocation & { embasaLocation: string | null };
+
+// Converte "HH:MM" em minutos desde a meia-noite
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(part => parseInt(part, 10));
+  return hours * 60 + (minutes || 0);
+}
+
+// Converte minutos desde a meia-noite em "HH:MM"
+export function minutesToTime(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}`;
+}
+
+// Divide a janela [startTime, endTime) em horários de slotDuration minutos, pulando os intervalos.
+// Um horário que invadiria um intervalo recomeça no fim dele; uma sobra menor que slotDuration não vira horário.
+export function createTimeSlots(
+  startTime: string,
+  endTime: string,
+  slotDuration: number = DEFAULT_SLOT_DURATION,
+  breaks: TimeRange[] = [],
+): string[] {
+  const slots: string[] = [];
+  const end = timeToMinutes(endTime);
+  let start = timeToMinutes(startTime);
+
+  while (start + slotDuration <= end) {
+    const overlappingBreak = breaks.find(
+      b => start < timeToMinutes(b.end) && start + slotDuration > timeToMinutes(b.start),
+    );
+
+    if (overlappingBreak) {
+      start = timeToMinutes(overlappingBreak.end);
+      continue;
+    }
+
+    slots.push(minutesToTime(start));
+    start += slotDuration;
+  }
+
+  return slots;
+}
+
+export const timeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Horário inválido (use HH:MM)");
+
+export const timeRangeSchema = z
+  .object({ start: timeSchema, end: timeSchema })
+  .refine(range => timeToMinutes(range.end) > timeToMinutes(range.start), {
+    message: "O fim do intervalo deve ser depois do início",
+    path: ["end"],
+  });
+
+// Janela de atendimento de uma disponibilidade: horários, duração de cada horário e intervalos
+export const availabilityWindowSchema = z
+  .object({
+    startTime: timeSchema,
+    endTime: timeSchema,
+    slotDuration: z.coerce
+      .number()
+      .refine(value => (SLOT_DURATIONS as readonly number[]).includes(value), "Duração deve ser de 15, 30, 45 ou 60 minutos"),
+    breaks: z.array(timeRangeSchema).default([]),
+  })
+  .superRefine((window, ctx) => {
+    const start = timeToMinutes(window.startTime);
+    const end = timeToMinutes(window.endTime);
+
+    if (end <= start) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Horário final deve ser depois do inicial", path: ["endTime"] });
+      return;
+    }
+
+    if (window.breaks.some(b => timeToMinutes(b.start) < start || timeToMinutes(b.end) > end)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Intervalos devem estar dentro da janela de atendimento", path: ["breaks"] });
+      return;
+    }
+
+    if (createTimeSlots(window.startTime, window.endTime, window.slotDuration, window.breaks).length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A janela de horário não comporta nenhum horário de atendimento", path: ["endTime"] });
+    }
+  });
+
+export type AvailabilityWindow = z.infer<typeof availabilityWindowSchema>;
+
+// Limite de disponibilidades geradas por uma única série
+export const MAX_SERIES_OCCURRENCES = 366;
+
+export const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Data inválida (use AAAA-MM-DD)");
+
+// Regra de recorrência semanal: dias da semana (0 = domingo), a cada N semanas,
+// até uma data ou por um número de ocorrências, sem as datas de exceção
+export const recurrenceRuleSchema = z
+  .object({
+    daysOfWeek: z.array(z.number().int().min(0).max(6)).min(1, "Selecione ao menos um dia da semana"),
+    interval: z.coerce.number().int().min(1).max(52).default(1),
+    until: dateSchema.optional(),
+    count: z.coerce.number().int().min(1).max(MAX_SERIES_OCCURRENCES).optional(),
+    exceptions: z.array(dateSchema).default([]),
+  })
+  .refine(rule => !!rule.until || !!rule.count, {
+    message: "Informe a data final ou o número de ocorrências",
+    path: ["until"],
+  });
+
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+
+// Gera as datas (AAAA-MM-DD) de uma série a partir da data inicial. As semanas são contadas a partir
+// da semana da data inicial; datas de exceção não contam para o número de ocorrências.
+// Uma regra limitada só pela data final pode passar de MAX_SERIES_OCCURRENCES: a geração para na
+// primeira data além do limite, e quem chama recusa a série quando recebe mais datas que o limite.
+export function expandRecurrence(startDate: string, rule: RecurrenceRule): string[] {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const [year, month, day] = startDate.split("-").map(Number);
+  const start = Date.UTC(year, month - 1, day);
+  const weekStart = start - new Date(start).getUTCDay() * dayMs;
+  const lastDay = rule.until ? Date.parse(`${rule.until}T00:00:00Z`) : Infinity;
+  const limit = rule.count ?? MAX_SERIES_OCCURRENCES + 1;
+  const dates: string[] = [];
+
+  for (let current = start; current <= lastDay && dates.length < limit; current += dayMs) {
+    const date = new Date(current);
+    const week = Math.floor((current - weekStart) / (7 * dayMs));
+    const dateStr = date.toISOString().slice(0, 10);
+
+    if (
+      rule.daysOfWeek.includes(date.getUTCDay()) &&
+      week % rule.interval === 0 &&
+      !rule.exceptions.includes(dateStr)
+    ) {
+      dates.push(dateStr);
+    }
+  }
+
+  return dates;
+}
+
+// Bloqueio criado pelo administrador; o autor vem da sessão
+export const createBlackoutDateSchema = insertBlackoutDateSchema.omit({ createdBy: true, createdByAccountId: true }).extend({
+  date: dateSchema,
+  name: z.string().trim().min(1, "Descrição é obrigatória"),
+  type: z.enum(BLACKOUT_TYPES).default("closure"),
+  location: z.string().trim().nullish().transform(location => location || null),
+});
+
+export const importHolidaysSchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100),
+});
+
+// Remoção de disponibilidade: com um motivo, os agendamentos confirmados são cancelados pela EMBASA;
+// sem motivo, a remoção é recusada enquanto houver agendamentos confirmados
+export const deleteAvailabilitySchema = z
+  .object({
+    cancelReason: z.string().trim().min(1, "Informe o motivo do cancelamento").optional(),
+  })
+  .default({});
+
+// Resultado da visita registrado pela EMBASA; completedAt vale só para visitas concluídas (padrão: agora)
+export const visitOutcomeSchema = z.object({
+  status: z.enum(VISIT_OUTCOME_STATUSES),
+  technicianNotes: z.string().trim().optional(),
+  completedAt: z.string().datetime({ offset: true }).optional(),
+});
+
+export type VisitOutcome = z.infer<typeof visitOutcomeSchema>;
+
+// Filtros da listagem de agendamentos da EMBASA: por disponibilidade, por dia ou por período
+export const embasaBookingsQuerySchema = z
+  .object({
+    availabilityId: z.coerce.number().int().positive().optional(),
+    date: dateSchema.optional(),
+    from: dateSchema.optional(),
+    to: dateSchema.optional(),
+  })
+  .refine(query => !!query.availabilityId || !!query.date || (!!query.from && !!query.to), {
+    message: "Informe a disponibilidade, o dia ou o período (from e to)",
+  });
+
+export type EmbasaBookingsQuery = z.infer<typeof embasaBookingsQuerySchema>;
+
+// Painel do supervisor SAC: agendamentos dos códigos da região por período da visita, opcionalmente por status
+export const supervisorBookingsQuerySchema = z.object({
+  from: dateSchema,
+  to: dateSchema,
+  status: z.enum(BOOKING_STATUSES).optional(),
+});
+
+export type SupervisorBookingsQuery = z.infer<typeof supervisorBookingsQuerySchema>;
+
+// Remanejamento de um agendamento para o código de outro atendente SAC da mesma região
+export const reassignBookingSchema = z.object({
+  accessCodeId: z.number().int().positive(),
+});
+
+export type ReassignBooking = z.infer<typeof reassignBookingSchema>;
+
+// Filtros da trilha de auditoria (período em datas AAAA-MM-DD, inclusivo)
+export const auditEventsQuerySchema = z.object({
+  actor: z.string().trim().min(1).optional(),
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.coerce.number().int().positive().optional(),
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(5000).default(500),
+});
+
+export type AuditEventsQuery = z.infer<typeof auditEventsQuerySchema>;
+
+// Abrangência de edições/remoções em disponibilidades que fazem parte de uma série
+export const SERIES_SCOPES = ["occurrence", "following", "series"] as const;
+export type SeriesScope = typeof SERIES_SCOPES[number];
+
+// Público de uma disponibilidade; null publica para todos os postos SAC
+export const availabilityAudienceSchema = z
+  .object({
+    locationIds: z.array(z.number().int().positive()).default([]),
+    municipalities: z.array(z.string().trim().min(1)).default([]),
+  })
+  .refine(
+    audience => audience.locationIds.length > 0 || audience.municipalities.length > 0,
+    "Informe ao menos um posto SAC ou município"
+  )
+  .nullable();
+
+// Um posto SAC vê a disponibilidade se ela for pública, listar o posto ou o município dele
+export function availabilityVisibleTo(
+  audience: AvailabilityAudience | null,
+  sacLocation?: { id: number; municipality: string | null }
+): boolean {
+  if (!audience) {
+    return true;
+  }
+
+  if (!sacLocation) {
+    return false;
+  }
+
+  const municipality = sacLocation.municipality?.trim().toLowerCase();
+  return audience.locationIds.includes(sacLocation.id) ||
+    (!!municipality && audience.municipalities.some(m => m.trim().toLowerCase() === municipality));
+}
+
+export const updateAvailabilitySchema = z.object({
+  startTime: timeSchema.optional(),
+  endTime: timeSchema.optional(),
+  capacity: z.coerce.number().int().min(1, "Capacidade deve ser pelo menos 1").optional(),
+  slotDuration: z.coerce.number().optional(),
+  breaks: z.array(timeRangeSchema).optional(),
+  audience: availabilityAudienceSchema.optional(),
+  scope: z.enum(SERIES_SCOPES).default("occurrence"),
+});
+
+export type UpdateAvailability = z.infer<typeof updateAvailabilitySchema>;
+
 // Extended schemas for form validation
 export const loginSchema = z.object({
   accessCode: z.string().min(1, "Código de acesso é obrigatório"),
 });
 
-export const generateCodeSchema = insertAccessCodeSchema.extend({
-  code: z.string().min(6, "Código deve ter pelo menos 6 caracteres"),
-  location: z.string().min(1, "Localização é obrigatória"),
+// Edição pelo administrador; um novo "code" troca o código de acesso, mas o identificador público se mantém
+export const updateAccessCodeSchema = insertAccessCodeSchema.partial().extend({
+  code: z.string().trim().min(6, "Código deve ter pelo menos 6 caracteres").optional(),
+  // Zera os contadores de logins e agendamentos, para reativar um código que esgotou o limite
+  resetUsage: z.boolean().optional(),
+});
+
+// Contas pessoais: criadas pelo administrador para um código de acesso existente
+export const createUserAccountSchema = z.object({
+  accessCodeId: z.number().int().positive(),
+  name: z.string().trim().min(1, "Nome é obrigatório"),
+  registrationNumber: z.string().trim().min(1, "Matrícula é obrigatória"),
+  password: z.string().min(4, "A senha ou PIN deve ter pelo menos 4 caracteres"),
+});
+
+export const updateUserAccountSchema = createUserAccountSchema
+  .pick({ name: true, password: true })
+  .partial()
+  .extend({ active: z.boolean().optional() });
+
+export const accountLoginSchema = z.object({
+  registrationNumber: z.string().trim().min(1, "Matrícula é obrigatória"),
+  password: z.string().min(1, "Senha é obrigatória"),
+});
+
+// Alfabeto padrão dos códigos gerados: sem caracteres que se confundem na leitura (0/O, 1/I/L)
+export const ACCESS_CODE_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+export const DEFAULT_ACCESS_CODE_LENGTH = 10;
+export const MAX_ISSUED_ACCESS_CODES = 100;
+
+// Emissão em lote de códigos gerados no servidor para uma unidade; os códigos em texto puro
+// só aparecem na resposta da emissão
+export const issueAccessCodesSchema = insertAccessCodeSchema.omit({ code: true, active: true, location: true }).extend({
+  locationId: z.number().int().positive(),
+  count: z.number().int().min(1).max(MAX_ISSUED_ACCESS_CODES),
+  length: z.number().int().min(8).max(32).default(DEFAULT_ACCESS_CODE_LENGTH),
+  alphabet: z.string()
+    .trim()
+    .transform(alphabet => Array.from(new Set(alphabet)).join(""))
+    .refine(alphabet => alphabet.length >= 16, "Alfabeto deve ter pelo menos 16 caracteres distintos")
+    .default(ACCESS_CODE_ALPHABET),
+  rolePrefix: z.boolean().default(true),
 });
 
 export const availabilityFormSchema = insertAvailabilitySchema.extend({
@@ -94,3 +723,23 @@ export const bookingFormSchema = insertBookingSchema.extend({
   clientDocument: z.string().optional(),
   clientPhone: z.string().optional(),
 });
+
+// Dados aceitos em POST /api/bookings; autor e status são definidos pelo servidor
+export const createBookingSchema = insertBookingSchema.omit({
+  createdBy: true,
+  createdByAccountId: true,
+  status: true,
+});
+
+export const cancelBookingSchema = z.object({
+  reason: z.string().trim().min(1, "Motivo do cancelamento é obrigatório"),
+});
+
+export const rescheduleBookingSchema = z.object({
+  availabilityId: z.coerce.number().int().positive("Disponibilidade é obrigatória"),
+  timeSlot: z.string().min(1, "Horário é obrigatório"),
+  reason: z.string().trim().optional(),
+});
+
+export type CancelBooking = z.infer<typeof cancelBookingSchema>;
+export type RescheduleBooking = z.infer<typeof rescheduleBookingSchema>;